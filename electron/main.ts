@@ -1,9 +1,21 @@
-import { app, BrowserWindow, shell, systemPreferences } from 'electron';
+import { app, BrowserWindow, session, shell, systemPreferences } from 'electron';
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
 import { startNextServer, stopNextServer } from './server';
 
 const isDev = process.env.NODE_ENV === 'development';
+const appUrl = 'http://localhost:3000';
+
+// Local session for the API routes: the Next.js server runs in this process and
+// accepts this token (as the algo_local_session cookie) in place of a Firebase ID token
+const localSessionToken = crypto.randomBytes(32).toString('hex');
+process.env.ALGO_LOCAL_SESSION_TOKEN = localSessionToken;
+
+// Local and sync storage (ALGO_STORAGE=local or sync) keep their files with the app's user data
+if (!process.env.ALGO_DATA_DIR) {
+  process.env.ALGO_DATA_DIR = path.join(app.getPath('userData'), 'data');
+}
 
 let mainWindow: BrowserWindow | null = null;
 
@@ -38,10 +50,9 @@ function createWindow(): void {
   });
 
   // Load the Next.js app
-  const url = 'http://localhost:3000';
-  console.log('[Electron] Loading URL:', url);
+  console.log('[Electron] Loading URL:', appUrl);
 
-  mainWindow.loadURL(url).catch((err) => {
+  mainWindow.loadURL(appUrl).catch((err) => {
     console.error('[Electron] Failed to load URL:', err);
   });
 
@@ -81,6 +92,15 @@ app.whenReady().then(async () => {
     await startNextServer();
     log('Next.js server started successfully');
 
+    // Only this window gets the cookie - other machines on the LAN still need to sign in
+    await session.defaultSession.cookies.set({
+      url: appUrl,
+      name: 'algo_local_session',
+      value: localSessionToken,
+      httpOnly: true,
+      sameSite: 'strict',
+    });
+
     createWindow();
     log('Window created');
 
@@ -0,0 +1,36 @@
+/**
+ * PCM Capture AudioWorklet
+ * Posts the first input channel to the main thread in fixed-size blocks
+ * (Float32Array, transferred). Used by useAudioCapture's onAudioData option.
+ */
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.blockSize = 2048;
+    this.buffer = new Float32Array(this.blockSize);
+    this.offset = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    let read = 0;
+    while (read < channel.length) {
+      const count = Math.min(channel.length - read, this.blockSize - this.offset);
+      this.buffer.set(channel.subarray(read, read + count), this.offset);
+      this.offset += count;
+      read += count;
+
+      if (this.offset === this.blockSize) {
+        this.port.postMessage(this.buffer, [this.buffer.buffer]);
+        this.buffer = new Float32Array(this.blockSize);
+        this.offset = 0;
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
@@ -0,0 +1,58 @@
+/**
+ * Run a fleet of simulated Algo devices on loopback for development.
+ *
+ * Usage:
+ *   npm run simulator -- --adapters 1 --speakers 8 --port 9100 --auth standard --password algo
+ *
+ * Each device listens on its own port; add it in the Devices page using
+ * "127.0.0.1:<port>" as the IP address.
+ */
+import { startSimulatorFleet } from "../src/lib/algo/simulator";
+import type { AlgoAuthMethod } from "../src/lib/algo/types";
+
+function readArg(name: string, fallback: string): string {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1 || index + 1 >= process.argv.length) return fallback;
+  return process.argv[index + 1];
+}
+
+async function main(): Promise<void> {
+  const pagingAdapters = parseInt(readArg("adapters", "1"), 10);
+  const speakers = parseInt(readArg("speakers", "4"), 10);
+  const basePort = parseInt(readArg("port", "9100"), 10);
+  const authMethod = readArg("auth", "standard") as AlgoAuthMethod;
+  const password = readArg("password", "algo");
+  const latencyMs = parseInt(readArg("latency", "0"), 10);
+
+  if (!["standard", "basic", "none"].includes(authMethod)) {
+    throw new Error(`Unknown auth method "${authMethod}" (expected standard, basic or none)`);
+  }
+
+  const simulators = await startSimulatorFleet({
+    pagingAdapters,
+    speakers,
+    basePort,
+    authMethod,
+    password,
+    latencyMs,
+  });
+
+  console.log(`[Simulator] ${simulators.length} devices running (auth: ${authMethod}, password: ${password})`);
+  for (const simulator of simulators) {
+    console.log(`  ${simulator.profile.padEnd(7)} ${simulator.name.padEnd(16)} ${simulator.address}`);
+  }
+
+  const shutdown = async () => {
+    console.log("[Simulator] Shutting down...");
+    await Promise.all(simulators.map((simulator) => simulator.stop()));
+    process.exit(0);
+  };
+
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error("[Simulator] Failed to start:", error);
+  process.exit(1);
+});
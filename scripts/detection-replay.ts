@@ -0,0 +1,103 @@
+/**
+ * Replay the Live monitor's detection against a level trace (downloaded
+ * from the Live page) or a WAV recording, and print the timeline.
+ *
+ * Usage:
+ *   npm run replay -- trace.json [--attack -38] [--release -44] [--adaptive off] [--margin 12]
+ *                                [--sustain 1000] [--disable 3000] [--max-triggers 6] [--lockout 60]
+ *                                [--recorded]
+ *   npm run replay -- clip.wav --attack -38
+ *
+ * Options override the trace's recorded settings (a WAV starts from the
+ * defaults). --recorded also prints the transitions the monitor logged.
+ */
+import { readFileSync } from "fs";
+import { DEFAULT_DETECTOR_SETTINGS } from "../src/lib/audio/level-detector";
+import { parseLevelTrace, type TraceSettings } from "../src/lib/audio/level-trace";
+import { replayTrace, replayPcm, decodeWav, formatTimeline, type ReplayResult } from "../src/lib/audio/detection-replay";
+
+const DEFAULT_SETTINGS: TraceSettings = {
+  ...DEFAULT_DETECTOR_SETTINGS,
+  sustainDuration: 1000,
+  disableDelay: 3000,
+};
+
+const NUMBER_OPTIONS: Record<string, keyof TraceSettings> = {
+  attack: "attackDbfs",
+  release: "releaseDbfs",
+  margin: "floorMarginDb",
+  sustain: "sustainDuration",
+  disable: "disableDelay",
+  "max-triggers": "maxTriggersPerMinute",
+  lockout: "lockoutSeconds",
+};
+
+function readArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1 || index + 1 >= process.argv.length) return undefined;
+  return process.argv[index + 1];
+}
+
+function readOverrides(): Partial<TraceSettings> {
+  const overrides: Partial<TraceSettings> = {};
+  for (const [option, key] of Object.entries(NUMBER_OPTIONS)) {
+    const value = readArg(option);
+    if (value === undefined) continue;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) throw new Error(`--${option} expects a number, got "${value}"`);
+    (overrides as Record<string, number>)[key] = parsed;
+  }
+  const adaptive = readArg("adaptive");
+  if (adaptive !== undefined) overrides.adaptive = adaptive === "on" || adaptive === "true";
+  return overrides;
+}
+
+function printSummary(label: string, result: ReplayResult): void {
+  console.log(
+    `${label}: ${result.activations} activations, ${result.blocked} blocked by lockout, ` +
+    `speakers open ${(result.openMs / 1000).toFixed(1)}s of ${(result.durationMs / 1000).toFixed(1)}s`,
+  );
+}
+
+function main(): void {
+  const file = process.argv[2];
+  if (!file || file.startsWith("--")) {
+    throw new Error("Usage: npm run replay -- <trace.json|clip.wav> [options]");
+  }
+  const overrides = readOverrides();
+  const bytes = readFileSync(file);
+
+  if (file.toLowerCase().endsWith(".wav")) {
+    const { samples, sampleRate } = decodeWav(new Uint8Array(bytes));
+    const settings = { ...DEFAULT_SETTINGS, ...overrides };
+    console.log(`[Replay] ${file}: ${(samples.length / sampleRate).toFixed(1)}s at ${sampleRate} Hz`);
+    console.log(`[Replay] Settings: ${JSON.stringify(settings)}`);
+    const result = replayPcm(samples, sampleRate, settings);
+    formatTimeline(result.events).forEach(line => console.log(line));
+    printSummary("Replay", result);
+    return;
+  }
+
+  const trace = parseLevelTrace(bytes.toString("utf8"));
+  console.log(`[Replay] ${file}: trace from ${trace.startedAt}, ${trace.levels.length} blocks of ${trace.blockMs.toFixed(1)}ms`);
+  console.log(`[Replay] Settings: ${JSON.stringify({ ...trace.settings, ...overrides })}`);
+
+  if (process.argv.includes("--recorded")) {
+    console.log("\nRecorded:");
+    formatTimeline(trace.events).forEach(line => console.log(line));
+  }
+
+  const result = replayTrace(trace, overrides);
+  console.log("\nReplayed:");
+  formatTimeline(result.events).forEach(line => console.log(line));
+  console.log("");
+  console.log(`Recorded: ${trace.events.filter(event => event.type === "opened").length} activations`);
+  printSummary("Replay", result);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error("[Replay] Failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,115 @@
+/**
+ * Send a WAV file to an RTP multicast group the way the Live page does, or
+ * listen to a group and print what arrives. Run both on one machine to
+ * check the stream on loopback.
+ *
+ * Usage:
+ *   npm run rtp -- send clip.wav [--address 224.0.2.60] [--port 50000] [--codec pcmu|pcma|l16] [--ttl 4]
+ *   npm run rtp -- listen [--address 224.0.2.60] [--port 50000] [--codec pcmu|pcma|l16]
+ */
+import { readFileSync } from "fs";
+import { decodeWav } from "../src/lib/audio/detection-replay";
+import { StreamResampler } from "../src/lib/audio/resampler";
+import { openRtpSender } from "../src/lib/audio/rtp-sender";
+import { openRtpReceiver } from "../src/lib/audio/rtp-receiver";
+import type { RtpCodec } from "../src/lib/audio/rtp";
+
+const CODECS: RtpCodec[] = ["pcmu", "pcma", "l16"];
+const CHUNK_MS = 1000;
+const PACKET_MS = 20;
+const AHEAD_MS = 2000;
+
+function readArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1 || index + 1 >= process.argv.length) return undefined;
+  return process.argv[index + 1];
+}
+
+function readTarget(): { address: string; port: number; codec?: RtpCodec } {
+  const address = readArg("address") ?? "224.0.2.60";
+  const port = Number(readArg("port") ?? 50000);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) throw new Error(`--port expects a port number`);
+  const codec = readArg("codec") as RtpCodec | undefined;
+  if (codec && !CODECS.includes(codec)) throw new Error(`--codec expects one of ${CODECS.join(", ")}`);
+  return { address, port, codec };
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function send(file: string): Promise<void> {
+  const { address, port, codec = "pcmu" } = readTarget();
+  const { samples, sampleRate } = decodeWav(new Uint8Array(readFileSync(file)));
+  const ttl = readArg("ttl");
+  const sender = await openRtpSender({ address, port, codec, ttl: ttl ? Number(ttl) : undefined });
+  const resampler = new StreamResampler(sampleRate, sender.format.sampleRate);
+  console.log(`[RTP] Sending ${file} (${(samples.length / sampleRate).toFixed(1)}s) to ${address}:${port} as ${codec}`);
+
+  const chunk = Math.round((sampleRate * CHUNK_MS) / 1000);
+  for (let offset = 0; offset < samples.length; offset += chunk) {
+    const resampled = resampler.process(samples.subarray(offset, offset + chunk));
+    const pcm = new Int16Array(resampled.length);
+    for (let i = 0; i < resampled.length; i++) {
+      const s = Math.max(-1, Math.min(1, resampled[i]));
+      pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    }
+    const queuedMs = sender.write(pcm);
+    if (queuedMs > AHEAD_MS) await wait(queuedMs - AHEAD_MS);
+  }
+
+  // Pad the last packet out with silence, then let it play
+  sender.write(new Int16Array((sender.format.sampleRate * PACKET_MS) / 1000));
+  while (sender.queuedMs() >= PACKET_MS) await wait(100);
+  console.log(`[RTP] Sent ${sender.packetsSent()} packets`);
+  sender.close();
+}
+
+async function listen(): Promise<void> {
+  const { address, port, codec } = readTarget();
+  let packets = 0;
+  let peak = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  console.log(`[RTP] Listening on ${address}:${port}...`);
+  const receiver = await openRtpReceiver({ group: address, port, codec }, samples => {
+    packets++;
+    for (const sample of samples) {
+      peak = Math.max(peak, Math.abs(sample));
+      sumSquares += sample * sample;
+    }
+    count += samples.length;
+  });
+  console.log(`[RTP] Receiving ${receiver.format.codec} at ${receiver.format.sampleRate} Hz (Ctrl+C to stop)`);
+
+  const dbfs = (value: number) => (value > 0 ? (20 * Math.log10(value / 0x8000)).toFixed(1) : "-inf");
+  const report = setInterval(() => {
+    const rms = count ? Math.sqrt(sumSquares / count) : 0;
+    console.log(`[RTP] ${packets} packets, RMS ${dbfs(rms)} dBFS, peak ${dbfs(peak)} dBFS`);
+    packets = 0;
+    peak = 0;
+    sumSquares = 0;
+    count = 0;
+  }, 1000);
+
+  process.on("SIGINT", () => {
+    clearInterval(report);
+    receiver.close();
+    process.exit(0);
+  });
+}
+
+async function main(): Promise<void> {
+  const mode = process.argv[2];
+  if (mode === "send" && process.argv[3] && !process.argv[3].startsWith("--")) {
+    await send(process.argv[3]);
+  } else if (mode === "listen") {
+    await listen();
+  } else {
+    throw new Error("Usage: npm run rtp -- send <clip.wav> [options] | listen [options]");
+  }
+}
+
+main().catch(error => {
+  console.error("[RTP] Failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteRegisteredDevice, updateRegisteredDevice, validateDeviceInput } from "@/lib/algo/registry";
+import type { AlgoDeviceInput } from "@/lib/algo/types";
+import { algoErrorResponse, badRequest } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
+
+interface DeviceRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Leave apiPassword empty to keep the stored password
+export async function PATCH(request: NextRequest, { params }: DeviceRouteContext) {
+  const auth = await authorizeRequest(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = await params;
+    const body: Partial<AlgoDeviceInput> = await request.json();
+
+    const validationError = validateDeviceInput(body, true);
+    if (validationError) {
+      return badRequest(validationError);
+    }
+
+    await updateRegisteredDevice(id, body);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Update device error:", error);
+    return algoErrorResponse(error, "Failed to update device");
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: DeviceRouteContext) {
+  const auth = await authorizeRequest(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = await params;
+    await deleteRegisteredDevice(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Delete device error:", error);
+    return algoErrorResponse(error, "Failed to delete device");
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createRegisteredDevice, validateDeviceInput } from "@/lib/algo/registry";
+import type { AlgoDeviceInput } from "@/lib/algo/types";
+import { algoErrorResponse, badRequest } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
+
+// Devices are created here rather than through the client SDK so the
+// API password can be encrypted before it is stored
+export async function POST(request: NextRequest) {
+  const auth = await authorizeRequest(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body: AlgoDeviceInput = await request.json();
+
+    const validationError = validateDeviceInput(body);
+    if (validationError) {
+      return badRequest(validationError);
+    }
+    if (body.authMethod !== "none" && !body.apiPassword) {
+      return badRequest("API password is required");
+    }
+
+    const id = await createRegisteredDevice(body);
+
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    console.error("Create device error:", error);
+    return algoErrorResponse(error, "Failed to create device");
+  }
+}
@@ -1,39 +1,66 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod } from "@/lib/algo/types";
+import { createDeviceClient, getRegisteredDevice } from "@/lib/algo/registry";
+import { recordDistribution } from "@/lib/algo/distribution-logs";
+import { acquirePlayback } from "@/lib/algo/paging-arbiter";
+import { waitForPlaybackComplete } from "@/lib/algo/playback-jobs";
+import { algoErrorResponse, badRequest, describeError } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
 
 export async function POST(request: NextRequest) {
+  const auth = await authorizeRequest(request, "operator");
+  if (!auth.ok) return auth.response;
+
   try {
     const body = await request.json();
-    const { ipAddress, password, authMethod } = body as {
-      ipAddress: string;
-      password: string;
-      authMethod: AlgoAuthMethod;
-    };
-
-    if (!ipAddress || !password) {
-      return NextResponse.json(
-        { error: "IP address and password are required" },
-        { status: 400 }
-      );
+    const { deviceId } = body as { deviceId: string };
+
+    if (!deviceId) {
+      return badRequest("Device ID is required");
     }
 
-    const client = new AlgoClient({
-      ipAddress,
-      password,
-      authMethod: authMethod || "standard",
+    const device = await getRegisteredDevice(deviceId);
+    const client = createDeviceClient(device);
+
+    const logTest = (success: boolean, error?: unknown) =>
+      recordDistribution({
+        action: "test",
+        audioFileName: "chime.wav",
+        targetDevices: [device.id],
+        results: [
+          {
+            deviceId: device.id,
+            deviceName: device.name,
+            success,
+            ...(success ? {} : describeError(error, "Failed")),
+          },
+        ],
+        user: auth.user,
+      });
+
+    // Test tones are routine and never interrupt another page
+    const page = await acquirePlayback([{ source: device, speakers: [] }], {
+      priority: "routine",
+      label: `Test tone: ${device.name}`,
+      user: auth.user.email ?? auth.user.uid,
     });
 
     // Play a tone file (chime.wav is standard on Algo devices)
     // mcast: true broadcasts to multicast receivers (speakers)
-    await client.playTone({ path: "chime.wav", loop: false, mcast: true });
+    try {
+      await client.playTone({ path: "chime.wav", loop: false, mcast: true }, { signal: page.signal });
+      // The lease covers the tone until it has finished, not just started
+      await waitForPlaybackComplete(client, page.signal, 10000);
+    } catch (error) {
+      await logTest(false, error);
+      throw error;
+    } finally {
+      page.release();
+    }
+    await logTest(true);
 
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Test tone error:", error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : "Failed to play test tone" },
-      { status: 500 }
-    );
+    return algoErrorResponse(error, "Failed to play test tone");
   }
 }
@@ -1,138 +1,93 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod, AlgoDeviceType } from "@/lib/algo/types";
+import { getPlaybackTargets, getRegisteredZone } from "@/lib/algo/registry";
+import { recordDistribution } from "@/lib/algo/distribution-logs";
+import { jobResults, startPlaybackJob } from "@/lib/algo/playback-jobs";
+import { getLease } from "@/lib/algo/paging-arbiter";
+import { isPagePriority, type PagePriority } from "@/lib/algo/page-priority";
+import { algoErrorResponse, apiError, badRequest } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
 
 interface DistributeRequest {
-  device: {
-    ipAddress: string;
-    password: string;
-    authMethod: AlgoAuthMethod;
-    type?: AlgoDeviceType;
-  };
-  speakers?: Array<{
-    ipAddress: string;
-    password: string;
-    authMethod: AlgoAuthMethod;
-  }>;
+  deviceId?: string; // Linked speakers of a paging device are switched on for playback
+  deviceIds?: string[]; // Several devices in one request, with per-device results
+  zoneIds?: string[]; // Resolved to sources and speakers at send time
   audioUrl?: string;
+  audioFileId?: string; // Library entry, for the history log
+  audioFileName?: string;
   filename?: string;
   loop: boolean;
-  volume: number;
-}
-
-// Helper to control speaker multicast mode
-async function setSpeakersMcast(
-  speakers: DistributeRequest["speakers"],
-  enable: boolean
-): Promise<void> {
-  if (!speakers || speakers.length === 0) return;
-
-  const mcastMode = enable ? "2" : "0";
-
-  await Promise.all(
-    speakers.map(async (speaker) => {
-      try {
-        const client = new AlgoClient({
-          ipAddress: speaker.ipAddress,
-          password: speaker.password,
-          authMethod: speaker.authMethod || "basic",
-        });
-        await client.setSetting({ "mcast.mode": mcastMode });
-      } catch (error) {
-        console.error(`Failed to set mcast for ${speaker.ipAddress}:`, error);
-      }
-    })
-  );
-}
-
-// Helper to wait for playback to complete
-async function waitForPlaybackComplete(
-  client: AlgoClient,
-  maxWaitMs: number = 30000
-): Promise<void> {
-  const startTime = Date.now();
-  const pollInterval = 500;
-
-  while (Date.now() - startTime < maxWaitMs) {
-    try {
-      const status = await client.getStatus();
-      const currentAction = status["Current Action"];
-
-      if (!currentAction || currentAction === "None") {
-        return;
-      }
-    } catch (error) {
-      console.error("Status poll error:", error);
-    }
-
-    await new Promise((resolve) => setTimeout(resolve, pollInterval));
-  }
-
-  console.warn("Playback wait timeout reached");
+  volume?: number; // Defaults to each zone's defaultVolume when targeting zones
+  action?: "live" | "alert"; // Sent by the Live monitor so history shows live broadcasts and tone alerts
+  priority?: PagePriority; // Defaults to dispatch for alerts, announcement for live broadcasts, else routine
+  ifBusy?: "reject" | "queue"; // When a page of equal or higher priority has the devices
+  leaseId?: string; // Play as part of a lease the caller holds (the Live monitor's pre-tone)
 }
 
+// Starts a playback job and answers with it straight away; follow it at
+// /api/algo/jobs/<id>
 export async function POST(request: NextRequest) {
+  const auth = await authorizeRequest(request, "operator");
+  if (!auth.ok) return auth.response;
+
   try {
     const body: DistributeRequest = await request.json();
-    const { device, speakers, filename, loop, volume } = body;
+    const { zoneIds = [], filename, loop, volume } = body;
+    const deviceIds = [...new Set([...(body.deviceId ? [body.deviceId] : []), ...(body.deviceIds ?? [])])];
 
-    if (!device?.ipAddress || !device?.password) {
-      return NextResponse.json(
-        { error: "Device information is required" },
-        { status: 400 }
-      );
+    if (deviceIds.length === 0 && zoneIds.length === 0) {
+      return badRequest("Device ID or zone is required");
     }
-
-    const client = new AlgoClient({
-      ipAddress: device.ipAddress,
-      password: device.password,
-      authMethod: device.authMethod || "standard",
-    });
-
-    // Step 1: Enable speakers (if this is a paging device with linked speakers)
-    if (device.type === "8301" && speakers && speakers.length > 0) {
-      console.log("Enabling speakers...");
-      await setSpeakersMcast(speakers, true);
-      await new Promise((resolve) => setTimeout(resolve, 300));
+    if (body.priority !== undefined && !isPagePriority(body.priority)) {
+      return badRequest("Priority must be emergency, dispatch, announcement or routine");
     }
 
-    // Step 2: Set volume if different from default
-    if (volume !== undefined) {
-      const volumeDb = Math.round((volume / 100) * 42 - 42);
-      try {
-        await client.setSetting({ "audio.page.vol": `${volumeDb}dB` });
-      } catch (e) {
-        console.warn("Failed to set volume:", e);
+    // A parent lease shares its devices, so it must be a live one the caller took
+    const pageUser = auth.user.email ?? auth.user.uid;
+    if (body.leaseId !== undefined) {
+      const parent = typeof body.leaseId === "string" ? getLease(body.leaseId) : null;
+      if (!parent || parent.user !== pageUser) {
+        return apiError("Lease is not held by you", "forbidden", 403);
       }
     }
 
-    // Step 3: Play tone
-    const tonePath = filename || "chime.wav";
-    await client.playTone({
-      path: tonePath,
-      loop,
-      mcast: true,
-    });
+    const [zones, targets] = await Promise.all([
+      Promise.all([...new Set(zoneIds)].map((id) => getRegisteredZone(id))),
+      getPlaybackTargets(deviceIds, zoneIds),
+    ]);
 
-    // Step 4: If not looping and has speakers, wait and disable
-    if (!loop && device.type === "8301" && speakers && speakers.length > 0) {
-      await waitForPlaybackComplete(client);
-      await new Promise((resolve) => setTimeout(resolve, 500));
-      console.log("Disabling speakers...");
-      await setSpeakersMcast(speakers, false);
+    if (targets.length === 0) {
+      return badRequest("Selected zones have no devices");
     }
 
-    return NextResponse.json({
-      success: true,
-      message: loop
-        ? "Playing (looped) - call stop endpoint to end"
-        : "Playback complete",
+    const audioFileName = body.audioFileName || filename || "chime.wav";
+    const job = startPlaybackJob({
+      kind: "distribute",
+      targets,
+      page: {
+        priority: body.priority ?? (body.action === "alert" ? "dispatch" : body.action === "live" ? "announcement" : "routine"),
+        ifBusy: body.ifBusy,
+        parentId: body.leaseId,
+        label: `${body.action === "alert" ? "Tone alert" : body.action === "live" ? "Live broadcast" : "Distribute"}: ${audioFileName}`,
+        user: pageUser,
+      },
+      filename: filename || "chime.wav",
+      loop,
+      volume,
+      onFinished: (finished) =>
+        recordDistribution({
+          action: body.action === "live" || body.action === "alert" ? body.action : "distribute",
+          audioFileId: body.audioFileId,
+          audioFileName,
+          targetDevices: finished.targets.map((t) => t.deviceId),
+          targetZones: zones.map((zone) => zone.name),
+          results: jobResults(finished),
+          user: auth.user,
+        }),
     });
+
+    return NextResponse.json({ success: true, job }, { status: 202 });
   } catch (error) {
     console.error("Distribute error:", error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : "Failed to distribute audio" },
-      { status: 500 }
-    );
+    return algoErrorResponse(error, "Failed to distribute audio");
   }
 }
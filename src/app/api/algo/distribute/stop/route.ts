@@ -1,35 +1,32 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod, AlgoDeviceType } from "@/lib/algo/types";
+import {
+  createDeviceClient,
+  getLinkedSpeakers,
+  getRegisteredDevices,
+  getZoneTargets,
+  type RegisteredDevice,
+} from "@/lib/algo/registry";
+import { getSpeakerMulticast, withoutGroup } from "@/lib/algo/zone-multicast";
+import { assertCanStop, devicesFreeFor, releaseDevices } from "@/lib/algo/paging-arbiter";
+import { isPagePriority, type PagePriority } from "@/lib/algo/page-priority";
+import { algoErrorResponse, badRequest } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
 
 interface StopRequest {
-  device: {
-    ipAddress: string;
-    password: string;
-    authMethod: AlgoAuthMethod;
-    type?: AlgoDeviceType;
-  };
-  speakers?: Array<{
-    ipAddress: string;
-    password: string;
-    authMethod: AlgoAuthMethod;
-  }>;
+  deviceId?: string;
+  deviceIds?: string[];
+  zoneIds?: string[]; // Stop every source the zones resolve to
+  priority?: PagePriority; // Pages below this (or the caller's own) may be stopped; default routine
 }
 
 // Helper to disable speakers
-async function disableSpeakers(
-  speakers: StopRequest["speakers"]
-): Promise<void> {
-  if (!speakers || speakers.length === 0) return;
+async function disableSpeakers(speakers: RegisteredDevice[]): Promise<void> {
+  if (speakers.length === 0) return;
 
   await Promise.all(
     speakers.map(async (speaker) => {
       try {
-        const client = new AlgoClient({
-          ipAddress: speaker.ipAddress,
-          password: speaker.password,
-          authMethod: speaker.authMethod || "basic",
-        });
+        const client = createDeviceClient(speaker);
         await client.setSetting({ "mcast.mode": "0" });
       } catch (error) {
         console.error(`Failed to disable speaker ${speaker.ipAddress}:`, error);
@@ -38,39 +35,75 @@ async function disableSpeakers(
   );
 }
 
+// Stop a source device's tone, then switch its speakers off
+async function stopDevice(device: RegisteredDevice, speakers: RegisteredDevice[]): Promise<void> {
+  const client = createDeviceClient(device);
+
+  // Stop the tone and end the page that played it
+  await client.stopTone();
+  releaseDevices([device.id]);
+
+  // Disable speakers if this is a paging device with linked speakers,
+  // except ones another page is using
+  const free = new Set(devicesFreeFor(null, speakers.map((s) => s.id)));
+  if (free.size > 0) {
+    console.log("Disabling speakers...");
+    await disableSpeakers(speakers.filter((s) => free.has(s.id)));
+  }
+}
+
 export async function POST(request: NextRequest) {
+  const auth = await authorizeRequest(request, "operator");
+  if (!auth.ok) return auth.response;
+
   try {
     const body: StopRequest = await request.json();
-    const { device, speakers } = body;
+    const { zoneIds = [] } = body;
+    const deviceIds = [...new Set([...(body.deviceId ? [body.deviceId] : []), ...(body.deviceIds ?? [])])];
 
-    if (!device?.ipAddress || !device?.password) {
-      return NextResponse.json(
-        { error: "Device information is required" },
-        { status: 400 }
-      );
+    if (deviceIds.length === 0 && zoneIds.length === 0) {
+      return badRequest("Device ID or zone is required");
+    }
+    if (body.priority !== undefined && !isPagePriority(body.priority)) {
+      return badRequest("Priority must be emergency, dispatch, announcement or routine");
     }
 
-    const client = new AlgoClient({
-      ipAddress: device.ipAddress,
-      password: device.password,
-      authMethod: device.authMethod || "standard",
-    });
-
-    // Stop the tone
-    await client.stopTone();
+    // Speakers on a zone's group stay listening to it
+    const speakerMulticast = await getSpeakerMulticast();
 
-    // Disable speakers if this is a paging device with linked speakers
-    if (device.type === "8301" && speakers && speakers.length > 0) {
-      console.log("Disabling speakers...");
-      await disableSpeakers(speakers);
+    const [devices, zoneTargets] = await Promise.all([
+      getRegisteredDevices(deviceIds),
+      zoneIds.length > 0 ? getZoneTargets(zoneIds) : Promise.resolve([]),
+    ]);
+    const targets = new Map<string, { source: RegisteredDevice; speakers: RegisteredDevice[] }>();
+    for (const device of devices) {
+      targets.set(device.id, { source: device, speakers: await getLinkedSpeakers(device) });
+    }
+    for (const target of zoneTargets) {
+      const existing = targets.get(target.source.id);
+      if (existing) {
+        existing.speakers.push(...target.speakers.filter((s) => !existing.speakers.some((e) => e.id === s.id)));
+      } else {
+        targets.set(target.source.id, target);
+      }
     }
 
+    // Nothing is stopped if any device has a page the caller may not end:
+    // only their own pages, or lower priorities than theirs
+    assertCanStop(Array.from(targets.keys()), {
+      user: auth.user.email ?? auth.user.uid,
+      priority: body.priority ?? "routine",
+    });
+
+    await Promise.all(
+      Array.from(targets.values()).map((target) =>
+        stopDevice(target.source, withoutGroup(target.speakers, speakerMulticast))
+      )
+    );
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Stop error:", error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : "Failed to stop audio" },
-      { status: 500 }
-    );
+    return algoErrorResponse(error, "Failed to stop audio");
   }
 }
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod } from "@/lib/algo/types";
+import { createDeviceClient, getRegisteredDevice } from "@/lib/algo/registry";
+import { algoErrorResponse, badRequest } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
 
 // Default tones that shouldn't be deleted
 const DEFAULT_TONES = [
@@ -20,44 +21,33 @@ const DEFAULT_TONES = [
 ];
 
 export async function POST(request: NextRequest) {
+  const auth = await authorizeRequest(request, "admin");
+  if (!auth.ok) return auth.response;
+
   try {
     const body = await request.json();
-    const { ipAddress, password, authMethod, filename } = body as {
-      ipAddress: string;
-      password: string;
-      authMethod: AlgoAuthMethod;
+    const { deviceId, filename } = body as {
+      deviceId: string;
       filename: string;
     };
 
-    if (!ipAddress || !password || !filename) {
-      return NextResponse.json(
-        { error: "IP address, password, and filename are required" },
-        { status: 400 }
-      );
+    if (!deviceId || !filename) {
+      return badRequest("Device ID and filename are required");
     }
 
     // Prevent deleting default tones
     if (DEFAULT_TONES.includes(filename)) {
-      return NextResponse.json(
-        { error: "Cannot delete default system tones" },
-        { status: 400 }
-      );
+      return badRequest("Cannot delete default system tones");
     }
 
-    const client = new AlgoClient({
-      ipAddress,
-      password,
-      authMethod: authMethod || "basic",
-    });
+    const device = await getRegisteredDevice(deviceId);
+    const client = createDeviceClient(device);
 
     await client.deleteFile(`/tones/${filename}`);
 
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Delete error:", error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : "Failed to delete file" },
-      { status: 500 }
-    );
+    return algoErrorResponse(error, "Failed to delete file");
   }
 }
@@ -1,35 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod } from "@/lib/algo/types";
+import { createDeviceClient, getRegisteredDevice } from "@/lib/algo/registry";
+import { algoErrorResponse, badRequest } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
 
 export async function POST(request: NextRequest) {
+  const auth = await authorizeRequest(request, "admin");
+  if (!auth.ok) return auth.response;
+
   try {
     const formData = await request.formData();
     const file = formData.get("file") as File;
-    const ipAddress = formData.get("ipAddress") as string;
-    const password = formData.get("password") as string;
-    const authMethod = formData.get("authMethod") as AlgoAuthMethod;
-
-    if (!file || !ipAddress || !password) {
-      return NextResponse.json(
-        { error: "File, IP address, and password are required" },
-        { status: 400 }
-      );
+    const deviceId = formData.get("deviceId") as string;
+
+    if (!file || !deviceId) {
+      return badRequest("File and device ID are required");
     }
 
     // Validate file type
     if (!file.name.toLowerCase().endsWith(".wav")) {
-      return NextResponse.json(
-        { error: "Only WAV files are supported" },
-        { status: 400 }
-      );
+      return badRequest("Only WAV files are supported");
     }
 
-    const client = new AlgoClient({
-      ipAddress,
-      password,
-      authMethod: authMethod || "basic",
-    });
+    const device = await getRegisteredDevice(deviceId);
+    const client = createDeviceClient(device);
 
     // Convert File to Buffer
     const arrayBuffer = await file.arrayBuffer();
@@ -41,9 +34,6 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ success: true, filename: file.name });
   } catch (error) {
     console.error("Upload error:", error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : "Failed to upload file" },
-      { status: 500 }
-    );
+    return algoErrorResponse(error, "Failed to upload file");
   }
 }
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDeviceUptime } from "@/lib/algo/health-monitor";
+import { algoErrorResponse, badRequest } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
+
+const MAX_HOURS = 24 * 90;
+
+// Query: hours (default 24), deviceId (optional, otherwise every device)
+export async function GET(request: NextRequest) {
+  const auth = await authorizeRequest(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const hours = parseInt(params.get("hours") || "24", 10);
+    if (isNaN(hours) || hours < 1 || hours > MAX_HOURS) {
+      return badRequest(`hours must be between 1 and ${MAX_HOURS}`);
+    }
+
+    const devices = await getDeviceUptime(hours, params.get("deviceId") || undefined);
+
+    return NextResponse.json({ success: true, hours, devices });
+  } catch (error) {
+    console.error("Uptime query error:", error);
+    return algoErrorResponse(error, "Failed to load uptime history");
+  }
+}
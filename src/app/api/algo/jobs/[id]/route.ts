@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cancelPlaybackJob, getPlaybackJob } from "@/lib/algo/playback-jobs";
+import { apiError } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
+
+interface JobRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// A playback job's progress, or its results once finished
+export async function GET(request: NextRequest, { params }: JobRouteContext) {
+  const auth = await authorizeRequest(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+  const job = getPlaybackJob(id);
+  if (!job) return apiError("Job not found", "not_found", 404);
+
+  return NextResponse.json({ job });
+}
+
+// Cancel a running job
+export async function DELETE(request: NextRequest, { params }: JobRouteContext) {
+  const auth = await authorizeRequest(request, "operator");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+  const job = cancelPlaybackJob(id);
+  if (!job) return apiError("Job not found", "not_found", 404);
+
+  return NextResponse.json({ job });
+}
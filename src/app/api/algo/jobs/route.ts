@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listPlaybackJobs } from "@/lib/algo/playback-jobs";
+import { authorizeRequest } from "@/lib/api/auth";
+
+// Playback jobs from the last hour, newest first
+export async function GET(request: NextRequest) {
+  const auth = await authorizeRequest(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  return NextResponse.json({ jobs: listPlaybackJobs() });
+}
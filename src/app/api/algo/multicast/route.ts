@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMulticastGroups } from "@/lib/algo/multicast-monitor";
+import { authorizeRequest } from "@/lib/api/auth";
+
+// What the multicast monitor hears on each paging device's group right now.
+// Cheap enough for the Live page to poll during an activation.
+export async function GET(request: NextRequest) {
+  const auth = await authorizeRequest(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  return NextResponse.json({ success: true, checkedAt: new Date().toISOString(), groups: getMulticastGroups() });
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { blockedDevices, getEndedLease, getLease, releasePage, renewPage } from "@/lib/algo/paging-arbiter";
+import { isPagePriority, type PagePriority } from "@/lib/algo/page-priority";
+import { algoErrorResponse, apiError, badRequest } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
+
+interface LeaseRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Only the browser that took a lease renews or ends it; the server's own
+// pages (playback jobs) end with the job or the stop routes
+function checkOwner(id: string, user: { uid: string; email?: string }): NextResponse | null {
+  const lease = getLease(id);
+  if (lease && (lease.expiresAt === null || lease.user !== (user.email ?? user.uid))) {
+    return apiError("Lease is not held by you", "forbidden", 403);
+  }
+  return null;
+}
+
+interface RenewRequest {
+  deviceIds?: string[];
+  priority?: PagePriority;
+}
+
+// Renew a lease, optionally changing the devices it wants or its priority
+export async function PUT(request: NextRequest, { params }: LeaseRouteContext) {
+  const auth = await authorizeRequest(request, "operator");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = await params;
+    const forbidden = checkOwner(id, auth.user);
+    if (forbidden) return forbidden;
+
+    const body: RenewRequest = await request.json().catch(() => ({}));
+    if (body.priority !== undefined && !isPagePriority(body.priority)) {
+      return badRequest("Priority must be emergency, dispatch, announcement or routine");
+    }
+
+    const lease = renewPage(id, {
+      deviceIds: Array.isArray(body.deviceIds) ? body.deviceIds : undefined,
+      priority: body.priority,
+    });
+    if (!lease) {
+      const ended = getEndedLease(id);
+      if (ended?.reason === "preempted") {
+        return apiError(`Preempted by ${ended.by ?? "a higher priority page"}`, "paging_busy", 409, { ended });
+      }
+      return apiError(ended ? "Lease expired" : "Lease not found", "not_found", 404, ended ? { ended } : undefined);
+    }
+
+    return NextResponse.json({ lease, blocked: blockedDevices(lease) });
+  } catch (error) {
+    console.error("Paging lease renew error:", error);
+    return algoErrorResponse(error, "Failed to renew paging lease");
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: LeaseRouteContext) {
+  const auth = await authorizeRequest(request, "operator");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+  const forbidden = checkOwner(id, auth.user);
+  if (forbidden) return forbidden;
+
+  releasePage(id);
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { acquirePage, blockedDevices, getPagingState } from "@/lib/algo/paging-arbiter";
+import { isPagePriority, type PagePriority } from "@/lib/algo/page-priority";
+import { algoErrorResponse, badRequest } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
+
+// Leases taken from a browser expire unless renewed (PUT /api/algo/paging/<id>)
+const BROWSER_LEASE_TTL_MS = 15000;
+
+interface AcquireRequest {
+  priority: PagePriority;
+  label: string;
+  deviceIds: string[];
+  partial?: boolean; // Take what's free now and the rest as it frees up
+}
+
+// Who owns which devices right now, and what is waiting for them
+export async function GET(request: NextRequest) {
+  const auth = await authorizeRequest(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  return NextResponse.json(getPagingState());
+}
+
+// Take a lease for paging driven from the browser (Live monitor, emergency
+// controls). Server-side playback routes take theirs directly.
+export async function POST(request: NextRequest) {
+  const auth = await authorizeRequest(request, "operator");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body: AcquireRequest = await request.json();
+    const { priority, label, deviceIds, partial = false } = body;
+
+    if (!isPagePriority(priority)) {
+      return badRequest("Priority must be emergency, dispatch, announcement or routine");
+    }
+    if (!label?.trim()) {
+      return badRequest("Label is required");
+    }
+    if (!Array.isArray(deviceIds) || deviceIds.length === 0) {
+      return badRequest("At least one device is required");
+    }
+
+    const { lease } = await acquirePage({
+      priority,
+      label: label.trim(),
+      user: auth.user.email ?? auth.user.uid,
+      deviceIds,
+      partial,
+      ttlMs: BROWSER_LEASE_TTL_MS,
+    });
+
+    return NextResponse.json({ lease, blocked: blockedDevices(lease) });
+  } catch (error) {
+    console.error("Paging lease error:", error);
+    return algoErrorResponse(error, "Failed to take paging lease");
+  }
+}
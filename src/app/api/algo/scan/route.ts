@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { networkInterfaces } from "os";
+import { algoErrorResponse } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
 
 interface DiscoveredDevice {
   ipAddress: string;
@@ -138,6 +140,9 @@ async function scanNetwork(
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await authorizeRequest(request, "admin");
+  if (!auth.ok) return auth.response;
+
   try {
     const body: ScanRequest = await request.json().catch(() => ({}));
 
@@ -158,12 +163,6 @@ export async function POST(request: NextRequest) {
     });
   } catch (error) {
     console.error("Network scan error:", error);
-    return NextResponse.json(
-      {
-        error:
-          error instanceof Error ? error.message : "Failed to scan network",
-      },
-      { status: 500 }
-    );
+    return algoErrorResponse(error, "Failed to scan network");
   }
 }
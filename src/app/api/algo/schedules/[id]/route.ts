@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteSchedule, updateSchedule } from "@/lib/algo/scheduler";
+import { validateScheduleInput, type ScheduleInput } from "@/lib/algo/schedules";
+import { algoErrorResponse, badRequest } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
+
+interface ScheduleRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: ScheduleRouteContext) {
+  const auth = await authorizeRequest(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = await params;
+    const body: Partial<ScheduleInput> = await request.json();
+
+    const validationError = validateScheduleInput(body, true);
+    if (validationError) {
+      return badRequest(validationError);
+    }
+
+    await updateSchedule(id, body);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Update schedule error:", error);
+    return algoErrorResponse(error, "Failed to update schedule");
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: ScheduleRouteContext) {
+  const auth = await authorizeRequest(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = await params;
+    await deleteSchedule(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Delete schedule error:", error);
+    return algoErrorResponse(error, "Failed to delete schedule");
+  }
+}
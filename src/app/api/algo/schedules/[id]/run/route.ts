@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSchedule, runSchedule } from "@/lib/algo/scheduler";
+import { algoErrorResponse } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
+
+interface ScheduleRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Play a schedule now, e.g. to try it out. Answers with the playback job.
+export async function POST(request: NextRequest, { params }: ScheduleRouteContext) {
+  const auth = await authorizeRequest(request, "operator");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = await params;
+    const job = await runSchedule(await getSchedule(id), auth.user);
+
+    return NextResponse.json({ success: true, job }, { status: 202 });
+  } catch (error) {
+    console.error("Run schedule error:", error);
+    return algoErrorResponse(error, "Failed to run schedule");
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { saveHolidays } from "@/lib/algo/scheduler";
+import { validateHolidays } from "@/lib/algo/schedules";
+import type { Holiday } from "@/lib/algo/types";
+import { algoErrorResponse, badRequest } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
+
+// Replace the holidays that schedules with skipHolidays don't play on
+export async function PUT(request: NextRequest) {
+  const auth = await authorizeRequest(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body: { holidays: Holiday[] } = await request.json();
+
+    const validationError = validateHolidays(body.holidays);
+    if (validationError) {
+      return badRequest(validationError);
+    }
+
+    await saveHolidays(body.holidays);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Save holidays error:", error);
+    return algoErrorResponse(error, "Failed to save holidays");
+  }
+}
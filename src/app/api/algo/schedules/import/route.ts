@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { importICalendar, type ScheduleTemplate } from "@/lib/algo/ical";
+import { importSchedules } from "@/lib/algo/scheduler";
+import { validateScheduleInput } from "@/lib/algo/schedules";
+import { algoErrorResponse, apiError, badRequest } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
+
+interface ImportRequest {
+  ics: string; // The .ics file's text
+  template: ScheduleTemplate; // Audio, targets and volume for every imported schedule
+  dryRun?: boolean; // Just report what would be imported
+}
+
+// Import an iCalendar file: timed events become schedules, all-day events
+// are added to the holidays
+export async function POST(request: NextRequest) {
+  const auth = await authorizeRequest(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body: ImportRequest = await request.json();
+    if (typeof body.ics !== "string" || !body.ics.includes("BEGIN:VCALENDAR")) {
+      return badRequest("Not an iCalendar (.ics) file");
+    }
+
+    const result = importICalendar(body.ics, body.template);
+    for (const schedule of result.schedules) {
+      const validationError = validateScheduleInput(schedule);
+      if (validationError) {
+        return badRequest(validationError);
+      }
+    }
+
+    if (body.dryRun) {
+      return NextResponse.json({ success: true, ...result });
+    }
+
+    // All or nothing; `saved` lists schedules a failed import couldn't take back
+    const { saved, error } = await importSchedules(result.schedules, result.holidays);
+    if (error) {
+      const kept = saved.length > 0 ? `These schedules were still saved: ${saved.join(", ")}` : "No schedules were saved";
+      return apiError(`Import failed: ${error}. ${kept}`, "internal_error", 500, { saved });
+    }
+
+    return NextResponse.json({ success: true, ...result, saved });
+  } catch (error) {
+    console.error("Import schedules error:", error);
+    return algoErrorResponse(error, "Failed to import calendar");
+  }
+}
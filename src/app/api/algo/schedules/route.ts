@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSchedule, listSchedules } from "@/lib/algo/scheduler";
+import { validateScheduleInput, type ScheduleInput } from "@/lib/algo/schedules";
+import { algoErrorResponse, badRequest } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
+
+// Schedules are kept by the server so the scheduler hears about changes
+// straight away; see lib/algo/scheduler.ts
+export async function GET(request: NextRequest) {
+  const auth = await authorizeRequest(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    return NextResponse.json(await listSchedules());
+  } catch (error) {
+    console.error("List schedules error:", error);
+    return algoErrorResponse(error, "Failed to load schedules");
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authorizeRequest(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body: ScheduleInput = await request.json();
+
+    const validationError = validateScheduleInput(body);
+    if (validationError) {
+      return badRequest(validationError);
+    }
+
+    const id = await createSchedule(body);
+
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    console.error("Create schedule error:", error);
+    return algoErrorResponse(error, "Failed to create schedule");
+  }
+}
@@ -1,63 +1,50 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod } from "@/lib/algo/types";
+import { createDeviceClient, getRegisteredDevice } from "@/lib/algo/registry";
+import { algoErrorResponse, apiError, badRequest } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
+import { hasRole } from "@/lib/roles";
+
+// Settings operators change while monitoring (volume, speaker on/off);
+// anything else is device configuration and needs an admin
+const OPERATOR_SETTINGS = ["audio.page.vol", "mcast.mode"];
 
 interface SettingsRequest {
-  ipAddress: string;
-  password: string;
-  authMethod: AlgoAuthMethod;
+  deviceId: string;
   settings: Record<string, string>;
 }
 
 export async function POST(request: NextRequest) {
-  let ipAddress = "unknown";
+  const auth = await authorizeRequest(request, "operator");
+  if (!auth.ok) return auth.response;
+
+  let deviceId = "unknown";
 
   try {
     const body: SettingsRequest = await request.json();
-    ipAddress = body.ipAddress;
-    const { password, authMethod, settings } = body;
-
-    if (!ipAddress || !password || !settings) {
-      return NextResponse.json(
-        { error: "Missing required fields" },
-        { status: 400 }
-      );
+    deviceId = body.deviceId;
+    const { settings } = body;
+
+    if (!deviceId || !settings) {
+      return badRequest("Missing required fields");
     }
 
-    const client = new AlgoClient({
-      ipAddress,
-      password,
-      authMethod: authMethod || "standard",
-    });
+    const needsAdmin = Object.keys(settings).some((key) => !OPERATOR_SETTINGS.includes(key));
+    if (needsAdmin && !hasRole(auth.user.role, "admin")) {
+      return apiError("Admin role required to change device configuration", "forbidden", 403);
+    }
+
+    const device = await getRegisteredDevice(deviceId);
+    const client = createDeviceClient(device);
 
     await client.setSetting(settings);
 
     return NextResponse.json({ success: true });
   } catch (error) {
-    // Provide more context about the error
-    let errorMessage = "Failed to update settings";
-
-    if (error instanceof Error) {
-      // Check for common network errors
-      if (error.message.includes("fetch failed") || error.message.includes("ECONNREFUSED")) {
-        errorMessage = `Device unreachable at ${ipAddress} - check if device is online and on the same network`;
-      } else if (error.message.includes("ETIMEDOUT") || error.message.includes("timeout")) {
-        errorMessage = `Connection timeout to ${ipAddress} - device may be slow or offline`;
-      } else if (error.message.includes("EHOSTUNREACH")) {
-        errorMessage = `Host unreachable at ${ipAddress} - check network connectivity`;
-      } else {
-        errorMessage = error.message;
-      }
-    }
-
     // Only log in development to reduce noise
     if (process.env.NODE_ENV === "development") {
-      console.error(`[Settings API] Error for ${ipAddress}:`, error);
+      console.error(`[Settings API] Error for device ${deviceId}:`, error);
     }
 
-    return NextResponse.json(
-      { error: errorMessage, ip: ipAddress },
-      { status: 500 }
-    );
+    return algoErrorResponse(error, "Failed to update settings");
   }
 }
@@ -1,48 +1,59 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod } from "@/lib/algo/types";
+import { createDeviceClient, getAllRegisteredDevices, getRegisteredDevices, getZoneTargets } from "@/lib/algo/registry";
+import { getSpeakerMulticast, pointPagersAtGroups, withoutGroup } from "@/lib/algo/zone-multicast";
+import { algoErrorResponse, badRequest, describeError, type ApiErrorCode } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
 
 interface SpeakerMcastRequest {
-  speakers: Array<{
-    ipAddress: string;
-    password: string;
-    authMethod: AlgoAuthMethod;
-  }>;
+  speakerIds?: string[];
+  zoneIds?: string[]; // Speakers the zones resolve to, in addition to speakerIds
   enable: boolean; // true = receiver mode (2), false = none (0)
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await authorizeRequest(request, "operator");
+  if (!auth.ok) return auth.response;
+
   try {
     const body: SpeakerMcastRequest = await request.json();
-    const { speakers, enable } = body;
+    const { speakerIds = [], zoneIds = [], enable } = body;
 
-    if (!speakers || speakers.length === 0) {
-      return NextResponse.json(
-        { error: "At least one speaker is required" },
-        { status: 400 }
-      );
+    if (speakerIds.length === 0 && zoneIds.length === 0) {
+      return badRequest("At least one speaker or zone is required");
     }
 
+    const zoneTargets = zoneIds.length > 0 ? await getZoneTargets(zoneIds) : [];
+    const zoneSpeakerIds = zoneTargets.flatMap((target) => target.speakers.map((speaker) => speaker.id));
+    const speakers = await getRegisteredDevices([...speakerIds, ...zoneSpeakerIds]);
+    const speakerMulticast = await getSpeakerMulticast();
+
     const mcastMode = enable ? "2" : "0"; // 2 = receiver, 0 = none
-    const results: Array<{ ip: string; success: boolean; error?: string }> = [];
+    const results: Array<{ deviceId: string; ip: string; success: boolean; error?: string; code?: ApiErrorCode }> = [];
+
+    // Speakers in a zone with its own group stay on it; enabling them
+    // points their paging devices at the group instead
+    if (enable && speakers.length > withoutGroup(speakers, speakerMulticast).length) {
+      const grouped = await pointPagersAtGroups(speakers, speakerMulticast, await getAllRegisteredDevices());
+      for (const [deviceId, result] of grouped) {
+        const speaker = speakers.find((s) => s.id === deviceId)!;
+        results.push({ deviceId, ip: speaker.ipAddress, ...result });
+      }
+    }
 
     // Control all speakers in parallel for speed
     await Promise.all(
-      speakers.map(async (speaker) => {
+      withoutGroup(speakers, speakerMulticast).map(async (speaker) => {
         try {
-          const client = new AlgoClient({
-            ipAddress: speaker.ipAddress,
-            password: speaker.password,
-            authMethod: speaker.authMethod || "basic",
-          });
+          const client = createDeviceClient(speaker);
 
           await client.setSetting({ "mcast.mode": mcastMode });
-          results.push({ ip: speaker.ipAddress, success: true });
+          results.push({ deviceId: speaker.id, ip: speaker.ipAddress, success: true });
         } catch (error) {
           results.push({
+            deviceId: speaker.id,
             ip: speaker.ipAddress,
             success: false,
-            error: error instanceof Error ? error.message : "Failed",
+            ...describeError(error, "Failed"),
           });
         }
       })
@@ -56,9 +67,6 @@ export async function POST(request: NextRequest) {
     });
   } catch (error) {
     console.error("Speaker mcast control error:", error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : "Failed to control speakers" },
-      { status: 500 }
-    );
+    return algoErrorResponse(error, "Failed to control speakers");
   }
 }
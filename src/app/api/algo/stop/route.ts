@@ -1,34 +1,29 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod } from "@/lib/algo/types";
+import {
+  createDeviceClient,
+  getLinkedSpeakers,
+  getRegisteredDevice,
+  type RegisteredDevice,
+} from "@/lib/algo/registry";
+import { getSpeakerMulticast, withoutGroup } from "@/lib/algo/zone-multicast";
+import { assertCanStop, devicesFreeFor, releaseDevices } from "@/lib/algo/paging-arbiter";
+import { isPagePriority, type PagePriority } from "@/lib/algo/page-priority";
+import { algoErrorResponse, badRequest } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
 
 interface StopRequest {
-  paging: {
-    ipAddress: string;
-    password: string;
-    authMethod: AlgoAuthMethod;
-  };
-  speakers?: Array<{
-    ipAddress: string;
-    password: string;
-    authMethod: AlgoAuthMethod;
-  }>;
+  deviceId: string; // Paging device - its linked speakers are disabled after stopping
+  priority?: PagePriority; // Pages below this (or the caller's own) may be stopped; default routine
 }
 
 // Helper to disable speaker multicast mode
-async function disableSpeakersMcast(
-  speakers: StopRequest["speakers"]
-): Promise<void> {
-  if (!speakers || speakers.length === 0) return;
+async function disableSpeakersMcast(speakers: RegisteredDevice[]): Promise<void> {
+  if (speakers.length === 0) return;
 
   await Promise.all(
     speakers.map(async (speaker) => {
       try {
-        const client = new AlgoClient({
-          ipAddress: speaker.ipAddress,
-          password: speaker.password,
-          authMethod: speaker.authMethod || "basic",
-        });
+        const client = createDeviceClient(speaker);
         await client.setSetting({ "mcast.mode": "0" });
       } catch (error) {
         console.error(`Failed to disable mcast for ${speaker.ipAddress}:`, error);
@@ -38,29 +33,38 @@ async function disableSpeakersMcast(
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await authorizeRequest(request, "operator");
+  if (!auth.ok) return auth.response;
+
   try {
     const body: StopRequest = await request.json();
-    const { paging, speakers } = body;
+    const { deviceId } = body;
 
-    if (!paging?.ipAddress || !paging?.password) {
-      return NextResponse.json(
-        { error: "Paging device info is required" },
-        { status: 400 }
-      );
+    if (!deviceId) {
+      return badRequest("Paging device ID is required");
+    }
+    if (body.priority !== undefined && !isPagePriority(body.priority)) {
+      return badRequest("Priority must be emergency, dispatch, announcement or routine");
     }
 
-    const pagingClient = new AlgoClient({
-      ipAddress: paging.ipAddress,
-      password: paging.password,
-      authMethod: paging.authMethod || "basic",
-    });
+    const paging = await getRegisteredDevice(deviceId);
+    // Only the caller's own pages, or lower priorities than theirs
+    assertCanStop([paging.id], { user: auth.user.email ?? auth.user.uid, priority: body.priority ?? "routine" });
+    // Speakers on a zone's group stay listening to it
+    const linked = withoutGroup(await getLinkedSpeakers(paging), await getSpeakerMulticast());
+    const pagingClient = createDeviceClient(paging);
 
     // Step 1: Stop playback on paging device
     console.log("Stopping playback...");
     await pagingClient.stopTone();
+    releaseDevices([paging.id]);
+
+    // Leave speakers another page is using
+    const free = new Set(devicesFreeFor(null, linked.map((s) => s.id)));
+    const speakers = linked.filter((s) => free.has(s.id));
 
     // Step 2: Disable speakers (if any)
-    if (speakers && speakers.length > 0) {
+    if (speakers.length > 0) {
       // Small delay to ensure audio fully stops
       await new Promise((resolve) => setTimeout(resolve, 300));
 
@@ -74,9 +78,6 @@ export async function POST(request: NextRequest) {
     });
   } catch (error) {
     console.error("Stop error:", error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : "Failed to stop" },
-      { status: 500 }
-    );
+    return algoErrorResponse(error, "Failed to stop");
   }
 }
@@ -1,28 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AlgoClient } from "@/lib/algo/client";
-import type { AlgoAuthMethod } from "@/lib/algo/types";
+import { createDeviceClient, getRegisteredDevice } from "@/lib/algo/registry";
+import { algoErrorResponse, badRequest } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
 
 export async function POST(request: NextRequest) {
+  const auth = await authorizeRequest(request);
+  if (!auth.ok) return auth.response;
+
   try {
     const body = await request.json();
-    const { ipAddress, password, authMethod } = body as {
-      ipAddress: string;
-      password: string;
-      authMethod: AlgoAuthMethod;
-    };
+    const { deviceId } = body as { deviceId: string };
 
-    if (!ipAddress || !password) {
-      return NextResponse.json(
-        { error: "IP address and password are required" },
-        { status: 400 }
-      );
+    if (!deviceId) {
+      return badRequest("Device ID is required");
     }
 
-    const client = new AlgoClient({
-      ipAddress,
-      password,
-      authMethod: authMethod || "basic",
-    });
+    const device = await getRegisteredDevice(deviceId);
+    const client = createDeviceClient(device);
 
     const toneList = await client.getToneList();
 
@@ -32,9 +26,6 @@ export async function POST(request: NextRequest) {
     });
   } catch (error) {
     console.error("Get tones error:", error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : "Failed to get tones" },
-      { status: 500 }
-    );
+    return algoErrorResponse(error, "Failed to get tones");
   }
 }
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAllRegisteredDevices, getAllRegisteredZones, getRegisteredZone } from "@/lib/algo/registry";
+import { findMulticastCollisions, resolveZoneSpeakerIds, validateZoneMulticast } from "@/lib/algo/zones";
+import { configureSpeakers, getSpeakerMulticast } from "@/lib/algo/zone-multicast";
+import { algoErrorResponse, apiError, badRequest } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
+
+interface ZoneRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Apply the zone's saved group to its speakers: receiver mode on the group,
+// or back to multicast off when the zone has none. Run again after
+// changing the zone's group or speakers.
+export async function POST(request: NextRequest, { params }: ZoneRouteContext) {
+  const auth = await authorizeRequest(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = await params;
+    const [zone, zones, devices] = await Promise.all([
+      getRegisteredZone(id),
+      getAllRegisteredZones(),
+      getAllRegisteredDevices(),
+    ]);
+    const speakerIds = new Set(resolveZoneSpeakerIds(zone, devices));
+
+    if (zone.multicast) {
+      const validationError = validateZoneMulticast(zone.multicast);
+      if (validationError) {
+        return badRequest(validationError);
+      }
+      const collision = findMulticastCollisions(zones, devices).find(
+        (c) => c.blocking && c.zoneIds.includes(zone.id)
+      );
+      if (collision) {
+        return apiError(collision.message, "invalid_request", 409);
+      }
+    }
+
+    // Without a group, leave speakers another zone's group still covers
+    const speakerMulticast = zone.multicast ? null : await getSpeakerMulticast();
+    const speakers = devices.filter((d) => speakerIds.has(d.id) && !speakerMulticast?.has(d.id));
+    if (speakers.length === 0) {
+      return badRequest("Zone has no speakers to configure");
+    }
+
+    const results = await configureSpeakers(speakers, zone.multicast ?? null);
+    const failed = results.filter((r) => !r.success).length;
+    console.log(`[ZoneMulticast] Configured ${results.length - failed}/${results.length} speakers for ${zone.name}`);
+
+    return NextResponse.json({ success: failed === 0, results });
+  } catch (error) {
+    console.error("Zone multicast error:", error);
+    return algoErrorResponse(error, "Failed to configure zone speakers");
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest } from "@/lib/api/auth";
+import { apiError, badRequest } from "@/lib/api/errors";
+import { openRtpReceiver } from "@/lib/audio/rtp-receiver";
+import { isMulticastAddress, type RtpCodec } from "@/lib/audio/rtp";
+
+const CODECS: RtpCodec[] = ["pcmu", "pcma", "l16"];
+
+// Live monitor input from an RTP multicast group.
+// Query: group, port, codec (pcmu, pcma, l16 - omit for the payload type's),
+// rate (L16 sample rate on a dynamic payload type).
+// Streams mono 16-bit little-endian PCM; the rate is in X-Sample-Rate.
+export async function GET(request: NextRequest) {
+  const auth = await authorizeRequest(request, "operator");
+  if (!auth.ok) return auth.response;
+
+  const params = request.nextUrl.searchParams;
+  const group = params.get("group") ?? "";
+  const port = parseInt(params.get("port") ?? "", 10);
+  const codec = params.get("codec") || undefined;
+  const rate = params.get("rate") ? parseInt(params.get("rate")!, 10) : undefined;
+
+  if (!isMulticastAddress(group)) {
+    return badRequest("A multicast group address (224.0.0.0 - 239.255.255.255) is required");
+  }
+  if (!(port > 0 && port < 65536)) {
+    return badRequest("Invalid port");
+  }
+  if (codec && !CODECS.includes(codec as RtpCodec)) {
+    return badRequest(`Unknown codec "${codec}"`);
+  }
+  if (rate !== undefined && !(rate >= 8000 && rate <= 48000)) {
+    return badRequest("Sample rate must be between 8000 and 48000");
+  }
+
+  let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+  const stream = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+    cancel() {
+      receiver?.close();
+    },
+  });
+
+  let receiver: Awaited<ReturnType<typeof openRtpReceiver>> | null = null;
+  try {
+    receiver = await openRtpReceiver(
+      { group, port, codec: codec as RtpCodec | undefined, sampleRate: rate },
+      (samples) => {
+        try {
+          controller?.enqueue(new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength));
+        } catch {
+          // The browser went away
+          receiver?.close();
+        }
+      }
+    );
+  } catch (error) {
+    console.error(`[RTP] Could not receive ${group}:${port}:`, error);
+    return apiError(error instanceof Error ? error.message : "Failed to join multicast group", "device_timeout", 504);
+  }
+
+  request.signal.addEventListener("abort", () => receiver?.close());
+  console.log(`[RTP] Streaming ${group}:${port} (${receiver.format.codec}, ${receiver.format.sampleRate} Hz) to ${auth.user.uid}`);
+
+  return new NextResponse(stream, {
+    headers: {
+      "Content-Type": "application/octet-stream",
+      "Cache-Control": "no-store",
+      "X-Sample-Rate": String(receiver.format.sampleRate),
+      "X-Codec": receiver.format.codec,
+    },
+  });
+}
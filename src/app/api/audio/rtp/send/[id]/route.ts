@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest } from "@/lib/api/auth";
+import { apiError } from "@/lib/api/errors";
+import { closeSendSession, getSendSession, writeSendSession } from "@/lib/audio/rtp-send-sessions";
+
+interface SendRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Queue the next chunk of audio. The response says how much is waiting to
+// be sent, so a sender faster than real time (a file) can hold back.
+export async function POST(request: NextRequest, { params }: SendRouteContext) {
+  const auth = await authorizeRequest(request, "operator");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+  const session = getSendSession(id);
+  if (!session || session.uid !== auth.user.uid) {
+    return apiError("Stream not found - it may have timed out or been preempted", "not_found", 404);
+  }
+
+  const pcm = new Uint8Array(await request.arrayBuffer());
+  const queuedMs = writeSendSession(session, pcm);
+  return NextResponse.json({ queuedMs: Math.round(queuedMs) });
+}
+
+export async function DELETE(request: NextRequest, { params }: SendRouteContext) {
+  const auth = await authorizeRequest(request, "operator");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+  const session = getSendSession(id);
+  if (session && session.uid === auth.user.uid) {
+    closeSendSession(id);
+  }
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest } from "@/lib/api/auth";
+import { algoErrorResponse, badRequest } from "@/lib/api/errors";
+import { PagingBusyError } from "@/lib/algo/errors";
+import { acquirePage, type PageHandle } from "@/lib/algo/paging-arbiter";
+import { getSpeakerMulticast } from "@/lib/algo/zone-multicast";
+import { isMulticastAddress, type RtpCodec } from "@/lib/audio/rtp";
+import { openSendSession } from "@/lib/audio/rtp-send-sessions";
+
+const CODECS: RtpCodec[] = ["pcmu", "pcma", "l16"];
+
+interface RtpSendRequest {
+  address: string; // The speakers' multicast address (AlgoMulticastConfig)
+  port: number;
+  codec: RtpCodec;
+  sampleRate: number; // Of the PCM the browser will post
+  ttl?: number;
+}
+
+// Open a stream to an RTP multicast group. Post the audio to
+// /api/audio/rtp/send/{id} as mono 16-bit little-endian PCM; DELETE it to stop.
+// The stream pages the zones on that group at announcement priority.
+export async function POST(request: NextRequest) {
+  const auth = await authorizeRequest(request, "operator");
+  if (!auth.ok) return auth.response;
+
+  let body: RtpSendRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return badRequest("Invalid JSON body");
+  }
+
+  const { address, port, codec, sampleRate, ttl } = body;
+  if (!isMulticastAddress(address)) {
+    return badRequest("A multicast group address (224.0.0.0 - 239.255.255.255) is required");
+  }
+  if (!(Number.isInteger(port) && port > 0 && port < 65536)) {
+    return badRequest("Invalid port");
+  }
+  if (!CODECS.includes(codec)) {
+    return badRequest(`Unknown codec "${codec}"`);
+  }
+  if (!(sampleRate >= 8000 && sampleRate <= 96000)) {
+    return badRequest("Sample rate must be between 8000 and 96000");
+  }
+  if (ttl !== undefined && !(Number.isInteger(ttl) && ttl >= 1 && ttl <= 255)) {
+    return badRequest("TTL must be between 1 and 255");
+  }
+
+  let page: PageHandle;
+  try {
+    // Speakers in zones receiving this group
+    const speakerMulticast = await getSpeakerMulticast();
+    const deviceIds = Array.from(speakerMulticast)
+      .filter(([, { multicast }]) => multicast.address === address && multicast.port === String(port))
+      .map(([speakerId]) => speakerId);
+    page = await acquirePage({
+      priority: "announcement",
+      label: `RTP stream to ${address}:${port}`,
+      user: auth.user.email ?? auth.user.uid,
+      deviceIds,
+    });
+  } catch (error) {
+    if (!(error instanceof PagingBusyError)) console.error("[RTP] Could not page the group:", error);
+    return algoErrorResponse(error, "Failed to page the multicast group");
+  }
+
+  try {
+    const session = await openSendSession(auth.user.uid, { address, port, codec, ttl }, sampleRate, page);
+    return NextResponse.json({
+      id: session.id,
+      codec,
+      sampleRate: session.sender.format.sampleRate,
+    });
+  } catch (error) {
+    page.release();
+    console.error(`[RTP] Could not open a stream to ${address}:${port}:`, error);
+    return algoErrorResponse(error, "Failed to open the multicast socket");
+  }
+}
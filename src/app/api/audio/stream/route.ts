@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+import { authorizeRequest } from "@/lib/api/auth";
+import { apiError, badRequest } from "@/lib/api/errors";
+
+// Live monitor input from an HTTP / Icecast audio stream. Relays the stream
+// so the browser can read it whatever the station's CORS headers are.
+// Only audio is relayed, and never from the server itself or link-local
+// addresses (cloud metadata); ALGO_STREAM_HOSTS narrows it to listed hosts.
+
+const MAX_REDIRECTS = 5;
+
+// Relayed from our own origin, so nothing a browser would render as a page
+const isAudioType = (contentType: string) => /^(audio\/[\w.+-]+|application\/ogg)\s*(;|$)/i.test(contentType);
+
+function getAllowedHosts(): string[] {
+  return (process.env.ALGO_STREAM_HOSTS ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// Loopback, link-local and unspecified addresses, IPv4 or IPv6
+function isBlockedAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^::ffff:(?=\d+\.)/, "");
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split(".").map(Number);
+    return a === 127 || a === 0 || (a === 169 && b === 254);
+  }
+  return ip === "::1" || ip === "::" || /^fe[89ab]/.test(ip);
+}
+
+/**
+ * Why a stream URL may not be fetched, or null if it may
+ */
+async function checkStreamUrl(url: URL): Promise<string | null> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return "Only http and https streams are supported";
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  const allowed = getAllowedHosts();
+  if (allowed.length > 0 && !allowed.includes(host)) {
+    return `${host} is not in ALGO_STREAM_HOSTS`;
+  }
+
+  // Every address the name resolves to, so a DNS name can't point at loopback
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((entry) => entry.address);
+  } catch {
+    return `Could not resolve ${host}`;
+  }
+  if (host === "localhost" || addresses.some(isBlockedAddress)) {
+    return `Streams from ${host} are not allowed`;
+  }
+  return null;
+}
+
+// Query: url
+export async function GET(request: NextRequest) {
+  const auth = await authorizeRequest(request, "operator");
+  if (!auth.ok) return auth.response;
+
+  let url: URL;
+  try {
+    url = new URL(request.nextUrl.searchParams.get("url") ?? "");
+  } catch {
+    return badRequest("A stream URL is required");
+  }
+
+  // Redirects are followed by hand so each hop is checked too
+  let upstream: Response | null = null;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const refused = await checkStreamUrl(url);
+    if (refused) {
+      return apiError(refused, "forbidden", 403);
+    }
+
+    try {
+      upstream = await fetch(url, { signal: request.signal, cache: "no-store", redirect: "manual" });
+    } catch (error) {
+      console.error(`[Stream] Could not open ${url.href}:`, error);
+      return apiError(`Could not connect to ${url.host}`, "device_unreachable", 503);
+    }
+
+    const location = upstream.headers.get("location");
+    if (upstream.status < 300 || upstream.status >= 400 || !location) break;
+    void upstream.body?.cancel();
+    url = new URL(location, url);
+    upstream = null;
+  }
+
+  if (!upstream) {
+    return apiError("Stream redirected too many times", "bad_response", 502);
+  }
+  if (!upstream.ok || !upstream.body) {
+    return apiError(`Stream returned ${upstream.status} ${upstream.statusText}`, "bad_response", 502);
+  }
+
+  const contentType = upstream.headers.get("content-type") ?? "";
+  if (!isAudioType(contentType)) {
+    void upstream.body.cancel();
+    return apiError(`${url.host} did not return audio (${contentType || "no content type"})`, "bad_response", 502);
+  }
+
+  console.log(`[Stream] Relaying ${url.href} (${contentType}) to ${auth.user.uid}`);
+  return new NextResponse(upstream.body, {
+    headers: {
+      "Content-Type": contentType,
+      "X-Content-Type-Options": "nosniff",
+      "Cache-Control": "no-store",
+    },
+  });
+}
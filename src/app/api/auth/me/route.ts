@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest } from "@/lib/api/auth";
+
+// The signed-in caller and their role, as the API routes see them
+export async function GET(request: NextRequest) {
+  const auth = await authorizeRequest(request);
+  if (!auth.ok) return auth.response;
+
+  return NextResponse.json({ success: true, user: auth.user });
+}
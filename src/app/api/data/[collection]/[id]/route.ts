@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest } from "@/lib/api/auth";
+import { algoErrorResponse, apiError, badRequest } from "@/lib/api/errors";
+import { getDataStore } from "@/lib/storage";
+import { getClientCollectionAccess, reviveDates, toClientDoc } from "@/lib/storage/collections";
+
+interface DocRouteContext {
+  params: Promise<{ collection: string; id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: DocRouteContext) {
+  const { collection, id } = await params;
+  const access = getClientCollectionAccess(collection);
+  if (!access) {
+    return apiError(`Unknown collection "${collection}"`, "not_found", 404);
+  }
+
+  const auth = await authorizeRequest(request, access.read);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const doc = await getDataStore().get(collection, id);
+
+    return NextResponse.json({ success: true, doc: doc ? toClientDoc(doc) : null });
+  } catch (error) {
+    console.error(`Get ${collection}/${id} error:`, error);
+    return algoErrorResponse(error, `Failed to load ${collection}/${id}`);
+  }
+}
+
+// Devices only accept their status fields (like firestore.rules)
+export async function PATCH(request: NextRequest, { params }: DocRouteContext) {
+  const { collection, id } = await params;
+  const access = getClientCollectionAccess(collection);
+  if (!access) {
+    return apiError(`Unknown collection "${collection}"`, "not_found", 404);
+  }
+
+  const role = access.write ?? access.statusUpdate?.role;
+  if (!role) {
+    return apiError(`${collection} cannot be changed here`, "forbidden", 403);
+  }
+
+  const auth = await authorizeRequest(request, role);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json();
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return badRequest("Request body must be an object");
+    }
+
+    const data = reviveDates(body);
+    delete data.id;
+    if (!access.write && access.statusUpdate) {
+      const allowed = access.statusUpdate.fields;
+      const rejected = Object.keys(data).filter((key) => !allowed.includes(key));
+      if (rejected.length > 0) {
+        return apiError(`Only ${allowed.join(", ")} can be changed here`, "forbidden", 403);
+      }
+    }
+
+    await getDataStore().update(collection, id, data);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error(`Update ${collection}/${id} error:`, error);
+    return algoErrorResponse(error, `Failed to update ${collection}/${id}`);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: DocRouteContext) {
+  const { collection, id } = await params;
+  const access = getClientCollectionAccess(collection);
+  if (!access) {
+    return apiError(`Unknown collection "${collection}"`, "not_found", 404);
+  }
+  if (!access.write) {
+    return apiError(`${collection} cannot be deleted here`, "forbidden", 403);
+  }
+
+  const auth = await authorizeRequest(request, access.write);
+  if (!auth.ok) return auth.response;
+
+  try {
+    await getDataStore().delete(collection, id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error(`Delete ${collection}/${id} error:`, error);
+    return algoErrorResponse(error, `Failed to delete ${collection}/${id}`);
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest } from "@/lib/api/auth";
+import { algoErrorResponse, apiError, badRequest } from "@/lib/api/errors";
+import { getDataStore } from "@/lib/storage";
+import { getClientCollectionAccess, reviveDates, toClientDoc } from "@/lib/storage/collections";
+
+// Browser access to the server's store, used instead of the Firestore client
+// SDK when ALGO_STORAGE is local or sync (see lib/data.ts)
+
+interface CollectionRouteContext {
+  params: Promise<{ collection: string }>;
+}
+
+// Query: limit (optional). Newest first.
+export async function GET(request: NextRequest, { params }: CollectionRouteContext) {
+  const { collection } = await params;
+  const access = getClientCollectionAccess(collection);
+  if (!access) {
+    return apiError(`Unknown collection "${collection}"`, "not_found", 404);
+  }
+
+  const auth = await authorizeRequest(request, access.read);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const limit = parseInt(request.nextUrl.searchParams.get("limit") || "", 10);
+    const docs = await getDataStore().query(collection, {
+      orderBy: { field: "createdAt", direction: "desc" },
+      limit: limit > 0 ? limit : undefined,
+    });
+
+    return NextResponse.json({ success: true, docs: docs.map(toClientDoc) });
+  } catch (error) {
+    console.error(`List ${collection} error:`, error);
+    return algoErrorResponse(error, `Failed to load ${collection}`);
+  }
+}
+
+export async function POST(request: NextRequest, { params }: CollectionRouteContext) {
+  const { collection } = await params;
+  const access = getClientCollectionAccess(collection);
+  if (!access) {
+    return apiError(`Unknown collection "${collection}"`, "not_found", 404);
+  }
+  if (!access.write) {
+    return apiError(`${collection} cannot be created here`, "forbidden", 403);
+  }
+
+  const auth = await authorizeRequest(request, access.write);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json();
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return badRequest("Request body must be an object");
+    }
+
+    const data = reviveDates(body);
+    delete data.id;
+    const id = await getDataStore().add(collection, { ...data, createdAt: new Date() });
+
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    console.error(`Add to ${collection} error:`, error);
+    return algoErrorResponse(error, `Failed to add to ${collection}`);
+  }
+}
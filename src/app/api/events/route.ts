@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getDeviceStatuses,
+  publishEvent,
+  subscribeEvents,
+  type ReportedEvent,
+  type ServerEvent,
+} from "@/lib/algo/events";
+import { getPagingState } from "@/lib/algo/paging-arbiter";
+import { listPlaybackJobs } from "@/lib/algo/playback-jobs";
+import { badRequest } from "@/lib/api/errors";
+import { authorizeRequest } from "@/lib/api/auth";
+
+// Comment line that keeps proxies from closing an idle stream
+const KEEPALIVE_MS = 25000;
+
+const MONITORING_ACTIVITIES = ["started", "stopped", "activated", "released"];
+const EMERGENCY_ACTIONS = ["kill", "enable"];
+
+// Server-Sent Events: device status, playback jobs, paging leases,
+// monitoring activations and emergency actions, as they happen. A new
+// connection first gets the current state of each.
+export async function GET(request: NextRequest) {
+  const auth = await authorizeRequest(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: ServerEvent) => {
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          // The browser went away
+          cleanup();
+        }
+      };
+
+      getDeviceStatuses().forEach(send);
+      send({ type: "paging", state: getPagingState() });
+      listPlaybackJobs()
+        .filter((job) => job.status === "running")
+        .forEach((job) => send({ type: "job", job }));
+
+      const unsubscribe = subscribeEvents(send);
+      const keepalive = setInterval(() => {
+        try {
+          controller.enqueue(encoder.encode(": keepalive\n\n"));
+        } catch {
+          cleanup();
+        }
+      }, KEEPALIVE_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(keepalive);
+      };
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  request.signal.addEventListener("abort", () => cleanup());
+
+  return new NextResponse(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-store",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+// Live monitor activity from a console, passed on to the others
+export async function POST(request: NextRequest) {
+  const auth = await authorizeRequest(request, "operator");
+  if (!auth.ok) return auth.response;
+
+  const body: ReportedEvent & { console?: string } = await request.json().catch(() => ({}));
+  if (typeof body.console !== "string" || typeof body.channel !== "string") {
+    return badRequest("Console and channel are required");
+  }
+
+  const reported = { user: auth.user.email ?? auth.user.uid, at: new Date().toISOString() };
+  if (body.type === "monitoring" && MONITORING_ACTIVITIES.includes(body.activity)) {
+    publishEvent({
+      type: "monitoring",
+      console: body.console,
+      channel: body.channel,
+      activity: body.activity,
+      ...(typeof body.detail === "string" ? { detail: body.detail } : {}),
+      ...reported,
+    });
+  } else if (body.type === "emergency" && EMERGENCY_ACTIONS.includes(body.action)) {
+    publishEvent({ type: "emergency", console: body.console, channel: body.channel, action: body.action, ...reported });
+  } else {
+    return badRequest("Unknown event");
+  }
+
+  return NextResponse.json({ success: true });
+}
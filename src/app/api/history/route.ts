@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  MAX_LOG_PAGE_SIZE,
+  queryDistributionLogs,
+  type DistributionLogFilters,
+} from "@/lib/algo/distribution-logs";
+import type { DistributionLog, DistributionStatus } from "@/lib/algo/types";
+import { authorizeRequest } from "@/lib/api/auth";
+import { algoErrorResponse, badRequest } from "@/lib/api/errors";
+
+const STATUSES: DistributionStatus[] = ["success", "partial", "failed"];
+
+// CSV export walks the matching logs page by page, up to this many rows
+const MAX_EXPORT_ROWS = 5000;
+
+// Query: from, to (ISO dates), user (email), status, limit, cursor, format=csv
+export async function GET(request: NextRequest) {
+  const auth = await authorizeRequest(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const filters: DistributionLogFilters = {};
+
+    for (const key of ["from", "to"] as const) {
+      const value = params.get(key);
+      if (!value) continue;
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        return badRequest(`Invalid "${key}" date`);
+      }
+      filters[key] = date;
+    }
+
+    const user = params.get("user")?.trim();
+    if (user) {
+      filters.userEmail = user;
+    }
+
+    const status = params.get("status");
+    if (status) {
+      if (!STATUSES.includes(status as DistributionStatus)) {
+        return badRequest("Invalid status");
+      }
+      filters.status = status as DistributionStatus;
+    }
+
+    if (params.get("format") === "csv") {
+      const logs: DistributionLog[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await queryDistributionLogs(filters, { limit: MAX_LOG_PAGE_SIZE, cursor });
+        logs.push(...page.logs);
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor && logs.length < MAX_EXPORT_ROWS);
+
+      return new NextResponse(toCsv(logs.slice(0, MAX_EXPORT_ROWS)), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="distribution-history-${new Date().toISOString().slice(0, 10)}.csv"`,
+        },
+      });
+    }
+
+    const limit = parseInt(params.get("limit") || "25", 10);
+    const page = await queryDistributionLogs(filters, {
+      limit: isNaN(limit) ? 25 : limit,
+      cursor: params.get("cursor") || undefined,
+    });
+
+    return NextResponse.json({ success: true, ...page });
+  } catch (error) {
+    console.error("History query error:", error);
+    return algoErrorResponse(error, "Failed to load history");
+  }
+}
+
+// One row per log, with per-device failures joined into a single column
+function toCsv(logs: DistributionLog[]): string {
+  const header = ["Date", "Action", "Audio", "User", "Status", "Devices", "Zones", "Succeeded", "Failed", "Errors"];
+  const rows = logs.map((log) => {
+    const failed = log.results.filter((r) => !r.success);
+    return [
+      log.createdAt.toISOString(),
+      log.action ?? "distribute",
+      log.audioFileName,
+      log.triggeredByEmail || log.triggeredBy,
+      log.status,
+      log.results.map((r) => r.deviceName).join("; "),
+      log.targetZones.join("; "),
+      String(log.results.length - failed.length),
+      String(failed.length),
+      [...(log.error ? [log.error] : []), ...failed.map((r) => `${r.deviceName}: ${r.error || "Failed"}`)].join("; "),
+    ];
+  });
+
+  return [header, ...rows].map((row) => row.map(escapeCsv).join(",")).join("\r\n") + "\r\n";
+}
+
+// Spreadsheets run cells starting with = + - @ (or a tab or CR) as formulas,
+// and file names and emails come from users - a leading ' keeps them text
+function escapeCsv(value: string): string {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
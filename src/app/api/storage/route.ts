@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest } from "@/lib/api/auth";
+import { algoErrorResponse } from "@/lib/api/errors";
+import { getStorageStatus, syncStorageNow } from "@/lib/storage";
+
+// Storage mode, plus pending writes and last sync in sync mode
+export async function GET(request: NextRequest) {
+  const auth = await authorizeRequest(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    return NextResponse.json({ success: true, ...(await getStorageStatus()) });
+  } catch (error) {
+    console.error("Storage status error:", error);
+    return algoErrorResponse(error, "Failed to load storage status");
+  }
+}
+
+// Sync with Firestore now instead of waiting for the next interval
+export async function POST(request: NextRequest) {
+  const auth = await authorizeRequest(request, "operator");
+  if (!auth.ok) return auth.response;
+
+  try {
+    await syncStorageNow();
+    return NextResponse.json({ success: true, ...(await getStorageStatus()) });
+  } catch (error) {
+    console.error("Storage sync error:", error);
+    return algoErrorResponse(error, "Failed to sync storage");
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminAuth } from "@/lib/firebase/admin";
+import { authorizeRequest } from "@/lib/api/auth";
+import { algoErrorResponse, badRequest } from "@/lib/api/errors";
+import { isUserRole } from "@/lib/roles";
+
+interface UserRouteContext {
+  params: Promise<{ uid: string }>;
+}
+
+// Set a user's role claim. The user's ID token picks up the change on its
+// next refresh (sign out and back in, or within the hour).
+export async function PATCH(request: NextRequest, { params }: UserRouteContext) {
+  const auth = await authorizeRequest(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { uid } = await params;
+    const { role } = (await request.json()) as { role: unknown };
+
+    if (!isUserRole(role)) {
+      return badRequest("Role must be viewer, operator or admin");
+    }
+    if (uid === auth.user.uid && role !== "admin") {
+      return badRequest("You cannot remove your own admin role");
+    }
+
+    const user = await adminAuth.getUser(uid);
+    await adminAuth.setCustomUserClaims(uid, { ...user.customClaims, role });
+
+    console.log(`[Users] ${auth.user.email ?? auth.user.uid} set role of ${user.email ?? uid} to ${role}`);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Update user role error:", error);
+    return algoErrorResponse(error, "Failed to update user role");
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminAuth } from "@/lib/firebase/admin";
+import { authorizeRequest, resolveUserRole } from "@/lib/api/auth";
+import { algoErrorResponse } from "@/lib/api/errors";
+import type { UserAccount } from "@/lib/roles";
+
+export async function GET(request: NextRequest) {
+  const auth = await authorizeRequest(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const result = await adminAuth.listUsers(1000);
+
+    const users: UserAccount[] = result.users.map((user) => ({
+      uid: user.uid,
+      email: user.email,
+      displayName: user.displayName,
+      role: resolveUserRole(user.customClaims, user.email, user.emailVerified),
+      disabled: user.disabled,
+      lastSignInTime: user.metadata.lastSignInTime,
+    }));
+
+    return NextResponse.json({ success: true, users });
+  } catch (error) {
+    console.error("List users error:", error);
+    return algoErrorResponse(error, "Failed to list users");
+  }
+}
@@ -7,10 +7,13 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Upload, Trash2, RefreshCw, Music, X, Speaker, Radio } from "lucide-react";
-import { getDevices } from "@/lib/firebase/firestore";
+import { getDevices } from "@/lib/data";
 import type { AlgoDevice } from "@/lib/algo/types";
 import { formatBytes } from "@/lib/utils";
 import { Select } from "@/components/ui/select";
+import { apiFetch } from "@/lib/api/fetch";
+import { submitPlayback, waitForJob } from "@/lib/api/playback-jobs";
+import { useAuth } from "@/contexts/auth-context";
 
 // Default tones that come pre-installed on Algo devices
 const DEFAULT_TONES = [
@@ -30,6 +33,8 @@ const DEFAULT_TONES = [
 ];
 
 export default function AudioPage() {
+  const { hasRole } = useAuth();
+  const isAdmin = hasRole("admin");
   const [loading, setLoading] = useState(true);
   const [uploading, setUploading] = useState(false);
   const [showUpload, setShowUpload] = useState(false);
@@ -77,14 +82,10 @@ export default function AudioPage() {
 
     setLoadingTones(true);
     try {
-      const response = await fetch("/api/algo/tones", {
+      const response = await apiFetch("/api/algo/tones", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          ipAddress: device.ipAddress,
-          password: device.apiPassword,
-          authMethod: device.authMethod,
-        }),
+        body: JSON.stringify({ deviceId: device.id }),
       });
 
       const data = await response.json();
@@ -105,38 +106,22 @@ export default function AudioPage() {
     const device = devices.find(d => d.id === selectedDevice);
     if (!device) return;
 
-    // Get linked speakers for this paging device
-    const linkedSpeakers = devices.filter(
-      d => device.linkedSpeakerIds?.includes(d.id)
-    );
-
     setPlayingTone(toneName);
     try {
-      const response = await fetch("/api/algo/play", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          paging: {
-            ipAddress: device.ipAddress,
-            password: device.apiPassword,
-            authMethod: device.authMethod,
-          },
-          speakers: linkedSpeakers.map(s => ({
-            ipAddress: s.ipAddress,
-            password: s.apiPassword,
-            authMethod: s.authMethod,
-          })),
+      // The server enables this paging device's linked speakers for the tone
+      const job = await waitForJob(
+        await submitPlayback("/api/algo/play", {
+          deviceId: device.id,
           tone: toneName,
           loop: false,
-        }),
-      });
-
-      const data = await response.json();
-      if (!data.success) {
-        alert("Failed to play tone: " + data.error);
+        })
+      );
+      if (job.status !== "completed") {
+        alert("Failed to play tone: " + job.message);
       }
     } catch (error) {
       console.error("Failed to play tone:", error);
+      alert("Failed to play tone: " + (error instanceof Error ? error.message : error));
     } finally {
       setPlayingTone(null);
     }
@@ -162,11 +147,9 @@ export default function AudioPage() {
     try {
       const formData = new FormData();
       formData.append("file", selectedFile);
-      formData.append("ipAddress", device.ipAddress);
-      formData.append("password", device.apiPassword);
-      formData.append("authMethod", device.authMethod);
+      formData.append("deviceId", device.id);
 
-      const response = await fetch("/api/algo/files/upload", {
+      const response = await apiFetch("/api/algo/files/upload", {
         method: "POST",
         body: formData,
       });
@@ -204,13 +187,11 @@ export default function AudioPage() {
 
     setDeleting(toneName);
     try {
-      const response = await fetch("/api/algo/files/delete", {
+      const response = await apiFetch("/api/algo/files/delete", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          ipAddress: device.ipAddress,
-          password: device.apiPassword,
-          authMethod: device.authMethod,
+          deviceId: device.id,
           filename: toneName,
         }),
       });
@@ -232,7 +213,7 @@ export default function AudioPage() {
   const isCustomTone = (toneName: string) => !DEFAULT_TONES.includes(toneName);
 
   return (
-    <AppLayout>
+    <AppLayout requiredRole="operator">
       <div className="space-y-6">
         {/* Header */}
         <div className="flex items-center justify-between">
@@ -249,10 +230,12 @@ export default function AudioPage() {
               <RefreshCw className="mr-2 h-4 w-4" />
               Refresh
             </Button>
-            <Button onClick={() => setShowUpload(true)} disabled={!selectedDevice}>
-              <Upload className="mr-2 h-4 w-4" />
-              Upload Audio
-            </Button>
+            {isAdmin && (
+              <Button onClick={() => setShowUpload(true)} disabled={!selectedDevice}>
+                <Upload className="mr-2 h-4 w-4" />
+                Upload Audio
+              </Button>
+            )}
           </div>
         </div>
 
@@ -418,19 +401,21 @@ export default function AudioPage() {
                               <Speaker className="mr-2 h-4 w-4" />
                               {tone.replace(".wav", "")}
                             </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleDeleteTone(tone)}
-                              disabled={deleting === tone}
-                              className="text-[var(--accent-red)] hover:text-[var(--accent-red)] hover:bg-[var(--accent-red)]/10"
-                            >
-                              {deleting === tone ? (
-                                <div className="h-4 w-4 animate-spin rounded-full border-2 border-[var(--accent-red)] border-t-transparent" />
-                              ) : (
-                                <Trash2 className="h-4 w-4" />
-                              )}
-                            </Button>
+                            {isAdmin && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDeleteTone(tone)}
+                                disabled={deleting === tone}
+                                className="text-[var(--accent-red)] hover:text-[var(--accent-red)] hover:bg-[var(--accent-red)]/10"
+                              >
+                                {deleting === tone ? (
+                                  <div className="h-4 w-4 animate-spin rounded-full border-2 border-[var(--accent-red)] border-t-transparent" />
+                                ) : (
+                                  <Trash2 className="h-4 w-4" />
+                                )}
+                              </Button>
+                            )}
                           </div>
                         ))}
                       </div>
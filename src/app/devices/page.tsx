@@ -10,11 +10,22 @@ import { Select } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Slider } from "@/components/ui/slider";
 import { Plus, Pencil, Trash2, Play, RefreshCw, X, Volume2, Link2, Search, Activity, Speaker } from "lucide-react";
-import { getDevices, addDevice, updateDevice, deleteDevice } from "@/lib/firebase/firestore";
-import type { AlgoDevice, AlgoDeviceType, AlgoAuthMethod } from "@/lib/algo/types";
-import { formatDate, isValidIpAddress } from "@/lib/utils";
+import { getDevices, updateDevice } from "@/lib/data";
+import { createDevice, saveDevice, removeDevice } from "@/lib/api/devices";
+import { useAuth } from "@/contexts/auth-context";
+import type { AlgoDevice, AlgoDeviceType, AlgoAuthMethod, DeviceUptime as DeviceUptimeData } from "@/lib/algo/types";
+import { DeviceUptime } from "@/components/device-uptime";
+import { formatDate, isValidDeviceAddress } from "@/lib/utils";
+import { apiFetch } from "@/lib/api/fetch";
+import { applyDeviceStatus } from "@/lib/api/events";
+import { useServerEvents } from "@/hooks/useServerEvents";
+
+const UPTIME_HOURS = 24;
 
 export default function DevicesPage() {
+  const { hasRole } = useAuth();
+  const isAdmin = hasRole("admin");
+  const canOperate = hasRole("operator");
   const [devices, setDevices] = useState<AlgoDevice[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
@@ -40,21 +51,28 @@ export default function DevicesPage() {
   const [checkingStatus, setCheckingStatus] = useState(false);
   const [lastStatusCheck, setLastStatusCheck] = useState<Date | null>(null);
   const [networkRange, setNetworkRange] = useState("");
+  const [uptime, setUptime] = useState<Record<string, DeviceUptimeData>>({});
 
   useEffect(() => {
     loadDevices();
+    loadUptime();
   }, []);
 
-  // Periodic health check every 60 seconds
+  // Devices going on or offline are pushed by the server's health checks
+  useServerEvents((event) => {
+    if (event.type === "device_status") setDevices((prev) => applyDeviceStatus(prev, event));
+  });
+
+  // Check once on open; after that the server's health monitor keeps
+  // isOnline/lastSeen current, and uptime is re-read every 60 seconds
   useEffect(() => {
     if (devices.length === 0) return;
 
-    // Initial check
     checkDeviceStatus();
 
-    // Set up interval
     const interval = setInterval(() => {
-      checkDeviceStatus();
+      loadDevices();
+      loadUptime();
     }, 60000); // 60 seconds
 
     return () => clearInterval(interval);
@@ -71,6 +89,17 @@ export default function DevicesPage() {
     }
   };
 
+  const loadUptime = async () => {
+    try {
+      const response = await apiFetch(`/api/algo/health/history?hours=${UPTIME_HOURS}`);
+      if (!response.ok) return;
+      const data = await response.json();
+      setUptime(Object.fromEntries(data.devices.map((u: DeviceUptimeData) => [u.deviceId, u])));
+    } catch (error) {
+      console.error("Failed to load uptime:", error);
+    }
+  };
+
   const resetForm = () => {
     setFormData({
       name: "",
@@ -98,7 +127,7 @@ export default function DevicesPage() {
       type: device.type,
       ipAddress: device.ipAddress,
       authMethod: device.authMethod,
-      apiPassword: device.apiPassword,
+      apiPassword: "", // Stored server-side; left blank unless it is being changed
       zone: device.zone,
       volume: device.volume,
       maxVolume: device.maxVolume ?? 100, // Default to 100 if not set
@@ -116,7 +145,7 @@ export default function DevicesPage() {
       setFormError("Device name is required");
       return;
     }
-    if (!isValidIpAddress(formData.ipAddress)) {
+    if (!isValidDeviceAddress(formData.ipAddress)) {
       setFormError("Invalid IP address format");
       return;
     }
@@ -124,19 +153,16 @@ export default function DevicesPage() {
     setSaving(true);
     try {
       if (editingDevice) {
-        await updateDevice(editingDevice.id, formData);
+        const { apiPassword, ...config } = formData;
+        await saveDevice(editingDevice.id, apiPassword ? formData : config);
       } else {
-        await addDevice({
-          ...formData,
-          isOnline: false,
-          lastSeen: null,
-        });
+        await createDevice(formData);
       }
       await loadDevices();
       setShowForm(false);
       resetForm();
     } catch (error) {
-      setFormError("Failed to save device. Please try again.");
+      setFormError(error instanceof Error ? error.message : "Failed to save device. Please try again.");
       console.error(error);
     } finally {
       setSaving(false);
@@ -146,7 +172,7 @@ export default function DevicesPage() {
   const handleDelete = async (id: string) => {
     if (!confirm("Are you sure you want to delete this device?")) return;
     try {
-      await deleteDevice(id);
+      await removeDevice(id);
       await loadDevices();
     } catch (error) {
       console.error("Failed to delete device:", error);
@@ -156,14 +182,10 @@ export default function DevicesPage() {
   const handleTestTone = async (device: AlgoDevice) => {
     setTestingDevice(device.id);
     try {
-      const response = await fetch("/api/algo/devices/test", {
+      const response = await apiFetch("/api/algo/devices/test", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          ipAddress: device.ipAddress,
-          password: device.apiPassword,
-          authMethod: device.authMethod,
-        }),
+        body: JSON.stringify({ deviceId: device.id }),
       });
       if (!response.ok) {
         const data = await response.json();
@@ -191,7 +213,7 @@ export default function DevicesPage() {
     setSelectedDiscoveredDevices(new Set());
 
     try {
-      const response = await fetch("/api/algo/scan", {
+      const response = await apiFetch("/api/algo/scan", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -254,7 +276,7 @@ export default function DevicesPage() {
         // Make name unique by appending IP last octet
         deviceName = `${deviceName} (.${ipLastOctet})`;
 
-        await addDevice({
+        await createDevice({
           name: deviceName,
           type: discovered.type === "8301" ? "8301" : "8180g2",
           ipAddress: discovered.ipAddress,
@@ -263,8 +285,6 @@ export default function DevicesPage() {
           zone: "",
           volume: 50,
           linkedSpeakerIds: [],
-          isOnline: true,
-          lastSeen: new Date(),
         });
       }
 
@@ -286,16 +306,11 @@ export default function DevicesPage() {
     setCheckingStatus(true);
 
     try {
-      const response = await fetch("/api/algo/health", {
+      const response = await apiFetch("/api/algo/health", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          devices: devices.map(d => ({
-            id: d.id,
-            ipAddress: d.ipAddress,
-            apiPassword: d.apiPassword,
-            authMethod: d.authMethod,
-          })),
+          deviceIds: devices.map(d => d.id),
           timeout: 3000,
         }),
       });
@@ -325,17 +340,20 @@ export default function DevicesPage() {
 
       // Update Firestore with new status (in background, don't await)
       // Note: Firebase doesn't allow undefined values, so we filter them out
-      updatedDevices.forEach(device => {
-        const updateData: Record<string, unknown> = {
-          isOnline: device.isOnline,
-          lastSeen: device.lastSeen,
-        };
-        // Only include authValid if it's defined (not undefined)
-        if (device.authValid !== undefined) {
-          updateData.authValid = device.authValid;
-        }
-        updateDevice(device.id, updateData).catch(err => console.error(`Failed to update device ${device.id}:`, err));
-      });
+      // Viewers can't write device status, so only operators save it
+      if (hasRole("operator")) {
+        updatedDevices.forEach(device => {
+          const updateData: Record<string, unknown> = {
+            isOnline: device.isOnline,
+            lastSeen: device.lastSeen,
+          };
+          // Only include authValid if it's defined (not undefined)
+          if (device.authValid !== undefined) {
+            updateData.authValid = device.authValid;
+          }
+          updateDevice(device.id, updateData).catch(err => console.error(`Failed to update device ${device.id}:`, err));
+        });
+      }
 
     } catch (error) {
       console.error("Failed to check device status:", error);
@@ -373,14 +391,18 @@ export default function DevicesPage() {
               <RefreshCw className="mr-2 h-4 w-4" />
               Refresh
             </Button>
-            <Button variant="outline" onClick={handleScanNetwork}>
-              <Search className="mr-2 h-4 w-4" />
-              Scan Network
-            </Button>
-            <Button onClick={openAddForm}>
-              <Plus className="mr-2 h-4 w-4" />
-              Add Device
-            </Button>
+            {isAdmin && (
+              <>
+                <Button variant="outline" onClick={handleScanNetwork}>
+                  <Search className="mr-2 h-4 w-4" />
+                  Scan Network
+                </Button>
+                <Button onClick={openAddForm}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Device
+                </Button>
+              </>
+            )}
           </div>
         </div>
 
@@ -483,7 +505,7 @@ export default function DevicesPage() {
                       <Input
                         id="apiPassword"
                         type="password"
-                        placeholder="algo"
+                        placeholder={editingDevice ? "Leave blank to keep current" : "algo"}
                         value={formData.apiPassword}
                         onChange={(e) =>
                           setFormData({ ...formData, apiPassword: e.target.value })
@@ -818,18 +840,20 @@ export default function DevicesPage() {
                 No devices yet
               </h3>
               <p className="mb-4 text-center text-[var(--text-muted)]">
-                Add your first Algo device to get started
+                {isAdmin ? "Add your first Algo device to get started" : "An admin needs to add devices"}
               </p>
-              <Button onClick={openAddForm}>
-                <Plus className="mr-2 h-4 w-4" />
-                Add Device
-              </Button>
+              {isAdmin && (
+                <Button onClick={openAddForm}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Device
+                </Button>
+              )}
             </CardContent>
           </Card>
         ) : (
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
             {devices.map((device) => (
-              <Card key={device.id}>
+              <Card key={device.id} id={`device-${device.id}`}>
                 <CardHeader className="pb-3">
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
@@ -883,32 +907,39 @@ export default function DevicesPage() {
                   <p className="text-xs text-[var(--text-muted)]">
                     Last seen: {formatDate(device.lastSeen)}
                   </p>
+                  <DeviceUptime uptime={uptime[device.id]} hours={UPTIME_HOURS} />
                   <div className="flex gap-2 pt-2">
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => handleTestTone(device)}
-                      isLoading={testingDevice === device.id}
-                    >
-                      <Play className="mr-1 h-3 w-3" />
-                      Test
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => openEditForm(device)}
-                    >
-                      <Pencil className="mr-1 h-3 w-3" />
-                      Edit
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => handleDelete(device.id)}
-                    >
-                      <Trash2 className="mr-1 h-3 w-3" />
-                      Delete
-                    </Button>
+                    {canOperate && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleTestTone(device)}
+                        isLoading={testingDevice === device.id}
+                      >
+                        <Play className="mr-1 h-3 w-3" />
+                        Test
+                      </Button>
+                    )}
+                    {isAdmin && (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => openEditForm(device)}
+                        >
+                          <Pencil className="mr-1 h-3 w-3" />
+                          Edit
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDelete(device.id)}
+                        >
+                          <Trash2 className="mr-1 h-3 w-3" />
+                          Delete
+                        </Button>
+                      </>
+                    )}
                   </div>
                 </CardContent>
               </Card>
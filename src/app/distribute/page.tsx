@@ -8,48 +8,92 @@ import { Label } from "@/components/ui/label";
 import { Select } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
 import { Badge } from "@/components/ui/badge";
+import { PagingStatus } from "@/components/paging-status";
 import { Play, Square, Volume2, Radio, CheckCircle, XCircle, Loader2 } from "lucide-react";
-import { getDevices, getAudioFiles, addDistributionLog } from "@/lib/firebase/firestore";
-import { useAuth } from "@/contexts/auth-context";
-import type { AlgoDevice, AudioFile } from "@/lib/algo/types";
-
-interface DistributionResult {
-  deviceId: string;
-  deviceName: string;
-  success: boolean;
-  error?: string;
-}
+import { getDevices, getAudioFiles, getZones } from "@/lib/data";
+import type { AlgoDevice, AudioFile, Zone } from "@/lib/algo/types";
+import { PAGE_PRIORITIES, PAGE_PRIORITY_LABELS, type PagePriority } from "@/lib/algo/page-priority";
+import { apiFetch } from "@/lib/api/fetch";
+import { cancelJob, getJob, submitPlayback, waitForJob } from "@/lib/api/playback-jobs";
+import { applyDeviceStatus } from "@/lib/api/events";
+import { useServerEvents } from "@/hooks/useServerEvents";
+import type { PlaybackJob, PlaybackStage } from "@/lib/algo/playback-jobs";
+
+// The last job is picked up again when the page is opened
+const LAST_JOB_KEY = "algo_distribute_last_job";
+
+const STAGE_LABELS: Record<PlaybackStage, string> = {
+  waiting: "Waiting for devices",
+  enabling: "Enabling speakers",
+  playing: "Playing",
+  cleanup: "Disabling speakers",
+  done: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
 
 export default function DistributePage() {
-  const { user } = useAuth();
   const [devices, setDevices] = useState<AlgoDevice[]>([]);
   const [audioFiles, setAudioFiles] = useState<AudioFile[]>([]);
+  const [zones, setZones] = useState<Zone[]>([]);
   const [loading, setLoading] = useState(true);
-  const [distributing, setDistributing] = useState(false);
   const [stopping, setStopping] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
 
   // Distribution settings
   const [selectedAudio, setSelectedAudio] = useState("");
   const [selectedDevices, setSelectedDevices] = useState<string[]>([]);
+  const [selectedZones, setSelectedZones] = useState<string[]>([]);
   const [volume, setVolume] = useState(50);
   const [loop, setLoop] = useState(false);
+  const [priority, setPriority] = useState<PagePriority>("routine");
+  const [waitIfBusy, setWaitIfBusy] = useState(false);
 
   // Results
-  const [results, setResults] = useState<DistributionResult[]>([]);
-  const [showResults, setShowResults] = useState(false);
+  const [job, setJob] = useState<PlaybackJob | null>(null);
+  const [submitError, setSubmitError] = useState("");
+  const distributing = job?.status === "running";
 
   useEffect(() => {
     loadData();
+
+    // Jobs run on the server, so one started before leaving the page carries on
+    const lastJobId = localStorage.getItem(LAST_JOB_KEY);
+    if (lastJobId) {
+      getJob(lastJobId)
+        .then((lastJob) => {
+          setJob(lastJob);
+          return waitForJob(lastJob, setJob);
+        })
+        .catch(() => localStorage.removeItem(LAST_JOB_KEY)); // Finished over an hour ago, or the server restarted
+    }
   }, []);
 
+  useServerEvents((event) => {
+    if (event.type === "device_status") setDevices((prev) => applyDeviceStatus(prev, event));
+  });
+
+  const followJob = async (started: PlaybackJob) => {
+    setJob(started);
+    localStorage.setItem(LAST_JOB_KEY, started.id);
+    try {
+      await waitForJob(started, setJob);
+    } catch (error) {
+      console.error("Failed to follow distribution:", error);
+    }
+  };
+
   const loadData = async () => {
     try {
-      const [devicesData, audioData] = await Promise.all([
+      const [devicesData, audioData, zonesData] = await Promise.all([
         getDevices(),
         getAudioFiles(),
+        getZones(),
       ]);
       setDevices(devicesData);
       setAudioFiles(audioData);
+      setZones(zonesData);
     } catch (error) {
       console.error("Failed to load data:", error);
     } finally {
@@ -73,142 +117,89 @@ export default function DistributePage() {
     }
   };
 
-  const selectByZone = (zone: string) => {
-    const zoneDevices = devices.filter((d) => d.zone === zone).map((d) => d.id);
-    const allSelected = zoneDevices.every((id) => selectedDevices.includes(id));
-    if (allSelected) {
-      setSelectedDevices((prev) => prev.filter((id) => !zoneDevices.includes(id)));
+  // Zones are sent as zone IDs and resolved to their speakers server-side at send time
+  const toggleZone = (zone: Zone) => {
+    if (selectedZones.includes(zone.id)) {
+      setSelectedZones((prev) => prev.filter((id) => id !== zone.id));
     } else {
-      setSelectedDevices((prev) => [...new Set([...prev, ...zoneDevices])]);
+      setSelectedZones((prev) => [...prev, zone.id]);
+      setVolume(zone.defaultVolume);
     }
   };
 
+  const targetCount = selectedDevices.length + selectedZones.length;
+
   const handleDistribute = async () => {
-    if (!selectedAudio || selectedDevices.length === 0) {
-      alert("Please select an audio file and at least one device");
+    if (!selectedAudio || targetCount === 0) {
+      alert("Please select an audio file and at least one device or zone");
       return;
     }
 
-    setDistributing(true);
-    setResults([]);
-    setShowResults(true);
-
+    setSubmitError("");
+    setSubmitting(true);
     const audioFile = audioFiles.find((a) => a.id === selectedAudio);
-    const distributionResults: DistributionResult[] = [];
-
-    for (const deviceId of selectedDevices) {
-      const device = devices.find((d) => d.id === deviceId);
-      if (!device) continue;
-
-      // Get linked speakers if this is a paging device
-      const linkedSpeakers = device.type === "8301" && device.linkedSpeakerIds
-        ? devices.filter(d => device.linkedSpeakerIds?.includes(d.id))
-        : [];
-
-      try {
-        const response = await fetch("/api/algo/distribute", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            device: {
-              ipAddress: device.ipAddress,
-              password: device.apiPassword,
-              authMethod: device.authMethod,
-              type: device.type,
-            },
-            speakers: linkedSpeakers.map(s => ({
-              ipAddress: s.ipAddress,
-              password: s.apiPassword,
-              authMethod: s.authMethod,
-            })),
-            audioUrl: audioFile?.storageUrl,
-            filename: audioFile?.filename,
-            loop,
-            volume,
-          }),
-        });
-
-        const data = await response.json();
-        distributionResults.push({
-          deviceId,
-          deviceName: device.name,
-          success: response.ok,
-          error: response.ok ? undefined : data.error,
-        });
-      } catch (error) {
-        distributionResults.push({
-          deviceId,
-          deviceName: device.name,
-          success: false,
-          error: error instanceof Error ? error.message : "Network error",
-        });
-      }
 
-      // Update results in real-time
-      setResults([...distributionResults]);
-    }
-
-    // Log the distribution
-    if (audioFile) {
-      const successCount = distributionResults.filter((r) => r.success).length;
-      await addDistributionLog({
-        audioFileId: selectedAudio,
-        audioFileName: audioFile.name,
-        targetDevices: selectedDevices,
-        targetZones: [...new Set(devices.filter((d) => selectedDevices.includes(d.id)).map((d) => d.zone).filter(Boolean))],
-        triggeredBy: user?.uid || "unknown",
-        status: successCount === selectedDevices.length ? "success" : successCount > 0 ? "partial" : "failed",
-        results: distributionResults,
+    // One job for every target: linked speakers and zone membership are
+    // resolved server-side, each device plays in parallel, and the server
+    // records the history entry
+    try {
+      const started = await submitPlayback("/api/algo/distribute", {
+        deviceIds: selectedDevices,
+        zoneIds: selectedZones,
+        audioUrl: audioFile?.storageUrl,
+        audioFileId: audioFile?.id,
+        audioFileName: audioFile?.name,
+        filename: audioFile?.filename,
+        loop,
+        volume,
+        priority,
+        ifBusy: waitIfBusy ? "queue" : "reject",
       });
+      setSubmitting(false);
+      await followJob(started);
+    } catch (error) {
+      setSubmitting(false);
+      setSubmitError(error instanceof Error ? error.message : "Failed to distribute audio");
     }
+  };
 
-    setDistributing(false);
+  const handleCancel = async () => {
+    if (!job) return;
+    setCancelling(true);
+    try {
+      setJob(await cancelJob(job.id));
+    } catch (error) {
+      console.error("Failed to cancel distribution:", error);
+    }
+    setCancelling(false);
   };
 
   const handleStop = async () => {
     setStopping(true);
+    setSubmitError("");
 
-    for (const deviceId of selectedDevices) {
-      const device = devices.find((d) => d.id === deviceId);
-      if (!device) continue;
-
-      // Get linked speakers if this is a paging device
-      const linkedSpeakers = device.type === "8301" && device.linkedSpeakerIds
-        ? devices.filter(d => device.linkedSpeakerIds?.includes(d.id))
-        : [];
-
-      try {
-        await fetch("/api/algo/distribute/stop", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            device: {
-              ipAddress: device.ipAddress,
-              password: device.apiPassword,
-              authMethod: device.authMethod,
-              type: device.type,
-            },
-            speakers: linkedSpeakers.map(s => ({
-              ipAddress: s.ipAddress,
-              password: s.apiPassword,
-              authMethod: s.authMethod,
-            })),
-          }),
-        });
-      } catch (error) {
-        console.error(`Failed to stop device ${device.name}:`, error);
+    // Stops this user's pages, and others' below the selected priority
+    try {
+      const response = await apiFetch("/api/algo/distribute/stop", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ deviceIds: selectedDevices, zoneIds: selectedZones, priority }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Stop failed: HTTP ${response.status}`);
       }
+    } catch (error) {
+      console.error("Failed to stop distribution:", error);
+      setSubmitError(error instanceof Error ? error.message : "Failed to stop distribution");
     }
 
     setStopping(false);
   };
 
-  // Get unique zones
-  const zones = [...new Set(devices.map((d) => d.zone).filter(Boolean))];
-
   if (loading) {
     return (
-      <AppLayout>
+      <AppLayout requiredRole="operator">
         <div className="flex justify-center py-12">
           <div className="h-8 w-8 animate-spin rounded-full border-4 border-[var(--accent-blue)] border-t-transparent" />
         </div>
@@ -217,7 +208,7 @@ export default function DistributePage() {
   }
 
   return (
-    <AppLayout>
+    <AppLayout requiredRole="operator">
       <div className="space-y-6">
         {/* Header */}
         <div>
@@ -270,7 +261,7 @@ export default function DistributePage() {
                   <div>
                     <CardTitle className="text-lg">Select Devices</CardTitle>
                     <CardDescription>
-                      Choose which devices to play the audio on
+                      Choose devices or zones to play the audio on
                     </CardDescription>
                   </div>
                   <Button variant="outline" size="sm" onClick={selectAllDevices}>
@@ -281,18 +272,19 @@ export default function DistributePage() {
                 </div>
               </CardHeader>
               <CardContent className="space-y-4">
-                {/* Zone Quick Select */}
+                {/* Zones */}
                 {zones.length > 0 && (
-                  <div className="flex flex-wrap gap-2">
-                    <span className="text-sm text-[var(--text-muted)]">Quick select:</span>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm text-[var(--text-muted)]">Zones:</span>
                     {zones.map((zone) => (
                       <Button
-                        key={zone}
-                        variant="outline"
+                        key={zone.id}
+                        variant={selectedZones.includes(zone.id) ? "default" : "outline"}
                         size="sm"
-                        onClick={() => selectByZone(zone)}
+                        onClick={() => toggleZone(zone)}
+                        title={`${zone.deviceIds.length} device${zone.deviceIds.length !== 1 ? "s" : ""} • ${zone.defaultVolume}% default`}
                       >
-                        {zone}
+                        {zone.name}
                       </Button>
                     ))}
                   </div>
@@ -337,6 +329,7 @@ export default function DistributePage() {
                           <p className="truncate text-sm text-[var(--text-muted)]">
                             {device.ipAddress}
                             {device.zone && ` • ${device.zone}`}
+                            {!device.isOnline && <span className="text-[var(--accent-red)]"> • Offline</span>}
                           </p>
                         </div>
                       </button>
@@ -375,6 +368,29 @@ export default function DistributePage() {
                   />
                   <Label htmlFor="loop">Loop audio</Label>
                 </div>
+                <div className="space-y-2">
+                  <Label>Priority</Label>
+                  <Select value={priority} onChange={(e) => setPriority(e.target.value as PagePriority)}>
+                    {PAGE_PRIORITIES.map((p) => (
+                      <option key={p} value={p}>
+                        {PAGE_PRIORITY_LABELS[p]}
+                      </option>
+                    ))}
+                  </Select>
+                  <p className="text-xs text-[var(--text-muted)]">
+                    A higher priority page interrupts this one; an equal or higher one in progress blocks it
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    id="waitIfBusy"
+                    checked={waitIfBusy}
+                    onChange={(e) => setWaitIfBusy(e.target.checked)}
+                    className="h-4 w-4 rounded border-[var(--border-color)] bg-[var(--bg-tertiary)]"
+                  />
+                  <Label htmlFor="waitIfBusy">Wait if the devices are busy</Label>
+                </div>
               </CardContent>
             </Card>
 
@@ -387,18 +403,18 @@ export default function DistributePage() {
                 <Button
                   className="w-full"
                   onClick={handleDistribute}
-                  disabled={!selectedAudio || selectedDevices.length === 0 || distributing}
-                  isLoading={distributing}
+                  disabled={!selectedAudio || targetCount === 0 || distributing || submitting}
+                  isLoading={distributing || submitting}
                 >
                   <Play className="mr-2 h-4 w-4" />
-                  Play on {selectedDevices.length} Device
-                  {selectedDevices.length !== 1 ? "s" : ""}
+                  Play on {targetCount} Target
+                  {targetCount !== 1 ? "s" : ""}
                 </Button>
                 <Button
                   variant="destructive"
                   className="w-full"
                   onClick={handleStop}
-                  disabled={selectedDevices.length === 0 || stopping}
+                  disabled={targetCount === 0 || stopping}
                   isLoading={stopping}
                 >
                   <Square className="mr-2 h-4 w-4" />
@@ -408,36 +424,47 @@ export default function DistributePage() {
             </Card>
 
             {/* Results */}
-            {showResults && (
+            {(job || submitError) && (
               <Card>
                 <CardHeader>
-                  <CardTitle className="text-lg">Results</CardTitle>
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="text-lg">Results</CardTitle>
+                    {distributing && (
+                      <Button size="sm" variant="outline" onClick={handleCancel} isLoading={cancelling}>
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                  {job && (
+                    <CardDescription>
+                      {job.label}
+                      {job.message && ` - ${job.message}`}
+                    </CardDescription>
+                  )}
                 </CardHeader>
                 <CardContent>
-                  {results.length === 0 && distributing ? (
-                    <div className="flex items-center gap-2 text-[var(--text-muted)]">
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                      <span>Distributing...</span>
+                  {submitError ? (
+                    <div className="flex items-center gap-2 text-sm text-[var(--accent-red)]">
+                      <XCircle className="h-4 w-4" />
+                      <span>{submitError}</span>
                     </div>
                   ) : (
                     <div className="space-y-2">
-                      {results.map((result) => (
-                        <div
-                          key={result.deviceId}
-                          className="flex items-center gap-2 text-sm"
-                        >
-                          {result.success ? (
+                      {job?.targets.map((target) => (
+                        <div key={target.deviceId} className="flex items-center gap-2 text-sm">
+                          {target.stage === "done" ? (
                             <CheckCircle className="h-4 w-4 text-[var(--accent-green)]" />
-                          ) : (
+                          ) : target.stage === "failed" || target.stage === "cancelled" ? (
                             <XCircle className="h-4 w-4 text-[var(--accent-red)]" />
+                          ) : (
+                            <Loader2 className="h-4 w-4 animate-spin text-[var(--text-muted)]" />
                           )}
                           <span
                             className={
-                              result.success ? "text-[var(--text-secondary)]" : "text-[var(--accent-red)]"
+                              target.stage === "failed" ? "text-[var(--accent-red)]" : "text-[var(--text-secondary)]"
                             }
                           >
-                            {result.deviceName}
-                            {result.error && `: ${result.error}`}
+                            {target.deviceName}: {target.error ?? STAGE_LABELS[target.stage]}
                           </span>
                         </div>
                       ))}
@@ -447,6 +474,9 @@ export default function DistributePage() {
               </Card>
             )}
 
+            {/* Who holds the devices */}
+            <PagingStatus devices={devices} />
+
             {/* Summary */}
             <Card>
               <CardContent className="p-4">
@@ -455,7 +485,10 @@ export default function DistributePage() {
                   <div className="text-sm">
                     <p className="font-medium text-[var(--text-primary)]">
                       {selectedDevices.length} device
-                      {selectedDevices.length !== 1 ? "s" : ""} selected
+                      {selectedDevices.length !== 1 ? "s" : ""}
+                      {selectedZones.length > 0 &&
+                        `, ${selectedZones.length} zone${selectedZones.length !== 1 ? "s" : ""}`}{" "}
+                      selected
                     </p>
                     <p className="text-[var(--text-muted)]">
                       {selectedAudio
@@ -0,0 +1,264 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AppLayout } from "@/components/layout/app-layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Download, RefreshCw, ChevronLeft, ChevronRight, History } from "lucide-react";
+import { fetchHistory, downloadHistoryCsv, DISTRIBUTION_ACTION_LABELS, type HistoryQuery } from "@/lib/api/history";
+import type { DistributionLog, DistributionStatus } from "@/lib/algo/types";
+import { formatDate } from "@/lib/utils";
+
+const PAGE_SIZE = 25;
+
+const STATUS_BADGES: Record<DistributionStatus, "success" | "warning" | "destructive"> = {
+  success: "success",
+  partial: "warning",
+  failed: "destructive",
+};
+
+export default function HistoryPage() {
+  const [logs, setLogs] = useState<DistributionLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState("");
+
+  // Filters as edited, and as last applied to the query
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [userEmail, setUserEmail] = useState("");
+  const [status, setStatus] = useState<DistributionStatus | "">("");
+  const [appliedFilters, setAppliedFilters] = useState<HistoryQuery>({});
+
+  // Cursors of the pages visited so far; the last one loads the current page
+  const [cursors, setCursors] = useState<(string | undefined)[]>([undefined]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPage(appliedFilters, cursors[cursors.length - 1]);
+  }, [appliedFilters, cursors]);
+
+  const loadPage = async (filters: HistoryQuery, cursor?: string) => {
+    setLoading(true);
+    setError("");
+    try {
+      const page = await fetchHistory({ ...filters, limit: PAGE_SIZE, cursor });
+      setLogs(page.logs);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error("Failed to load history:", err);
+      setError(err instanceof Error ? err.message : "Failed to load history");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Date inputs are local days; "to" covers the whole of its day
+  const buildFilters = (): HistoryQuery => ({
+    from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`) : undefined,
+    user: userEmail.trim() || undefined,
+    status: status || undefined,
+  });
+
+  const applyFilters = () => {
+    setAppliedFilters(buildFilters());
+    setCursors([undefined]);
+  };
+
+  const clearFilters = () => {
+    setFromDate("");
+    setToDate("");
+    setUserEmail("");
+    setStatus("");
+    setAppliedFilters({});
+    setCursors([undefined]);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await downloadHistoryCsv(appliedFilters);
+    } catch (err) {
+      console.error("Failed to export history:", err);
+      alert(err instanceof Error ? err.message : "Failed to export history");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-[var(--text-primary)]">History</h1>
+            <p className="text-[var(--text-secondary)] text-sm">
+              Every distribution, tone, test and live broadcast sent to your devices
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setCursors([...cursors])}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Refresh
+            </Button>
+            <Button variant="outline" onClick={handleExport} isLoading={exporting}>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <Card>
+          <CardContent className="grid gap-4 pt-6 sm:grid-cols-2 lg:grid-cols-5">
+            <div className="space-y-2">
+              <Label htmlFor="from">From</Label>
+              <Input id="from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="to">To</Label>
+              <Input id="to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="user">User</Label>
+              <Input
+                id="user"
+                type="email"
+                placeholder="user@example.com"
+                value={userEmail}
+                onChange={(e) => setUserEmail(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="status">Status</Label>
+              <Select
+                id="status"
+                value={status}
+                onChange={(e) => setStatus(e.target.value as DistributionStatus | "")}
+              >
+                <option value="">All</option>
+                <option value="success">Success</option>
+                <option value="partial">Partial</option>
+                <option value="failed">Failed</option>
+              </Select>
+            </div>
+            <div className="flex items-end gap-2">
+              <Button onClick={applyFilters}>Apply</Button>
+              <Button variant="ghost" onClick={clearFilters}>
+                Clear
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <div className="rounded-lg bg-[var(--accent-red)]/10 border border-[var(--accent-red)]/30 p-3 text-sm text-[var(--accent-red)]">
+            {error}
+          </div>
+        )}
+
+        {/* Logs */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Activity</CardTitle>
+            <CardDescription>Newest first, {PAGE_SIZE} per page</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <div className="h-8 w-8 animate-spin rounded-full border-4 border-[var(--accent-blue)] border-t-transparent" />
+              </div>
+            ) : logs.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12">
+                <div className="mb-4 rounded-full bg-[var(--bg-tertiary)] p-4">
+                  <History className="h-8 w-8 text-[var(--text-muted)]" />
+                </div>
+                <p className="text-[var(--text-muted)]">No activity matches these filters</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-[var(--border-color)] text-left text-[var(--text-muted)]">
+                      <th className="py-2 pr-4 font-medium">Date</th>
+                      <th className="py-2 pr-4 font-medium">Action</th>
+                      <th className="py-2 pr-4 font-medium">Audio</th>
+                      <th className="py-2 pr-4 font-medium">Targets</th>
+                      <th className="py-2 pr-4 font-medium">User</th>
+                      <th className="py-2 font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {logs.map((log) => {
+                      const failures = log.results.filter((r) => !r.success);
+                      return (
+                        <tr key={log.id} className="border-b border-[var(--border-color)] align-top">
+                          <td className="py-3 pr-4 whitespace-nowrap text-[var(--text-secondary)]">
+                            {formatDate(log.createdAt)}
+                          </td>
+                          <td className="py-3 pr-4 text-[var(--text-secondary)]">
+                            {DISTRIBUTION_ACTION_LABELS[log.action] ?? "Distribution"}
+                          </td>
+                          <td className="py-3 pr-4 text-[var(--text-primary)]">{log.audioFileName}</td>
+                          <td className="py-3 pr-4 text-[var(--text-secondary)]">
+                            <p>{log.results.map((r) => r.deviceName).join(", ")}</p>
+                            {log.targetZones.length > 0 && (
+                              <p className="text-xs text-[var(--text-muted)]">Zones: {log.targetZones.join(", ")}</p>
+                            )}
+                            {log.error && <p className="text-xs text-[var(--accent-red)]">{log.error}</p>}
+                            {failures.map((r) => (
+                              <p key={r.deviceId} className="text-xs text-[var(--accent-red)]">
+                                {r.deviceName}: {r.error || "Failed"}
+                              </p>
+                            ))}
+                          </td>
+                          <td className="py-3 pr-4 text-[var(--text-secondary)]">
+                            {log.triggeredByEmail || (log.triggeredBy === "local" ? "Station" : log.triggeredBy)}
+                          </td>
+                          <td className="py-3">
+                            <Badge variant={STATUS_BADGES[log.status]}>{log.status}</Badge>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* Pagination */}
+            <div className="flex items-center justify-between pt-4">
+              <span className="text-sm text-[var(--text-muted)]">Page {cursors.length}</span>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCursors(cursors.slice(0, -1))}
+                  disabled={cursors.length <= 1 || loading}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => nextCursor && setCursors([...cursors, nextCursor])}
+                  disabled={!nextCursor || loading}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
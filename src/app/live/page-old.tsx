@@ -29,6 +29,7 @@ import { getDevices, getAudioFiles, addAudioFile } from "@/lib/firebase/firestor
 import { useAuth } from "@/contexts/auth-context";
 import type { AlgoDevice, AudioFile } from "@/lib/algo/types";
 import { formatDuration } from "@/lib/utils";
+import { apiFetch } from "@/lib/api/fetch";
 
 export default function LiveBroadcastPage() {
   const { user } = useAuth();
@@ -349,13 +350,11 @@ export default function LiveBroadcastPage() {
       if (!speaker) return;
 
       try {
-        await fetch("/api/algo/settings", {
+        await apiFetch("/api/algo/settings", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            ipAddress: speaker.ipAddress,
-            password: speaker.apiPassword,
-            authMethod: speaker.authMethod,
+            deviceId: speaker.id,
             settings: {
               "audio.page.vol": `${volumeScale}`,
             },
@@ -427,15 +426,11 @@ export default function LiveBroadcastPage() {
         try {
           console.log(`${enable ? 'Enabling' : 'Disabling'} speakers for ${device.name}:`, linkedSpeakers.map(s => s.ipAddress));
 
-          const response = await fetch("/api/algo/speakers/mcast", {
+          const response = await apiFetch("/api/algo/speakers/mcast", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
-              speakers: linkedSpeakers.map(s => ({
-                ipAddress: s.ipAddress,
-                password: s.apiPassword,
-                authMethod: s.authMethod,
-              })),
+              speakerIds: linkedSpeakers.map(s => s.id),
               enable,
             }),
           });
@@ -525,27 +520,12 @@ export default function LiveBroadcastPage() {
           const device = devices.find((d) => d.id === deviceId);
           if (!device) continue;
 
-          // Get linked speakers if this is a paging device
-          const linkedSpeakers = device.type === "8301" && device.linkedSpeakerIds
-            ? devices.filter(d => device.linkedSpeakerIds?.includes(d.id))
-            : [];
-
           try {
-            await fetch("/api/algo/distribute", {
+            await apiFetch("/api/algo/distribute", {
               method: "POST",
               headers: { "Content-Type": "application/json" },
               body: JSON.stringify({
-                device: {
-                  ipAddress: device.ipAddress,
-                  password: device.apiPassword,
-                  authMethod: device.authMethod,
-                  type: device.type,
-                },
-                speakers: linkedSpeakers.map(s => ({
-                  ipAddress: s.ipAddress,
-                  password: s.apiPassword,
-                  authMethod: s.authMethod,
-                })),
+                deviceId,
                 filename: "chime.wav", // Use built-in tone for pre-tone
                 loop: false,
                 volume,
@@ -574,27 +554,12 @@ export default function LiveBroadcastPage() {
       const device = devices.find((d) => d.id === deviceId);
       if (!device) continue;
 
-      // Get linked speakers if this is a paging device
-      const linkedSpeakers = device.type === "8301" && device.linkedSpeakerIds
-        ? devices.filter(d => device.linkedSpeakerIds?.includes(d.id))
-        : [];
-
       try {
-        await fetch("/api/algo/distribute/stop", {
+        await apiFetch("/api/algo/distribute/stop", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            device: {
-              ipAddress: device.ipAddress,
-              password: device.apiPassword,
-              authMethod: device.authMethod,
-              type: device.type,
-            },
-            speakers: linkedSpeakers.map(s => ({
-              ipAddress: s.ipAddress,
-              password: s.apiPassword,
-              authMethod: s.authMethod,
-            })),
+            deviceId,
           }),
         });
       } catch (error) {
@@ -651,7 +616,7 @@ export default function LiveBroadcastPage() {
 
   if (loading) {
     return (
-      <AppLayout>
+      <AppLayout requiredRole="operator">
         <div className="flex justify-center py-12">
           <div className="h-8 w-8 animate-spin rounded-full border-4 border-blue-600 border-t-transparent" />
         </div>
@@ -660,7 +625,7 @@ export default function LiveBroadcastPage() {
   }
 
   return (
-    <AppLayout>
+    <AppLayout requiredRole="operator">
       <div className="space-y-6">
         {/* Header */}
         <div>
@@ -4,12 +4,18 @@ import { useEffect, useState, useRef } from "react";
 import { AppLayout } from "@/components/layout/app-layout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { AudioLogViewer } from "@/components/audio-log-viewer";
+import { CalibrationWizard } from "@/components/calibration-wizard";
+import { MonitorChannelBar } from "@/components/monitor-channel-bar";
+import { RtpStreamCard } from "@/components/rtp-stream-card";
+import { MulticastStatus } from "@/components/multicast-status";
+import { PagingStatus } from "@/components/paging-status";
 import { VUMeter, CircularVUMeter } from "@/components/vu-meter";
 import {
   Mic,
@@ -32,28 +38,48 @@ import {
   Wifi,
   WifiOff,
   RefreshCw,
+  Layers,
+  AudioWaveform,
+  Hash,
+  Plus,
+  Trash2,
+  Gauge,
 } from "lucide-react";
 import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
 import { storage } from "@/lib/firebase/config";
 import { useAudioCapture } from "@/hooks/useAudioCapture";
 import { useAudioMonitoring } from "@/contexts/audio-monitoring-context";
-import { getDevices, getAudioFiles, addAudioFile } from "@/lib/firebase/firestore";
+import { getDevices, getAudioFiles, getZones, getToneSets, addAudioFile } from "@/lib/data";
 import { useAuth } from "@/contexts/auth-context";
 import type { AudioFile } from "@/lib/algo/types";
-import { formatDuration } from "@/lib/utils";
+import { formatUnitId, type UnitId, type UnitIdRule } from "@/lib/audio/unit-ids";
+import type { DetectorSettings } from "@/lib/audio/level-detector";
+import type { AudioInputSource } from "@/lib/audio/input-sources";
+import type { RtpCodec } from "@/lib/audio/rtp";
+import { formatDate, formatDuration, generateId } from "@/lib/utils";
+import { apiFetch } from "@/lib/api/fetch";
+import { submitPlayback, waitForJob } from "@/lib/api/playback-jobs";
 
 export default function LiveBroadcastPage() {
-  const { user } = useAuth();
+  const { user, hasRole } = useAuth();
+  // maxVolume is a safety limit, so only admins change it
+  const canEditMaxVolume = hasRole("admin");
   const isDev = process.env.NODE_ENV === 'development';
 
   // Get monitoring state from global context
   const {
+    channel,
     isCapturing,
     audioLevel,
     selectedInputDevice,
+    inputSource,
+    captureError,
     volume,
     targetVolume,
-    audioThreshold,
+    detectorSettings,
+    detectorFrame,
+    lockoutUntil,
+    calibration,
     audioDetected,
     speakersEnabled,
     useGlobalVolume,
@@ -68,12 +94,15 @@ export default function LiveBroadcastPage() {
     disableDelay,
     selectedDevices,
     setSelectedDevices,
+    selectedZones,
+    setSelectedZones,
     startMonitoring,
     stopMonitoring,
     setInputDevice,
+    setInputSource,
     setVolume,
     setTargetVolume,
-    setAudioThreshold,
+    setDetectorSettings,
     setRampEnabled,
     setRampDuration,
     setDayNightMode,
@@ -86,8 +115,24 @@ export default function LiveBroadcastPage() {
     setLoggingEnabled,
     recordingEnabled,
     setRecordingEnabled,
+    preRollSeconds,
+    setPreRollSeconds,
+    traceEnabled,
+    setTraceEnabled,
+    getLevelTrace,
     devices: contextDevices,
     setDevices: setContextDevices,
+    zones,
+    setZones,
+    triggerMode,
+    setTriggerMode,
+    toneSets,
+    setToneSets,
+    toneEvents,
+    activeToneSet,
+    unitIdRules,
+    setUnitIdRules,
+    recentUnitIds,
     emergencyKillAll,
     emergencyEnableAll,
     controlSingleSpeaker,
@@ -103,7 +148,15 @@ export default function LiveBroadcastPage() {
   const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null);
   const [saving, setSaving] = useState(false);
   const [editingSpeakerId, setEditingSpeakerId] = useState<string | null>(null);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [fileInputChannel, setFileInputChannel] = useState<string | null>(null); // File picked as the source, file not yet
   const [localMaxVolumes, setLocalMaxVolumes] = useState<Record<string, number>>({});
+  const [newRule, setNewRule] = useState<Omit<UnitIdRule, "id">>({
+    kind: "any",
+    pattern: "",
+    action: "ignore",
+    zoneIds: [],
+  });
 
   const preToneAudioRef = useRef<HTMLAudioElement | null>(null);
 
@@ -130,12 +183,16 @@ export default function LiveBroadcastPage() {
 
   const loadData = async () => {
     try {
-      const [devicesData, audioData] = await Promise.all([
+      const [devicesData, audioData, zonesData, toneSetsData] = await Promise.all([
         getDevices(),
         getAudioFiles(),
+        getZones(),
+        getToneSets(),
       ]);
       setContextDevices(devicesData);
       setAudioFiles(audioData);
+      setZones(zonesData);
+      setToneSets(toneSetsData);
     } catch (error) {
       console.error("Failed to load data:", error);
     } finally {
@@ -156,6 +213,52 @@ export default function LiveBroadcastPage() {
     setSelectedDevices(newDevices);
   };
 
+  // Zone membership is resolved to speakers each time speakers are switched
+  const toggleZone = (zoneId: string) => {
+    const newZones = selectedZones.includes(zoneId)
+      ? selectedZones.filter((id) => id !== zoneId)
+      : [...selectedZones, zoneId];
+    console.log('[Live] Zone selection changed:', newZones);
+    setSelectedZones(newZones);
+  };
+
+  const hasTargets = selectedDevices.length > 0 || selectedZones.length > 0;
+
+  const addUnitIdRule = (rule: Omit<UnitIdRule, "id">) => {
+    console.log('[Live] Adding unit ID rule:', rule);
+    setUnitIdRules([...unitIdRules, { ...rule, pattern: rule.pattern.trim(), id: generateId() }]);
+  };
+
+  const removeUnitIdRule = (ruleId: string) => {
+    setUnitIdRules(unitIdRules.filter((r) => r.id !== ruleId));
+  };
+
+  const ignoreUnitId = (unitId: UnitId) => {
+    addUnitIdRule({ kind: unitId.kind, pattern: unitId.id, action: "ignore", zoneIds: [] });
+  };
+
+  const toggleNewRuleZone = (zoneId: string) => {
+    setNewRule({
+      ...newRule,
+      zoneIds: newRule.zoneIds.includes(zoneId)
+        ? newRule.zoneIds.filter((id) => id !== zoneId)
+        : [...newRule.zoneIds, zoneId],
+    });
+  };
+
+  const updateDetector = (changes: Partial<DetectorSettings>) => {
+    const next = { ...detectorSettings, ...changes };
+    // Release can't sit above attack
+    next.releaseDbfs = Math.min(next.releaseDbfs, next.attackDbfs);
+    setDetectorSettings(next);
+  };
+
+  // Position on the -80..0 dBFS detector scale, in percent
+  const dbfsPosition = (dbfs: number) => Math.min(100, Math.max(0, ((dbfs + 80) / 80) * 100));
+  const lockoutRemaining = Math.ceil((lockoutUntil - Date.now()) / 1000);
+
+  const canAddRule = newRule.pattern.trim() !== "" && (newRule.action === "ignore" || newRule.zoneIds.length > 0);
+
   const selectAllDevices = () => {
     if (selectedDevices.length === contextDevices.length) {
       setSelectedDevices([]);
@@ -165,8 +268,8 @@ export default function LiveBroadcastPage() {
   };
 
   const handleStartBroadcast = async () => {
-    if (selectedDevices.length === 0) {
-      alert("Please select at least one device");
+    if (!hasTargets) {
+      alert("Please select at least one device or zone");
       return;
     }
 
@@ -175,40 +278,24 @@ export default function LiveBroadcastPage() {
     if (preTone) {
       const audioFile = audioFiles.find((a) => a.id === preTone);
       if (audioFile) {
-        for (const deviceId of selectedDevices) {
-          const device = contextDevices.find((d) => d.id === deviceId);
-          if (!device) continue;
-
-          const linkedSpeakers = device.type === "8301" && device.linkedSpeakerIds
-            ? contextDevices.filter(d => device.linkedSpeakerIds?.includes(d.id))
-            : [];
-
-          try {
-            await fetch("/api/algo/distribute", {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                device: {
-                  ipAddress: device.ipAddress,
-                  password: device.apiPassword,
-                  authMethod: device.authMethod,
-                  type: device.type,
-                },
-                speakers: linkedSpeakers.map(s => ({
-                  ipAddress: s.ipAddress,
-                  password: s.apiPassword,
-                  authMethod: s.authMethod,
-                })),
-                filename: "chime.wav",
-                loop: false,
-                volume,
-              }),
-            });
-          } catch (error) {
-            console.error("Pre-tone error:", error);
-          }
+        // Talk once the pre-tone has finished everywhere
+        try {
+          const job = await waitForJob(
+            await submitPlayback("/api/algo/distribute", {
+              deviceIds: selectedDevices,
+              zoneIds: selectedZones,
+              audioFileId: audioFile.id,
+              audioFileName: audioFile.name,
+              filename: "chime.wav",
+              loop: false,
+              volume,
+              action: "live",
+            })
+          );
+          if (job.status !== "completed") console.error("Pre-tone error:", job.message);
+        } catch (error) {
+          console.error("Pre-tone error:", error);
         }
-        await new Promise((resolve) => setTimeout(resolve, 2000));
       }
     }
 
@@ -220,35 +307,18 @@ export default function LiveBroadcastPage() {
     setRecordedBlob(blob);
     setBroadcasting(false);
 
-    for (const deviceId of selectedDevices) {
-      const device = contextDevices.find((d) => d.id === deviceId);
-      if (!device) continue;
-
-      const linkedSpeakers = device.type === "8301" && device.linkedSpeakerIds
-        ? contextDevices.filter(d => device.linkedSpeakerIds?.includes(d.id))
-        : [];
-
-      try {
-        await fetch("/api/algo/distribute/stop", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            device: {
-              ipAddress: device.ipAddress,
-              password: device.apiPassword,
-              authMethod: device.authMethod,
-              type: device.type,
-            },
-            speakers: linkedSpeakers.map(s => ({
-              ipAddress: s.ipAddress,
-              password: s.apiPassword,
-              authMethod: s.authMethod,
-            })),
-          }),
-        });
-      } catch (error) {
-        console.error("Stop error:", error);
-      }
+    try {
+      await apiFetch("/api/algo/distribute/stop", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          deviceIds: selectedDevices,
+          zoneIds: selectedZones,
+          priority: "announcement", // Like the broadcast itself
+        }),
+      });
+    } catch (error) {
+      console.error("Stop error:", error);
     }
   };
 
@@ -296,13 +366,34 @@ export default function LiveBroadcastPage() {
     URL.revokeObjectURL(url);
   };
 
+  const fileInput = fileInputChannel === channel.id || inputSource.kind === "file";
+  const changeInputKind = (kind: AudioInputSource["kind"]) => {
+    setFileInputChannel(kind === "file" ? channel.id : null);
+    if (kind === "device") setInputSource({ kind: "device" });
+    if (kind === "rtp") setInputSource({ kind: "rtp", group: "224.0.2.60", port: 50000 });
+    if (kind === "http") setInputSource({ kind: "http", url: "" });
+  };
+
+  const handleDownloadTrace = () => {
+    const trace = getLevelTrace();
+    if (!trace) return;
+
+    const blob = new Blob([JSON.stringify(trace)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `level-trace-${trace.startedAt.replace(/[:.]/g, "-")}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   // Determine if currently in day or night mode
   const currentHour = new Date().getHours();
   const isDaytime = currentHour >= dayStartHour && currentHour < dayEndHour;
 
   if (loading) {
     return (
-      <AppLayout>
+      <AppLayout requiredRole="operator">
         <div className="flex justify-center py-12">
           <div className="h-10 w-10 animate-spin rounded-full border-4 border-[var(--accent-blue)] border-t-transparent" />
         </div>
@@ -311,7 +402,7 @@ export default function LiveBroadcastPage() {
   }
 
   return (
-    <AppLayout>
+    <AppLayout requiredRole="operator">
       <div className="space-y-6">
         {/* Header */}
         <div className="flex items-center justify-between">
@@ -331,6 +422,8 @@ export default function LiveBroadcastPage() {
           )}
         </div>
 
+        <MonitorChannelBar />
+
         {error && (
           <div className="flex items-center gap-2 rounded-lg bg-[var(--accent-red)]/15 border border-[var(--accent-red)]/30 p-4 text-[var(--accent-red)]">
             <AlertCircle className="h-5 w-5" />
@@ -357,6 +450,7 @@ export default function LiveBroadcastPage() {
                         console.log('[Live] User clicked Start Monitoring');
                         startMonitoring(selectedInputDevice || undefined);
                       }}
+                      disabled={fileInput && inputSource.kind !== "file"}
                     >
                       <Mic className="mr-2 h-4 w-4" />
                       Start Monitoring
@@ -386,17 +480,48 @@ export default function LiveBroadcastPage() {
                   </div>
                   <VUMeter level={isCapturing ? audioLevel : 0} barCount={24} showPeakHold={false} />
 
-                  {/* Threshold indicator */}
-                  <div className="mt-4 flex items-center gap-2">
-                    <div className="flex-1 h-1 bg-[var(--bg-tertiary)] rounded relative">
+                  {/* Voice-band level against the detector thresholds (-80..0 dBFS) */}
+                  <div className="mt-4 space-y-2">
+                    <div className="h-2 bg-[var(--bg-tertiary)] rounded relative overflow-hidden">
+                      {isCapturing && detectorFrame && (
+                        <>
+                          <div
+                            className={`absolute top-0 bottom-0 left-0 ${detectorFrame.active ? "bg-[var(--accent-green)]" : "bg-[var(--accent-blue)]"}`}
+                            style={{ width: `${dbfsPosition(detectorFrame.levelDbfs)}%` }}
+                          />
+                          <div
+                            className="absolute top-0 bottom-0 w-0.5 bg-[var(--text-muted)]"
+                            style={{ left: `${dbfsPosition(detectorFrame.noiseFloorDbfs)}%` }}
+                            title="Noise floor"
+                          />
+                          <div
+                            className="absolute top-0 bottom-0 w-0.5 bg-[var(--accent-blue)]"
+                            style={{ left: `${dbfsPosition(detectorFrame.releaseDbfs)}%` }}
+                            title="Release"
+                          />
+                        </>
+                      )}
                       <div
                         className="absolute top-0 bottom-0 w-0.5 bg-[var(--accent-orange)]"
-                        style={{ left: `${audioThreshold * 2}%` }}
+                        style={{ left: `${dbfsPosition(detectorFrame?.attackDbfs ?? detectorSettings.attackDbfs)}%` }}
+                        title="Attack"
                       />
                     </div>
-                    <span className="text-xs text-[var(--text-muted)]">
-                      Threshold: {audioThreshold}%
-                    </span>
+                    <div className="flex items-center justify-between text-xs text-[var(--text-muted)] font-mono">
+                      <span>
+                        {isCapturing && detectorFrame ? `Voice ${detectorFrame.levelDbfs.toFixed(1)} dBFS` : "Voice -- dBFS"}
+                      </span>
+                      <span>
+                        Attack {(detectorFrame?.attackDbfs ?? detectorSettings.attackDbfs).toFixed(0)}
+                        {" · "}Release {(detectorFrame?.releaseDbfs ?? detectorSettings.releaseDbfs).toFixed(0)}
+                        {detectorFrame && ` · Floor ${detectorFrame.noiseFloorDbfs.toFixed(0)}`}
+                      </span>
+                    </div>
+                    {lockoutRemaining > 0 && (
+                      <Badge variant="warning" className="text-xs">
+                        Locked out for {lockoutRemaining}s - too many activations
+                      </Badge>
+                    )}
                   </div>
                 </div>
 
@@ -419,22 +544,127 @@ export default function LiveBroadcastPage() {
                   </div>
                 </div>
 
-                {/* Input Device Selection */}
+                {/* Input Source */}
                 <div className="space-y-2">
-                  <Label>Input Device</Label>
+                  <Label>Input Source</Label>
                   <Select
-                    value={selectedInputDevice}
-                    onChange={(e) => setInputDevice(e.target.value)}
+                    value={fileInput ? "file" : inputSource.kind}
+                    onChange={(e) => changeInputKind(e.target.value as AudioInputSource["kind"])}
                     disabled={isCapturing}
                   >
-                    <option value="">Default Input</option>
-                    {inputDevices.map((device) => (
-                      <option key={device.deviceId} value={device.deviceId}>
-                        {device.label || `Input ${device.deviceId.slice(0, 8)}`}
-                      </option>
-                    ))}
+                    <option value="device">Input device (line-in)</option>
+                    <option value="rtp">RTP multicast</option>
+                    <option value="http">HTTP / Icecast stream</option>
+                    <option value="file">Audio file (testing)</option>
                   </Select>
                 </div>
+
+                {inputSource.kind === "device" && !fileInput && (
+                  <div className="space-y-2">
+                    <Label>Input Device</Label>
+                    <Select
+                      value={selectedInputDevice}
+                      onChange={(e) => setInputDevice(e.target.value)}
+                      disabled={isCapturing}
+                    >
+                      <option value="">Default Input</option>
+                      {inputDevices.map((device) => (
+                        <option key={device.deviceId} value={device.deviceId}>
+                          {device.label || `Input ${device.deviceId.slice(0, 8)}`}
+                        </option>
+                      ))}
+                    </Select>
+                  </div>
+                )}
+
+                {inputSource.kind === "rtp" && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label>Multicast Group</Label>
+                      <Input
+                        value={inputSource.group}
+                        onChange={(e) => setInputSource({ ...inputSource, group: e.target.value.trim() })}
+                        placeholder="224.0.2.60"
+                        className="font-mono"
+                        disabled={isCapturing}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Port</Label>
+                      <Input
+                        type="number"
+                        value={inputSource.port}
+                        onChange={(e) => setInputSource({ ...inputSource, port: parseInt(e.target.value) || 0 })}
+                        className="font-mono"
+                        disabled={isCapturing}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Codec</Label>
+                      <Select
+                        value={inputSource.codec ?? ""}
+                        onChange={(e) => setInputSource({ ...inputSource, codec: (e.target.value || undefined) as RtpCodec | undefined })}
+                        disabled={isCapturing}
+                      >
+                        <option value="">Auto (payload type)</option>
+                        <option value="pcmu">G.711 mu-law</option>
+                        <option value="pcma">G.711 A-law</option>
+                        <option value="l16">L16 (PCM)</option>
+                      </Select>
+                    </div>
+                    {inputSource.codec === "l16" && (
+                      <div className="space-y-2">
+                        <Label>Sample Rate</Label>
+                        <Select
+                          value={inputSource.sampleRate ?? 16000}
+                          onChange={(e) => setInputSource({ ...inputSource, sampleRate: parseInt(e.target.value) })}
+                          disabled={isCapturing}
+                        >
+                          <option value={8000}>8 kHz</option>
+                          <option value={16000}>16 kHz</option>
+                          <option value={44100}>44.1 kHz</option>
+                          <option value={48000}>48 kHz</option>
+                        </Select>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {inputSource.kind === "http" && (
+                  <div className="space-y-2">
+                    <Label>Stream URL</Label>
+                    <Input
+                      value={inputSource.url}
+                      onChange={(e) => setInputSource({ kind: "http", url: e.target.value.trim() })}
+                      placeholder="http://scanner.local:8000/dispatch.mp3"
+                      className="font-mono"
+                      disabled={isCapturing}
+                    />
+                    <p className="text-xs text-[var(--text-muted)]">MP3 or AAC, relayed through this server</p>
+                  </div>
+                )}
+
+                {fileInput && (
+                  <div className="space-y-2">
+                    <Label>Audio File</Label>
+                    <Input
+                      type="file"
+                      accept="audio/*"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) setInputSource({ kind: "file", file });
+                      }}
+                      disabled={isCapturing}
+                    />
+                    <p className="text-xs text-[var(--text-muted)]">
+                      {inputSource.kind === "file" ? `${inputSource.file.name} - played in a loop` : "Played in a loop, for testing detection"}
+                    </p>
+                  </div>
+                )}
+
+                {captureError && inputSource.kind !== "device" && (
+                  <p className="text-xs text-[var(--accent-orange)]">{captureError}</p>
+                )}
               </CardContent>
             </Card>
 
@@ -550,7 +780,7 @@ export default function LiveBroadcastPage() {
                                     </div>
                                     <button
                                       onClick={() => {
-                                        if (!isEditing && !useGlobalVolume) {
+                                        if (!isEditing && !useGlobalVolume && canEditMaxVolume) {
                                           setLocalMaxVolumes(prev => ({
                                             ...prev,
                                             [speaker.id]: storedMaxVolume
@@ -558,15 +788,17 @@ export default function LiveBroadcastPage() {
                                           setEditingSpeakerId(speaker.id);
                                         }
                                       }}
-                                      disabled={useGlobalVolume}
+                                      disabled={useGlobalVolume || !canEditMaxVolume}
                                       className={`text-xs ${
                                         useGlobalVolume
                                           ? 'text-[var(--text-muted)]/50 cursor-not-allowed line-through'
-                                          : 'text-[var(--accent-blue)] hover:underline cursor-pointer'
+                                          : !canEditMaxVolume
+                                            ? 'text-[var(--text-muted)] cursor-default'
+                                            : 'text-[var(--accent-blue)] hover:underline cursor-pointer'
                                       }`}
-                                      title={useGlobalVolume ? "Disabled - Global volume mode is active" : "Click to edit"}
+                                      title={useGlobalVolume ? "Disabled - Global volume mode is active" : !canEditMaxVolume ? "Admin role required to change" : "Click to edit"}
                                     >
-                                      Max: Level {displayLevel}/10 {!useGlobalVolume && '(click to edit)'}
+                                      Max: Level {displayLevel}/10 {!useGlobalVolume && canEditMaxVolume && '(click to edit)'}
                                     </button>
                                   </div>
                                 </div>
@@ -621,9 +853,9 @@ export default function LiveBroadcastPage() {
                                       className="flex-1 text-xs"
                                       onClick={async () => {
                                         try {
-                                          const { updateDevice } = await import("@/lib/firebase/firestore");
+                                          const { saveDevice } = await import("@/lib/api/devices");
                                           const volumeToSave = localMaxVolumes[speaker.id];
-                                          await updateDevice(speaker.id, { maxVolume: volumeToSave });
+                                          await saveDevice(speaker.id, { maxVolume: volumeToSave });
                                           speaker.maxVolume = volumeToSave;
                                           setEditingSpeakerId(null);
                                           await loadData(); // Refresh devices
@@ -657,6 +889,12 @@ export default function LiveBroadcastPage() {
               </CardContent>
             </Card>
 
+            {/* Multicast verification, during activations */}
+            <MulticastStatus />
+
+            {/* Who holds the speakers on the server */}
+            <PagingStatus devices={contextDevices} />
+
             {/* Detection Settings */}
             <Card>
               <CardHeader>
@@ -670,23 +908,128 @@ export default function LiveBroadcastPage() {
                       <span className="text-xs text-[var(--accent-green)]">Live adjustable</span>
                     )}
                   </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="ml-auto"
+                    onClick={() => setShowCalibration(true)}
+                    disabled={!isCapturing}
+                    title={isCapturing ? "Measure the channel and recommend thresholds" : "Start monitoring to calibrate"}
+                  >
+                    <Gauge className="mr-2 h-4 w-4" />
+                    Calibrate
+                  </Button>
                 </div>
               </CardHeader>
               <CardContent className="space-y-6">
-                {/* Audio Threshold */}
+                {calibration && (
+                  <p className="text-xs text-[var(--text-muted)]">
+                    Calibrated {formatDate(calibration.calibratedAt)}: noise {calibration.noiseFloorDbfs} dBFS,
+                    speech {calibration.speechDbfs} dBFS → attack {calibration.attackDbfs}, release {calibration.releaseDbfs}
+                  </p>
+                )}
+
+                {/* Trigger */}
                 <div className="space-y-3">
+                  <Label>Trigger</Label>
+                  <Select
+                    value={triggerMode}
+                    onChange={(e) => setTriggerMode(e.target.value as typeof triggerMode)}
+                    disabled={isCapturing}
+                  >
+                    <option value="level">Audio level (selected devices and zones)</option>
+                    <option value="tone">Two-tone pages (each tone set&apos;s speakers)</option>
+                    <option value="both">Audio level or two-tone pages</option>
+                  </Select>
+                  <p className="text-xs text-[var(--text-muted)]">
+                    {triggerMode === "level"
+                      ? "Speakers open when the voice-band level stays above the attack threshold"
+                      : `Listening for ${toneSets.filter((s) => s.enabled).length} tone sets - manage them on the `}
+                    {triggerMode !== "level" && (
+                      <a href="/tones" className="text-[var(--accent-blue)] hover:underline">Tone Sets</a>
+                    )}
+                  </p>
+                </div>
+
+                {/* Attack / Release */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label>Attack Threshold</Label>
+                    <span className="text-sm font-mono text-[var(--accent-blue)]">{detectorSettings.attackDbfs} dBFS</span>
+                  </div>
+                  <Slider
+                    min={-80}
+                    max={-10}
+                    value={detectorSettings.attackDbfs}
+                    onChange={(e) => updateDetector({ attackDbfs: parseInt(e.target.value) })}
+                  />
                   <div className="flex items-center justify-between">
-                    <Label>Audio Threshold</Label>
-                    <span className="text-sm font-mono text-[var(--accent-blue)]">{audioThreshold}%</span>
+                    <Label>Release Threshold</Label>
+                    <span className="text-sm font-mono text-[var(--accent-blue)]">{detectorSettings.releaseDbfs} dBFS</span>
+                  </div>
+                  <Slider
+                    min={-80}
+                    max={detectorSettings.attackDbfs}
+                    value={detectorSettings.releaseDbfs}
+                    onChange={(e) => updateDetector({ releaseDbfs: parseInt(e.target.value) })}
+                  />
+                  <p className="text-xs text-[var(--text-muted)]">
+                    Voice-band (300-3400 Hz) level that starts detection, and the lower level it must fall
+                    below to end it, so squelch tails and pauses don&apos;t chatter
+                  </p>
+                </div>
+
+                {/* Adaptive noise floor */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label>Adaptive Noise Floor</Label>
+                      <p className="text-xs text-[var(--text-muted)]">
+                        Keep attack at least {detectorSettings.floorMarginDb} dB above the learned floor
+                      </p>
+                    </div>
+                    <Switch
+                      checked={detectorSettings.adaptive}
+                      onCheckedChange={(adaptive) => updateDetector({ adaptive })}
+                    />
+                  </div>
+                  {detectorSettings.adaptive && (
+                    <Slider
+                      min={6}
+                      max={30}
+                      value={detectorSettings.floorMarginDb}
+                      onChange={(e) => updateDetector({ floorMarginDb: parseInt(e.target.value) })}
+                    />
+                  )}
+                </div>
+
+                {/* Lockout */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label>Lockout</Label>
+                    <span className="text-sm font-mono text-[var(--accent-blue)]">
+                      {detectorSettings.maxTriggersPerMinute === 0
+                        ? "Off"
+                        : `${detectorSettings.maxTriggersPerMinute}/min → ${detectorSettings.lockoutSeconds}s`}
+                    </span>
                   </div>
                   <Slider
                     min={0}
-                    max={50}
-                    value={audioThreshold}
-                    onChange={(e) => setAudioThreshold(parseInt(e.target.value))}
+                    max={20}
+                    value={detectorSettings.maxTriggersPerMinute}
+                    onChange={(e) => updateDetector({ maxTriggersPerMinute: parseInt(e.target.value) })}
                   />
+                  {detectorSettings.maxTriggersPerMinute > 0 && (
+                    <Slider
+                      min={10}
+                      max={300}
+                      step={10}
+                      value={detectorSettings.lockoutSeconds}
+                      onChange={(e) => updateDetector({ lockoutSeconds: parseInt(e.target.value) })}
+                    />
+                  )}
                   <p className="text-xs text-[var(--text-muted)]">
-                    Minimum audio level to trigger speaker activation
+                    After this many activations in a minute, ignore audio for the lockout time
                   </p>
                 </div>
 
@@ -704,7 +1047,7 @@ export default function LiveBroadcastPage() {
                     onChange={(e) => setSustainDuration(parseInt(e.target.value))}
                   />
                   <p className="text-xs text-[var(--text-muted)]">
-                    Audio must stay above threshold for this duration to trigger
+                    Audio must stay above the attack threshold for this duration to trigger
                   </p>
                 </div>
 
@@ -906,6 +1249,43 @@ export default function LiveBroadcastPage() {
                   </div>
                   <Switch checked={recordingEnabled} onCheckedChange={setRecordingEnabled} />
                 </div>
+
+                {recordingEnabled && (
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Label>Pre-roll</Label>
+                      <span className="text-sm font-mono text-[var(--accent-blue)]">{preRollSeconds}s</span>
+                    </div>
+                    <Slider
+                      min={0}
+                      max={15}
+                      step={1}
+                      value={preRollSeconds}
+                      onChange={(e) => setPreRollSeconds(parseInt(e.target.value))}
+                    />
+                    <p className="text-xs text-[var(--text-muted)]">
+                      Audio from before detection added to the start of each clip - keep it longer than
+                      the sustain duration so the clip includes the start of the dispatch
+                    </p>
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between p-4 rounded-xl bg-[var(--bg-secondary)] border border-[var(--border-color)]">
+                  <div>
+                    <Label className="!text-[var(--text-primary)]">Level Trace</Label>
+                    <p className="text-xs text-[var(--text-muted)]">
+                      Keep levels and detection decisions (last 4 hours) to replay with <code>npm run replay</code>
+                    </p>
+                  </div>
+                  <Switch checked={traceEnabled} onCheckedChange={setTraceEnabled} />
+                </div>
+
+                {traceEnabled && (
+                  <Button variant="outline" className="w-full" onClick={handleDownloadTrace}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Download Trace
+                  </Button>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -977,6 +1357,209 @@ export default function LiveBroadcastPage() {
               </CardContent>
             </Card>
 
+            {/* Zone Selection */}
+            {zones.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-[var(--accent-blue)]/15">
+                      <Layers className="h-5 w-5 text-[var(--accent-blue)]" />
+                    </div>
+                    <CardTitle>Target Zones</CardTitle>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-wrap gap-2">
+                    {zones.map((zone) => (
+                      <Button
+                        key={zone.id}
+                        variant={selectedZones.includes(zone.id) ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => toggleZone(zone.id)}
+                      >
+                        {zone.name}
+                      </Button>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Tone Alerts */}
+            {triggerMode !== "level" && (
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <div className="p-2 rounded-lg bg-[var(--accent-orange)]/15">
+                        <AudioWaveform className="h-5 w-5 text-[var(--accent-orange)]" />
+                      </div>
+                      <CardTitle>Tone Alerts</CardTitle>
+                    </div>
+                    {activeToneSet && <Badge variant="warning">{activeToneSet.name} open</Badge>}
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {toneEvents.length === 0 ? (
+                    <p className="text-sm text-[var(--text-muted)] text-center py-2">
+                      {isCapturing ? "No stations toned yet" : "Start monitoring to listen for tones"}
+                    </p>
+                  ) : (
+                    <div className="space-y-2 max-h-[240px] overflow-y-auto">
+                      {toneEvents.map((event) => (
+                        <div
+                          key={`${event.timestamp}-${event.toneSetId}`}
+                          className="flex items-center justify-between rounded-lg bg-[var(--bg-secondary)] p-2 text-sm"
+                        >
+                          <div>
+                            <p className="font-medium text-[var(--text-primary)]">{event.toneSetName}</p>
+                            <p className="text-xs font-mono text-[var(--text-muted)]">
+                              {event.toneA} Hz → {event.toneB} Hz
+                            </p>
+                          </div>
+                          <span className="text-xs text-[var(--text-muted)]">
+                            {new Date(event.timestamp).toLocaleTimeString()}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Unit IDs */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-3">
+                  <div className="p-2 rounded-lg bg-[var(--accent-blue)]/15">
+                    <Hash className="h-5 w-5 text-[var(--accent-blue)]" />
+                  </div>
+                  <CardTitle>Unit IDs</CardTitle>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-xs text-[var(--text-muted)]">
+                  DTMF and MDC1200 IDs sent when a radio keys up. Ignored units keep the speakers
+                  muted; routed units play on their own zones instead of the selected targets.
+                </p>
+
+                {/* Recently heard */}
+                {recentUnitIds.length === 0 ? (
+                  <p className="text-sm text-[var(--text-muted)] text-center py-2">
+                    {isCapturing ? "No unit IDs heard yet" : "Start monitoring to decode unit IDs"}
+                  </p>
+                ) : (
+                  <div className="space-y-2 max-h-[200px] overflow-y-auto">
+                    {recentUnitIds.map((unitId) => (
+                      <div
+                        key={`${unitId.detectedAt}-${unitId.kind}-${unitId.id}`}
+                        className="flex items-center justify-between rounded-lg bg-[var(--bg-secondary)] p-2 text-sm"
+                      >
+                        <div>
+                          <p className="font-mono font-medium text-[var(--text-primary)]">{formatUnitId(unitId)}</p>
+                          <p className="text-xs text-[var(--text-muted)]">
+                            {new Date(unitId.detectedAt).toLocaleTimeString()}
+                            {unitId.detail && ` · ${unitId.detail}`}
+                          </p>
+                        </div>
+                        <Button variant="outline" size="sm" onClick={() => ignoreUnitId(unitId)}>
+                          Ignore
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* Rules */}
+                {unitIdRules.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Rules</Label>
+                    {unitIdRules.map((rule) => (
+                      <div
+                        key={rule.id}
+                        className="flex items-center justify-between rounded-lg border border-[var(--border-color)] p-2 text-sm"
+                      >
+                        <div className="flex items-center gap-2">
+                          <Badge variant={rule.action === "ignore" ? "secondary" : "default"}>
+                            {rule.action === "ignore" ? "Ignore" : "Route"}
+                          </Badge>
+                          <span className="font-mono text-[var(--text-primary)]">
+                            {rule.kind === "any" ? rule.pattern : formatUnitId({ kind: rule.kind, id: rule.pattern })}
+                          </span>
+                          {rule.action === "route" && (
+                            <span className="text-xs text-[var(--text-muted)]">
+                              → {zones.filter((z) => rule.zoneIds.includes(z.id)).map((z) => z.name).join(", ") || "no zones"}
+                            </span>
+                          )}
+                        </div>
+                        <Button variant="ghost" size="sm" onClick={() => removeUnitIdRule(rule.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* New rule */}
+                <div className="space-y-2">
+                  <Label>Add Rule</Label>
+                  <div className="grid grid-cols-3 gap-2">
+                    <Input
+                      value={newRule.pattern}
+                      onChange={(e) => setNewRule({ ...newRule, pattern: e.target.value })}
+                      placeholder="ID or prefix*"
+                      className="font-mono"
+                    />
+                    <Select
+                      value={newRule.kind}
+                      onChange={(e) => setNewRule({ ...newRule, kind: e.target.value as UnitIdRule["kind"] })}
+                    >
+                      <option value="any">Any</option>
+                      <option value="mdc1200">MDC1200</option>
+                      <option value="dtmf">DTMF</option>
+                    </Select>
+                    <Select
+                      value={newRule.action}
+                      onChange={(e) => setNewRule({ ...newRule, action: e.target.value as UnitIdRule["action"] })}
+                    >
+                      <option value="ignore">Ignore</option>
+                      <option value="route">Route to zones</option>
+                    </Select>
+                  </div>
+                  {newRule.action === "route" && (
+                    zones.length === 0 ? (
+                      <p className="text-xs text-[var(--text-muted)]">Create zones to route unit IDs</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-2">
+                        {zones.map((zone) => (
+                          <Button
+                            key={zone.id}
+                            variant={newRule.zoneIds.includes(zone.id) ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => toggleNewRuleZone(zone.id)}
+                          >
+                            {zone.name}
+                          </Button>
+                        ))}
+                      </div>
+                    )
+                  )}
+                  <Button
+                    size="sm"
+                    disabled={!canAddRule}
+                    onClick={() => {
+                      addUnitIdRule(newRule);
+                      setNewRule({ kind: "any", pattern: "", action: "ignore", zoneIds: [] });
+                    }}
+                  >
+                    <Plus className="mr-1 h-4 w-4" />
+                    Add Rule
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
             {/* Broadcast Controls */}
             <Card>
               <CardHeader>
@@ -1006,7 +1589,7 @@ export default function LiveBroadcastPage() {
                     className="w-full"
                     size="lg"
                     onClick={handleStartBroadcast}
-                    disabled={selectedDevices.length === 0}
+                    disabled={!hasTargets}
                   >
                     <Radio className="mr-2 h-5 w-5" />
                     Start Broadcast
@@ -1045,6 +1628,9 @@ export default function LiveBroadcastPage() {
               </CardContent>
             </Card>
 
+            {/* RTP Multicast Out */}
+            <RtpStreamCard />
+
             {/* Recorded Audio */}
             {recordedBlob && (
               <Card>
@@ -1091,6 +1677,12 @@ export default function LiveBroadcastPage() {
                     <span className="text-[var(--text-muted)]">Devices</span>
                     <span className="font-semibold text-[var(--text-primary)]">{selectedDevices.length} selected</span>
                   </div>
+                  {selectedZones.length > 0 && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-[var(--text-muted)]">Zones</span>
+                      <span className="font-semibold text-[var(--text-primary)]">{selectedZones.length} selected</span>
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -1120,6 +1712,8 @@ export default function LiveBroadcastPage() {
         {/* Activity Log - Full Width */}
         <AudioLogViewer />
       </div>
+
+      {showCalibration && <CalibrationWizard onClose={() => setShowCalibration(false)} />}
     </AppLayout>
   );
 }
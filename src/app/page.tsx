@@ -1,11 +1,189 @@
 "use client";
 
+import { useEffect, useState } from "react";
+import Link from "next/link";
 import { AppLayout } from "@/components/layout/app-layout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Speaker, Music, Radio, Activity } from "lucide-react";
+import { Speaker, Music, Radio, Activity, CheckCircle, XCircle, AlertTriangle, ShieldAlert } from "lucide-react";
+import { getDevices, getAudioFiles, getZones } from "@/lib/data";
+import { fetchHistory, DISTRIBUTION_ACTION_LABELS } from "@/lib/api/history";
+import { apiFetch } from "@/lib/api/fetch";
+import { applyDeviceStatus } from "@/lib/api/events";
+import { useServerEvents } from "@/hooks/useServerEvents";
+import type { EmergencyEvent, MonitoringEvent } from "@/lib/algo/events";
+import { useAudioMonitoring, useMonitorChannels } from "@/contexts/audio-monitoring-context";
+import type { AlgoDevice, AudioFile, DistributionLog, Zone } from "@/lib/algo/types";
+import { formatBytes, formatDate } from "@/lib/utils";
+
+interface DeviceHealthResult {
+  id: string;
+  isOnline: boolean;
+  authValid?: boolean;
+}
+
+// Live monitor activity kept for the feed
+const MAX_CONSOLE_EVENTS = 8;
+
+const MONITORING_ACTIVITY_LABELS: Record<MonitoringEvent["activity"], string> = {
+  started: "Monitoring started",
+  stopped: "Monitoring stopped",
+  activated: "Speakers opened",
+  released: "Speakers muted",
+};
+
+interface StatusIssue {
+  severity: "error" | "warning";
+  message: string;
+  href: string;
+  items?: Array<{ label: string; href: string }>;
+}
 
 export default function DashboardPage() {
+  const { selectedInputDevice, inputSource } = useAudioMonitoring();
+  const { statuses } = useMonitorChannels();
+  const [devices, setDevices] = useState<AlgoDevice[]>([]);
+  const [audioFiles, setAudioFiles] = useState<AudioFile[]>([]);
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [health, setHealth] = useState<DeviceHealthResult[] | null>(null);
+  const [inputMissing, setInputMissing] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [recentLogs, setRecentLogs] = useState<DistributionLog[]>([]);
+  const [consoleEvents, setConsoleEvents] = useState<(MonitoringEvent | EmergencyEvent)[]>([]);
+
+  useEffect(() => {
+    loadData();
+    checkHealth();
+    loadRecentLogs();
+  }, []);
+
+  useServerEvents((event) => {
+    switch (event.type) {
+      case "device_status":
+        setDevices((prev) => applyDeviceStatus(prev, event));
+        setHealth((prev) =>
+          prev?.map((h) => (h.id === event.deviceId ? { ...h, isOnline: event.isOnline, authValid: event.authValid } : h)) ??
+          null
+        );
+        break;
+      case "job":
+        // A finished job has been written to history
+        if (event.job.status !== "running") loadRecentLogs();
+        break;
+      case "monitoring":
+      case "emergency":
+        setConsoleEvents((prev) => [event, ...prev].slice(0, MAX_CONSOLE_EVENTS));
+        break;
+    }
+  });
+
+  const loadRecentLogs = () => {
+    fetchHistory({ limit: 5 })
+      .then((page) => setRecentLogs(page.logs))
+      .catch((error) => console.error("Failed to load recent activity:", error));
+  };
+
+  // The saved input may have been unplugged since monitoring last ran
+  const usesInputDevice = inputSource.kind === "device";
+  useEffect(() => {
+    if (!usesInputDevice || !navigator.mediaDevices?.enumerateDevices) return;
+    navigator.mediaDevices
+      .enumerateDevices()
+      .then((mediaDevices) => {
+        const inputs = mediaDevices.filter((d) => d.kind === "audioinput");
+        setInputMissing(
+          inputs.length === 0 ||
+            (!!selectedInputDevice && !inputs.some((d) => d.deviceId === selectedInputDevice))
+        );
+      })
+      .catch((error) => console.error("Failed to enumerate input devices:", error));
+  }, [selectedInputDevice, usesInputDevice]);
+
+  const loadData = async () => {
+    try {
+      const [devicesData, audioData, zonesData] = await Promise.all([
+        getDevices(),
+        getAudioFiles(),
+        getZones(),
+      ]);
+      setDevices(devicesData);
+      setAudioFiles(audioData);
+      setZones(zonesData);
+    } catch (error) {
+      console.error("Failed to load dashboard data:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Live status for every device; until it returns, the stored status is shown
+  const checkHealth = async () => {
+    try {
+      const response = await apiFetch("/api/algo/health", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ timeout: 3000 }),
+      });
+      if (!response.ok) {
+        throw new Error(`Health check failed: HTTP ${response.status}`);
+      }
+      const data = await response.json();
+      setHealth(data.devices);
+    } catch (error) {
+      console.error("Failed to check device health:", error);
+    }
+  };
+
+  const deviceStatus = devices.map((device) => {
+    const result = health?.find((h) => h.id === device.id);
+    return {
+      device,
+      isOnline: result ? result.isOnline : device.isOnline,
+      authValid: result ? result.authValid : device.authValid,
+    };
+  });
+  const offlineDevices = deviceStatus.filter((s) => !s.isOnline).map((s) => s.device);
+  const authFailures = deviceStatus.filter((s) => s.isOnline && s.authValid === false).map((s) => s.device);
+  const onlineCount = devices.length - offlineDevices.length;
+  const emptyZones = zones.filter((z) => !z.deviceIds?.length);
+  const audioBytes = audioFiles.reduce((total, file) => total + (file.fileSize || 0), 0);
+
+  const deviceLinks = (list: AlgoDevice[]) =>
+    list.map((device) => ({ label: device.name, href: `/devices#device-${device.id}` }));
+
+  const issues: StatusIssue[] = [];
+  if (offlineDevices.length > 0) {
+    issues.push({
+      severity: "error",
+      message: `${offlineDevices.length} device${offlineDevices.length !== 1 ? "s" : ""} offline`,
+      href: "/devices",
+      items: deviceLinks(offlineDevices),
+    });
+  }
+  if (authFailures.length > 0) {
+    issues.push({
+      severity: "error",
+      message: `${authFailures.length} authentication failure${authFailures.length !== 1 ? "s" : ""}`,
+      href: "/devices",
+      items: deviceLinks(authFailures),
+    });
+  }
+  for (const status of statuses.filter((s) => s.captureError)) {
+    issues.push({
+      severity: "error",
+      message: `${statuses.length > 1 ? `${status.channel.name}: ` : ""}Input error: ${status.captureError}`,
+      href: "/live",
+    });
+  }
+  if (usesInputDevice && inputMissing && !statuses.some((s) => s.captureError)) {
+    issues.push({ severity: "error", message: "Input device missing", href: "/live" });
+  }
+  if (!statuses.some((s) => s.isCapturing)) {
+    issues.push({ severity: "warning", message: "Live monitoring stopped", href: "/live" });
+  }
+
+  const hasErrors = issues.some((issue) => issue.severity === "error");
+
   return (
     <AppLayout>
       <div className="space-y-6">
@@ -19,46 +197,69 @@ export default function DashboardPage() {
 
         {/* Stats Grid */}
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between pb-2">
-              <CardTitle className="text-sm font-medium text-[var(--text-secondary)]">
-                Total Devices
-              </CardTitle>
-              <Speaker className="h-4 w-4 text-[var(--text-muted)]" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold text-[var(--text-primary)]">0</div>
-              <p className="text-xs text-[var(--text-secondary)]">
-                <span className="text-[var(--accent-green)]">0 online</span> / 0 offline
-              </p>
-            </CardContent>
-          </Card>
+          <Link href="/devices">
+            <Card className="h-full transition-colors hover:border-[var(--border-active)]">
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-sm font-medium text-[var(--text-secondary)]">
+                  Total Devices
+                </CardTitle>
+                <Speaker className="h-4 w-4 text-[var(--text-muted)]" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-[var(--text-primary)]">
+                  {loading ? "–" : devices.length}
+                </div>
+                <p className="text-xs text-[var(--text-secondary)]">
+                  <span className="text-[var(--accent-green)]">{onlineCount} online</span> /{" "}
+                  <span className={offlineDevices.length > 0 ? "text-[var(--accent-red)]" : undefined}>
+                    {offlineDevices.length} offline
+                  </span>
+                  {!health && devices.length > 0 && " (last known)"}
+                </p>
+              </CardContent>
+            </Card>
+          </Link>
 
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between pb-2">
-              <CardTitle className="text-sm font-medium text-[var(--text-secondary)]">
-                Audio Files
-              </CardTitle>
-              <Music className="h-4 w-4 text-[var(--text-muted)]" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold text-[var(--text-primary)]">0</div>
-              <p className="text-xs text-[var(--text-secondary)]">Ready to distribute</p>
-            </CardContent>
-          </Card>
+          <Link href="/audio">
+            <Card className="h-full transition-colors hover:border-[var(--border-active)]">
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-sm font-medium text-[var(--text-secondary)]">
+                  Audio Files
+                </CardTitle>
+                <Music className="h-4 w-4 text-[var(--text-muted)]" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-[var(--text-primary)]">
+                  {loading ? "–" : audioFiles.length}
+                </div>
+                <p className="text-xs text-[var(--text-secondary)]">
+                  {audioFiles.length > 0 ? `${formatBytes(audioBytes)} ready to distribute` : "Ready to distribute"}
+                </p>
+              </CardContent>
+            </Card>
+          </Link>
 
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between pb-2">
-              <CardTitle className="text-sm font-medium text-[var(--text-secondary)]">
-                Active Zones
-              </CardTitle>
-              <Radio className="h-4 w-4 text-[var(--text-muted)]" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold text-[var(--text-primary)]">0</div>
-              <p className="text-xs text-[var(--text-secondary)]">Configured zones</p>
-            </CardContent>
-          </Card>
+          <Link href="/zones">
+            <Card className="h-full transition-colors hover:border-[var(--border-active)]">
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-sm font-medium text-[var(--text-secondary)]">
+                  Active Zones
+                </CardTitle>
+                <Radio className="h-4 w-4 text-[var(--text-muted)]" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-[var(--text-primary)]">
+                  {loading ? "–" : zones.length - emptyZones.length}
+                </div>
+                <p className="text-xs text-[var(--text-secondary)]">
+                  {zones.length} configured
+                  {emptyZones.length > 0 && (
+                    <span className="text-[var(--accent-orange)]"> • {emptyZones.length} without devices</span>
+                  )}
+                </p>
+              </CardContent>
+            </Card>
+          </Link>
 
           <Card>
             <CardHeader className="flex flex-row items-center justify-between pb-2">
@@ -69,9 +270,48 @@ export default function DashboardPage() {
             </CardHeader>
             <CardContent>
               <div className="flex items-center gap-2">
-                <Badge variant="success">Operational</Badge>
+                {issues.length === 0 ? (
+                  <Badge variant="success">Operational</Badge>
+                ) : hasErrors ? (
+                  <Badge variant="destructive">Issues detected</Badge>
+                ) : (
+                  <Badge variant="warning">Attention</Badge>
+                )}
               </div>
-              <p className="mt-1 text-xs text-[var(--text-secondary)]">All systems normal</p>
+              {issues.length === 0 ? (
+                <p className="mt-1 text-xs text-[var(--text-secondary)]">All systems normal</p>
+              ) : (
+                <ul className="mt-2 space-y-1 text-xs">
+                  {issues.map((issue) => (
+                    <li key={issue.message}>
+                      <Link
+                        href={issue.href}
+                        className={
+                          issue.severity === "error"
+                            ? "text-[var(--accent-red)] hover:underline"
+                            : "text-[var(--accent-orange)] hover:underline"
+                        }
+                      >
+                        {issue.message}
+                      </Link>
+                      {issue.items && (
+                        <span className="text-[var(--text-muted)]">
+                          {": "}
+                          {issue.items.slice(0, 3).map((item, index) => (
+                            <span key={item.href}>
+                              {index > 0 && ", "}
+                              <Link href={item.href} className="hover:underline">
+                                {item.label}
+                              </Link>
+                            </span>
+                          ))}
+                          {issue.items.length > 3 && ` +${issue.items.length - 3} more`}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -137,19 +377,86 @@ export default function DashboardPage() {
               <CardDescription>Latest sound distribution events</CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="flex h-40 items-center justify-center text-[var(--text-muted)]">
-                <p className="text-center">
-                  No recent activity
-                  <br />
-                  <span className="text-sm">
-                    Distribution events will appear here
-                  </span>
-                </p>
-              </div>
+              {recentLogs.length === 0 ? (
+                <div className="flex h-40 items-center justify-center text-[var(--text-muted)]">
+                  <p className="text-center">
+                    No recent activity
+                    <br />
+                    <span className="text-sm">
+                      Distribution events will appear here
+                    </span>
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {recentLogs.map((log) => (
+                    <div key={log.id} className="flex items-start gap-3">
+                      {log.status === "success" ? (
+                        <CheckCircle className="mt-0.5 h-4 w-4 shrink-0 text-[var(--accent-green)]" />
+                      ) : log.status === "partial" ? (
+                        <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-[var(--accent-orange)]" />
+                      ) : (
+                        <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-[var(--accent-red)]" />
+                      )}
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium text-[var(--text-primary)]">
+                          {DISTRIBUTION_ACTION_LABELS[log.action] ?? "Distribution"}: {log.audioFileName}
+                        </p>
+                        <p className="truncate text-xs text-[var(--text-muted)]">
+                          {log.results.length} device{log.results.length !== 1 ? "s" : ""}
+                          {log.targetZones.length > 0 && ` • ${log.targetZones.join(", ")}`}
+                          {" • "}
+                          {log.triggeredByEmail || (log.triggeredBy === "local" ? "Station" : log.triggeredBy)}
+                          {" • "}
+                          {formatDate(log.createdAt)}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                  <a href="/history" className="block text-sm text-[var(--accent-blue)] hover:underline">
+                    View all history
+                  </a>
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
 
+        {/* Live monitor activity on every console, while this page is open */}
+        {consoleEvents.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Live Monitor Activity</CardTitle>
+              <CardDescription>Activations and emergency actions on every console</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {consoleEvents.map((event) => (
+                <div key={`${event.console}-${event.at}-${event.type}`} className="flex items-start gap-3">
+                  {event.type === "emergency" ? (
+                    <ShieldAlert className="mt-0.5 h-4 w-4 shrink-0 text-[var(--accent-red)]" />
+                  ) : (
+                    <Radio className="mt-0.5 h-4 w-4 shrink-0 text-[var(--accent-blue)]" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium text-[var(--text-primary)]">
+                      {event.type === "emergency"
+                        ? `Emergency ${event.action === "kill" ? "kill" : "enable"}: all speakers`
+                        : MONITORING_ACTIVITY_LABELS[event.activity]}
+                      {event.type === "monitoring" && event.detail && ` • ${event.detail}`}
+                    </p>
+                    <p className="truncate text-xs text-[var(--text-muted)]">
+                      {event.channel}
+                      {event.user && ` • ${event.user}`}
+                      {" • "}
+                      {formatDate(event.at)}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Getting Started */}
         <Card>
           <CardHeader>
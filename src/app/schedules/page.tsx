@@ -0,0 +1,863 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AppLayout } from "@/components/layout/app-layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Pencil, Trash2, RefreshCw, X, Volume2, CalendarClock, Play, Upload, Music } from "lucide-react";
+import { getDevices, getZones, getAudioFiles } from "@/lib/data";
+import {
+  fetchSchedules,
+  createSchedule,
+  saveSchedule,
+  removeSchedule,
+  runScheduleNow,
+  saveHolidays,
+  importCalendar,
+} from "@/lib/api/schedules";
+import { useAuth } from "@/contexts/auth-context";
+import {
+  WEEKDAY_LABELS,
+  describeScheduleRule,
+  validateScheduleInput,
+  type ScheduleInput,
+} from "@/lib/algo/schedules";
+import type { ICalImport, ScheduleTemplate } from "@/lib/algo/ical";
+import type { ScheduleStatus } from "@/lib/algo/scheduler";
+import type { AlgoDevice, AudioFile, Holiday, Schedule, ScheduleRule, Zone } from "@/lib/algo/types";
+import { formatDate } from "@/lib/utils";
+
+// What a schedule plays and where; also what every .ics import plays
+const EMPTY_TEMPLATE: ScheduleTemplate = {
+  audio: { kind: "tone", filename: "chime.wav" },
+  deviceIds: [],
+  zoneIds: [],
+  volume: 50,
+  loop: false,
+  skipHolidays: true,
+};
+
+const EMPTY_FORM = {
+  ...EMPTY_TEMPLATE,
+  name: "",
+  ruleKind: "weekly" as ScheduleRule["kind"],
+  at: "",
+  days: [1, 2, 3, 4, 5],
+  time: "07:00",
+  expression: "0 7 * * 1-5",
+  exclusions: "",
+  startsOn: "",
+  endsOn: "",
+  enabled: true,
+};
+
+export default function SchedulesPage() {
+  const { hasRole } = useAuth();
+  const isAdmin = hasRole("admin");
+  const isOperator = hasRole("operator");
+  const [schedules, setSchedules] = useState<ScheduleStatus[]>([]);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [devices, setDevices] = useState<AlgoDevice[]>([]);
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [audioFiles, setAudioFiles] = useState<AudioFile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<Schedule | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const [newHoliday, setNewHoliday] = useState({ date: "", name: "" });
+
+  // .ics import
+  const [showImport, setShowImport] = useState(false);
+  const [importText, setImportText] = useState("");
+  const [importTemplate, setImportTemplate] = useState(EMPTY_TEMPLATE);
+  const [importPreview, setImportPreview] = useState<ICalImport | null>(null);
+  const [importError, setImportError] = useState("");
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [scheduleData, devicesData, zonesData, audioData] = await Promise.all([
+        fetchSchedules(),
+        getDevices(),
+        getZones(),
+        getAudioFiles(),
+      ]);
+      setSchedules(scheduleData.schedules);
+      setHolidays(scheduleData.holidays);
+      setDevices(devicesData);
+      setZones(zonesData);
+      setAudioFiles(audioData);
+    } catch (error) {
+      console.error("Failed to load schedules:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setFormError("");
+    setEditingSchedule(null);
+  };
+
+  const openAddForm = () => {
+    resetForm();
+    setShowForm(true);
+  };
+
+  const openEditForm = (schedule: Schedule) => {
+    const { rule } = schedule;
+    setFormData({
+      ...EMPTY_FORM,
+      audio: schedule.audio,
+      deviceIds: schedule.deviceIds ?? [],
+      zoneIds: schedule.zoneIds ?? [],
+      volume: schedule.volume,
+      loop: schedule.loop,
+      skipHolidays: schedule.skipHolidays,
+      name: schedule.name,
+      ruleKind: rule.kind,
+      ...(rule.kind === "once" ? { at: rule.at } : {}),
+      ...(rule.kind === "weekly" ? { days: rule.days, time: rule.time } : {}),
+      ...(rule.kind === "cron" ? { expression: rule.expression } : {}),
+      exclusions: schedule.exclusions.join(", "),
+      startsOn: schedule.startsOn ?? "",
+      endsOn: schedule.endsOn ?? "",
+      enabled: schedule.enabled,
+    });
+    setFormError("");
+    setEditingSchedule(schedule);
+    setShowForm(true);
+  };
+
+  const toggleDay = (day: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      days: prev.days.includes(day) ? prev.days.filter((d) => d !== day) : [...prev.days, day].sort(),
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError("");
+
+    const rule: ScheduleRule =
+      formData.ruleKind === "once"
+        ? { kind: "once", at: formData.at }
+        : formData.ruleKind === "weekly"
+          ? { kind: "weekly", days: formData.days, time: formData.time }
+          : { kind: "cron", expression: formData.expression.trim() };
+
+    const schedule: ScheduleInput = {
+      name: formData.name.trim(),
+      rule,
+      audio: formData.audio,
+      deviceIds: formData.deviceIds,
+      zoneIds: formData.zoneIds,
+      volume: formData.volume,
+      loop: formData.loop,
+      skipHolidays: formData.skipHolidays,
+      exclusions: formData.exclusions.split(/[\s,]+/).filter(Boolean),
+      startsOn: formData.startsOn || null,
+      endsOn: formData.endsOn || null,
+      enabled: formData.enabled,
+    };
+
+    const validationError = validateScheduleInput(schedule);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editingSchedule) {
+        await saveSchedule(editingSchedule.id, schedule);
+      } else {
+        await createSchedule(schedule);
+      }
+      await loadData();
+      setShowForm(false);
+      resetForm();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Failed to save schedule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (schedule: Schedule) => {
+    if (!confirm(`Delete schedule "${schedule.name}"?`)) return;
+    try {
+      await removeSchedule(schedule.id);
+      await loadData();
+    } catch (error) {
+      console.error("Failed to delete schedule:", error);
+    }
+  };
+
+  const handleToggleEnabled = async (schedule: Schedule) => {
+    try {
+      await saveSchedule(schedule.id, { enabled: !schedule.enabled });
+      await loadData();
+    } catch (error) {
+      console.error("Failed to update schedule:", error);
+    }
+  };
+
+  const handleRunNow = async (schedule: Schedule) => {
+    setRunningId(schedule.id);
+    try {
+      await runScheduleNow(schedule.id);
+      await loadData();
+    } catch (error) {
+      alert(`Failed to run ${schedule.name}: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const updateHolidays = async (next: Holiday[]) => {
+    try {
+      await saveHolidays(next);
+      await loadData();
+    } catch (error) {
+      alert(`Failed to save holidays: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const handleAddHoliday = async () => {
+    if (!newHoliday.date) return;
+    await updateHolidays([
+      ...holidays.filter((h) => h.date !== newHoliday.date),
+      { date: newHoliday.date, name: newHoliday.name.trim() || "Holiday" },
+    ]);
+    setNewHoliday({ date: "", name: "" });
+  };
+
+  const openImport = () => {
+    setImportText("");
+    setImportTemplate(EMPTY_TEMPLATE);
+    setImportPreview(null);
+    setImportError("");
+    setShowImport(true);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setImportPreview(null);
+    setImportText(file ? await file.text() : "");
+  };
+
+  const handleImport = async (dryRun: boolean) => {
+    setImportError("");
+    setImporting(true);
+    try {
+      const result = await importCalendar(importText, importTemplate, dryRun);
+      if (dryRun) {
+        setImportPreview(result);
+      } else {
+        await loadData();
+        setShowImport(false);
+      }
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : "Failed to import calendar");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const targetNames = (schedule: Schedule) => [
+    ...devices.filter((d) => schedule.deviceIds?.includes(d.id)).map((d) => d.name),
+    ...zones.filter((z) => schedule.zoneIds?.includes(z.id)).map((z) => z.name),
+  ];
+
+  const audioName = ({ audio }: Schedule) => {
+    if (audio.kind === "tone") return audio.filename;
+    return audioFiles.find((f) => f.id === audio.audioFileId)?.name ?? "Missing audio file";
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-[var(--text-primary)]">Schedules</h1>
+            <p className="text-[var(--text-secondary)] text-sm">
+              Tones and announcements the server plays on its own, in the server&apos;s local time
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={loadData}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Refresh
+            </Button>
+            {isAdmin && (
+              <Button variant="outline" onClick={openImport}>
+                <Upload className="mr-2 h-4 w-4" />
+                Import .ics
+              </Button>
+            )}
+            {isAdmin && (
+              <Button onClick={openAddForm}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Schedule
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Add/Edit Form Modal */}
+        {showForm && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70">
+            <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>{editingSchedule ? "Edit Schedule" : "Add Schedule"}</CardTitle>
+                  <button
+                    onClick={() => setShowForm(false)}
+                    className="text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-colors"
+                  >
+                    <X className="h-5 w-5" />
+                  </button>
+                </div>
+                <CardDescription>When to play, what, and on which speakers</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  {formError && (
+                    <div className="rounded-lg bg-[var(--accent-red)]/10 border border-[var(--accent-red)]/30 p-3 text-sm text-[var(--accent-red)]">
+                      {formError}
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Name</Label>
+                    <Input
+                      id="name"
+                      placeholder="Shift change"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="ruleKind">Repeat</Label>
+                    <Select
+                      id="ruleKind"
+                      value={formData.ruleKind}
+                      onChange={(e) => setFormData({ ...formData, ruleKind: e.target.value as ScheduleRule["kind"] })}
+                    >
+                      <option value="once">Once</option>
+                      <option value="weekly">On weekdays</option>
+                      <option value="cron">Cron expression</option>
+                    </Select>
+                  </div>
+
+                  {formData.ruleKind === "once" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="at">Date and Time</Label>
+                      <Input
+                        id="at"
+                        type="datetime-local"
+                        value={formData.at}
+                        onChange={(e) => setFormData({ ...formData, at: e.target.value })}
+                      />
+                    </div>
+                  )}
+
+                  {formData.ruleKind === "weekly" && (
+                    <div className="space-y-2">
+                      <Label>Days</Label>
+                      <div className="flex flex-wrap gap-2">
+                        {WEEKDAY_LABELS.map((label, day) => (
+                          <Button
+                            key={label}
+                            type="button"
+                            size="sm"
+                            variant={formData.days.includes(day) ? "default" : "outline"}
+                            onClick={() => toggleDay(day)}
+                          >
+                            {label}
+                          </Button>
+                        ))}
+                      </div>
+                      <Label htmlFor="time">Time</Label>
+                      <Input
+                        id="time"
+                        type="time"
+                        value={formData.time}
+                        onChange={(e) => setFormData({ ...formData, time: e.target.value })}
+                      />
+                    </div>
+                  )}
+
+                  {formData.ruleKind === "cron" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="expression">Cron Expression</Label>
+                      <Input
+                        id="expression"
+                        className="font-mono"
+                        placeholder="0 7 * * 1-5"
+                        value={formData.expression}
+                        onChange={(e) => setFormData({ ...formData, expression: e.target.value })}
+                      />
+                      <p className="text-xs text-[var(--text-muted)]">
+                        minute hour day-of-month month day-of-week, e.g. <code>0 10 * * 3</code> for Wednesdays at 10:00
+                      </p>
+                    </div>
+                  )}
+
+                  <PlaybackFields
+                    value={formData}
+                    onChange={(changes) => setFormData({ ...formData, ...changes })}
+                    devices={devices}
+                    zones={zones}
+                    audioFiles={audioFiles}
+                  />
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="startsOn">Starts On</Label>
+                      <Input
+                        id="startsOn"
+                        type="date"
+                        value={formData.startsOn}
+                        onChange={(e) => setFormData({ ...formData, startsOn: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="endsOn">Ends On</Label>
+                      <Input
+                        id="endsOn"
+                        type="date"
+                        value={formData.endsOn}
+                        onChange={(e) => setFormData({ ...formData, endsOn: e.target.value })}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="exclusions">Skip Dates</Label>
+                    <Input
+                      id="exclusions"
+                      placeholder="2026-12-24, 2026-12-31"
+                      value={formData.exclusions}
+                      onChange={(e) => setFormData({ ...formData, exclusions: e.target.value })}
+                    />
+                    <p className="text-xs text-[var(--text-muted)]">
+                      YYYY-MM-DD dates this schedule doesn&apos;t play, besides the holidays
+                    </p>
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <Label>Enabled</Label>
+                    <Switch
+                      checked={formData.enabled}
+                      onCheckedChange={(enabled) => setFormData({ ...formData, enabled })}
+                    />
+                  </div>
+
+                  <div className="flex justify-end gap-2 pt-4">
+                    <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                      Cancel
+                    </Button>
+                    <Button type="submit" isLoading={saving}>
+                      {editingSchedule ? "Update" : "Add"} Schedule
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Import Modal */}
+        {showImport && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70">
+            <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Import Calendar</CardTitle>
+                  <button
+                    onClick={() => setShowImport(false)}
+                    className="text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-colors"
+                  >
+                    <X className="h-5 w-5" />
+                  </button>
+                </div>
+                <CardDescription>
+                  Timed events become schedules that play this audio; all-day events are added to the holidays
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {importError && (
+                  <div className="rounded-lg bg-[var(--accent-red)]/10 border border-[var(--accent-red)]/30 p-3 text-sm text-[var(--accent-red)]">
+                    {importError}
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="icsFile">Calendar File (.ics)</Label>
+                  <Input id="icsFile" type="file" accept=".ics,text/calendar" onChange={handleImportFile} />
+                </div>
+
+                <PlaybackFields
+                  value={importTemplate}
+                  onChange={(changes) => {
+                    setImportTemplate({ ...importTemplate, ...changes });
+                    setImportPreview(null);
+                  }}
+                  devices={devices}
+                  zones={zones}
+                  audioFiles={audioFiles}
+                />
+
+                {importPreview && (
+                  <div className="space-y-2 rounded-lg border border-[var(--border-color)] bg-[var(--bg-secondary)] p-3 text-sm">
+                    <p className="font-medium text-[var(--text-primary)]">
+                      {importPreview.schedules.length} schedule{importPreview.schedules.length !== 1 ? "s" : ""},{" "}
+                      {importPreview.holidays.length} holiday{importPreview.holidays.length !== 1 ? "s" : ""}
+                    </p>
+                    {importPreview.schedules.map((schedule, index) => (
+                      <p key={index} className="text-[var(--text-secondary)]">
+                        {schedule.name}: {describeScheduleRule(schedule.rule)}
+                      </p>
+                    ))}
+                    {importPreview.holidays.map((holiday) => (
+                      <p key={holiday.date} className="text-[var(--text-secondary)]">
+                        {holiday.date}: {holiday.name}
+                      </p>
+                    ))}
+                    {importPreview.skipped.map((skipped, index) => (
+                      <p key={index} className="text-[var(--accent-orange)]">
+                        Skipped {skipped.summary}: {skipped.reason}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex justify-end gap-2 pt-4">
+                  <Button variant="outline" onClick={() => setShowImport(false)}>
+                    Cancel
+                  </Button>
+                  {importPreview ? (
+                    <Button
+                      onClick={() => handleImport(false)}
+                      isLoading={importing}
+                      disabled={importPreview.schedules.length === 0 && importPreview.holidays.length === 0}
+                    >
+                      Import
+                    </Button>
+                  ) : (
+                    <Button onClick={() => handleImport(true)} isLoading={importing} disabled={!importText}>
+                      Preview
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Schedules List */}
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-[var(--accent-blue)] border-t-transparent" />
+          </div>
+        ) : schedules.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <div className="mb-4 rounded-full bg-[var(--bg-tertiary)] p-4">
+                <CalendarClock className="h-8 w-8 text-[var(--text-muted)]" />
+              </div>
+              <h3 className="mb-2 text-lg font-medium text-[var(--text-primary)]">No schedules yet</h3>
+              <p className="mb-4 text-center text-[var(--text-muted)]">
+                {isAdmin
+                  ? "Add shift-change chimes, nightly tones or weekly test pages, or import them from a calendar"
+                  : "An admin needs to add schedules"}
+              </p>
+              {isAdmin && (
+                <Button onClick={openAddForm}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Schedule
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {schedules.map((schedule) => {
+              const targets = targetNames(schedule);
+              return (
+                <Card key={schedule.id}>
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-lg">{schedule.name}</CardTitle>
+                      {schedule.enabled ? (
+                        <Badge variant="success">Enabled</Badge>
+                      ) : (
+                        <Badge variant="secondary">Disabled</Badge>
+                      )}
+                    </div>
+                    <CardDescription>{describeScheduleRule(schedule.rule)}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="space-y-1 text-sm text-[var(--text-muted)]">
+                      <p>Next: {schedule.nextRunAt ? formatDate(schedule.nextRunAt) : "Not scheduled"}</p>
+                      {schedule.lastRun && <p>Last run: {formatDate(schedule.lastRun.at)}</p>}
+                      {(schedule.startsOn || schedule.endsOn) && (
+                        <p>
+                          {schedule.startsOn ?? "Now"} to {schedule.endsOn ?? "no end date"}
+                        </p>
+                      )}
+                      {schedule.exclusions.length > 0 && (
+                        <p title={schedule.exclusions.join(", ")}>
+                          Skips {schedule.exclusions.length} date{schedule.exclusions.length !== 1 ? "s" : ""}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 text-sm text-[var(--text-muted)]">
+                      <Music className="h-4 w-4" />
+                      <span className="truncate">
+                        {audioName(schedule)}
+                        {schedule.loop && " (looped)"}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2 text-sm text-[var(--text-muted)]">
+                      <Volume2 className="h-4 w-4" />
+                      <span>
+                        Volume: {schedule.volume}%{schedule.skipHolidays && " • Skips holidays"}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {targets.length === 0 ? (
+                        <span className="text-sm text-[var(--text-muted)]">No devices</span>
+                      ) : (
+                        targets.map((name) => (
+                          <Badge key={name} variant="outline">
+                            {name}
+                          </Badge>
+                        ))
+                      )}
+                    </div>
+                    {(isOperator || isAdmin) && (
+                      <div className="flex flex-wrap gap-2 pt-2">
+                        {isOperator && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleRunNow(schedule)}
+                            isLoading={runningId === schedule.id}
+                          >
+                            <Play className="mr-1 h-3 w-3" />
+                            Run Now
+                          </Button>
+                        )}
+                        {isAdmin && (
+                          <>
+                            <Button size="sm" variant="outline" onClick={() => openEditForm(schedule)}>
+                              <Pencil className="mr-1 h-3 w-3" />
+                              Edit
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => handleToggleEnabled(schedule)}>
+                              {schedule.enabled ? "Disable" : "Enable"}
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => handleDelete(schedule)}>
+                              <Trash2 className="mr-1 h-3 w-3" />
+                              Delete
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Holidays */}
+        {!loading && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Holidays</CardTitle>
+              <CardDescription>Days schedules set to skip holidays don&apos;t play</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {holidays.length === 0 ? (
+                <p className="text-sm text-[var(--text-muted)]">No holidays</p>
+              ) : (
+                <div className="space-y-2">
+                  {holidays.map((holiday) => (
+                    <div key={holiday.date} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="text-[var(--text-primary)]">
+                        <span className="font-mono">{holiday.date}</span> {holiday.name}
+                      </span>
+                      {isAdmin && (
+                        <button
+                          onClick={() => updateHolidays(holidays.filter((h) => h.date !== holiday.date))}
+                          className="text-[var(--text-muted)] hover:text-[var(--accent-red)] transition-colors"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {isAdmin && (
+                <div className="flex gap-2">
+                  <Input
+                    type="date"
+                    value={newHoliday.date}
+                    onChange={(e) => setNewHoliday({ ...newHoliday, date: e.target.value })}
+                  />
+                  <Input
+                    placeholder="Name"
+                    value={newHoliday.name}
+                    onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+                  />
+                  <Button variant="outline" onClick={handleAddHoliday} disabled={!newHoliday.date}>
+                    <Plus className="mr-1 h-4 w-4" />
+                    Add
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
+
+// Audio, targets, volume and loop, for the schedule form and the import
+function PlaybackFields({
+  value,
+  onChange,
+  devices,
+  zones,
+  audioFiles,
+}: {
+  value: ScheduleTemplate;
+  onChange: (changes: Partial<ScheduleTemplate>) => void;
+  devices: AlgoDevice[];
+  zones: Zone[];
+  audioFiles: AudioFile[];
+}) {
+  const toggle = (field: "deviceIds" | "zoneIds", id: string) =>
+    onChange({ [field]: value[field].includes(id) ? value[field].filter((x) => x !== id) : [...value[field], id] });
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="audio">Audio</Label>
+        <Select
+          id="audio"
+          value={value.audio.kind === "file" ? value.audio.audioFileId : ""}
+          onChange={(e) =>
+            onChange({
+              audio: e.target.value ? { kind: "file", audioFileId: e.target.value } : { kind: "tone", filename: "chime.wav" },
+            })
+          }
+        >
+          <option value="">Tone on the device</option>
+          {audioFiles.map((file) => (
+            <option key={file.id} value={file.id}>
+              {file.name}
+            </option>
+          ))}
+        </Select>
+        {value.audio.kind === "tone" && (
+          <Input
+            placeholder="chime.wav"
+            value={value.audio.filename}
+            onChange={(e) => onChange({ audio: { kind: "tone", filename: e.target.value } })}
+          />
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Devices</Label>
+        <div className="max-h-40 overflow-y-auto border border-[var(--border-color)] rounded-lg p-2 space-y-2 bg-[var(--bg-secondary)]">
+          {devices.length === 0 ? (
+            <p className="text-sm text-[var(--text-muted)] py-2 text-center">No devices</p>
+          ) : (
+            devices.map((device) => (
+              <label
+                key={device.id}
+                className="flex items-center gap-2 cursor-pointer hover:bg-[var(--bg-tertiary)] p-2 rounded-lg transition-colors"
+              >
+                <input
+                  type="checkbox"
+                  checked={value.deviceIds.includes(device.id)}
+                  onChange={() => toggle("deviceIds", device.id)}
+                  className="rounded border-[var(--border-color)] bg-[var(--bg-tertiary)]"
+                />
+                <span className="text-sm text-[var(--text-primary)]">{device.name}</span>
+                <span className="text-xs text-[var(--text-muted)]">({device.ipAddress})</span>
+              </label>
+            ))
+          )}
+        </div>
+      </div>
+
+      {zones.length > 0 && (
+        <div className="space-y-2">
+          <Label>Zones</Label>
+          <div className="flex flex-wrap gap-2">
+            {zones.map((zone) => (
+              <Button
+                key={zone.id}
+                type="button"
+                size="sm"
+                variant={value.zoneIds.includes(zone.id) ? "default" : "outline"}
+                onClick={() => toggle("zoneIds", zone.id)}
+              >
+                {zone.name}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="volume">Volume: {value.volume}%</Label>
+        <Slider
+          id="volume"
+          min={0}
+          max={100}
+          value={value.volume}
+          onChange={(e) => onChange({ volume: parseInt(e.target.value) })}
+          showValue
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label>Loop until stopped</Label>
+        <Switch checked={value.loop} onCheckedChange={(loop) => onChange({ loop })} />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label>Skip holidays</Label>
+        <Switch checked={value.skipHolidays} onCheckedChange={(skipHolidays) => onChange({ skipHolidays })} />
+      </div>
+    </>
+  );
+}
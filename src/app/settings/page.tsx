@@ -5,10 +5,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { UserRolesCard } from "@/components/user-roles-card";
+import { StorageStatusCard } from "@/components/storage-status-card";
 import { useAuth } from "@/contexts/auth-context";
+import { ROLE_LABELS } from "@/lib/roles";
 
 export default function SettingsPage() {
-  const { user } = useAuth();
+  const { user, role, hasRole } = useAuth();
 
   return (
     <AppLayout>
@@ -34,47 +37,58 @@ export default function SettingsPage() {
               <Label>User ID</Label>
               <Input value={user?.uid || ""} disabled />
             </div>
-          </CardContent>
-        </Card>
-
-        {/* Default Settings */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Default Settings</CardTitle>
-            <CardDescription>
-              Default values for new devices and distributions
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="defaultPassword">Default API Password</Label>
-              <Input
-                id="defaultPassword"
-                type="password"
-                defaultValue="algo"
-                placeholder="algo"
-              />
-              <p className="text-sm text-[var(--text-muted)]">
-                Used as the default password when adding new devices
-              </p>
-            </div>
             <div className="space-y-2">
-              <Label htmlFor="defaultVolume">Default Volume</Label>
-              <Input
-                id="defaultVolume"
-                type="number"
-                min={0}
-                max={100}
-                defaultValue={50}
-              />
-              <p className="text-sm text-[var(--text-muted)]">
-                Default volume level for new distributions (0-100)
-              </p>
+              <Label>Role</Label>
+              <Input value={role ? ROLE_LABELS[role] : ""} disabled />
             </div>
-            <Button>Save Settings</Button>
           </CardContent>
         </Card>
 
+        <StorageStatusCard />
+
+        {/* Admin-only sections */}
+        {hasRole("admin") && <UserRolesCard />}
+
+        {/* Default Settings */}
+        {hasRole("admin") && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Default Settings</CardTitle>
+              <CardDescription>
+                Default values for new devices and distributions
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="defaultPassword">Default API Password</Label>
+                <Input
+                  id="defaultPassword"
+                  type="password"
+                  defaultValue="algo"
+                  placeholder="algo"
+                />
+                <p className="text-sm text-[var(--text-muted)]">
+                  Used as the default password when adding new devices
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="defaultVolume">Default Volume</Label>
+                <Input
+                  id="defaultVolume"
+                  type="number"
+                  min={0}
+                  max={100}
+                  defaultValue={50}
+                />
+                <p className="text-sm text-[var(--text-muted)]">
+                  Default volume level for new distributions (0-100)
+                </p>
+              </div>
+              <Button>Save Settings</Button>
+            </CardContent>
+          </Card>
+        )}
+
         {/* About */}
         <Card>
           <CardHeader>
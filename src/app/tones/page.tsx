@@ -0,0 +1,489 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AppLayout } from "@/components/layout/app-layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Pencil, Trash2, RefreshCw, X, Volume2, AudioWaveform, Bell } from "lucide-react";
+import { getDevices, getZones, getToneSets, addToneSet, updateToneSet, deleteToneSet } from "@/lib/data";
+import { useAuth } from "@/contexts/auth-context";
+import type { AlgoDevice, ToneSet, Zone } from "@/lib/algo/types";
+
+// Motorola Quick Call II defaults: 1 s tone A, 3 s tone B
+const EMPTY_FORM = {
+  name: "",
+  toneA: "",
+  toneB: "",
+  toneADuration: "1000",
+  toneBDuration: "3000",
+  tolerance: "1.5",
+  deviceIds: [] as string[],
+  zoneIds: [] as string[],
+  preTone: "",
+  volume: 80,
+  enabled: true,
+};
+
+export default function ToneSetsPage() {
+  const { hasRole } = useAuth();
+  const isAdmin = hasRole("admin");
+  const [toneSets, setToneSets] = useState<ToneSet[]>([]);
+  const [devices, setDevices] = useState<AlgoDevice[]>([]);
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingToneSet, setEditingToneSet] = useState<ToneSet | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Only paging adapters bring speakers (their linked 8180s)
+  const pagingDevices = devices.filter((d) => d.type === "8301");
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [toneSetsData, devicesData, zonesData] = await Promise.all([getToneSets(), getDevices(), getZones()]);
+      setToneSets(toneSetsData);
+      setDevices(devicesData);
+      setZones(zonesData);
+    } catch (error) {
+      console.error("Failed to load tone sets:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setFormError("");
+    setEditingToneSet(null);
+  };
+
+  const openAddForm = () => {
+    resetForm();
+    setShowForm(true);
+  };
+
+  const openEditForm = (toneSet: ToneSet) => {
+    setFormData({
+      name: toneSet.name,
+      toneA: String(toneSet.toneA),
+      toneB: String(toneSet.toneB),
+      toneADuration: String(toneSet.toneADuration),
+      toneBDuration: String(toneSet.toneBDuration),
+      tolerance: String(toneSet.tolerance),
+      deviceIds: toneSet.deviceIds ?? [],
+      zoneIds: toneSet.zoneIds ?? [],
+      preTone: toneSet.preTone,
+      volume: toneSet.volume,
+      enabled: toneSet.enabled,
+    });
+    setFormError("");
+    setEditingToneSet(toneSet);
+    setShowForm(true);
+  };
+
+  const toggleFormItem = (field: "deviceIds" | "zoneIds", id: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      [field]: prev[field].includes(id) ? prev[field].filter((x) => x !== id) : [...prev[field], id],
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError("");
+
+    const name = formData.name.trim();
+    const toneA = parseFloat(formData.toneA);
+    const toneB = parseFloat(formData.toneB);
+    const toneADuration = parseInt(formData.toneADuration, 10);
+    const toneBDuration = parseInt(formData.toneBDuration, 10);
+    const tolerance = parseFloat(formData.tolerance);
+
+    if (!name) {
+      setFormError("Name is required");
+      return;
+    }
+    if (![toneA, toneB].every((hz) => hz >= 200 && hz <= 4000)) {
+      setFormError("Tone frequencies must be between 200 and 4000 Hz");
+      return;
+    }
+    if (![toneADuration, toneBDuration].every((ms) => ms >= 200 && ms <= 10000)) {
+      setFormError("Tone durations must be between 200 and 10000 ms");
+      return;
+    }
+    if (!(tolerance >= 0.5 && tolerance <= 5)) {
+      setFormError("Tolerance must be between 0.5% and 5%");
+      return;
+    }
+    // Closer tones would be heard as one long tone
+    if (Math.abs(toneA - toneB) <= (Math.max(toneA, toneB) * tolerance) / 100) {
+      setFormError("Tone A and tone B must be further apart than the tolerance");
+      return;
+    }
+    if (formData.deviceIds.length === 0 && formData.zoneIds.length === 0) {
+      setFormError("Pick at least one paging device or zone to open");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const toneSet = {
+        name,
+        toneA,
+        toneB,
+        toneADuration,
+        toneBDuration,
+        tolerance,
+        deviceIds: formData.deviceIds,
+        zoneIds: formData.zoneIds,
+        preTone: formData.preTone.trim(),
+        volume: formData.volume,
+        enabled: formData.enabled,
+      };
+      if (editingToneSet) {
+        await updateToneSet(editingToneSet.id, toneSet);
+      } else {
+        await addToneSet(toneSet);
+      }
+      await loadData();
+      setShowForm(false);
+      resetForm();
+    } catch (error) {
+      setFormError("Failed to save tone set. Please try again.");
+      console.error(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (toneSet: ToneSet) => {
+    if (!confirm(`Delete tone set "${toneSet.name}"? The Live monitor stops listening for it.`)) return;
+    try {
+      await deleteToneSet(toneSet.id);
+      await loadData();
+    } catch (error) {
+      console.error("Failed to delete tone set:", error);
+    }
+  };
+
+  const handleToggleEnabled = async (toneSet: ToneSet) => {
+    try {
+      await updateToneSet(toneSet.id, { enabled: !toneSet.enabled });
+      await loadData();
+    } catch (error) {
+      console.error("Failed to update tone set:", error);
+    }
+  };
+
+  const targetNames = (toneSet: ToneSet) => [
+    ...devices.filter((d) => toneSet.deviceIds?.includes(d.id)).map((d) => d.name),
+    ...zones.filter((z) => toneSet.zoneIds?.includes(z.id)).map((z) => z.name),
+  ];
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-[var(--text-primary)]">Tone Sets</h1>
+            <p className="text-[var(--text-secondary)] text-sm">
+              Two-tone sequential pages the Live monitor listens for
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={loadData}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Refresh
+            </Button>
+            {isAdmin && (
+              <Button onClick={openAddForm}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Tone Set
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Add/Edit Form Modal */}
+        {showForm && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70">
+            <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>{editingToneSet ? "Edit Tone Set" : "Add Tone Set"}</CardTitle>
+                  <button
+                    onClick={() => setShowForm(false)}
+                    className="text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-colors"
+                  >
+                    <X className="h-5 w-5" />
+                  </button>
+                </div>
+                <CardDescription>
+                  When tone A is followed by tone B, these speakers open at this volume
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  {formError && (
+                    <div className="rounded-lg bg-[var(--accent-red)]/10 border border-[var(--accent-red)]/30 p-3 text-sm text-[var(--accent-red)]">
+                      {formError}
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Name</Label>
+                    <Input
+                      id="name"
+                      placeholder="Station 1"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="toneA">Tone A (Hz)</Label>
+                      <Input
+                        id="toneA"
+                        type="number"
+                        step="0.1"
+                        placeholder="349.0"
+                        value={formData.toneA}
+                        onChange={(e) => setFormData({ ...formData, toneA: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="toneADuration">Tone A (ms)</Label>
+                      <Input
+                        id="toneADuration"
+                        type="number"
+                        value={formData.toneADuration}
+                        onChange={(e) => setFormData({ ...formData, toneADuration: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="toneB">Tone B (Hz)</Label>
+                      <Input
+                        id="toneB"
+                        type="number"
+                        step="0.1"
+                        placeholder="433.7"
+                        value={formData.toneB}
+                        onChange={(e) => setFormData({ ...formData, toneB: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="toneBDuration">Tone B (ms)</Label>
+                      <Input
+                        id="toneBDuration"
+                        type="number"
+                        value={formData.toneBDuration}
+                        onChange={(e) => setFormData({ ...formData, toneBDuration: e.target.value })}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="tolerance">Frequency Tolerance (%)</Label>
+                    <Input
+                      id="tolerance"
+                      type="number"
+                      step="0.1"
+                      value={formData.tolerance}
+                      onChange={(e) => setFormData({ ...formData, tolerance: e.target.value })}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="volume">Volume: {formData.volume}%</Label>
+                    <Slider
+                      id="volume"
+                      min={0}
+                      max={100}
+                      value={formData.volume}
+                      onChange={(e) => setFormData({ ...formData, volume: parseInt(e.target.value) })}
+                      showValue
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="preTone">Pre-tone</Label>
+                    <Input
+                      id="preTone"
+                      placeholder="chime.wav"
+                      value={formData.preTone}
+                      onChange={(e) => setFormData({ ...formData, preTone: e.target.value })}
+                    />
+                    <p className="text-xs text-[var(--text-muted)]">
+                      Tone file on the paging devices, played before the dispatcher is heard. Leave empty for none.
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Paging Devices</Label>
+                    <div className="max-h-40 overflow-y-auto border border-[var(--border-color)] rounded-lg p-2 space-y-2 bg-[var(--bg-secondary)]">
+                      {pagingDevices.length === 0 ? (
+                        <p className="text-sm text-[var(--text-muted)] py-2 text-center">No paging devices</p>
+                      ) : (
+                        pagingDevices.map((device) => (
+                          <label
+                            key={device.id}
+                            className="flex items-center gap-2 cursor-pointer hover:bg-[var(--bg-tertiary)] p-2 rounded-lg transition-colors"
+                          >
+                            <input
+                              type="checkbox"
+                              checked={formData.deviceIds.includes(device.id)}
+                              onChange={() => toggleFormItem("deviceIds", device.id)}
+                              className="rounded border-[var(--border-color)] bg-[var(--bg-tertiary)]"
+                            />
+                            <span className="text-sm text-[var(--text-primary)]">{device.name}</span>
+                            <span className="text-xs text-[var(--text-muted)]">({device.ipAddress})</span>
+                          </label>
+                        ))
+                      )}
+                    </div>
+                  </div>
+
+                  {zones.length > 0 && (
+                    <div className="space-y-2">
+                      <Label>Zones</Label>
+                      <div className="flex flex-wrap gap-2">
+                        {zones.map((zone) => (
+                          <Button
+                            key={zone.id}
+                            type="button"
+                            size="sm"
+                            variant={formData.zoneIds.includes(zone.id) ? "default" : "outline"}
+                            onClick={() => toggleFormItem("zoneIds", zone.id)}
+                          >
+                            {zone.name}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="flex items-center justify-between">
+                    <Label>Enabled</Label>
+                    <Switch
+                      checked={formData.enabled}
+                      onCheckedChange={(enabled) => setFormData({ ...formData, enabled })}
+                    />
+                  </div>
+
+                  <div className="flex justify-end gap-2 pt-4">
+                    <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                      Cancel
+                    </Button>
+                    <Button type="submit" isLoading={saving}>
+                      {editingToneSet ? "Update" : "Add"} Tone Set
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Tone Sets List */}
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-[var(--accent-blue)] border-t-transparent" />
+          </div>
+        ) : toneSets.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <div className="mb-4 rounded-full bg-[var(--bg-tertiary)] p-4">
+                <AudioWaveform className="h-8 w-8 text-[var(--text-muted)]" />
+              </div>
+              <h3 className="mb-2 text-lg font-medium text-[var(--text-primary)]">No tone sets yet</h3>
+              <p className="mb-4 text-center text-[var(--text-muted)]">
+                {isAdmin
+                  ? "Add your stations' tone pairs so the Live monitor can open speakers when they are toned"
+                  : "An admin needs to add tone sets"}
+              </p>
+              {isAdmin && (
+                <Button onClick={openAddForm}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Tone Set
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {toneSets.map((toneSet) => {
+              const targets = targetNames(toneSet);
+              return (
+                <Card key={toneSet.id}>
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-lg">{toneSet.name}</CardTitle>
+                      {toneSet.enabled ? (
+                        <Badge variant="success">Enabled</Badge>
+                      ) : (
+                        <Badge variant="secondary">Disabled</Badge>
+                      )}
+                    </div>
+                    <CardDescription className="font-mono">
+                      {toneSet.toneA} Hz ({toneSet.toneADuration} ms) → {toneSet.toneB} Hz ({toneSet.toneBDuration} ms)
+                      ±{toneSet.tolerance}%
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex items-center gap-2 text-sm text-[var(--text-muted)]">
+                      <Volume2 className="h-4 w-4" />
+                      <span>Volume: {toneSet.volume}%</span>
+                    </div>
+                    <div className="flex items-center gap-2 text-sm text-[var(--text-muted)]">
+                      <Bell className="h-4 w-4" />
+                      <span>Pre-tone: {toneSet.preTone || "None"}</span>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {targets.length === 0 ? (
+                        <span className="text-sm text-[var(--text-muted)]">No speakers</span>
+                      ) : (
+                        targets.map((name) => (
+                          <Badge key={name} variant="outline">
+                            {name}
+                          </Badge>
+                        ))
+                      )}
+                    </div>
+                    {isAdmin && (
+                      <div className="flex gap-2 pt-2">
+                        <Button size="sm" variant="outline" onClick={() => openEditForm(toneSet)}>
+                          <Pencil className="mr-1 h-3 w-3" />
+                          Edit
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleToggleEnabled(toneSet)}>
+                          {toneSet.enabled ? "Disable" : "Enable"}
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleDelete(toneSet)}>
+                          <Trash2 className="mr-1 h-3 w-3" />
+                          Delete
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
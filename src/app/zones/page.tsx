@@ -0,0 +1,532 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AppLayout } from "@/components/layout/app-layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { Select } from "@/components/ui/select";
+import { Plus, Pencil, Trash2, RefreshCw, X, Volume2, Layers, Link2, Radio } from "lucide-react";
+import { getDevices, getZones, addZone, updateZone, deleteZone } from "@/lib/data";
+import { useAuth } from "@/contexts/auth-context";
+import {
+  POLY_DEFAULT_ADDRESS,
+  POLY_DEFAULT_PORT,
+  POLY_GROUP_COUNT,
+  describeZoneMulticast,
+  findMulticastCollisions,
+  resolveZoneTargets,
+  validateZoneMulticast,
+} from "@/lib/algo/zones";
+import type { AlgoDevice, Zone, ZoneMulticast } from "@/lib/algo/types";
+import type { SpeakerConfigResult } from "@/lib/algo/zone-multicast";
+import { apiFetch } from "@/lib/api/fetch";
+import { slugify } from "@/lib/utils";
+
+type MulticastChoice = "none" | "rtp" | "poly";
+
+const EMPTY_FORM = {
+  name: "",
+  deviceIds: [] as string[],
+  defaultVolume: 50,
+  multicastType: "none" as MulticastChoice,
+  multicastAddress: "",
+  multicastPort: "",
+  multicastGroup: 1,
+};
+
+const NEW_ZONE_ID = "new";
+
+export default function ZonesPage() {
+  const { hasRole } = useAuth();
+  const isAdmin = hasRole("admin");
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [devices, setDevices] = useState<AlgoDevice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingZone, setEditingZone] = useState<Zone | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [configuring, setConfiguring] = useState<string | null>(null);
+  const [configResults, setConfigResults] = useState<Record<string, { error?: string; results?: SpeakerConfigResult[] }>>({});
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [zonesData, devicesData] = await Promise.all([getZones(), getDevices()]);
+      setZones(zonesData);
+      setDevices(devicesData);
+    } catch (error) {
+      console.error("Failed to load zones:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setFormError("");
+    setEditingZone(null);
+  };
+
+  const openAddForm = () => {
+    resetForm();
+    setShowForm(true);
+  };
+
+  const openEditForm = (zone: Zone) => {
+    setFormData({
+      name: zone.name,
+      deviceIds: zone.deviceIds ?? [],
+      defaultVolume: zone.defaultVolume ?? 50,
+      multicastType: zone.multicast?.type ?? "none",
+      multicastAddress: zone.multicast?.address ?? "",
+      multicastPort: zone.multicast?.port ?? "",
+      multicastGroup: zone.multicast?.group ?? 1,
+    });
+    setFormError("");
+    setEditingZone(zone);
+    setShowForm(true);
+  };
+
+  const toggleFormDevice = (deviceId: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      deviceIds: prev.deviceIds.includes(deviceId)
+        ? prev.deviceIds.filter((id) => id !== deviceId)
+        : [...prev.deviceIds, deviceId],
+    }));
+  };
+
+  const setMulticastType = (type: MulticastChoice) => {
+    setFormData((prev) => ({
+      ...prev,
+      multicastType: type,
+      // Polycom groups share one address; start from the usual one
+      ...(type === "poly" && !prev.multicastAddress
+        ? { multicastAddress: POLY_DEFAULT_ADDRESS, multicastPort: POLY_DEFAULT_PORT }
+        : {}),
+    }));
+  };
+
+  const formMulticast: ZoneMulticast | null =
+    formData.multicastType === "none"
+      ? null
+      : {
+          type: formData.multicastType,
+          address: formData.multicastAddress.trim(),
+          port: formData.multicastPort.trim(),
+          ...(formData.multicastType === "poly" ? { group: formData.multicastGroup } : {}),
+        };
+
+  // Collisions the form's zone would have with the others, as saved
+  const draftId = editingZone?.id ?? NEW_ZONE_ID;
+  const draftZone: Zone = {
+    id: draftId,
+    name: formData.name.trim() || "This zone",
+    slug: "",
+    deviceIds: formData.deviceIds,
+    defaultVolume: formData.defaultVolume,
+    multicast: formMulticast,
+    createdAt: new Date(0),
+  };
+  const formCollisions = showForm
+    ? findMulticastCollisions([...zones.filter((z) => z.id !== draftId), draftZone], devices).filter((c) =>
+        c.zoneIds.includes(draftId)
+      )
+    : [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError("");
+
+    const name = formData.name.trim();
+    if (!name) {
+      setFormError("Zone name is required");
+      return;
+    }
+    const slug = slugify(name);
+    if (zones.some((z) => z.slug === slug && z.id !== editingZone?.id)) {
+      setFormError("A zone with this name already exists");
+      return;
+    }
+
+    if (formMulticast) {
+      const multicastError = validateZoneMulticast(formMulticast);
+      if (multicastError) {
+        setFormError(multicastError);
+        return;
+      }
+    }
+    const blocking = formCollisions.find((c) => c.blocking);
+    if (blocking) {
+      setFormError(blocking.message);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const zone = {
+        name,
+        slug,
+        deviceIds: formData.deviceIds,
+        defaultVolume: formData.defaultVolume,
+        multicast: formMulticast,
+      };
+      if (editingZone) {
+        await updateZone(editingZone.id, zone);
+      } else {
+        await addZone(zone);
+      }
+      await loadData();
+      setShowForm(false);
+      resetForm();
+    } catch (error) {
+      setFormError("Failed to save zone. Please try again.");
+      console.error(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (zone: Zone) => {
+    if (!confirm(`Delete zone "${zone.name}"? Devices in it are not affected.`)) return;
+    try {
+      await deleteZone(zone.id);
+      await loadData();
+    } catch (error) {
+      console.error("Failed to delete zone:", error);
+    }
+  };
+
+  // Set the zone's speakers up for its group (or back to switched on per page)
+  const configureSpeakers = async (zone: Zone) => {
+    setConfiguring(zone.id);
+    try {
+      const response = await apiFetch(`/api/algo/zones/${zone.id}/multicast`, { method: "POST" });
+      const data = await response.json().catch(() => ({}));
+      setConfigResults((prev) => ({
+        ...prev,
+        [zone.id]: response.ok
+          ? { results: data.results }
+          : { error: data.error || `Request failed: HTTP ${response.status}` },
+      }));
+    } catch (error) {
+      setConfigResults((prev) => ({
+        ...prev,
+        [zone.id]: { error: error instanceof Error ? error.message : "Failed to configure speakers" },
+      }));
+    } finally {
+      setConfiguring(null);
+    }
+  };
+
+  const zoneCollisions = findMulticastCollisions(zones, devices);
+
+  // Speakers a zone reaches when paged, following paging adapter links
+  const countZoneSpeakers = (zone: Zone) => {
+    const targets = resolveZoneTargets([zone], devices);
+    return targets.reduce((count, target) => count + Math.max(target.speakers.length, 1), 0);
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-[var(--text-primary)]">Zones</h1>
+            <p className="text-[var(--text-secondary)] text-sm">
+              Group devices to page and distribute to them together
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={loadData}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Refresh
+            </Button>
+            {isAdmin && (
+              <Button onClick={openAddForm}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Zone
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Add/Edit Form Modal */}
+        {showForm && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70">
+            <Card className="w-full max-w-lg">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>{editingZone ? "Edit Zone" : "Add Zone"}</CardTitle>
+                  <button
+                    onClick={() => setShowForm(false)}
+                    className="text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-colors"
+                  >
+                    <X className="h-5 w-5" />
+                  </button>
+                </div>
+                <CardDescription>
+                  Paging a zone switches on the speakers of every device in it, or sends to its own multicast group
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  {formError && (
+                    <div className="rounded-lg bg-[var(--accent-red)]/10 border border-[var(--accent-red)]/30 p-3 text-sm text-[var(--accent-red)]">
+                      {formError}
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Zone Name</Label>
+                    <Input
+                      id="name"
+                      placeholder="Dorms"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    />
+                    {formData.name.trim() && (
+                      <p className="text-xs text-[var(--text-muted)]">Slug: {slugify(formData.name)}</p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="defaultVolume">Default Volume: {formData.defaultVolume}%</Label>
+                    <Slider
+                      id="defaultVolume"
+                      min={0}
+                      max={100}
+                      value={formData.defaultVolume}
+                      onChange={(e) =>
+                        setFormData({ ...formData, defaultVolume: parseInt(e.target.value) })
+                      }
+                      showValue
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Devices</Label>
+                    <p className="text-xs text-[var(--text-muted)] mb-2">
+                      A paging adapter brings all of its linked speakers; pick individual speakers to page only part of one
+                    </p>
+                    <div className="max-h-60 overflow-y-auto border border-[var(--border-color)] rounded-lg p-2 space-y-2 bg-[var(--bg-secondary)]">
+                      {devices.length === 0 ? (
+                        <p className="text-sm text-[var(--text-muted)] py-2 text-center">
+                          No devices available. Add devices first.
+                        </p>
+                      ) : (
+                        devices.map((device) => (
+                          <label
+                            key={device.id}
+                            className="flex items-center gap-2 cursor-pointer hover:bg-[var(--bg-tertiary)] p-2 rounded-lg transition-colors"
+                          >
+                            <input
+                              type="checkbox"
+                              checked={formData.deviceIds.includes(device.id)}
+                              onChange={() => toggleFormDevice(device.id)}
+                              className="rounded border-[var(--border-color)] bg-[var(--bg-tertiary)]"
+                            />
+                            <span className="text-sm text-[var(--text-primary)]">{device.name}</span>
+                            <span className="text-xs text-[var(--text-muted)]">
+                              ({device.type.toUpperCase()} • {device.ipAddress})
+                            </span>
+                          </label>
+                        ))
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="multicastType">Multicast Group</Label>
+                    <p className="text-xs text-[var(--text-muted)] mb-2">
+                      With a group, the zone&apos;s speakers are set up once to receive it and pages are sent there instead of switching speakers on and off
+                    </p>
+                    <Select
+                      id="multicastType"
+                      value={formData.multicastType}
+                      onChange={(e) => setMulticastType(e.target.value as MulticastChoice)}
+                    >
+                      <option value="none">None (switch speakers per page)</option>
+                      <option value="rtp">RTP address and port</option>
+                      <option value="poly">Polycom group</option>
+                    </Select>
+                    {formData.multicastType !== "none" && (
+                      <div className="grid grid-cols-3 gap-2">
+                        <Input
+                          className="col-span-2"
+                          placeholder="239.1.1.1"
+                          value={formData.multicastAddress}
+                          onChange={(e) => setFormData({ ...formData, multicastAddress: e.target.value })}
+                        />
+                        <Input
+                          placeholder="50000"
+                          value={formData.multicastPort}
+                          onChange={(e) => setFormData({ ...formData, multicastPort: e.target.value })}
+                        />
+                      </div>
+                    )}
+                    {formData.multicastType === "poly" && (
+                      <Select
+                        value={formData.multicastGroup}
+                        onChange={(e) => setFormData({ ...formData, multicastGroup: parseInt(e.target.value) })}
+                      >
+                        {Array.from({ length: POLY_GROUP_COUNT }, (_, i) => (
+                          <option key={i + 1} value={i + 1}>
+                            Group {i + 1}
+                          </option>
+                        ))}
+                      </Select>
+                    )}
+                    {formCollisions.map((collision) => (
+                      <p
+                        key={collision.message}
+                        className={`text-xs ${collision.blocking ? "text-[var(--accent-red)]" : "text-[var(--accent-orange)]"}`}
+                      >
+                        {collision.message}
+                      </p>
+                    ))}
+                  </div>
+
+                  <div className="flex justify-end gap-2 pt-4">
+                    <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                      Cancel
+                    </Button>
+                    <Button type="submit" isLoading={saving}>
+                      {editingZone ? "Update" : "Add"} Zone
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Zones List */}
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-[var(--accent-blue)] border-t-transparent" />
+          </div>
+        ) : zones.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <div className="mb-4 rounded-full bg-[var(--bg-tertiary)] p-4">
+                <Layers className="h-8 w-8 text-[var(--text-muted)]" />
+              </div>
+              <h3 className="mb-2 text-lg font-medium text-[var(--text-primary)]">No zones yet</h3>
+              <p className="mb-4 text-center text-[var(--text-muted)]">
+                {isAdmin ? "Create a zone to page a group of devices at once" : "An admin needs to create zones"}
+              </p>
+              {isAdmin && (
+                <Button onClick={openAddForm}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Zone
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {zones.map((zone) => {
+              const members = devices.filter((d) => zone.deviceIds?.includes(d.id));
+              const missing = (zone.deviceIds ?? []).length - members.length;
+              const speakerCount = countZoneSpeakers(zone);
+              const collisions = zoneCollisions.filter((c) => c.zoneIds.includes(zone.id));
+              const config = configResults[zone.id];
+              return (
+                <Card key={zone.id}>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg">{zone.name}</CardTitle>
+                    <CardDescription>{zone.slug}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex items-center gap-2 text-sm text-[var(--text-muted)]">
+                      <Volume2 className="h-4 w-4" />
+                      <span>Default volume: {zone.defaultVolume}%</span>
+                    </div>
+                    <div className="flex items-center gap-2 text-sm text-[var(--accent-blue)]">
+                      <Link2 className="h-4 w-4" />
+                      <span>
+                        {speakerCount} speaker{speakerCount !== 1 ? "s" : ""} when paged
+                      </span>
+                    </div>
+                    {zone.multicast && (
+                      <div className="flex items-center gap-2 text-sm text-[var(--text-muted)]">
+                        <Radio className="h-4 w-4" />
+                        <span>{describeZoneMulticast(zone.multicast)}</span>
+                      </div>
+                    )}
+                    {collisions.map((collision) => (
+                      <p
+                        key={collision.message}
+                        className={`text-xs ${collision.blocking ? "text-[var(--accent-red)]" : "text-[var(--accent-orange)]"}`}
+                      >
+                        {collision.message}
+                      </p>
+                    ))}
+                    <div className="flex flex-wrap gap-2">
+                      {members.length === 0 ? (
+                        <span className="text-sm text-[var(--text-muted)]">No devices</span>
+                      ) : (
+                        members.map((device) => (
+                          <Badge key={device.id} variant="outline">
+                            {device.name}
+                          </Badge>
+                        ))
+                      )}
+                      {missing > 0 && <Badge variant="warning">{missing} removed</Badge>}
+                    </div>
+                    {isAdmin && (
+                      <div className="flex gap-2 pt-2">
+                        <Button size="sm" variant="outline" onClick={() => openEditForm(zone)}>
+                          <Pencil className="mr-1 h-3 w-3" />
+                          Edit
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleDelete(zone)}>
+                          <Trash2 className="mr-1 h-3 w-3" />
+                          Delete
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          isLoading={configuring === zone.id}
+                          onClick={() => configureSpeakers(zone)}
+                          title={zone.multicast ? "Set the speakers to receive this zone's group" : "Turn multicast off on the speakers"}
+                        >
+                          <Radio className="mr-1 h-3 w-3" />
+                          Configure Speakers
+                        </Button>
+                      </div>
+                    )}
+                    {config?.error && <p className="text-xs text-[var(--accent-red)]">{config.error}</p>}
+                    {config?.results && (
+                      <div className="space-y-1">
+                        {config.results.map((result) => (
+                          <div key={result.deviceId} className="flex items-center justify-between text-xs">
+                            <span>{result.deviceName}</span>
+                            <span className={result.success ? "text-[var(--accent-green)]" : "text-[var(--accent-red)]"}>
+                              {result.success ? "Configured" : result.error}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
@@ -41,6 +41,10 @@ export function AudioLogViewer() {
         return "secondary";
       case "volume_change":
         return "default";
+      case "tone_detected":
+        return "warning";
+      case "unit_id":
+        return "secondary";
       default:
         return "default";
     }
@@ -58,6 +62,10 @@ export function AudioLogViewer() {
         return "Silent";
       case "volume_change":
         return "Volume";
+      case "tone_detected":
+        return "Tones";
+      case "unit_id":
+        return "Unit ID";
       default:
         return type;
     }
@@ -125,7 +133,7 @@ export function AudioLogViewer() {
                 <tr>
                   <th className="px-2 py-2 text-left font-medium text-[var(--text-muted)]">Time</th>
                   <th className="px-2 py-2 text-left font-medium text-[var(--text-muted)]">Type</th>
-                  <th className="px-2 py-2 text-left font-medium text-[var(--text-muted)]">Audio Level</th>
+                  <th className="px-2 py-2 text-left font-medium text-[var(--text-muted)]">Level</th>
                   <th className="px-2 py-2 text-left font-medium text-[var(--text-muted)]">Message</th>
                   <th className="px-2 py-2 text-left font-medium text-[var(--text-muted)]">Recording</th>
                 </tr>
@@ -142,13 +150,18 @@ export function AudioLogViewer() {
                       </Badge>
                     </td>
                     <td className="px-2 py-2 text-[var(--text-secondary)]">
-                      {log.audioLevel !== undefined ? (
-                        <span className="font-mono">{log.audioLevel.toFixed(1)}%</span>
+                      {log.levelDbfs !== undefined ? (
+                        <span className="font-mono whitespace-nowrap">{log.levelDbfs.toFixed(1)} dBFS</span>
                       ) : (
                         <span className="text-[var(--text-muted)]">-</span>
                       )}
                     </td>
-                    <td className="px-2 py-2 text-[var(--text-primary)]">{log.message}</td>
+                    <td className="px-2 py-2 text-[var(--text-primary)]">
+                      {log.message}
+                      {log.reason && (
+                        <p className="text-xs text-[var(--text-muted)]">{log.reason}</p>
+                      )}
+                    </td>
                     <td className="px-2 py-2">
                       {log.recordingUrl ? (
                         <audio
@@ -1,13 +1,16 @@
 "use client";
 
-import { useAudioMonitoring } from "@/contexts/audio-monitoring-context";
+import { useMonitorChannels } from "@/contexts/audio-monitoring-context";
 import { Mic, Radio } from "lucide-react";
 import Link from "next/link";
 
 export function AudioMonitoringIndicator() {
-  const { isCapturing, audioDetected, speakersEnabled } = useAudioMonitoring();
+  const { statuses } = useMonitorChannels();
+  const running = statuses.filter((s) => s.isCapturing);
+  const audioDetected = running.some((s) => s.audioDetected);
+  const speakersEnabled = running.some((s) => s.speakersEnabled);
 
-  if (!isCapturing) return null;
+  if (running.length === 0) return null;
 
   return (
     <Link href="/live">
@@ -15,7 +18,9 @@ export function AudioMonitoringIndicator() {
         <div className="flex items-center gap-2">
           <Radio className="h-5 w-5 text-green-600 animate-pulse" />
           <div className="text-sm">
-            <div className="font-medium text-green-900">Monitoring Active</div>
+            <div className="font-medium text-green-900">
+              Monitoring Active{running.length > 1 ? ` (${running.length} channels)` : ""}
+            </div>
             <div className="flex items-center gap-2 text-xs text-green-700">
               <span>Audio: {audioDetected ? "Detected" : "Silent"}</span>
               <span>•</span>
@@ -0,0 +1,275 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { X, AlertTriangle } from "lucide-react";
+import { useAudioMonitoring } from "@/contexts/audio-monitoring-context";
+import {
+  computeCalibration,
+  HISTOGRAM_MIN_DBFS,
+  type CalibrationResult,
+} from "@/lib/audio/calibration";
+
+const MAX_TRANSMISSION_SECONDS = 30;
+
+type Step = "intro" | "idle" | "ready" | "transmission" | "result";
+
+// Position on the histogram's -80..0 dBFS axis, in percent
+const axisPosition = (dbfs: number) => Math.min(100, Math.max(0, ((dbfs - HISTOGRAM_MIN_DBFS) / -HISTOGRAM_MIN_DBFS) * 100));
+
+/**
+ * Guided calibration: records the idle channel, then a sample transmission,
+ * and recommends detection thresholds and timings from the levels.
+ * Activations are paused while it listens.
+ */
+export function CalibrationWizard({ onClose }: { onClose: () => void }) {
+  const { isCapturing, detectorFrame, subscribeDetectorFrames, setCalibrating, applyCalibration } = useAudioMonitoring();
+
+  const [step, setStep] = useState<Step>("intro");
+  const [idleSeconds, setIdleSeconds] = useState(10);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [result, setResult] = useState<CalibrationResult | null>(null);
+  const [error, setError] = useState("");
+
+  const idleLevelsRef = useRef<number[]>([]);
+  const transmissionLevelsRef = useRef<number[]>([]);
+  const blockMsRef = useRef(0);
+
+  // Pause activations for as long as the wizard is open
+  useEffect(() => {
+    setCalibrating(true);
+    return () => setCalibrating(false);
+  }, [setCalibrating]);
+
+  const finish = () => {
+    try {
+      setResult(computeCalibration(idleLevelsRef.current, transmissionLevelsRef.current, blockMsRef.current));
+      setError("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Calibration failed");
+      setResult(null);
+    }
+    setStep("result");
+  };
+
+  // Collect levels while recording; the block lengths are the clock
+  useEffect(() => {
+    if (step !== "idle" && step !== "transmission") return;
+
+    const levels = step === "idle" ? idleLevelsRef.current : transmissionLevelsRef.current;
+    const limitMs = (step === "idle" ? idleSeconds : MAX_TRANSMISSION_SECONDS) * 1000;
+    let recordedMs = 0;
+
+    return subscribeDetectorFrames((frame, blockMs) => {
+      if (recordedMs >= limitMs) return;
+      levels.push(frame.levelDbfs);
+      blockMsRef.current = blockMs;
+      recordedMs += blockMs;
+      setElapsedMs(recordedMs);
+
+      if (recordedMs >= limitMs) {
+        if (step === "idle") {
+          setStep("ready");
+        } else {
+          finish();
+        }
+      }
+    });
+  }, [step, idleSeconds, subscribeDetectorFrames]);
+
+  const startIdle = () => {
+    idleLevelsRef.current = [];
+    transmissionLevelsRef.current = [];
+    setElapsedMs(0);
+    setStep("idle");
+  };
+
+  const startTransmission = () => {
+    transmissionLevelsRef.current = [];
+    setElapsedMs(0);
+    setStep("transmission");
+  };
+
+  const handleApply = () => {
+    if (!result) return;
+    applyCalibration(result);
+    onClose();
+  };
+
+  const peakShare = result ? Math.max(...result.histogram.map(b => Math.max(b.idle, b.transmission)), 0.01) : 1;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70">
+      <Card className="w-full max-w-lg">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Calibrate Detection</CardTitle>
+            <button
+              onClick={onClose}
+              className="text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+          <CardDescription>
+            Speakers stay muted while calibrating
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!isCapturing && (
+            <div className="rounded-lg bg-[var(--accent-orange)]/10 border border-[var(--accent-orange)]/30 p-3 text-sm text-[var(--accent-orange)]">
+              Start monitoring first - calibration listens to the monitored input.
+            </div>
+          )}
+
+          {step === "intro" && (
+            <>
+              <p className="text-sm text-[var(--text-secondary)]">
+                First the idle channel is recorded to measure its noise. Then key up a radio and speak
+                as a dispatcher would. Thresholds and timings are recommended from the two.
+              </p>
+              <div className="space-y-2">
+                <Label>Idle recording</Label>
+                <Select value={idleSeconds} onChange={(e) => setIdleSeconds(parseInt(e.target.value))}>
+                  <option value={5}>5 seconds</option>
+                  <option value={10}>10 seconds</option>
+                  <option value={20}>20 seconds</option>
+                  <option value={30}>30 seconds</option>
+                </Select>
+              </div>
+              <Button className="w-full" onClick={startIdle} disabled={!isCapturing}>
+                Record Idle Channel
+              </Button>
+            </>
+          )}
+
+          {(step === "idle" || step === "transmission") && (
+            <div className="space-y-3">
+              <p className="text-sm text-[var(--text-secondary)]">
+                {step === "idle"
+                  ? "Recording the idle channel - keep the radio quiet..."
+                  : "Recording the transmission - speak now, then press Done when the radio unkeys."}
+              </p>
+              <div className="h-2 bg-[var(--bg-tertiary)] rounded overflow-hidden">
+                <div
+                  className="h-full bg-[var(--accent-blue)]"
+                  style={{ width: `${Math.min(100, (elapsedMs / ((step === "idle" ? idleSeconds : MAX_TRANSMISSION_SECONDS) * 1000)) * 100)}%` }}
+                />
+              </div>
+              <div className="flex items-center justify-between text-xs font-mono text-[var(--text-muted)]">
+                <span>{(elapsedMs / 1000).toFixed(1)}s</span>
+                <span>{detectorFrame ? `${detectorFrame.levelDbfs.toFixed(1)} dBFS` : "-- dBFS"}</span>
+              </div>
+              {step === "transmission" && (
+                <Button className="w-full" onClick={finish} disabled={elapsedMs === 0}>
+                  Done
+                </Button>
+              )}
+            </div>
+          )}
+
+          {step === "ready" && (
+            <>
+              <p className="text-sm text-[var(--text-secondary)]">
+                Idle channel recorded. Now get ready to key up a radio and speak a typical dispatch.
+              </p>
+              <Button className="w-full" onClick={startTransmission} disabled={!isCapturing}>
+                Record Transmission
+              </Button>
+            </>
+          )}
+
+          {step === "result" && (
+            <>
+              {error && (
+                <div className="rounded-lg bg-[var(--accent-red)]/10 border border-[var(--accent-red)]/30 p-3 text-sm text-[var(--accent-red)]">
+                  {error}
+                </div>
+              )}
+
+              {result && (
+                <>
+                  {/* Level histogram: idle vs transmission, with the recommended thresholds */}
+                  <div className="space-y-1">
+                    <div className="relative h-32 flex items-end gap-px rounded bg-[var(--bg-secondary)] p-1">
+                      {result.histogram.map((bin) => (
+                        <div key={bin.dbfs} className="relative flex-1 h-full">
+                          <div
+                            className="absolute bottom-0 left-0 right-0 bg-[var(--text-muted)]/60"
+                            style={{ height: `${(bin.idle / peakShare) * 100}%` }}
+                          />
+                          <div
+                            className="absolute bottom-0 left-0 right-0 bg-[var(--accent-blue)]/70"
+                            style={{ height: `${(bin.transmission / peakShare) * 100}%` }}
+                          />
+                        </div>
+                      ))}
+                      <div
+                        className="absolute top-0 bottom-0 w-0.5 bg-[var(--accent-orange)]"
+                        style={{ left: `${axisPosition(result.attackDbfs)}%` }}
+                        title="Attack"
+                      />
+                      <div
+                        className="absolute top-0 bottom-0 w-0.5 bg-[var(--accent-blue)]"
+                        style={{ left: `${axisPosition(result.releaseDbfs)}%` }}
+                        title="Release"
+                      />
+                    </div>
+                    <div className="flex justify-between text-xs font-mono text-[var(--text-muted)]">
+                      <span>-80</span>
+                      <span>-60</span>
+                      <span>-40</span>
+                      <span>-20</span>
+                      <span>0 dBFS</span>
+                    </div>
+                    <p className="text-xs text-[var(--text-muted)]">
+                      Grey: idle channel · Blue: transmission · Orange: attack · Blue line: release
+                    </p>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2 text-sm">
+                    <div className="rounded-lg bg-[var(--bg-secondary)] p-2">
+                      <p className="text-xs text-[var(--text-muted)]">Noise (median / peak)</p>
+                      <p className="font-mono">{result.noiseFloorDbfs} / {result.noisePeakDbfs} dBFS</p>
+                    </div>
+                    <div className="rounded-lg bg-[var(--bg-secondary)] p-2">
+                      <p className="text-xs text-[var(--text-muted)]">Speech</p>
+                      <p className="font-mono">{result.speechDbfs} dBFS (+{result.separationDb} dB)</p>
+                    </div>
+                    <div className="rounded-lg bg-[var(--bg-secondary)] p-2">
+                      <p className="text-xs text-[var(--text-muted)]">Attack / Release</p>
+                      <p className="font-mono">{result.attackDbfs} / {result.releaseDbfs} dBFS</p>
+                    </div>
+                    <div className="rounded-lg bg-[var(--bg-secondary)] p-2">
+                      <p className="text-xs text-[var(--text-muted)]">Sustain / Disable delay</p>
+                      <p className="font-mono">{(result.sustainDuration / 1000).toFixed(1)}s / {result.disableDelay / 1000}s</p>
+                    </div>
+                  </div>
+
+                  {result.warnings.map((warning) => (
+                    <div key={warning} className="flex items-start gap-2 text-sm text-[var(--accent-orange)]">
+                      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                      <span>{warning}</span>
+                    </div>
+                  ))}
+                </>
+              )}
+
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" onClick={startIdle} disabled={!isCapturing}>
+                  Start Over
+                </Button>
+                <Button className="flex-1" onClick={handleApply} disabled={!result}>
+                  Apply
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { Activity } from "lucide-react";
+import type { DeviceUptime as DeviceUptimeData } from "@/lib/algo/types";
+
+interface DeviceUptimeProps {
+  uptime?: DeviceUptimeData;
+  hours: number;
+}
+
+function uptimeColor(percent: number): string {
+  if (percent >= 99) return "var(--accent-green)";
+  if (percent >= 90) return "var(--accent-orange)";
+  return "var(--accent-red)";
+}
+
+// Uptime % and average latency from the background health monitor, with one
+// bar per hour: height is latency, colour is that hour's uptime
+export function DeviceUptime({ uptime, hours }: DeviceUptimeProps) {
+  if (!uptime || uptime.uptimePercent === null) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-[var(--text-muted)]">
+        <Activity className="h-3 w-3" />
+        <span>No uptime data yet</span>
+      </div>
+    );
+  }
+
+  const maxLatency = Math.max(...uptime.series.map((b) => b.avgResponseTime ?? 0), 1);
+  const bucketsByHour = new Map(uptime.series.map((b) => [new Date(b.hour).getTime(), b]));
+  const currentHour = new Date();
+  currentHour.setUTCMinutes(0, 0, 0);
+  const slots = Array.from({ length: hours }, (_, i) => currentHour.getTime() - (hours - 1 - i) * 3600000);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2 text-xs text-[var(--text-muted)]">
+        <Activity className="h-3 w-3" />
+        <span>
+          Uptime ({hours}h):{" "}
+          <span style={{ color: uptimeColor(uptime.uptimePercent) }} className="font-medium">
+            {uptime.uptimePercent}%
+          </span>
+          {uptime.avgResponseTime !== null && ` • ${uptime.avgResponseTime} ms avg`}
+          {uptime.authFailures > 0 && (
+            <span className="text-[var(--accent-orange)]"> • {uptime.authFailures} auth failures</span>
+          )}
+        </span>
+      </div>
+      <div className="flex h-6 items-end gap-px">
+        {slots.map((slot) => {
+          const bucket = bucketsByHour.get(slot);
+          if (!bucket) {
+            return <div key={slot} className="flex-1 h-px bg-[var(--border-color)]" title="No checks" />;
+          }
+          const height = bucket.avgResponseTime !== null ? Math.max((bucket.avgResponseTime / maxLatency) * 100, 15) : 100;
+          return (
+            <div
+              key={slot}
+              className="flex-1 rounded-sm"
+              style={{ height: `${height}%`, backgroundColor: uptimeColor(bucket.uptimePercent) }}
+              title={`${new Date(slot).toLocaleString()}: ${bucket.uptimePercent}% up${
+                bucket.avgResponseTime !== null ? `, ${bucket.avgResponseTime} ms` : ""
+              }`}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -4,14 +4,18 @@ import { useAuth } from "@/contexts/auth-context";
 import { LoginForm } from "@/components/auth/login-form";
 import { Sidebar } from "@/components/layout/sidebar";
 import { AudioMonitoringIndicator } from "@/components/audio-monitoring-indicator";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ROLE_LABELS, type UserRole } from "@/lib/roles";
+import { ShieldAlert } from "lucide-react";
 import { type ReactNode } from "react";
 
 interface AppLayoutProps {
   children: ReactNode;
+  requiredRole?: UserRole; // Minimum role to see the page
 }
 
-export function AppLayout({ children }: AppLayoutProps) {
-  const { user, loading, signOut } = useAuth();
+export function AppLayout({ children, requiredRole = "viewer" }: AppLayoutProps) {
+  const { user, role, loading, hasRole, signOut } = useAuth();
 
   if (loading) {
     return (
@@ -29,7 +33,27 @@ export function AppLayout({ children }: AppLayoutProps) {
     <div className="min-h-screen bg-[var(--bg-primary)]">
       <Sidebar onLogout={signOut} />
       <main className="lg:pl-64">
-        <div className="p-4 pt-20 lg:p-8 lg:pt-8">{children}</div>
+        <div className="p-4 pt-20 lg:p-8 lg:pt-8">
+          {hasRole(requiredRole) ? (
+            children
+          ) : (
+            <Card className="mx-auto max-w-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldAlert className="h-5 w-5 text-[var(--accent-orange)]" />
+                  Access restricted
+                </CardTitle>
+                <CardDescription>
+                  This page requires the {ROLE_LABELS[requiredRole]} role. You are signed in as{" "}
+                  {role ? ROLE_LABELS[role] : "a user without a role"}.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="text-sm text-[var(--text-secondary)]">
+                Ask an admin to change your role in Settings.
+              </CardContent>
+            </Card>
+          )}
+        </div>
       </main>
       <AudioMonitoringIndicator />
     </div>
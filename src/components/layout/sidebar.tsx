@@ -5,29 +5,40 @@ import { usePathname } from "next/navigation";
 import {
   LayoutDashboard,
   Speaker,
+  Layers,
+  AudioWaveform,
   Music,
   Radio,
+  CalendarClock,
   Mic,
+  History,
   Settings,
   LogOut,
   Menu,
   X,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useAuth } from "@/contexts/auth-context";
+import type { UserRole } from "@/lib/roles";
 import { useState } from "react";
 
 interface NavItem {
   title: string;
   href: string;
   icon: React.ElementType;
+  requiredRole?: UserRole; // Hidden from users below this role
 }
 
 const navItems: NavItem[] = [
   { title: "Dashboard", href: "/", icon: LayoutDashboard },
   { title: "Devices", href: "/devices", icon: Speaker },
-  { title: "Audio Library", href: "/audio", icon: Music },
-  { title: "Live Broadcast", href: "/live", icon: Mic },
-  { title: "Distribute", href: "/distribute", icon: Radio },
+  { title: "Zones", href: "/zones", icon: Layers },
+  { title: "Tone Sets", href: "/tones", icon: AudioWaveform },
+  { title: "Audio Library", href: "/audio", icon: Music, requiredRole: "operator" },
+  { title: "Live Broadcast", href: "/live", icon: Mic, requiredRole: "operator" },
+  { title: "Distribute", href: "/distribute", icon: Radio, requiredRole: "operator" },
+  { title: "Schedules", href: "/schedules", icon: CalendarClock },
+  { title: "History", href: "/history", icon: History },
   { title: "Settings", href: "/settings", icon: Settings },
 ];
 
@@ -37,6 +48,7 @@ interface SidebarProps {
 
 export function Sidebar({ onLogout }: SidebarProps) {
   const pathname = usePathname();
+  const { hasRole } = useAuth();
   const [isMobileOpen, setIsMobileOpen] = useState(false);
 
   return (
@@ -79,7 +91,7 @@ export function Sidebar({ onLogout }: SidebarProps) {
 
           {/* Navigation */}
           <nav className="flex-1 space-y-1 px-3 py-4">
-            {navItems.map((item) => {
+            {navItems.filter((item) => !item.requiredRole || hasRole(item.requiredRole)).map((item) => {
               const isActive = pathname === item.href;
               return (
                 <Link
@@ -0,0 +1,98 @@
+"use client";
+
+import { useMonitorChannels } from "@/contexts/audio-monitoring-context";
+import { MAIN_CHANNEL_ID } from "@/lib/audio/monitor-channels";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Trash2 } from "lucide-react";
+
+// Channel tabs for the Live page, with the selected channel's name and
+// priority. Everything else on the page belongs to the selected channel.
+export function MonitorChannelBar() {
+  const { channels, statuses, selectedChannelId, selectChannel, addChannel, updateChannel, removeChannel } =
+    useMonitorChannels();
+
+  const selected = channels.find((c) => c.id === selectedChannelId);
+  const selectedStatus = statuses.find((s) => s.channel.id === selectedChannelId);
+
+  return (
+    <Card>
+      <CardContent className="space-y-4 pt-6">
+        <div className="flex flex-wrap items-center gap-2">
+          {channels.map((channel) => {
+            const status = statuses.find((s) => s.channel.id === channel.id);
+            const dot = !status?.isCapturing
+              ? "bg-[var(--text-muted)]"
+              : status.audioDetected
+                ? "bg-[var(--accent-red)] animate-blink"
+                : "bg-[var(--accent-green)]";
+            return (
+              <Button
+                key={channel.id}
+                variant={channel.id === selectedChannelId ? "default" : "outline"}
+                size="sm"
+                onClick={() => selectChannel(channel.id)}
+              >
+                <div className={`mr-2 h-2 w-2 rounded-full ${dot}`} />
+                {channel.name}
+                <span className="ml-2 text-xs opacity-70">P{channel.priority}</span>
+              </Button>
+            );
+          })}
+          <Button variant="ghost" size="sm" onClick={addChannel}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add Channel
+          </Button>
+        </div>
+
+        {selected && channels.length > 1 && (
+          <div className="grid items-end gap-3 sm:grid-cols-[1fr_8rem_auto_auto]">
+            <div className="space-y-2">
+              <Label>Channel Name</Label>
+              <Input
+                value={selected.name}
+                onChange={(e) => updateChannel(selected.id, { name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Input
+                type="number"
+                min={1}
+                value={selected.priority}
+                onChange={(e) => updateChannel(selected.id, { priority: Math.max(1, parseInt(e.target.value) || 1) })}
+              />
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch
+                checked={selected.exclusive}
+                onCheckedChange={(exclusive) => updateChannel(selected.id, { exclusive })}
+              />
+              <Label className="!text-[var(--text-primary)]">Exclusive</Label>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => removeChannel(selected.id)}
+              disabled={selected.id === MAIN_CHANNEL_ID || selectedStatus?.isCapturing}
+              title={selectedStatus?.isCapturing ? "Stop the channel before removing it" : "Remove channel"}
+            >
+              <Trash2 className="h-4 w-4 text-[var(--accent-red)]" />
+            </Button>
+          </div>
+        )}
+
+        {channels.length > 1 && (
+          <p className="text-xs text-[var(--text-muted)]">
+            When channels open at once, a speaker they share plays the lower priority number; the other channel
+            picks it up again when that one mutes. An exclusive channel mutes every lower-priority channel while it
+            is open.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
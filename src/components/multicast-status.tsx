@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Activity } from "lucide-react";
+import { useAudioMonitoring } from "@/contexts/audio-monitoring-context";
+import { apiFetch } from "@/lib/api/fetch";
+import type { MulticastDiagnosis, MulticastGroupStatus, SpeakerMulticastCheck } from "@/lib/algo/multicast-monitor";
+
+const POLL_MS = 2000;
+const SPEAKER_CHECK_DELAY_MS = 3000; // Give the speakers time to switch to receiver mode
+
+const DIAGNOSIS_LABELS: Record<MulticastDiagnosis, { label: string; color: string }> = {
+  receiving: { label: "Receiving", color: "var(--accent-green)" },
+  no_audio: { label: "No audio on group", color: "var(--accent-orange)" },
+  not_listening: { label: "Not listening", color: "var(--accent-red)" },
+  other_group: { label: "Wrong group", color: "var(--accent-red)" },
+  unknown: { label: "Unknown", color: "var(--text-muted)" },
+};
+
+/**
+ * What the server hears on the paging devices' multicast groups while the
+ * speakers are open, and whether each monitored speaker is listening to it
+ */
+export function MulticastStatus() {
+  const { speakersEnabled, speakerStatuses } = useAudioMonitoring();
+  const [groups, setGroups] = useState<MulticastGroupStatus[] | null>(null);
+  const [speakerChecks, setSpeakerChecks] = useState<Record<string, SpeakerMulticastCheck>>({});
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!speakersEnabled) return;
+    let cancelled = false;
+
+    const poll = async () => {
+      try {
+        const response = await apiFetch("/api/algo/multicast");
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(data.error || `Request failed: HTTP ${response.status}`);
+        if (!cancelled) {
+          setGroups(data.groups);
+          setError("");
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Could not load multicast status");
+      }
+    };
+    void poll();
+    const timer = setInterval(poll, POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [speakersEnabled]);
+
+  const speakerIds = speakerStatuses.filter((s) => s.isOnline).map((s) => s.speakerId).join(",");
+
+  useEffect(() => {
+    if (!speakersEnabled || !speakerIds) return;
+    let cancelled = false;
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await apiFetch("/api/algo/health", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ deviceIds: speakerIds.split(","), multicast: true }),
+        });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(data.error || `Request failed: HTTP ${response.status}`);
+        if (cancelled) return;
+        const checks: Record<string, SpeakerMulticastCheck> = {};
+        for (const device of data.devices as { id: string; multicast?: SpeakerMulticastCheck }[]) {
+          if (device.multicast) checks[device.id] = device.multicast;
+        }
+        setSpeakerChecks(checks);
+      } catch (err) {
+        console.error("[Multicast] Speaker check failed:", err);
+      }
+    }, SPEAKER_CHECK_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [speakersEnabled, speakerIds]);
+
+  if (!speakersEnabled) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-[var(--accent-green)]/15">
+            <Activity className="h-5 w-5 text-[var(--accent-green)]" />
+          </div>
+          <CardTitle>Multicast</CardTitle>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-xs text-[var(--accent-red)]">{error}</p>}
+
+        {groups?.length === 0 && (
+          <p className="text-sm text-[var(--text-muted)]">
+            No paging device is configured as a multicast sender and no zone has a group, so there is nothing to watch
+          </p>
+        )}
+
+        {groups?.map((group) => (
+          <div
+            key={`${group.address}:${group.port}`}
+            className="space-y-2 p-3 rounded-xl bg-[var(--bg-secondary)] border border-[var(--border-color)]"
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-mono">{group.address}:{group.port}</p>
+                <p className="text-xs text-[var(--text-muted)]">
+                  {[...group.senders.map((s) => s.name), ...group.zones.map((z) => `${z.name} zone`)].join(", ") || "No sender"}
+                </p>
+              </div>
+              {group.error ? (
+                <Badge variant="destructive">Not joined</Badge>
+              ) : group.transmitting ? (
+                <Badge variant="success">Transmitting</Badge>
+              ) : (
+                <Badge variant="warning">Silent</Badge>
+              )}
+            </div>
+            {group.error && <p className="text-xs text-[var(--accent-red)]">{group.error}</p>}
+            {group.streams.filter((s) => s.active).map((stream) => (
+              <div key={stream.ssrc} className="grid grid-cols-4 gap-2 text-xs font-mono text-[var(--text-secondary)]">
+                <span title={`SSRC ${stream.ssrc.toString(16)}`}>{stream.source}</span>
+                <span>{stream.packetsPerSecond} pkt/s</span>
+                <span className={stream.lossPercent > 1 ? "text-[var(--accent-red)]" : ""}>
+                  {stream.lossPercent}% loss, {stream.jitterMs} ms jitter
+                </span>
+                <span className="text-right">{stream.levelDbfs !== null ? `${stream.levelDbfs} dBFS` : "-"}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+
+        {speakerStatuses.some((s) => speakerChecks[s.speakerId]) && (
+          <div className="space-y-1">
+            {speakerStatuses.map((status) => {
+              const check = speakerChecks[status.speakerId];
+              if (!check) return null;
+              const { label, color } = DIAGNOSIS_LABELS[check.diagnosis];
+              return (
+                <div key={status.speakerId} className="flex items-center justify-between text-sm" title={check.detail}>
+                  <span>{status.speakerName}</span>
+                  <span className="text-xs" style={{ color }}>{label}</span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
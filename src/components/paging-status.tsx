@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Megaphone } from "lucide-react";
+import { useServerEvents } from "@/hooks/useServerEvents";
+import { PAGE_PRIORITY_LABELS, type PagePriority } from "@/lib/algo/page-priority";
+import type { PagingState } from "@/lib/algo/paging-arbiter";
+import type { AlgoDevice } from "@/lib/algo/types";
+
+const PRIORITY_BADGES: Record<PagePriority, "destructive" | "warning" | "default" | "secondary"> = {
+  emergency: "destructive",
+  dispatch: "warning",
+  announcement: "default",
+  routine: "secondary",
+};
+
+/**
+ * Which pages hold which devices right now, from the server's paging
+ * arbiter, and the pages waiting for them. The server pushes the state on
+ * connect and whenever it changes.
+ */
+export function PagingStatus({ devices }: { devices: AlgoDevice[] }) {
+  const [state, setState] = useState<PagingState | null>(null);
+
+  useServerEvents((event) => {
+    if (event.type === "paging") setState(event.state);
+  });
+
+  const deviceNames = (ids: string[]) =>
+    ids.map((id) => devices.find((d) => d.id === id)?.name ?? id).join(", ");
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-[var(--accent-orange)]/15">
+            <Megaphone className="h-5 w-5 text-[var(--accent-orange)]" />
+          </div>
+          <CardTitle>Active Pages</CardTitle>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {state?.leases.length === 0 && state.queued.length === 0 && (
+          <p className="text-sm text-[var(--text-muted)]">No page is holding any device</p>
+        )}
+
+        {state?.leases.map((lease) => {
+          const waiting = lease.deviceIds.filter((id) => !lease.heldIds.includes(id));
+          return (
+            <div
+              key={lease.id}
+              className="space-y-1 p-3 rounded-xl bg-[var(--bg-secondary)] border border-[var(--border-color)]"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium truncate">{lease.label}</p>
+                <Badge variant={PRIORITY_BADGES[lease.priority]}>{PAGE_PRIORITY_LABELS[lease.priority]}</Badge>
+              </div>
+              <p className="text-xs text-[var(--text-muted)]">
+                {lease.user ? `${lease.user} · ` : ""}since {new Date(lease.startedAt).toLocaleTimeString()}
+              </p>
+              {lease.heldIds.length > 0 && (
+                <p className="text-xs text-[var(--text-secondary)]">Holding {deviceNames(lease.heldIds)}</p>
+              )}
+              {waiting.length > 0 && (
+                <p className="text-xs text-[var(--accent-orange)]">Waiting for {deviceNames(waiting)}</p>
+              )}
+            </div>
+          );
+        })}
+
+        {state && state.queued.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-[var(--text-muted)]">Queued</p>
+            {state.queued.map((page) => (
+              <div key={page.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate" title={deviceNames(page.deviceIds)}>{page.label}</span>
+                <Badge variant={PRIORITY_BADGES[page.priority]}>{PAGE_PRIORITY_LABELS[page.priority]}</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { AlertCircle, Square, Upload, Wifi } from "lucide-react";
+import { useAudioMonitoring } from "@/contexts/audio-monitoring-context";
+import { streamAudioFile } from "@/lib/audio/rtp-stream";
+import type { RtpCodec } from "@/lib/audio/rtp";
+
+/**
+ * Sends audio straight to the speakers as RTP multicast: the live input
+ * while monitoring, or a file on demand. Speakers set up as multicast
+ * receivers on the same address and port play it without an 8301.
+ */
+export function RtpStreamCard() {
+  const { isCapturing, rtpStream, setRtpStream, rtpStreamError } = useAudioMonitoring();
+  const { target } = rtpStream;
+
+  const [file, setFile] = useState<File | null>(null);
+  const [fileProgress, setFileProgress] = useState<number | null>(null);
+  const [fileError, setFileError] = useState("");
+  const abortRef = useRef<AbortController | null>(null);
+
+  const relaying = isCapturing && rtpStream.enabled;
+
+  const handleStreamFile = async () => {
+    if (!file) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setFileError("");
+    setFileProgress(0);
+    try {
+      await streamAudioFile(file, target, { signal: controller.signal, onProgress: setFileProgress });
+    } catch (error) {
+      console.error("[RTP] File stream failed:", error);
+      setFileError(error instanceof Error ? error.message : "Could not stream the file");
+    } finally {
+      abortRef.current = null;
+      setFileProgress(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-[var(--accent-blue)]/15">
+            <Wifi className="h-5 w-5 text-[var(--accent-blue)]" />
+          </div>
+          <CardTitle>RTP Multicast Out</CardTitle>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label>Multicast Address</Label>
+            <Input
+              value={target.address}
+              onChange={(e) => setRtpStream({ ...rtpStream, target: { ...target, address: e.target.value.trim() } })}
+              placeholder="224.0.2.60"
+              className="font-mono"
+              disabled={relaying}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Port</Label>
+            <Input
+              type="number"
+              value={target.port}
+              onChange={(e) => setRtpStream({ ...rtpStream, target: { ...target, port: parseInt(e.target.value) || 0 } })}
+              className="font-mono"
+              disabled={relaying}
+            />
+          </div>
+          <div className="col-span-2 space-y-2">
+            <Label>Codec</Label>
+            <Select
+              value={target.codec}
+              onChange={(e) => setRtpStream({ ...rtpStream, target: { ...target, codec: e.target.value as RtpCodec } })}
+              disabled={relaying}
+            >
+              <option value="pcmu">G.711 mu-law (8 kHz)</option>
+              <option value="pcma">G.711 A-law (8 kHz)</option>
+              <option value="l16">L16 (44.1 kHz)</option>
+            </Select>
+          </div>
+        </div>
+        <p className="text-xs text-[var(--text-muted)]">
+          Match the speakers&apos; multicast settings (Algo default 224.0.2.60:50000, RTP)
+        </p>
+
+        <div className="flex items-center justify-between p-4 rounded-xl bg-[var(--bg-secondary)] border border-[var(--border-color)]">
+          <div>
+            <Label className="!text-[var(--text-primary)]">Relay Live Input</Label>
+            <p className="text-xs text-[var(--text-muted)]">
+              {relaying ? "Sending the input while monitoring" : "Send the input to the group while monitoring"}
+            </p>
+          </div>
+          <Switch checked={rtpStream.enabled} onCheckedChange={(enabled) => setRtpStream({ ...rtpStream, enabled })} />
+        </div>
+
+        {rtpStreamError && (
+          <div className="flex items-start gap-2 rounded-xl bg-[var(--accent-red)]/15 border border-[var(--accent-red)]/30 p-3 text-sm text-[var(--accent-red)]">
+            <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>Relay failed: {rtpStreamError} - retrying</span>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Stream a File</Label>
+          <div className="flex gap-2">
+            <Input
+              type="file"
+              accept="audio/*"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              disabled={fileProgress !== null}
+            />
+            {fileProgress === null ? (
+              <Button variant="outline" onClick={handleStreamFile} disabled={!file}>
+                <Upload className="mr-2 h-4 w-4" />
+                Send
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+                <Square className="mr-2 h-4 w-4" />
+                Stop
+              </Button>
+            )}
+          </div>
+          {fileProgress !== null && (
+            <div className="h-2 rounded-full bg-[var(--bg-secondary)] overflow-hidden">
+              <div
+                className="h-full bg-[var(--accent-blue)] transition-all"
+                style={{ width: `${Math.round(fileProgress * 100)}%` }}
+              />
+            </div>
+          )}
+          {fileError && <p className="text-xs text-[var(--accent-red)]">{fileError}</p>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
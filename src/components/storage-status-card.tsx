@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { RefreshCw } from "lucide-react";
+import { fetchStorageStatus, syncStorage, type StorageStatus } from "@/lib/api/data";
+import { useAuth } from "@/contexts/auth-context";
+import { formatDate } from "@/lib/utils";
+
+const MODE_DESCRIPTIONS: Record<StorageStatus["mode"], string> = {
+  firestore: "Data is stored in Firestore. The app needs internet access.",
+  local: "Data is stored on this station only.",
+  sync: "Data is stored on this station and mirrored to Firestore whenever it is reachable.",
+};
+
+// Where the server keeps its data, and in sync mode whether Firestore is caught up
+export function StorageStatusCard() {
+  const { hasRole } = useAuth();
+  const [status, setStatus] = useState<StorageStatus | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    setError("");
+    try {
+      setStatus(await fetchStorageStatus());
+    } catch (err) {
+      console.error("Failed to load storage status:", err);
+      setError(err instanceof Error ? err.message : "Failed to load storage status");
+    }
+  };
+
+  const handleSync = async () => {
+    setSyncing(true);
+    setError("");
+    try {
+      setStatus(await syncStorage());
+    } catch (err) {
+      console.error("Failed to sync:", err);
+      setError(err instanceof Error ? err.message : "Failed to sync");
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const sync = status?.sync;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Storage</CardTitle>
+            <CardDescription>{status ? MODE_DESCRIPTIONS[status.mode] : "Loading..."}</CardDescription>
+          </div>
+          {sync && hasRole("operator") && (
+            <Button variant="outline" size="sm" onClick={handleSync} isLoading={syncing}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Sync now
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      {(sync || error) && (
+        <CardContent className="space-y-2 text-sm text-[var(--text-secondary)]">
+          {sync && (
+            <>
+              <div className="flex items-center gap-2">
+                <span>Firestore:</span>
+                {sync.online === null ? (
+                  <Badge variant="secondary">Not synced yet</Badge>
+                ) : sync.online ? (
+                  <Badge variant="success">Reachable</Badge>
+                ) : (
+                  <Badge variant="warning">Offline</Badge>
+                )}
+              </div>
+              <p>
+                Last sync: {formatDate(sync.lastSyncAt)} •{" "}
+                {sync.pending} {sync.pending === 1 ? "change" : "changes"} waiting to upload
+              </p>
+              {sync.online === false && sync.lastError && (
+                <p className="text-xs text-[var(--text-muted)]">{sync.lastError}</p>
+              )}
+            </>
+          )}
+          {error && <p className="text-[var(--accent-red)]">{error}</p>}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { RefreshCw } from "lucide-react";
+import { apiFetch } from "@/lib/api/fetch";
+import { useAuth } from "@/contexts/auth-context";
+import { ROLE_LABELS, USER_ROLES, type UserAccount, type UserRole } from "@/lib/roles";
+
+// Admin-only list of Firebase users with a role picker for each
+export function UserRolesCard() {
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingUid, setSavingUid] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const loadUsers = async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const response = await apiFetch("/api/users");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load users");
+      }
+      setUsers(data.users);
+    } catch (err) {
+      console.error("Failed to load users:", err);
+      setError(err instanceof Error ? err.message : "Failed to load users");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRoleChange = async (uid: string, role: UserRole) => {
+    setSavingUid(uid);
+    setError("");
+    try {
+      const response = await apiFetch(`/api/users/${uid}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update role");
+      }
+      setUsers((prev) => prev.map((u) => (u.uid === uid ? { ...u, role } : u)));
+    } catch (err) {
+      console.error("Failed to update role:", err);
+      setError(err instanceof Error ? err.message : "Failed to update role");
+    } finally {
+      setSavingUid(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Users &amp; Roles</CardTitle>
+            <CardDescription>
+              Viewers see status and logs, operators run monitoring and distribution, admins manage devices.
+              Changes apply when the user next signs in (or within the hour).
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadUsers} disabled={loading}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <div className="rounded-lg bg-[var(--accent-red)]/10 border border-[var(--accent-red)]/30 p-3 text-sm text-[var(--accent-red)]">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <div className="h-6 w-6 animate-spin rounded-full border-4 border-[var(--accent-blue)] border-t-transparent" />
+          </div>
+        ) : (
+          users.map((account) => (
+            <div
+              key={account.uid}
+              className="flex items-center justify-between gap-4 rounded-lg border border-[var(--border-color)] p-3"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="truncate text-sm font-medium text-[var(--text-primary)]">
+                    {account.email || account.displayName || account.uid}
+                  </span>
+                  {account.uid === currentUser?.uid && <Badge variant="outline">You</Badge>}
+                  {account.disabled && <Badge variant="secondary">Disabled</Badge>}
+                </div>
+                {account.lastSignInTime && (
+                  <p className="text-xs text-[var(--text-muted)]">
+                    Last sign-in: {new Date(account.lastSignInTime).toLocaleString()}
+                  </p>
+                )}
+              </div>
+              <div className="w-36 shrink-0">
+                <Select
+                  value={account.role}
+                  disabled={savingUid === account.uid || account.uid === currentUser?.uid}
+                  onChange={(e) => handleRoleChange(account.uid, e.target.value as UserRole)}
+                >
+                  {USER_ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {ROLE_LABELS[role]}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
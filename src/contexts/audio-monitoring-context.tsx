@@ -1,11 +1,42 @@
 "use client";
 
-import { createContext, useContext, useState, useRef, useCallback, useEffect } from "react";
+import { createContext, useContext, useState, useRef, useCallback, useEffect, useLayoutEffect, useMemo, memo } from "react";
 import { useAudioCapture } from "@/hooks/useAudioCapture";
-import type { AlgoDevice } from "@/lib/algo/types";
+import type { AlgoDevice, Zone, ToneSet } from "@/lib/algo/types";
+import { resolveZoneTargets } from "@/lib/algo/zones";
+import { TwoToneDecoder, type ToneMatch } from "@/lib/audio/two-tone-decoder";
+import { PcmRingBuffer } from "@/lib/audio/pcm-ring-buffer";
+import {
+  VoiceLevelDetector,
+  DEFAULT_DETECTOR_SETTINGS,
+  type DetectorSettings,
+  type DetectorFrame,
+} from "@/lib/audio/level-detector";
+import { DetectionStateMachine } from "@/lib/audio/detection-state";
+import { LevelTraceRecorder, type LevelTrace, type TraceSettings } from "@/lib/audio/level-trace";
+import type { CalibrationResult } from "@/lib/audio/calibration";
+import { DtmfDecoder } from "@/lib/audio/dtmf-decoder";
+import { Mdc1200Decoder, describeMdc1200 } from "@/lib/audio/mdc1200-decoder";
+import { matchUnitIdRule, formatUnitId, type UnitId, type UnitIdRule } from "@/lib/audio/unit-ids";
+import { describeInputSource, type AudioInputSource } from "@/lib/audio/input-sources";
+import { RtpStream, DEFAULT_RTP_STREAM, type RtpStreamSettings, type RtpStreamTarget } from "@/lib/audio/rtp-stream";
+import {
+  SpeakerArbiter,
+  DEFAULT_CHANNEL,
+  MAIN_CHANNEL_ID,
+  channelStorageKey,
+  type MonitorChannelConfig,
+  type SpeakerHandover,
+} from "@/lib/audio/monitor-channels";
 import { storage } from "@/lib/firebase/config";
 import { ref as storageRef, uploadBytes, getDownloadURL } from "firebase/storage";
 import { useAuth } from "@/contexts/auth-context";
+import { apiFetch } from "@/lib/api/fetch";
+import { PageLeaseClient } from "@/lib/api/paging";
+import { submitPlayback, waitForJob } from "@/lib/api/playback-jobs";
+import { CONSOLE_ID, applyDeviceStatus, reportEvent } from "@/lib/api/events";
+import { useServerEvents } from "@/hooks/useServerEvents";
+import { generateId } from "@/lib/utils";
 
 // Debug mode - set to false for production to reduce console noise
 const DEBUG_MODE = process.env.NODE_ENV === 'development';
@@ -21,11 +52,39 @@ const debugLog = (...args: any[]) => {
 // Web Worker for MP3 encoding
 let mp3Worker: Worker | null = null;
 
+// Speakers stay open at least this long after a tone alert, so a pause
+// between the tones and the dispatcher's voice doesn't mute them
+const TONE_ALERT_HOLD_MS = 15000;
+const MAX_TONE_EVENTS = 50;
+
+// A unit ID belongs to a transmission if it was heard this long before the
+// audio started, or arrives this soon after the speakers opened for it
+const UNIT_ID_LEAD_MS = 1000;
+const UNIT_ID_LATE_MS = 3000;
+const MAX_RECENT_UNIT_IDS = 20;
+
+// A relay that could not reach the server tries again after this long
+const RTP_RETRY_MS = 5000;
+
+// What opens the speakers: input level, decoded two-tone pages, or either
+export type TriggerMode = "level" | "tone" | "both";
+
+// A station toned on the monitored input
+export interface ToneEvent {
+  timestamp: string;
+  toneSetId: string;
+  toneSetName: string;
+  toneA: number; // Measured Hz
+  toneB: number;
+}
+
 export interface AudioLogEntry {
   timestamp: string;
-  type: "audio_detected" | "audio_silent" | "speakers_enabled" | "speakers_disabled" | "volume_change";
-  audioLevel?: number;
-  audioThreshold?: number;
+  type: "audio_detected" | "audio_silent" | "speakers_enabled" | "speakers_disabled" | "volume_change" | "tone_detected" | "unit_id";
+  toneSetId?: string;
+  unitId?: UnitId; // Radio that keyed up, when its ID was decoded
+  levelDbfs?: number; // Voice-band input level
+  reason?: string; // Why the detector opened or closed, for tuning
   speakersEnabled?: boolean;
   volume?: number;
   message: string;
@@ -43,13 +102,18 @@ export interface SpeakerStatus {
 }
 
 interface AudioMonitoringContextType {
+  channel: MonitorChannelConfig; // The channel this state belongs to
   // Audio capture state
   isCapturing: boolean;
-  audioLevel: number;
+  audioLevel: number; // Meter level, 0-100
+  captureError: string | null; // Set when the input device could not be opened
   selectedInputDevice: string;
+  inputSource: AudioInputSource; // Kind "device" listens to selectedInputDevice
   volume: number;
   targetVolume: number;
-  audioThreshold: number;
+  detectorSettings: DetectorSettings;
+  detectorFrame: DetectorFrame | null; // Latest voice-band measurement
+  lockoutUntil: number; // ms timestamp; activations are blocked until then
 
   // Speaker state
   audioDetected: boolean;
@@ -77,21 +141,46 @@ interface AudioMonitoringContextType {
   setSustainDuration: (duration: number) => void;
   setDisableDelay: (delay: number) => void;
 
+  // Two-tone paging
+  triggerMode: TriggerMode;
+  setTriggerMode: (mode: TriggerMode) => void;
+  toneSets: ToneSet[];
+  setToneSets: (toneSets: ToneSet[]) => void;
+  toneEvents: ToneEvent[];
+  activeToneSet: ToneSet | null; // Set whose speaker group is open
+
+  // Unit IDs (DTMF / MDC1200)
+  unitIdRules: UnitIdRule[];
+  setUnitIdRules: (rules: UnitIdRule[]) => void;
+  recentUnitIds: UnitId[];
+
   // Device selection
   selectedDevices: string[];
   setSelectedDevices: (devices: string[]) => void;
+  selectedZones: string[];
+  setSelectedZones: (zoneIds: string[]) => void;
 
   // Actions
   startMonitoring: (inputDevice?: string) => void;
   stopMonitoring: () => void;
   setInputDevice: (deviceId: string) => void;
+  setInputSource: (source: AudioInputSource) => void;
   setVolume: (volume: number) => void;
   setTargetVolume: (volume: number) => void;
-  setAudioThreshold: (threshold: number) => void;
+  setDetectorSettings: (settings: DetectorSettings) => void;
+
+  // Calibration
+  subscribeDetectorFrames: (listener: DetectorFrameListener) => () => void;
+  calibrating: boolean; // Activations are paused while the wizard listens
+  setCalibrating: (calibrating: boolean) => void;
+  calibration: CalibrationResult | null; // Last applied calibration
+  applyCalibration: (result: CalibrationResult) => void;
 
   // For controlling speakers
   devices: AlgoDevice[];
   setDevices: (devices: AlgoDevice[]) => void;
+  zones: Zone[];
+  setZones: (zones: Zone[]) => void;
 
   // Logging
   logs: AudioLogEntry[];
@@ -103,6 +192,18 @@ interface AudioMonitoringContextType {
   // Recording
   recordingEnabled: boolean;
   setRecordingEnabled: (enabled: boolean) => void;
+  preRollSeconds: number; // Audio kept from before detection, added to the start of each clip
+  setPreRollSeconds: (seconds: number) => void;
+
+  // Level trace, for replaying detection decisions later
+  traceEnabled: boolean;
+  setTraceEnabled: (enabled: boolean) => void;
+  getLevelTrace: () => LevelTrace | null;
+
+  // Relay of the input to speakers as RTP multicast, while monitoring
+  rtpStream: RtpStreamSettings;
+  setRtpStream: (settings: RtpStreamSettings) => void;
+  rtpStreamError: string | null;
 
   // Emergency Controls
   emergencyKillAll: () => Promise<void>;
@@ -114,33 +215,16 @@ interface AudioMonitoringContextType {
   checkSpeakerConnectivity: () => Promise<void>;
 }
 
-const AudioMonitoringContext = createContext<AudioMonitoringContextType | null>(null);
+// Receives every detector block, with the block's length in ms
+export type DetectorFrameListener = (frame: DetectorFrame, blockMs: number) => void;
 
-// Helper function to convert audio blob to MP3 using Web Worker
-async function convertToMp3(audioBlob: Blob): Promise<Blob> {
-  console.log('[MP3 Convert] Starting conversion, blob size:', audioBlob.size, 'type:', audioBlob.type);
-
-  // Decode the audio blob to an AudioBuffer
-  const arrayBuffer = await audioBlob.arrayBuffer();
-  console.log('[MP3 Convert] ArrayBuffer size:', arrayBuffer.byteLength);
-
-  const audioContext = new AudioContext();
-  console.log('[MP3 Convert] AudioContext created, decoding...');
-
-  const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-  console.log('[MP3 Convert] Decoded - channels:', audioBuffer.numberOfChannels, 'sampleRate:', audioBuffer.sampleRate, 'duration:', audioBuffer.duration);
-
-  // Get audio data as Float32Arrays
-  const numberOfChannels = audioBuffer.numberOfChannels;
-  const sampleRate = audioBuffer.sampleRate;
+const AudioMonitoringContext = createContext<AudioMonitoringContextType | null>(null);
 
-  const audioData: Float32Array[] = [];
-  for (let i = 0; i < numberOfChannels; i++) {
-    audioData.push(audioBuffer.getChannelData(i));
-  }
+// Helper function to encode captured samples to MP3 using Web Worker
+async function convertToMp3(samples: Float32Array, sampleRate: number): Promise<Blob> {
+  console.log('[MP3 Convert] Starting conversion - samples:', samples.length, 'sampleRate:', sampleRate, 'duration:', samples.length / sampleRate);
 
-  // Close the audio context
-  await audioContext.close();
+  const audioData = [samples];
 
   // Initialize Web Worker if not already done
   if (!mp3Worker) {
@@ -197,14 +281,47 @@ async function convertToMp3(audioBlob: Blob): Promise<Blob> {
   });
 }
 
+// Fallback when MP3 encoding fails: 16-bit mono WAV
+function convertToWav(samples: Float32Array, sampleRate: number): Blob {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
 // LocalStorage keys
 const STORAGE_KEYS = {
   IS_MONITORING: 'algo_live_is_monitoring',
   SELECTED_DEVICES: 'algo_live_selected_devices',
+  SELECTED_ZONES: 'algo_live_selected_zones',
   SELECTED_INPUT: 'algo_live_selected_input',
+  INPUT_SOURCE: 'algo_live_input_source',
   TARGET_VOLUME: 'algo_live_target_volume',
   INPUT_GAIN: 'algo_live_input_gain',
-  AUDIO_THRESHOLD: 'algo_live_audio_threshold',
+  DETECTOR_SETTINGS: 'algo_live_detector_settings',
+  CALIBRATION: 'algo_live_calibration',
   USE_GLOBAL_VOLUME: 'algo_use_global_volume',
   RAMP_ENABLED: 'algo_live_ramp_enabled',
   RAMP_DURATION: 'algo_live_ramp_duration',
@@ -216,17 +333,67 @@ const STORAGE_KEYS = {
   DISABLE_DELAY: 'algo_live_disable_delay',
   LOGGING_ENABLED: 'algo_live_logging_enabled',
   RECORDING_ENABLED: 'algo_live_recording_enabled',
+  PRE_ROLL_SECONDS: 'algo_live_pre_roll_seconds',
+  TRACE_ENABLED: 'algo_live_trace_enabled',
+  RTP_STREAM: 'algo_live_rtp_stream',
+  TRIGGER_MODE: 'algo_live_trigger_mode',
+  UNIT_ID_RULES: 'algo_live_unit_id_rules',
 };
 
-export function AudioMonitoringProvider({ children }: { children: React.ReactNode }) {
+// The channel list is shared; every other key is per channel
+const CHANNEL_KEYS = {
+  CHANNELS: 'algo_live_channels',
+  SELECTED_CHANNEL: 'algo_live_selected_channel',
+};
+
+function channelStorageKeys(channelId: string): typeof STORAGE_KEYS {
+  return Object.fromEntries(
+    Object.entries(STORAGE_KEYS).map(([name, key]) => [name, channelStorageKey(key, channelId)])
+  ) as typeof STORAGE_KEYS;
+}
+
+interface MonitorChannelProps {
+  channel: MonitorChannelConfig;
+  arbiter: SpeakerArbiter;
+  pageLease: PageLeaseClient;
+  // Devices, zones and tone sets are loaded once for every channel
+  devices: AlgoDevice[];
+  setDevices: (devices: AlgoDevice[]) => void;
+  zones: Zone[];
+  setZones: (zones: Zone[]) => void;
+  toneSets: ToneSet[];
+  setToneSets: (toneSets: ToneSet[]) => void;
+  onValue: (channelId: string, value: AudioMonitoringContextType | null) => void;
+}
+
+// One monitor channel: its input, detection, speakers and log. Renders
+// nothing; its state reaches the UI through AudioMonitoringProvider.
+const MonitorChannel = memo(function MonitorChannel({
+  channel,
+  arbiter,
+  pageLease,
+  devices,
+  setDevices,
+  zones,
+  setZones,
+  toneSets,
+  setToneSets,
+  onValue,
+}: MonitorChannelProps) {
   const { user } = useAuth();
+  const storageKeys = useMemo(() => channelStorageKeys(channel.id), [channel.id]);
 
   const [selectedInputDevice, setSelectedInputDeviceState] = useState<string>("");
+  const [inputSource, setInputSourceState] = useState<AudioInputSource>({ kind: "device" });
   const [volume, setVolumeState] = useState(50);
   const [targetVolume, setTargetVolumeState] = useState(100);
-  const [audioThreshold, setAudioThresholdState] = useState(5); // 5% default
+  const [detectorSettings, setDetectorSettingsState] = useState<DetectorSettings>(DEFAULT_DETECTOR_SETTINGS);
+  const [detectorFrame, setDetectorFrame] = useState<DetectorFrame | null>(null);
+  const [lockoutUntil, setLockoutUntil] = useState(0);
+  const [calibrating, setCalibratingState] = useState(false);
+  const [calibration, setCalibration] = useState<CalibrationResult | null>(null);
   const [selectedDevices, setSelectedDevicesState] = useState<string[]>([]);
-  const [devices, setDevices] = useState<AlgoDevice[]>([]);
+  const [selectedZones, setSelectedZonesState] = useState<string[]>([]);
   const [audioDetected, setAudioDetected] = useState(false);
   const [speakersEnabled, setSpeakersEnabled] = useState(false);
 
@@ -234,10 +401,23 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
   const [logs, setLogs] = useState<AudioLogEntry[]>([]);
   const [loggingEnabled, setLoggingEnabledState] = useState(true); // enabled by default
   const [recordingEnabled, setRecordingEnabledState] = useState(false); // disabled by default to save storage
+  const [preRollSeconds, setPreRollSecondsState] = useState(5); // 5 seconds default
+  const [traceEnabled, setTraceEnabledState] = useState(false);
+  const [rtpStream, setRtpStreamState] = useState<RtpStreamSettings>(DEFAULT_RTP_STREAM);
+  const [rtpStreamError, setRtpStreamError] = useState<string | null>(null);
 
   // Volume mode
   const [useGlobalVolume, setUseGlobalVolumeState] = useState(false);
 
+  // Two-tone paging
+  const [triggerMode, setTriggerModeState] = useState<TriggerMode>("level");
+  const [toneEvents, setToneEvents] = useState<ToneEvent[]>([]);
+  const [activeToneSet, setActiveToneSet] = useState<ToneSet | null>(null);
+
+  // Unit IDs
+  const [unitIdRules, setUnitIdRulesState] = useState<UnitIdRule[]>([]);
+  const [recentUnitIds, setRecentUnitIds] = useState<UnitId[]>([]);
+
   // Speaker status tracking
   const [speakerStatuses, setSpeakerStatuses] = useState<SpeakerStatus[]>([]);
 
@@ -251,7 +431,6 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
   const [sustainDuration, setSustainDurationState] = useState(1000); // 1 second default (in ms)
   const [disableDelay, setDisableDelayState] = useState(3000); // 3 seconds default (in ms)
 
-  const audioDetectionTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const controllingSpakersRef = useRef<boolean>(false);
   const volumeRampIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const currentVolumeRef = useRef<number>(0);
@@ -260,22 +439,155 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
   const previousDayModeRef = useRef<boolean | null>(null);
 
   // Sustained audio tracking
-  const sustainedAudioStartRef = useRef<number | null>(null);
   const sustainCheckIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const speakersEnabledTimeRef = useRef<number | null>(null);
 
-  // Recording
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const recordedChunksRef = useRef<Blob[]>([]);
-  const recordingStartTimeRef = useRef<string | null>(null);
+  // Recording - clips are built from the same samples the detectors see:
+  // the pre-roll history, then every block until the recording stops
+  const preRollBufferRef = useRef<PcmRingBuffer | null>(null);
+  const preRollSecondsRef = useRef<number>(5);
+  const recordingRef = useRef<{ chunks: Float32Array[]; sampleRate: number; startedAt: string } | null>(null);
+
+  // Two-tone decoding runs on raw samples from the audio thread, so it
+  // reads settings through refs instead of React state
+  const toneDecoderRef = useRef<TwoToneDecoder | null>(null);
+  const toneSetsRef = useRef<ToneSet[]>([]);
+  const triggerModeRef = useRef<TriggerMode>("level");
+  const toneMatchHandlerRef = useRef<((match: ToneMatch) => void) | null>(null);
+  const activeToneSetRef = useRef<ToneSet | null>(null);
+  const toneAlertHoldUntilRef = useRef<number>(0);
+
+  // Unit ID decoding runs in every trigger mode. lastUnitIdRef is the most
+  // recent ID heard, activationUnitIdRef the one attached to the open level
+  // activation, suppressedUnitIdRef an ignored unit still transmitting and
+  // routeRuleRef the rule redirecting the open activation.
+  const dtmfDecoderRef = useRef<DtmfDecoder | null>(null);
+  const mdcDecoderRef = useRef<Mdc1200Decoder | null>(null);
+  const unitIdHandlerRef = useRef<((unitId: UnitId) => void) | null>(null);
+  const lastUnitIdRef = useRef<UnitId | null>(null);
+  const activationUnitIdRef = useRef<UnitId | null>(null);
+  const suppressedUnitIdRef = useRef<UnitId | null>(null);
+  const suppressTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const routeRuleRef = useRef<UnitIdRule | null>(null);
+
+  // Speaker handovers between channels arrive from the arbiter
+  const handoverHandlerRef = useRef<((handover: SpeakerHandover) => void) | null>(null);
+
+  // Voice-band level detection, measured per sample block
+  const levelDetectorRef = useRef<VoiceLevelDetector | null>(null);
+  const detectorSettingsRef = useRef<DetectorSettings>(DEFAULT_DETECTOR_SETTINGS);
+  const frameListenersRef = useRef(new Set<DetectorFrameListener>());
+
+  // Sustain, lockout and mute countdown for level-triggered audio. Each
+  // detector frame is stepped once; the trace records levels and transitions.
+  const detectionRef = useRef(new DetectionStateMachine());
+  const steppedFrameRef = useRef<DetectorFrame | null>(null);
+  const traceEnabledRef = useRef(false);
+  const traceSettingsRef = useRef<TraceSettings>({ ...DEFAULT_DETECTOR_SETTINGS, sustainDuration: 1000, disableDelay: 3000 });
+  const traceRef = useRef<LevelTraceRecorder | null>(null);
+
+  // RTP relay: the stream opens with the first block at the capture rate.
+  // A failed stream is retried after RTP_RETRY_MS.
+  const rtpTargetRef = useRef<RtpStreamTarget | null>(null);
+  const rtpStreamRef = useRef<RtpStream | null>(null);
+  const rtpOpeningRef = useRef(false);
+  const rtpRetryAtRef = useRef(0);
+
+  const handleAudioData = useCallback((data: Float32Array, sampleRate: number) => {
+    if (!levelDetectorRef.current || levelDetectorRef.current.sampleRate !== sampleRate) {
+      levelDetectorRef.current = new VoiceLevelDetector(sampleRate, detectorSettingsRef.current);
+    }
+    const frame = levelDetectorRef.current.process(data);
+    const blockMs = (data.length / sampleRate) * 1000;
+    setDetectorFrame(frame);
+    frameListenersRef.current.forEach(listener => listener(frame, blockMs));
+
+    if (traceEnabledRef.current) {
+      if (!traceRef.current || traceRef.current.sampleRate !== sampleRate) {
+        traceRef.current = new LevelTraceRecorder(sampleRate, traceSettingsRef.current);
+      }
+      traceRef.current.addBlock(frame.levelDbfs, blockMs);
+    }
+
+    let preRoll = preRollBufferRef.current;
+    if (!preRoll || preRoll.sampleRate !== sampleRate || preRoll.seconds !== preRollSecondsRef.current) {
+      preRoll = new PcmRingBuffer(sampleRate, preRollSecondsRef.current);
+      preRollBufferRef.current = preRoll;
+    }
+    preRoll.write(data);
+    recordingRef.current?.chunks.push(data);
+
+    const rtpTarget = rtpTargetRef.current;
+    const stream = rtpStreamRef.current;
+    if (rtpTarget && stream && !stream.isClosed && stream.sampleRate === sampleRate) {
+      stream.push(data);
+    } else if (rtpTarget && !rtpOpeningRef.current && Date.now() >= rtpRetryAtRef.current) {
+      stream?.close();
+      rtpStreamRef.current = null;
+      rtpOpeningRef.current = true;
+      const fail = (message: string) => {
+        console.warn(`[AudioMonitoring] RTP stream to ${rtpTarget.address}:${rtpTarget.port} failed: ${message}`);
+        setRtpStreamError(message);
+        rtpRetryAtRef.current = Date.now() + RTP_RETRY_MS;
+      };
+      RtpStream.open(rtpTarget, sampleRate, fail)
+        .then((opened) => {
+          // Monitoring stopped or the target changed while it opened
+          if (rtpTargetRef.current !== rtpTarget) {
+            opened.close();
+            return;
+          }
+          rtpStreamRef.current = opened;
+          setRtpStreamError(null);
+        })
+        .catch((error) => fail(error instanceof Error ? error.message : "Could not open stream"))
+        .finally(() => {
+          rtpOpeningRef.current = false;
+        });
+    }
+
+    if (!dtmfDecoderRef.current || dtmfDecoderRef.current.sampleRate !== sampleRate) {
+      dtmfDecoderRef.current = new DtmfDecoder(sampleRate);
+      mdcDecoderRef.current = new Mdc1200Decoder(sampleRate);
+    }
+
+    for (const sequence of dtmfDecoderRef.current.process(data)) {
+      unitIdHandlerRef.current?.({
+        kind: "dtmf",
+        id: sequence.digits,
+        detectedAt: sequence.detectedAt.toISOString(),
+      });
+    }
+    for (const packet of mdcDecoderRef.current?.process(data) ?? []) {
+      unitIdHandlerRef.current?.({
+        kind: "mdc1200",
+        id: packet.unitId,
+        detail: describeMdc1200(packet),
+        detectedAt: packet.detectedAt.toISOString(),
+      });
+    }
+
+    if (triggerModeRef.current === "level") return;
+
+    let decoder = toneDecoderRef.current;
+    if (!decoder || decoder.sampleRate !== sampleRate) {
+      decoder = new TwoToneDecoder(sampleRate, toneSetsRef.current.filter(s => s.enabled));
+      toneDecoderRef.current = decoder;
+    }
+
+    for (const match of decoder.process(data)) {
+      toneMatchHandlerRef.current?.(match);
+    }
+  }, []);
 
   const {
     isCapturing,
     audioLevel,
+    error: captureError,
     startCapture,
     stopCapture,
     setVolume: setGainVolume,
-  } = useAudioCapture();
+  } = useAudioCapture({ onAudioData: handleAudioData });
 
   // Helper to add log entry
   const addLog = useCallback((entry: Omit<AudioLogEntry, "timestamp">) => {
@@ -299,126 +611,99 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     });
   }, [loggingEnabled]);
 
-  // Start recording audio
-  const startRecording = useCallback(async () => {
+  // Start recording audio, beginning with the pre-roll
+  const startRecording = useCallback(() => {
+    if (!recordingEnabled) {
+      debugLog('[Recording] Recording is disabled, skipping');
+      return;
+    }
+
+    if (!user) {
+      console.warn('[Recording] No user authenticated, skipping recording');
+      return;
+    }
+
+    const preRoll = preRollBufferRef.current;
+    if (!preRoll) {
+      console.warn('[Recording] No audio captured yet, skipping recording');
+      return;
+    }
+
+    const history = preRoll.read();
+    recordingRef.current = {
+      chunks: [history],
+      sampleRate: preRoll.sampleRate,
+      // The clip starts with the pre-roll, not now
+      startedAt: new Date(Date.now() - (history.length / preRoll.sampleRate) * 1000).toISOString(),
+    };
+
+    debugLog(`[Recording] Started recording audio with ${(history.length / preRoll.sampleRate).toFixed(1)}s pre-roll`);
+  }, [recordingEnabled, user]);
+
+  // Stop recording and upload to Firebase
+  const stopRecordingAndUpload = useCallback(async (): Promise<string | null> => {
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    if (!recording || !user) return null;
+
     try {
-      if (!recordingEnabled) {
-        debugLog('[Recording] Recording is disabled, skipping');
-        return;
+      const length = recording.chunks.reduce((total, chunk) => total + chunk.length, 0);
+      if (length === 0) {
+        console.warn('[Recording] No audio data recorded');
+        return null;
       }
 
-      if (!user) {
-        console.warn('[Recording] No user authenticated, skipping recording');
-        return;
+      const samples = new Float32Array(length);
+      let offset = 0;
+      for (const chunk of recording.chunks) {
+        samples.set(chunk, offset);
+        offset += chunk.length;
       }
 
-      // Get the audio stream from the microphone
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          deviceId: selectedInputDevice || undefined,
-          echoCancellation: false,
-          noiseSuppression: false,
-          autoGainControl: false,
-        }
-      });
+      // Try MP3 for better phone compatibility
+      let finalBlob: Blob;
+      let fileExtension: string;
 
-      // Create media recorder
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: 'audio/webm',
-      });
+      try {
+        console.log(`[Recording] Encoding ${(length / recording.sampleRate).toFixed(1)}s to MP3...`);
+        finalBlob = await convertToMp3(samples, recording.sampleRate);
+        fileExtension = 'mp3';
+        console.log(`[Recording] Encoded to MP3: ${finalBlob.size} bytes`);
+      } catch (conversionError) {
+        // Fallback to WAV if MP3 encoding fails
+        console.error('[Recording] MP3 encoding failed, falling back to WAV:', conversionError);
+        finalBlob = convertToWav(samples, recording.sampleRate);
+        fileExtension = 'wav';
+      }
 
-      recordedChunksRef.current = [];
-      recordingStartTimeRef.current = new Date().toISOString();
+      // Generate filename with timestamp
+      const timestamp = recording.startedAt.replace(/[:.]/g, '-');
+      const filename = `recording-${timestamp}.${fileExtension}`;
+      const filePath = `audio-recordings/${user.uid}/${filename}`;
 
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          recordedChunksRef.current.push(event.data);
-        }
-      };
+      // Upload to Firebase Storage
+      debugLog(`[Recording] Uploading ${fileExtension.toUpperCase()} to ${filePath}`);
+      const fileRef = storageRef(storage, filePath);
+      await uploadBytes(fileRef, finalBlob);
 
-      mediaRecorder.start(100); // Collect data every 100ms
-      mediaRecorderRef.current = mediaRecorder;
+      // Get download URL
+      const downloadUrl = await getDownloadURL(fileRef);
+      debugLog('[Recording] Upload successful:', downloadUrl);
 
-      debugLog('[Recording] Started recording audio');
+      return downloadUrl;
     } catch (error) {
-      console.error('[Recording] Failed to start recording:', error);
+      console.error('[Recording] Upload failed:', error);
+      return null;
     }
-  }, [recordingEnabled, user, selectedInputDevice]);
-
-  // Stop recording and upload to Firebase
-  const stopRecordingAndUpload = useCallback(async (): Promise<string | null> => {
-    return new Promise((resolve) => {
-      try {
-        const mediaRecorder = mediaRecorderRef.current;
-        if (!mediaRecorder || !user || !recordingStartTimeRef.current) {
-          resolve(null);
-          return;
-        }
-
-        mediaRecorder.onstop = async () => {
-          try {
-            // Create blob from recorded chunks (WebM format)
-            const webmBlob = new Blob(recordedChunksRef.current, { type: 'audio/webm' });
-
-            if (webmBlob.size === 0) {
-              console.warn('[Recording] No audio data recorded');
-              resolve(null);
-              return;
-            }
-
-            // Try to convert WebM to MP3 for better phone compatibility
-            let finalBlob: Blob;
-            let fileExtension: string;
-
-            try {
-              console.log(`[Recording] Converting ${webmBlob.size} bytes from WebM to MP3...`);
-              finalBlob = await convertToMp3(webmBlob);
-              fileExtension = 'mp3';
-              console.log(`[Recording] Converted to MP3: ${finalBlob.size} bytes`);
-            } catch (conversionError) {
-              // Fallback to WebM if MP3 conversion fails
-              console.error('[Recording] MP3 conversion failed, falling back to WebM:', conversionError);
-              finalBlob = webmBlob;
-              fileExtension = 'webm';
-            }
-
-            // Generate filename with timestamp
-            const timestamp = recordingStartTimeRef.current!.replace(/[:.]/g, '-');
-            const filename = `recording-${timestamp}.${fileExtension}`;
-            const filePath = `audio-recordings/${user.uid}/${filename}`;
-
-            // Upload to Firebase Storage
-            debugLog(`[Recording] Uploading ${fileExtension.toUpperCase()} to ${filePath}`);
-            const fileRef = storageRef(storage, filePath);
-            await uploadBytes(fileRef, finalBlob);
-
-            // Get download URL
-            const downloadUrl = await getDownloadURL(fileRef);
-            debugLog('[Recording] Upload successful:', downloadUrl);
-
-            // Clean up
-            recordedChunksRef.current = [];
-            recordingStartTimeRef.current = null;
-            mediaRecorderRef.current = null;
-
-            // Stop all tracks
-            mediaRecorder.stream.getTracks().forEach(track => track.stop());
-
-            resolve(downloadUrl);
-          } catch (error) {
-            console.error('[Recording] Upload failed:', error);
-            resolve(null);
-          }
-        };
-
-        mediaRecorder.stop();
-      } catch (error) {
-        console.error('[Recording] Stop failed:', error);
-        resolve(null);
-      }
-    });
   }, [user]);
 
+  // Stop recording without uploading (the transmission was ignored)
+  const discardRecording = useCallback(() => {
+    if (!recordingRef.current) return;
+    recordingRef.current = null;
+    debugLog('[Recording] Recording discarded');
+  }, []);
+
   // Update gain when volume changes
   useEffect(() => {
     setGainVolume(volume);
@@ -432,30 +717,39 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     debugLog('[AudioMonitoring] Initializing and restoring state...');
 
     try {
-      const savedDevices = localStorage.getItem(STORAGE_KEYS.SELECTED_DEVICES);
-      const savedInput = localStorage.getItem(STORAGE_KEYS.SELECTED_INPUT);
-      const savedTargetVolume = localStorage.getItem(STORAGE_KEYS.TARGET_VOLUME);
-      const savedInputGain = localStorage.getItem(STORAGE_KEYS.INPUT_GAIN);
-      const savedAudioThreshold = localStorage.getItem(STORAGE_KEYS.AUDIO_THRESHOLD);
-      const savedRampEnabled = localStorage.getItem(STORAGE_KEYS.RAMP_ENABLED);
-      const savedRampDuration = localStorage.getItem(STORAGE_KEYS.RAMP_DURATION);
-      const savedDayNightMode = localStorage.getItem(STORAGE_KEYS.DAY_NIGHT_MODE);
-      const savedDayStartHour = localStorage.getItem(STORAGE_KEYS.DAY_START_HOUR);
-      const savedDayEndHour = localStorage.getItem(STORAGE_KEYS.DAY_END_HOUR);
-      const savedNightRampDuration = localStorage.getItem(STORAGE_KEYS.NIGHT_RAMP_DURATION);
-      const savedSustainDuration = localStorage.getItem(STORAGE_KEYS.SUSTAIN_DURATION);
-      const savedDisableDelay = localStorage.getItem(STORAGE_KEYS.DISABLE_DELAY);
-      const savedLoggingEnabled = localStorage.getItem(STORAGE_KEYS.LOGGING_ENABLED);
-      const savedRecordingEnabled = localStorage.getItem(STORAGE_KEYS.RECORDING_ENABLED);
-      const savedUseGlobalVolume = localStorage.getItem(STORAGE_KEYS.USE_GLOBAL_VOLUME);
-      const wasMonitoring = localStorage.getItem(STORAGE_KEYS.IS_MONITORING) === 'true';
+      const savedDevices = localStorage.getItem(storageKeys.SELECTED_DEVICES);
+      const savedZones = localStorage.getItem(storageKeys.SELECTED_ZONES);
+      const savedInput = localStorage.getItem(storageKeys.SELECTED_INPUT);
+      const savedInputSource = localStorage.getItem(storageKeys.INPUT_SOURCE);
+      const savedTargetVolume = localStorage.getItem(storageKeys.TARGET_VOLUME);
+      const savedInputGain = localStorage.getItem(storageKeys.INPUT_GAIN);
+      const savedDetectorSettings = localStorage.getItem(storageKeys.DETECTOR_SETTINGS);
+      const savedCalibration = localStorage.getItem(storageKeys.CALIBRATION);
+      const savedRampEnabled = localStorage.getItem(storageKeys.RAMP_ENABLED);
+      const savedRampDuration = localStorage.getItem(storageKeys.RAMP_DURATION);
+      const savedDayNightMode = localStorage.getItem(storageKeys.DAY_NIGHT_MODE);
+      const savedDayStartHour = localStorage.getItem(storageKeys.DAY_START_HOUR);
+      const savedDayEndHour = localStorage.getItem(storageKeys.DAY_END_HOUR);
+      const savedNightRampDuration = localStorage.getItem(storageKeys.NIGHT_RAMP_DURATION);
+      const savedSustainDuration = localStorage.getItem(storageKeys.SUSTAIN_DURATION);
+      const savedDisableDelay = localStorage.getItem(storageKeys.DISABLE_DELAY);
+      const savedLoggingEnabled = localStorage.getItem(storageKeys.LOGGING_ENABLED);
+      const savedRecordingEnabled = localStorage.getItem(storageKeys.RECORDING_ENABLED);
+      const savedPreRollSeconds = localStorage.getItem(storageKeys.PRE_ROLL_SECONDS);
+      const savedTraceEnabled = localStorage.getItem(storageKeys.TRACE_ENABLED);
+      const savedRtpStream = localStorage.getItem(storageKeys.RTP_STREAM);
+      const savedUseGlobalVolume = localStorage.getItem(storageKeys.USE_GLOBAL_VOLUME);
+      const savedTriggerMode = localStorage.getItem(storageKeys.TRIGGER_MODE);
+      const savedUnitIdRules = localStorage.getItem(storageKeys.UNIT_ID_RULES);
+      const wasMonitoring = localStorage.getItem(storageKeys.IS_MONITORING) === 'true';
 
       debugLog('[AudioMonitoring] Saved state:', {
         devices: savedDevices,
+        zones: savedZones,
         input: savedInput,
         targetVolume: savedTargetVolume,
         inputGain: savedInputGain,
-        audioThreshold: savedAudioThreshold,
+        detectorSettings: savedDetectorSettings,
         rampEnabled: savedRampEnabled,
         rampDuration: savedRampDuration,
         dayNightMode: savedDayNightMode,
@@ -470,18 +764,29 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
         debugLog('[AudioMonitoring] Restoring selected devices:', deviceIds);
         setSelectedDevicesState(deviceIds);
       }
+      if (savedZones) {
+        setSelectedZonesState(JSON.parse(savedZones));
+      }
       if (savedInput) {
         debugLog('[AudioMonitoring] Restoring input device:', savedInput);
         setSelectedInputDeviceState(savedInput);
       }
+      // Files can't be reopened, so only network sources are saved
+      const restoredSource: AudioInputSource | null = savedInputSource ? JSON.parse(savedInputSource) : null;
+      if (restoredSource) {
+        setInputSourceState(restoredSource);
+      }
       if (savedTargetVolume) {
         setTargetVolumeState(parseInt(savedTargetVolume));
       }
       if (savedInputGain) {
         setVolumeState(parseInt(savedInputGain));
       }
-      if (savedAudioThreshold) {
-        setAudioThresholdState(parseInt(savedAudioThreshold));
+      if (savedDetectorSettings) {
+        setDetectorSettingsState({ ...DEFAULT_DETECTOR_SETTINGS, ...JSON.parse(savedDetectorSettings) });
+      }
+      if (savedCalibration) {
+        setCalibration(JSON.parse(savedCalibration));
       }
       if (savedRampEnabled !== null) {
         setRampEnabledState(savedRampEnabled === 'true');
@@ -513,9 +818,24 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
       if (savedRecordingEnabled !== null) {
         setRecordingEnabledState(savedRecordingEnabled === 'true');
       }
+      if (savedTraceEnabled !== null) {
+        setTraceEnabledState(savedTraceEnabled === 'true');
+      }
+      if (savedRtpStream) {
+        setRtpStreamState({ ...DEFAULT_RTP_STREAM, ...JSON.parse(savedRtpStream) });
+      }
+      if (savedPreRollSeconds) {
+        setPreRollSecondsState(parseInt(savedPreRollSeconds));
+      }
       if (savedUseGlobalVolume !== null) {
         setUseGlobalVolumeState(savedUseGlobalVolume === 'true');
       }
+      if (savedTriggerMode === 'level' || savedTriggerMode === 'tone' || savedTriggerMode === 'both') {
+        setTriggerModeState(savedTriggerMode);
+      }
+      if (savedUnitIdRules) {
+        setUnitIdRulesState(JSON.parse(savedUnitIdRules));
+      }
 
       // Mark as restored
       setTimeout(() => {
@@ -527,117 +847,205 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
       if (wasMonitoring) {
         debugLog('[AudioMonitoring] Auto-resuming monitoring from previous session');
         setTimeout(() => {
-          startCapture(savedInput || undefined);
+          startCapture(restoredSource ?? (savedInput || undefined));
         }, 500);
       }
     } catch (error) {
       console.error('[AudioMonitoring] Failed to restore state:', error);
       hasRestoredStateRef.current = true;
     }
-  }, [startCapture]);
+  }, [startCapture, storageKeys]);
 
   // Persist state changes to localStorage
   useEffect(() => {
     if (!hasRestoredStateRef.current) return;
     debugLog('[AudioMonitoring] Saving selected devices:', selectedDevices);
-    localStorage.setItem(STORAGE_KEYS.SELECTED_DEVICES, JSON.stringify(selectedDevices));
-  }, [selectedDevices]);
+    localStorage.setItem(storageKeys.SELECTED_DEVICES, JSON.stringify(selectedDevices));
+  }, [selectedDevices, storageKeys]);
+
+  useEffect(() => {
+    if (!hasRestoredStateRef.current) return;
+    localStorage.setItem(storageKeys.SELECTED_ZONES, JSON.stringify(selectedZones));
+  }, [selectedZones, storageKeys]);
 
   useEffect(() => {
     if (!hasRestoredStateRef.current) return;
     debugLog('[AudioMonitoring] Saving input device:', selectedInputDevice);
-    localStorage.setItem(STORAGE_KEYS.SELECTED_INPUT, selectedInputDevice);
-  }, [selectedInputDevice]);
+    localStorage.setItem(storageKeys.SELECTED_INPUT, selectedInputDevice);
+  }, [selectedInputDevice, storageKeys]);
+
+  useEffect(() => {
+    if (!hasRestoredStateRef.current) return;
+    debugLog('[AudioMonitoring] Saving input source:', inputSource.kind);
+    if (inputSource.kind === "rtp" || inputSource.kind === "http") {
+      localStorage.setItem(storageKeys.INPUT_SOURCE, JSON.stringify(inputSource));
+    } else {
+      localStorage.removeItem(storageKeys.INPUT_SOURCE);
+    }
+  }, [inputSource, storageKeys]);
 
   useEffect(() => {
     if (!hasRestoredStateRef.current) return;
     debugLog('[AudioMonitoring] Saving target volume:', targetVolume);
-    localStorage.setItem(STORAGE_KEYS.TARGET_VOLUME, targetVolume.toString());
-  }, [targetVolume]);
+    localStorage.setItem(storageKeys.TARGET_VOLUME, targetVolume.toString());
+  }, [targetVolume, storageKeys]);
 
   useEffect(() => {
     if (!hasRestoredStateRef.current) return;
     debugLog('[AudioMonitoring] Saving input gain:', volume);
-    localStorage.setItem(STORAGE_KEYS.INPUT_GAIN, volume.toString());
-  }, [volume]);
+    localStorage.setItem(storageKeys.INPUT_GAIN, volume.toString());
+  }, [volume, storageKeys]);
 
   useEffect(() => {
     if (!hasRestoredStateRef.current) return;
     debugLog('[AudioMonitoring] Saving monitoring state:', isCapturing);
-    localStorage.setItem(STORAGE_KEYS.IS_MONITORING, isCapturing.toString());
-  }, [isCapturing]);
+    localStorage.setItem(storageKeys.IS_MONITORING, isCapturing.toString());
+  }, [isCapturing, storageKeys]);
+
+  useEffect(() => {
+    detectorSettingsRef.current = detectorSettings;
+    levelDetectorRef.current?.setSettings(detectorSettings);
+    if (!hasRestoredStateRef.current) return;
+    debugLog('[AudioMonitoring] Saving detector settings:', detectorSettings);
+    localStorage.setItem(storageKeys.DETECTOR_SETTINGS, JSON.stringify(detectorSettings));
+  }, [detectorSettings, storageKeys]);
 
   useEffect(() => {
     if (!hasRestoredStateRef.current) return;
-    debugLog('[AudioMonitoring] Saving audio threshold:', audioThreshold);
-    localStorage.setItem(STORAGE_KEYS.AUDIO_THRESHOLD, audioThreshold.toString());
-  }, [audioThreshold]);
+    if (calibration) {
+      localStorage.setItem(storageKeys.CALIBRATION, JSON.stringify(calibration));
+    } else {
+      localStorage.removeItem(storageKeys.CALIBRATION);
+    }
+  }, [calibration, storageKeys]);
 
   useEffect(() => {
     if (!hasRestoredStateRef.current) return;
     debugLog('[AudioMonitoring] Saving ramp enabled:', rampEnabled);
-    localStorage.setItem(STORAGE_KEYS.RAMP_ENABLED, rampEnabled.toString());
-  }, [rampEnabled]);
+    localStorage.setItem(storageKeys.RAMP_ENABLED, rampEnabled.toString());
+  }, [rampEnabled, storageKeys]);
 
   useEffect(() => {
     if (!hasRestoredStateRef.current) return;
     debugLog('[AudioMonitoring] Saving ramp duration:', rampDuration);
-    localStorage.setItem(STORAGE_KEYS.RAMP_DURATION, rampDuration.toString());
-  }, [rampDuration]);
+    localStorage.setItem(storageKeys.RAMP_DURATION, rampDuration.toString());
+  }, [rampDuration, storageKeys]);
 
   useEffect(() => {
     if (!hasRestoredStateRef.current) return;
     debugLog('[AudioMonitoring] Saving day/night mode:', dayNightMode);
-    localStorage.setItem(STORAGE_KEYS.DAY_NIGHT_MODE, dayNightMode.toString());
-  }, [dayNightMode]);
+    localStorage.setItem(storageKeys.DAY_NIGHT_MODE, dayNightMode.toString());
+  }, [dayNightMode, storageKeys]);
 
   useEffect(() => {
     if (!hasRestoredStateRef.current) return;
     debugLog('[AudioMonitoring] Saving day start hour:', dayStartHour);
-    localStorage.setItem(STORAGE_KEYS.DAY_START_HOUR, dayStartHour.toString());
-  }, [dayStartHour]);
+    localStorage.setItem(storageKeys.DAY_START_HOUR, dayStartHour.toString());
+  }, [dayStartHour, storageKeys]);
 
   useEffect(() => {
     if (!hasRestoredStateRef.current) return;
     debugLog('[AudioMonitoring] Saving day end hour:', dayEndHour);
-    localStorage.setItem(STORAGE_KEYS.DAY_END_HOUR, dayEndHour.toString());
-  }, [dayEndHour]);
+    localStorage.setItem(storageKeys.DAY_END_HOUR, dayEndHour.toString());
+  }, [dayEndHour, storageKeys]);
 
   useEffect(() => {
     if (!hasRestoredStateRef.current) return;
     debugLog('[AudioMonitoring] Saving night ramp duration:', nightRampDuration);
-    localStorage.setItem(STORAGE_KEYS.NIGHT_RAMP_DURATION, nightRampDuration.toString());
-  }, [nightRampDuration]);
+    localStorage.setItem(storageKeys.NIGHT_RAMP_DURATION, nightRampDuration.toString());
+  }, [nightRampDuration, storageKeys]);
 
   useEffect(() => {
     if (!hasRestoredStateRef.current) return;
     debugLog('[AudioMonitoring] Saving sustain duration:', sustainDuration);
-    localStorage.setItem(STORAGE_KEYS.SUSTAIN_DURATION, sustainDuration.toString());
-  }, [sustainDuration]);
+    localStorage.setItem(storageKeys.SUSTAIN_DURATION, sustainDuration.toString());
+  }, [sustainDuration, storageKeys]);
 
   useEffect(() => {
     if (!hasRestoredStateRef.current) return;
     debugLog('[AudioMonitoring] Saving disable delay:', disableDelay);
-    localStorage.setItem(STORAGE_KEYS.DISABLE_DELAY, disableDelay.toString());
-  }, [disableDelay]);
+    localStorage.setItem(storageKeys.DISABLE_DELAY, disableDelay.toString());
+  }, [disableDelay, storageKeys]);
 
   useEffect(() => {
     if (!hasRestoredStateRef.current) return;
     debugLog('[AudioMonitoring] Saving logging enabled:', loggingEnabled);
-    localStorage.setItem(STORAGE_KEYS.LOGGING_ENABLED, loggingEnabled.toString());
-  }, [loggingEnabled]);
+    localStorage.setItem(storageKeys.LOGGING_ENABLED, loggingEnabled.toString());
+  }, [loggingEnabled, storageKeys]);
 
   useEffect(() => {
     if (!hasRestoredStateRef.current) return;
     debugLog('[AudioMonitoring] Saving recording enabled:', recordingEnabled);
-    localStorage.setItem(STORAGE_KEYS.RECORDING_ENABLED, recordingEnabled.toString());
-  }, [recordingEnabled]);
+    localStorage.setItem(storageKeys.RECORDING_ENABLED, recordingEnabled.toString());
+  }, [recordingEnabled, storageKeys]);
+
+  useEffect(() => {
+    // The audio callback rebuilds the ring buffer at the new length
+    preRollSecondsRef.current = preRollSeconds;
+    if (!hasRestoredStateRef.current) return;
+    debugLog('[AudioMonitoring] Saving pre-roll:', preRollSeconds);
+    localStorage.setItem(storageKeys.PRE_ROLL_SECONDS, preRollSeconds.toString());
+  }, [preRollSeconds, storageKeys]);
+
+  useEffect(() => {
+    traceEnabledRef.current = traceEnabled;
+    if (!traceEnabled) traceRef.current = null;
+    if (!hasRestoredStateRef.current) return;
+    debugLog('[AudioMonitoring] Saving trace enabled:', traceEnabled);
+    localStorage.setItem(storageKeys.TRACE_ENABLED, traceEnabled.toString());
+  }, [traceEnabled, storageKeys]);
+
+  useEffect(() => {
+    if (!hasRestoredStateRef.current) return;
+    debugLog('[AudioMonitoring] Saving RTP stream:', rtpStream);
+    localStorage.setItem(storageKeys.RTP_STREAM, JSON.stringify(rtpStream));
+  }, [rtpStream, storageKeys]);
+
+  // The relay runs while capturing; the audio callback opens the stream
+  useEffect(() => {
+    if (!isCapturing || !rtpStream.enabled) return;
+    const target = rtpStream.target;
+    rtpTargetRef.current = target;
+    rtpRetryAtRef.current = 0;
+    console.log(`[AudioMonitoring] Relaying ${channel.name} to ${target.address}:${target.port} (${target.codec})`);
+    return () => {
+      rtpTargetRef.current = null;
+      rtpStreamRef.current?.close();
+      rtpStreamRef.current = null;
+    };
+  }, [isCapturing, rtpStream, channel.name]);
+
+  // A replay applies settings changes where they happened in the trace
+  useEffect(() => {
+    traceSettingsRef.current = { ...detectorSettings, sustainDuration, disableDelay };
+    traceRef.current?.setSettings(traceSettingsRef.current);
+  }, [detectorSettings, sustainDuration, disableDelay]);
 
   useEffect(() => {
     if (!hasRestoredStateRef.current) return;
     debugLog('[AudioMonitoring] Saving global volume mode:', useGlobalVolume);
-    localStorage.setItem(STORAGE_KEYS.USE_GLOBAL_VOLUME, useGlobalVolume.toString());
-  }, [useGlobalVolume]);
+    localStorage.setItem(storageKeys.USE_GLOBAL_VOLUME, useGlobalVolume.toString());
+  }, [useGlobalVolume, storageKeys]);
+
+  useEffect(() => {
+    triggerModeRef.current = triggerMode;
+    // Start decoding afresh when tones are switched back on
+    toneDecoderRef.current = null;
+    if (!hasRestoredStateRef.current) return;
+    debugLog('[AudioMonitoring] Saving trigger mode:', triggerMode);
+    localStorage.setItem(storageKeys.TRIGGER_MODE, triggerMode);
+  }, [triggerMode, storageKeys]);
+
+  useEffect(() => {
+    if (!hasRestoredStateRef.current) return;
+    debugLog('[AudioMonitoring] Saving unit ID rules:', unitIdRules.length);
+    localStorage.setItem(storageKeys.UNIT_ID_RULES, JSON.stringify(unitIdRules));
+  }, [unitIdRules, storageKeys]);
+
+  useEffect(() => {
+    toneSetsRef.current = toneSets;
+    toneDecoderRef.current?.setToneSets(toneSets.filter(s => s.enabled));
+  }, [toneSets]);
 
   // Watch for target volume changes - restart ramp if speakers are enabled
   useEffect(() => {
@@ -663,22 +1071,74 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [targetVolume, speakersEnabled]);
 
-  // Set volume on all linked speakers (8180s)
-  // volumePercent is the "ramp percentage" (0-100)
-  // If useGlobalVolume=true: all speakers use volumePercent directly
-  // If useGlobalVolume=false: volumePercent is scaled by each speaker's maxVolume
-  const setDevicesVolume = useCallback(async (volumePercent: number) => {
-    const linkedSpeakerIds = new Set<string>();
-
-    for (const deviceId of selectedDevices) {
+  // Speakers linked to the given paging devices plus the speakers the
+  // given zones resolve to, using current membership
+  const resolveSpeakerIds = useCallback((deviceIds: string[], zoneIds: string[], speakerIds = new Set<string>()) => {
+    for (const deviceId of deviceIds) {
       const device = devices.find(d => d.id === deviceId);
       if (!device) continue;
-
       if (device.type === "8301" && device.linkedSpeakerIds) {
-        device.linkedSpeakerIds.forEach(id => linkedSpeakerIds.add(id));
+        device.linkedSpeakerIds.forEach(id => speakerIds.add(id));
       }
     }
 
+    const activeZones = zones.filter(z => zoneIds.includes(z.id));
+    for (const target of resolveZoneTargets(activeZones, devices)) {
+      target.speakers.forEach(speaker => speakerIds.add(speaker.id));
+    }
+
+    return speakerIds;
+  }, [devices, zones]);
+
+  // Speakers to drive now: the selected devices and zones (unless only tones
+  // trigger, or a unit ID rule routed the transmission to its own zones) plus
+  // the speaker group of the tone set being alerted
+  const getTargetSpeakerIds = useCallback(() => {
+    const routeRule = routeRuleRef.current;
+    const speakerIds = triggerMode === "tone"
+      ? new Set<string>()
+      : routeRule
+        ? resolveSpeakerIds([], routeRule.zoneIds)
+        : resolveSpeakerIds(selectedDevices, selectedZones);
+
+    const toneSet = activeToneSetRef.current;
+    if (toneSet) {
+      resolveSpeakerIds(toneSet.deviceIds, toneSet.zoneIds, speakerIds);
+    }
+
+    return speakerIds;
+  }, [triggerMode, selectedDevices, selectedZones, resolveSpeakerIds]);
+
+  // Every speaker monitoring may open, kept listening (muted) while it runs
+  const getMonitoredSpeakerIds = useCallback(() => {
+    const speakerIds = triggerMode === "tone"
+      ? new Set<string>()
+      : resolveSpeakerIds(selectedDevices, selectedZones);
+
+    if (triggerMode !== "tone") {
+      for (const rule of unitIdRules.filter(r => r.action === "route")) {
+        resolveSpeakerIds([], rule.zoneIds, speakerIds);
+      }
+    }
+
+    if (triggerMode !== "level") {
+      for (const toneSet of toneSets.filter(s => s.enabled)) {
+        resolveSpeakerIds(toneSet.deviceIds, toneSet.zoneIds, speakerIds);
+      }
+    }
+
+    return speakerIds;
+  }, [triggerMode, selectedDevices, selectedZones, toneSets, unitIdRules, resolveSpeakerIds]);
+
+  // Set volume on all linked speakers (8180s)
+  // volumePercent is the "ramp percentage" (0-100)
+  // If useGlobalVolume=true: all speakers use volumePercent directly
+  // If useGlobalVolume=false: volumePercent is scaled by each speaker's maxVolume
+  // (capped by the tone set's volume during a tone alert)
+  const setDevicesVolume = useCallback(async (volumePercent: number, speakerIds?: Set<string>) => {
+    // Speakers another channel is driving are left alone
+    const linkedSpeakerIds = arbiter.allowed(channel.id, speakerIds ?? getTargetSpeakerIds(), volumePercent === 0);
+
     debugLog(`[AudioMonitoring] setDevicesVolume(${volumePercent}%) - processing ${linkedSpeakerIds.size} speakers`);
 
     const volumePromises = Array.from(linkedSpeakerIds).map(async (speakerId) => {
@@ -688,9 +1148,9 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
         return;
       }
 
-      // Skip speakers without proper credentials
-      if (!speaker.ipAddress || !speaker.apiPassword) {
-        console.warn(`[AudioMonitoring] Skipping ${speaker.name || speakerId}: missing IP or password`);
+      // Skip speakers without an address (credentials are resolved server-side)
+      if (!speaker.ipAddress) {
+        console.warn(`[AudioMonitoring] Skipping ${speaker.name || speakerId}: missing IP`);
         return;
       }
 
@@ -705,7 +1165,7 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
         // Individual mode: each speaker ramps to its own maxVolume
         // volumePercent represents the ramp progress (0-100%)
         // At 0%: speaker is at 0%, at 100%: speaker is at its maxVolume
-        const speakerMaxVolume = speaker.maxVolume ?? 100;
+        const speakerMaxVolume = Math.min(speaker.maxVolume ?? 100, activeToneSetRef.current?.volume ?? 100);
         actualVolume = (volumePercent / 100) * speakerMaxVolume;
         debugLog(`[AudioMonitoring] INDIVIDUAL MODE - Setting ${speaker.name} to ${volumePercent.toFixed(0)}% of its max ${speakerMaxVolume}% = ${actualVolume.toFixed(0)}% (Level ${Math.round(actualVolume/10)})`);
       }
@@ -720,13 +1180,11 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
       debugLog(`[AudioMonitoring] ${speaker.name} final: ${actualVolume.toFixed(0)}% → ${volumeDbString}`);
 
       try {
-        const response = await fetch("/api/algo/settings", {
+        const response = await apiFetch("/api/algo/settings", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            ipAddress: speaker.ipAddress,
-            password: speaker.apiPassword,
-            authMethod: speaker.authMethod || "standard",
+            deviceId: speaker.id,
             settings: {
               "audio.page.vol": volumeDbString,
             },
@@ -749,7 +1207,21 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     // Use allSettled to continue even if some speakers fail
     await Promise.allSettled(volumePromises);
     debugLog(`[AudioMonitoring] setDevicesVolume(${volumePercent}%) - completed`);
-  }, [selectedDevices, devices, useGlobalVolume]);
+  }, [arbiter, channel.id, devices, getTargetSpeakerIds, useGlobalVolume]);
+
+  // Take this channel's target speakers. Ones a higher-priority channel is
+  // using stay with it and come over when it mutes.
+  const claimSpeakers = useCallback((speakerIds: Set<string>) => {
+    const held = arbiter.open(channel.id, speakerIds);
+    if (held.size === 0) return;
+
+    const first = Array.from(held)[0];
+    const owner = arbiter.ownerOf(first);
+    addLog({
+      type: "volume_change",
+      message: `${held.size} of ${speakerIds.size} speakers in use by ${owner ? arbiter.channelName(owner) : arbiter.heldElsewhere(first) ?? 'a higher-priority channel'} - they join when it ends`,
+    });
+  }, [arbiter, channel.id, addLog]);
 
   // Helper function to determine if it's currently daytime
   const isDaytime = useCallback(() => {
@@ -792,8 +1264,8 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     currentVolumeRef.current = startFrom;
 
     // Individual mode: Ramp to 100% (each speaker will scale to its maxVolume)
-    // Global mode: Ramp to targetVolume (all speakers use same volume)
-    const rampTarget = useGlobalVolume ? targetVolume : 100;
+    // Global mode: Ramp to targetVolume, or the tone set's volume during a tone alert
+    const rampTarget = useGlobalVolume ? (activeToneSetRef.current?.volume ?? targetVolume) : 100;
 
     // If ramp duration is 0 (instant), set target volume immediately
     if (effectiveRampDuration === 0) {
@@ -895,55 +1367,44 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     };
   }, [dayNightMode, isDaytime, speakersEnabled, startVolumeRamp]);
 
-  // Enable/disable speakers
-  const controlSpeakers = useCallback(async (enable: boolean) => {
-    const allSpeakerPromises: Promise<void>[] = [];
+  // Enable/disable multicast on speakers (all monitored speakers by default)
+  const controlSpeakers = useCallback(async (enable: boolean, speakerIds?: Set<string>) => {
+    const targetIds = speakerIds ?? getMonitoredSpeakerIds();
+    const linkedSpeakers = devices.filter(d => targetIds.has(d.id));
 
-    for (const deviceId of selectedDevices) {
-      const device = devices.find(d => d.id === deviceId);
-      if (!device) continue;
+    debugLog(`[AudioMonitoring] ${enable ? 'Enabling' : 'Disabling'} ${linkedSpeakers.length} speakers`);
+    if (linkedSpeakers.length === 0) return;
 
-      if (device.type === "8301" && device.linkedSpeakerIds && device.linkedSpeakerIds.length > 0) {
-        const linkedSpeakers = devices.filter(d => device.linkedSpeakerIds?.includes(d.id));
-
-        debugLog(`[AudioMonitoring] ${enable ? 'Enabling' : 'Disabling'} ${linkedSpeakers.length} speakers for ${device.name}`);
-
-        // Control each speaker individually for better error resilience
-        linkedSpeakers.forEach(speaker => {
-          const promise = (async () => {
-            try {
-              const response = await fetch("/api/algo/speakers/mcast", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                  speakers: [{
-                    ipAddress: speaker.ipAddress,
-                    password: speaker.apiPassword,
-                    authMethod: speaker.authMethod,
-                  }],
-                  enable,
-                }),
-              });
-
-              if (!response.ok) {
-                console.error(`Failed to ${enable ? 'enable' : 'disable'} speaker ${speaker.name}: HTTP ${response.status}`);
-              } else {
-                debugLog(`[AudioMonitoring] Successfully ${enable ? 'enabled' : 'disabled'} ${speaker.name}`);
-              }
-            } catch (error) {
-              console.error(`Failed to control speaker ${speaker.name}:`, error);
-              // Continue with other speakers - don't throw
-            }
-          })();
-          allSpeakerPromises.push(promise);
-        });
+    // One request, so the server can point paging devices at the groups of
+    // speakers in grouped zones; it reports each speaker separately
+    try {
+      const response = await apiFetch("/api/algo/speakers/mcast", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          speakerIds: linkedSpeakers.map(s => s.id),
+          enable,
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        console.error(`Failed to ${enable ? 'enable' : 'disable'} speakers: ${data.error || `HTTP ${response.status}`}`);
+        return;
       }
+      for (const result of (data.results ?? []) as { deviceId: string; success: boolean; error?: string }[]) {
+        const name = linkedSpeakers.find(s => s.id === result.deviceId)?.name ?? result.deviceId;
+        if (result.success) {
+          debugLog(`[AudioMonitoring] Successfully ${enable ? 'enabled' : 'disabled'} ${name}`);
+        } else {
+          console.error(`Failed to ${enable ? 'enable' : 'disable'} speaker ${name}: ${result.error}`);
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to control speakers:`, error);
+      // Don't throw - callers carry on with the rest of the shutdown/startup
     }
-
-    // Wait for all speakers to complete (parallel execution)
-    // Individual failures won't crash the system
-    await Promise.allSettled(allSpeakerPromises);
-  }, [selectedDevices, devices]);
+  }, [devices, getMonitoredSpeakerIds]);
 
   // Emergency Controls
   const emergencyKillAll = useCallback(async () => {
@@ -952,16 +1413,10 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
       type: "speakers_disabled",
       message: "EMERGENCY KILL: Disabling all speakers immediately",
     });
+    reportEvent({ type: "emergency", channel: channel.name, action: "kill" });
 
-    // Get all linked speakers
-    const linkedSpeakerIds = new Set<string>();
-    for (const deviceId of selectedDevices) {
-      const device = devices.find(d => d.id === deviceId);
-      if (!device) continue;
-      if (device.type === "8301" && device.linkedSpeakerIds) {
-        device.linkedSpeakerIds.forEach(id => linkedSpeakerIds.add(id));
-      }
-    }
+    // Get all linked speakers, including every tone set's group
+    const linkedSpeakerIds = getMonitoredSpeakerIds();
 
     // Set all speakers to volume 0 and disable multicast
     const speakers = Array.from(linkedSpeakerIds).map(id => devices.find(d => d.id === id)).filter(Boolean);
@@ -970,13 +1425,11 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     await Promise.all(speakers.map(async (speaker) => {
       if (!speaker) return;
       try {
-        await fetch("/api/algo/settings", {
+        await apiFetch("/api/algo/settings", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            ipAddress: speaker.ipAddress,
-            password: speaker.apiPassword,
-            authMethod: speaker.authMethod,
+            deviceId: speaker.id,
             settings: { "audio.page.vol": "-30dB" },
           }),
         });
@@ -989,14 +1442,20 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     await controlSpeakers(false);
 
     // Reset state
+    arbiter.close(channel.id);
     setSpeakersEnabled(false);
     setAudioDetected(false);
+    detectionRef.current.close();
+    activeToneSetRef.current = null;
+    setActiveToneSet(null);
+    activationUnitIdRef.current = null;
+    routeRuleRef.current = null;
     currentVolumeRef.current = 0;
     if (volumeRampIntervalRef.current) {
       clearInterval(volumeRampIntervalRef.current);
       volumeRampIntervalRef.current = null;
     }
-  }, [selectedDevices, devices, controlSpeakers, addLog]);
+  }, [arbiter, channel.id, channel.name, devices, getMonitoredSpeakerIds, controlSpeakers, addLog]);
 
   const emergencyEnableAll = useCallback(async () => {
     debugLog('[AudioMonitoring] EMERGENCY: Enabling all speakers');
@@ -1004,6 +1463,10 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
       type: "speakers_enabled",
       message: "EMERGENCY ENABLE: Enabling all speakers at target volume",
     });
+    reportEvent({ type: "emergency", channel: channel.name, action: "enable" });
+
+    // Take the speakers at emergency priority, over any other page
+    arbiter.openEmergency(channel.id, getMonitoredSpeakerIds());
 
     // Enable multicast on all speakers
     await controlSpeakers(true);
@@ -1012,7 +1475,7 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     // Set to target volume
     await setDevicesVolume(targetVolume);
     currentVolumeRef.current = targetVolume;
-  }, [controlSpeakers, setDevicesVolume, targetVolume, addLog]);
+  }, [arbiter, channel.id, channel.name, getMonitoredSpeakerIds, controlSpeakers, setDevicesVolume, targetVolume, addLog]);
 
   const controlSingleSpeaker = useCallback(async (speakerId: string, enable: boolean) => {
     const speaker = devices.find(d => d.id === speakerId);
@@ -1029,28 +1492,22 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
 
     try {
       // Control multicast
-      await fetch("/api/algo/speakers/mcast", {
+      await apiFetch("/api/algo/speakers/mcast", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          speakers: [{
-            ipAddress: speaker.ipAddress,
-            password: speaker.apiPassword,
-            authMethod: speaker.authMethod,
-          }],
+          speakerIds: [speaker.id],
           enable,
         }),
       });
 
       // If disabling, also mute
       if (!enable) {
-        await fetch("/api/algo/settings", {
+        await apiFetch("/api/algo/settings", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            ipAddress: speaker.ipAddress,
-            password: speaker.apiPassword,
-            authMethod: speaker.authMethod,
+            deviceId: speaker.id,
             settings: { "audio.page.vol": "-30dB" },
           }),
         });
@@ -1062,16 +1519,8 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
 
   // Check connectivity of all linked speakers
   const checkSpeakerConnectivity = useCallback(async () => {
-    const linkedSpeakerIds = new Set<string>();
-
-    // Get all linked speakers from selected paging devices
-    for (const deviceId of selectedDevices) {
-      const device = devices.find(d => d.id === deviceId);
-      if (!device) continue;
-      if (device.type === "8301" && device.linkedSpeakerIds) {
-        device.linkedSpeakerIds.forEach(id => linkedSpeakerIds.add(id));
-      }
-    }
+    // Get all linked speakers from selected paging devices, zones and tone sets
+    const linkedSpeakerIds = getMonitoredSpeakerIds();
 
     if (linkedSpeakerIds.size === 0) {
       setSpeakerStatuses([]);
@@ -1081,7 +1530,7 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     // Build device list for health check API
     const speakersToCheck = Array.from(linkedSpeakerIds)
       .map(id => devices.find(d => d.id === id))
-      .filter((s): s is AlgoDevice => !!s && !!s.ipAddress && !!s.apiPassword);
+      .filter((s): s is AlgoDevice => !!s && !!s.ipAddress);
 
     if (speakersToCheck.length === 0) {
       setSpeakerStatuses([]);
@@ -1091,16 +1540,11 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     debugLog(`[AudioMonitoring] Checking connectivity for ${speakersToCheck.length} speakers...`);
 
     try {
-      const response = await fetch("/api/algo/health", {
+      const response = await apiFetch("/api/algo/health", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          devices: speakersToCheck.map(s => ({
-            id: s.id,
-            ipAddress: s.ipAddress,
-            apiPassword: s.apiPassword,
-            authMethod: s.authMethod || "standard",
-          })),
+          deviceIds: speakersToCheck.map(s => s.id),
           timeout: 3000,
         }),
       });
@@ -1148,149 +1592,424 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
       }));
       setSpeakerStatuses(statuses);
     }
-  }, [selectedDevices, devices, addLog]);
+  }, [devices, getMonitoredSpeakerIds, addLog]);
+
+  // Keep the speaker statuses current between checks, and log emergency
+  // actions taken on other consoles
+  useServerEvents((event) => {
+    if (event.type === "device_status") {
+      setSpeakerStatuses(prev => prev.map(s => s.speakerId === event.deviceId
+        ? { ...s, isOnline: event.isOnline, lastChecked: new Date(event.at), errorMessage: undefined }
+        : s));
+    } else if (event.type === "emergency" && event.console !== CONSOLE_ID) {
+      addLog({
+        type: event.action === "kill" ? "speakers_disabled" : "speakers_enabled",
+        message: `EMERGENCY ${event.action.toUpperCase()} on another console (${event.channel}${event.user ? `, ${event.user}` : ''})`,
+      });
+    }
+  });
 
-  // Audio activity detection with sustained audio requirement
-  useEffect(() => {
-    if (!isCapturing) {
-      // Clean up sustained audio tracking when not capturing
-      if (sustainedAudioStartRef.current) {
-        sustainedAudioStartRef.current = null;
+  // A configured station was toned: open its speaker group at the set's
+  // volume straight away (the station has been alerted, so no ramp), then
+  // play its pre-tone. The level logic below mutes it again after silence.
+  const handleToneMatch = useCallback((match: ToneMatch) => {
+    const toneSet = toneSets.find(s => s.id === match.toneSetId);
+    if (!toneSet) return;
+
+    addLog({
+      type: "tone_detected",
+      toneSetId: toneSet.id,
+      message: `Station toned: ${toneSet.name} (${match.toneA} Hz / ${match.toneB} Hz)`,
+    });
+    setToneEvents(prev => [
+      {
+        timestamp: match.detectedAt.toISOString(),
+        toneSetId: toneSet.id,
+        toneSetName: toneSet.name,
+        toneA: match.toneA,
+        toneB: match.toneB,
+      },
+      ...prev,
+    ].slice(0, MAX_TONE_EVENTS));
+
+    if (activeToneSetRef.current) {
+      debugLog(`[AudioMonitoring] Alert for ${activeToneSetRef.current.name} still open - not switching to ${toneSet.name}`);
+      return;
+    }
+
+    activeToneSetRef.current = toneSet;
+    setActiveToneSet(toneSet);
+    toneAlertHoldUntilRef.current = Date.now() + TONE_ALERT_HOLD_MS;
+
+    // A mute countdown that was already running restarts with the hold
+    detectionRef.current.forceOpen(Date.now());
+    setAudioDetected(true);
+    speakersEnabledTimeRef.current ??= Date.now();
+    controllingSpakersRef.current = true;
+
+    if (!recordingRef.current) {
+      startRecording();
+    }
+    reportEvent({ type: "monitoring", channel: channel.name, activity: "activated", detail: toneSet.name });
+
+    (async () => {
+      const speakerIds = getTargetSpeakerIds();
+      claimSpeakers(speakerIds);
+      const volume = useGlobalVolume ? toneSet.volume : 100;
+
+      if (volumeRampIntervalRef.current) {
+        clearInterval(volumeRampIntervalRef.current);
+        volumeRampIntervalRef.current = null;
       }
+      currentVolumeRef.current = volume;
+      await setDevicesVolume(volume, speakerIds);
+
+      addLog({
+        type: "volume_change",
+        speakersEnabled: true,
+        volume: toneSet.volume,
+        message: `Tone alert: ${speakerIds.size} speakers open for ${toneSet.name} at ${toneSet.volume}%`,
+      });
+
+      if (toneSet.preTone) {
+        try {
+          // Played under the monitor's own lease, which already holds these speakers
+          const leaseId = await pageLease.currentId();
+          const job = await waitForJob(
+            await submitPlayback("/api/algo/distribute", {
+              deviceIds: toneSet.deviceIds,
+              zoneIds: toneSet.zoneIds,
+              audioFileName: `${toneSet.name} pre-tone`,
+              filename: toneSet.preTone,
+              loop: false,
+              volume: toneSet.volume,
+              action: "alert",
+              leaseId: leaseId ?? undefined,
+            })
+          );
+          if (job.status !== "completed") {
+            console.error(`[AudioMonitoring] Pre-tone for ${toneSet.name} failed: ${job.message}`);
+          }
+        } catch (error) {
+          console.error(`[AudioMonitoring] Pre-tone for ${toneSet.name} failed:`, error);
+        }
+
+        // Playback switches the speakers' multicast off when it ends -
+        // switch it back on so they hear the dispatcher
+        await controlSpeakers(true, speakerIds);
+      }
+
+      controllingSpakersRef.current = false;
+    })();
+  }, [channel.name, toneSets, addLog, getTargetSpeakerIds, claimSpeakers, useGlobalVolume, setDevicesVolume, startRecording, controlSpeakers, pageLease]);
+
+  useEffect(() => {
+    toneMatchHandlerRef.current = handleToneMatch;
+  }, [handleToneMatch]);
+
+  // A unit ID was decoded. IDs sent before the audio opens the speakers are
+  // picked up by the level logic below; one that arrives just after the
+  // speakers opened for a transmission applies its rule to it now.
+  const handleUnitId = useCallback((unitId: UnitId) => {
+    lastUnitIdRef.current = unitId;
+    setRecentUnitIds(prev => [unitId, ...prev].slice(0, MAX_RECENT_UNIT_IDS));
+
+    const rule = matchUnitIdRule(unitIdRules, unitId);
+    addLog({
+      type: "unit_id",
+      unitId,
+      message: `Unit ID ${formatUnitId(unitId)}${unitId.detail ? ` (${unitId.detail})` : ''}${rule ? ` - matches ${rule.action} rule` : ''}`,
+    });
+
+    const openedAt = speakersEnabledTimeRef.current;
+    if (!audioDetected || !openedAt || Date.now() - openedAt > UNIT_ID_LATE_MS) return;
+    if (activeToneSetRef.current || activationUnitIdRef.current) return;
+
+    activationUnitIdRef.current = unitId;
+    if (!rule) return;
+
+    if (rule.action === "ignore") {
+      suppressedUnitIdRef.current = unitId;
+      detectionRef.current.close();
+      setAudioDetected(false);
+      speakersEnabledTimeRef.current = null;
+      arbiter.close(channel.id);
+      stopVolumeRamp();
+      discardRecording();
+      routeRuleRef.current = null;
+
+      addLog({
+        type: "volume_change",
+        speakersEnabled: true,
+        volume: 0,
+        unitId,
+        message: `Ignoring ${formatUnitId(unitId)} - volume muted for the rest of the transmission`,
+      });
       return;
     }
 
-    // Use configurable disable delay (default 3 seconds)
+    // Move the open transmission to the rule's zones
+    const previous = getTargetSpeakerIds();
+    routeRuleRef.current = rule;
+    const routed = getTargetSpeakerIds();
+    claimSpeakers(routed);
+    const dropped = new Set(Array.from(previous).filter(id => !routed.has(id)));
 
-    if (audioLevel > audioThreshold) {
-      // Audio is above threshold
+    addLog({
+      type: "volume_change",
+      speakersEnabled: true,
+      unitId,
+      message: `Routing ${formatUnitId(unitId)} to ${routed.size} speakers`,
+    });
 
-      // Start tracking sustained audio if not already tracking
-      // Note: speakersEnabled is always true during monitoring, use audioDetected instead
-      if (!sustainedAudioStartRef.current && !audioDetected) {
-        sustainedAudioStartRef.current = Date.now();
-        debugLog(`[AudioMonitoring] Audio above threshold (${audioLevel.toFixed(1)}%), starting ${sustainDuration}ms sustain timer`);
+    (async () => {
+      if (dropped.size > 0) {
+        await setDevicesVolume(0, dropped);
       }
+      startVolumeRamp(currentVolumeRef.current);
+    })();
+  }, [arbiter, channel.id, unitIdRules, audioDetected, addLog, stopVolumeRamp, discardRecording, getTargetSpeakerIds, claimSpeakers, setDevicesVolume, startVolumeRamp]);
+
+  useEffect(() => {
+    unitIdHandlerRef.current = handleUnitId;
+  }, [handleUnitId]);
+
+  // Audio activity detection with sustained audio requirement
+  useEffect(() => {
+    if (!isCapturing) return;
+
+    // Each block is stepped once, however often this effect runs
+    const frame = detectorFrame;
+    if (!frame || frame === steppedFrameRef.current) return;
+    steppedFrameRef.current = frame;
+
+    const detection = detectionRef.current;
+
+    // The radio that keyed up, if its ID was heard as the audio started
+    const sustainStart = detection.sustainStart;
+    const lastUnitId = lastUnitIdRef.current;
+    const unitId = sustainStart !== null && lastUnitId && new Date(lastUnitId.detectedAt).getTime() >= sustainStart - UNIT_ID_LEAD_MS
+      ? lastUnitId
+      : null;
+    const rule = unitId ? matchUnitIdRule(unitIdRules, unitId) : null;
+
+    // An ignored unit is still transmitting
+    if (frame.active && suppressTimeoutRef.current) {
+      clearTimeout(suppressTimeoutRef.current);
+      suppressTimeoutRef.current = null;
+    }
+
+    const events = detection.step(frame, Date.now(), { ...detectorSettings, sustainDuration, disableDelay }, {
+      // In tone mode level only keeps an open tone alert going. While an
+      // ignored unit transmits or calibration runs nothing new may open.
+      canStart: triggerMode !== "tone" && !suppressedUnitIdRef.current && !calibrating,
+      deferOpen: controllingSpakersRef.current,
+      ignore: rule?.action === "ignore",
+      // Tone alerts stay open for their hold time
+      holdUntil: toneAlertHoldUntilRef.current,
+    });
+
+    for (const event of events) {
+      traceRef.current?.addEvent(event.type, "levelDbfs" in event ? event.levelDbfs : undefined);
+
+      switch (event.type) {
+        case "sustain_started":
+          debugLog(`[AudioMonitoring] Audio above attack (${frame.levelDbfs.toFixed(1)} dBFS), starting ${sustainDuration}ms sustain timer`);
+          break;
+
+        case "sustain_reset":
+          debugLog(`[AudioMonitoring] Audio dropped below threshold before sustain duration`);
+          break;
 
-      // Check if audio has been sustained long enough
-      // Note: speakersEnabled is always true during monitoring (always-on mode)
-      // We use audioDetected to track if we're actively playing audio
-      if (sustainedAudioStartRef.current && !audioDetected && !controllingSpakersRef.current) {
-        const sustainedFor = Date.now() - sustainedAudioStartRef.current;
+        case "ignored":
+          suppressedUnitIdRef.current = unitId;
+          addLog({
+            type: "audio_detected",
+            levelDbfs: frame.levelDbfs,
+            unitId: unitId ?? undefined,
+            message: `Audio from ${unitId ? formatUnitId(unitId) : 'an ignored unit'} ignored - speakers stay muted`,
+          });
+          break;
+
+        case "blocked":
+          // Too many activations in the last minute - likely noise, not traffic
+          setLockoutUntil(event.lockedUntil);
+          addLog({
+            type: "audio_detected",
+            levelDbfs: frame.levelDbfs,
+            reason: `More than ${detectorSettings.maxTriggersPerMinute} activations in a minute`,
+            message: `Activation blocked - locked out for ${detectorSettings.lockoutSeconds}s`,
+          });
+          break;
 
-        if (sustainedFor >= sustainDuration) {
+        case "opened":
           // Audio has been sustained - ramp volume up!
           // CRITICAL: Speakers are already listening (multicast enabled at start)
           // We only need to ramp up volume - this is INSTANT compared to enabling multicast
-          sustainedAudioStartRef.current = null;
+          activationUnitIdRef.current = unitId;
+          routeRuleRef.current = rule?.action === "route" ? rule : null;
           setAudioDetected(true);
           controllingSpakersRef.current = true;
           speakersEnabledTimeRef.current = Date.now(); // Track when audio started playing
 
           addLog({
             type: "audio_detected",
-            audioLevel,
-            audioThreshold,
-            message: `Audio sustained ${sustainDuration}ms at ${audioLevel.toFixed(1)}% - ramping volume (speakers already listening)`,
+            levelDbfs: frame.levelDbfs,
+            unitId: unitId ?? undefined,
+            reason: `Voice-band level ${frame.levelDbfs.toFixed(1)} dBFS at or above attack ${frame.attackDbfs.toFixed(1)} dBFS`
+              + ` for ${sustainDuration}ms (noise floor ${frame.noiseFloorDbfs.toFixed(1)} dBFS${detectorSettings.adaptive ? ', adaptive' : ''})`,
+            message: `Audio sustained ${sustainDuration}ms at ${frame.levelDbfs.toFixed(1)} dBFS${unitId ? ` from ${formatUnitId(unitId)}` : ''} - ramping volume (speakers already listening)`,
           });
 
           addLog({
             type: "volume_change",
-            audioLevel,
+            levelDbfs: frame.levelDbfs,
             speakersEnabled: true,
             volume: targetVolume,
-            message: `Volume ramping to ${targetVolume}% (instant - no multicast enable delay)`,
+            message: routeRuleRef.current
+              ? `Volume ramping to ${targetVolume}% on ${getTargetSpeakerIds().size} speakers routed by unit ID rule`
+              : `Volume ramping to ${targetVolume}% (instant - no multicast enable delay)`,
           });
 
-          (async () => {
-            // Start recording the audio
-            await startRecording();
+          // Start recording the audio (from the pre-roll, so the clip
+          // includes the audio that triggered detection)
+          startRecording();
+          reportEvent({
+            type: "monitoring",
+            channel: channel.name,
+            activity: "activated",
+            ...(unitId ? { detail: formatUnitId(unitId) } : {}),
+          });
+
+          // NO controlSpeakers(true) needed - speakers already listening!
+          // Just ramp the volume - this is much faster
+          claimSpeakers(getTargetSpeakerIds());
+          startVolumeRamp();
+          controllingSpakersRef.current = false;
+          break;
+
+        case "released":
+          // Start mute countdown - we DON'T disable multicast, speakers stay
+          // listening (always-on mode) so they're ready for the next burst
+          addLog({
+            type: "audio_silent",
+            levelDbfs: frame.levelDbfs,
+            reason: `Voice-band level ${frame.levelDbfs.toFixed(1)} dBFS below release ${frame.releaseDbfs.toFixed(1)} dBFS`,
+            message: `Audio below release: ${frame.levelDbfs.toFixed(1)} dBFS - starting ${event.muteDelay/1000}s mute countdown`,
+          });
+          break;
+
+        case "muted": {
+          // Speakers are still being set up - count down again
+          if (controllingSpakersRef.current) {
+            detection.forceOpen(event.at);
+            break;
+          }
+          controllingSpakersRef.current = true;
+          // DON'T disable speakers - keep them listening!
+          setAudioDetected(false); // Just mark audio as not active
+          reportEvent({ type: "monitoring", channel: channel.name, activity: "released" });
+
+          // Calculate how long audio was playing
+          const duration = speakersEnabledTimeRef.current
+            ? ((Date.now() - speakersEnabledTimeRef.current) / 1000).toFixed(1)
+            : '?';
+          speakersEnabledTimeRef.current = null;
 
-            // NO controlSpeakers(true) needed - speakers already listening!
-            // Just ramp the volume - this is much faster
-            startVolumeRamp();
+          (async () => {
+            // Stop recording and upload
+            const recordingUrl = await stopRecordingAndUpload();
+
+            // Log with recording URL if available
+            addLog({
+              type: "volume_change",
+              speakersEnabled: true, // Speakers STAY enabled
+              volume: 0,
+              message: `Volume muted after ${disableDelay/1000}s of silence (audio duration: ${duration}s) - speakers still listening${recordingUrl ? ' 🎙️ Recording saved' : ''}`,
+              recordingUrl: recordingUrl || undefined,
+            });
+
+            arbiter.close(channel.id);
+            stopVolumeRamp();
+            await setDevicesVolume(0);
+            // NO controlSpeakers(false) - keep listening for next audio!
+            activeToneSetRef.current = null;
+            setActiveToneSet(null);
+            activationUnitIdRef.current = null;
+            routeRuleRef.current = null;
             controllingSpakersRef.current = false;
           })();
+          break;
         }
       }
+    }
 
-      // Clear disable timeout if audio is detected again
-      if (audioDetectionTimeoutRef.current) {
-        clearTimeout(audioDetectionTimeoutRef.current);
-        audioDetectionTimeoutRef.current = null;
-      }
-
-    } else {
-      // Audio is below threshold
+    // An ignored unit's transmission ends after the usual silence
+    if (!frame.active && suppressedUnitIdRef.current && !suppressTimeoutRef.current) {
+      suppressTimeoutRef.current = setTimeout(() => {
+        debugLog(`[AudioMonitoring] Ignored transmission from ${formatUnitId(suppressedUnitIdRef.current!)} ended`);
+        suppressedUnitIdRef.current = null;
+        suppressTimeoutRef.current = null;
+      }, disableDelay);
+    }
+  }, [arbiter, channel.id, channel.name, detectorFrame, isCapturing, detectorSettings, calibrating, sustainDuration, disableDelay, triggerMode, unitIdRules, getTargetSpeakerIds, claimSpeakers, setDevicesVolume, startVolumeRamp, stopVolumeRamp, targetVolume, addLog, startRecording, stopRecordingAndUpload]);
 
-      // Reset sustained audio timer if it was tracking
-      if (sustainedAudioStartRef.current) {
-        debugLog(`[AudioMonitoring] Audio dropped below threshold before sustain duration`);
-        sustainedAudioStartRef.current = null;
+  useEffect(() => {
+    arbiter.setListening(channel.id, isCapturing ? getMonitoredSpeakerIds() : null);
+  }, [arbiter, channel.id, isCapturing, getMonitoredSpeakerIds]);
+
+  // A channel that outranks this one took some of its speakers, or gave
+  // them back while this channel is still open
+  const handleHandover = useCallback((handover: SpeakerHandover) => {
+    if (handover.lost.length > 0) {
+      const owner = arbiter.ownerOf(handover.lost[0]);
+      addLog({
+        type: "volume_change",
+        message: `${handover.lost.length} speakers taken over by ${owner ? arbiter.channelName(owner) : arbiter.heldElsewhere(handover.lost[0]) ?? 'a higher-priority channel'}`,
+      });
+      // An exclusive channel mutes speakers it doesn't use itself
+      const unowned = handover.lost.filter(id => !arbiter.ownerOf(id));
+      if (unowned.length > 0) {
+        setDevicesVolume(0, new Set(unowned));
       }
+    }
 
-      // Start mute countdown if audio was playing
-      // Note: We DON'T disable multicast - speakers stay listening (always-on mode)
-      // We only mute the volume so speakers are ready for the next audio burst
-      if (audioDetected) {
-        if (!audioDetectionTimeoutRef.current) {
-          addLog({
-            type: "audio_silent",
-            audioLevel,
-            audioThreshold,
-            message: `Audio below threshold: ${audioLevel.toFixed(1)}% - starting ${disableDelay/1000}s mute countdown`,
-          });
-
-          audioDetectionTimeoutRef.current = setTimeout(() => {
-            if (!controllingSpakersRef.current) {
-              controllingSpakersRef.current = true;
-              // DON'T disable speakers - keep them listening!
-              // setSpeakersEnabled(false); // REMOVED - speakers stay on
-              setAudioDetected(false); // Just mark audio as not active
-
-              // Calculate how long audio was playing
-              const duration = speakersEnabledTimeRef.current
-                ? ((Date.now() - speakersEnabledTimeRef.current) / 1000).toFixed(1)
-                : '?';
-              speakersEnabledTimeRef.current = null;
-
-              (async () => {
-                // Stop recording and upload
-                const recordingUrl = await stopRecordingAndUpload();
-
-                // Log with recording URL if available
-                addLog({
-                  type: "volume_change",
-                  speakersEnabled: true, // Speakers STAY enabled
-                  volume: 0,
-                  message: `Volume muted after ${disableDelay/1000}s of silence (audio duration: ${duration}s) - speakers still listening${recordingUrl ? ' 🎙️ Recording saved' : ''}`,
-                  recordingUrl: recordingUrl || undefined,
-                });
-
-                stopVolumeRamp();
-                await setDevicesVolume(0);
-                // NO controlSpeakers(false) - keep listening for next audio!
-                controllingSpakersRef.current = false;
-              })();
-            }
-            audioDetectionTimeoutRef.current = null;
-          }, disableDelay);
-        }
-      }
+    if (handover.gained.length > 0) {
+      addLog({
+        type: "volume_change",
+        volume: currentVolumeRef.current,
+        message: `${handover.gained.length} speakers handed back - continuing at ${Math.round(currentVolumeRef.current)}%`,
+      });
+      setDevicesVolume(currentVolumeRef.current, new Set(handover.gained));
     }
-  }, [audioLevel, isCapturing, audioDetected, speakersEnabled, audioThreshold, sustainDuration, disableDelay, controlSpeakers, setDevicesVolume, startVolumeRamp, stopVolumeRamp, targetVolume, addLog, startRecording, stopRecordingAndUpload]);
+  }, [arbiter, addLog, setDevicesVolume]);
+
+  useEffect(() => {
+    handoverHandlerRef.current = handleHandover;
+  }, [handleHandover]);
+
+  useEffect(() => {
+    return arbiter.subscribe((channelId, handover) => {
+      if (channelId === channel.id) handoverHandlerRef.current?.(handover);
+    });
+  }, [arbiter, channel.id]);
 
   const startMonitoring = useCallback(async (inputDevice?: string) => {
     debugLog('[AudioMonitoring] Starting monitoring', inputDevice);
+    const source: AudioInputSource = inputSource.kind === "device" ? { kind: "device", deviceId: inputDevice } : inputSource;
     addLog({
       type: "audio_detected",
-      audioThreshold,
-      message: `Monitoring started with threshold: ${audioThreshold}%`,
+      message: `Monitoring started on ${describeInputSource(source)} - attack ${detectorSettings.attackDbfs} dBFS, release ${detectorSettings.releaseDbfs} dBFS${detectorSettings.adaptive ? ' (adaptive noise floor)' : ''}`,
     });
 
+    reportEvent({ type: "monitoring", channel: channel.name, activity: "started", detail: describeInputSource(source) });
+
+    // A new session starts a new level trace
+    traceRef.current = null;
+
     // Start audio capture IMMEDIATELY - don't wait for speaker setup
     // This ensures the UI responds instantly and audio is being captured
-    startCapture(inputDevice);
+    startCapture(source);
 
     // Check speaker connectivity first (in background)
     checkSpeakerConnectivity();
@@ -1304,7 +2023,7 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
       try {
         // CRITICAL: Set all speakers to volume 0 BEFORE enabling multicast
         // This prevents static noise if any speaker has default volume > 0
-        await setDevicesVolume(0); // Muted initially
+        await setDevicesVolume(0, getMonitoredSpeakerIds()); // Muted initially
 
         // Wait briefly to ensure volume command is fully processed by devices
         await new Promise(resolve => setTimeout(resolve, 200));
@@ -1324,7 +2043,7 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
         setSpeakersEnabled(true);
       }
     })();
-  }, [startCapture, audioThreshold, addLog, setDevicesVolume, controlSpeakers, checkSpeakerConnectivity]);
+  }, [startCapture, inputSource, channel.name, detectorSettings, addLog, setDevicesVolume, getMonitoredSpeakerIds, controlSpeakers, checkSpeakerConnectivity]);
 
   const stopMonitoring = useCallback(async () => {
     debugLog('[AudioMonitoring] Stopping monitoring');
@@ -1341,27 +2060,56 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
         ? `Monitoring stopped (audio was playing for ${duration}s)`
         : 'Monitoring stopped - disabling speakers',
     });
+    reportEvent({ type: "monitoring", channel: channel.name, activity: "stopped" });
 
+    arbiter.close(channel.id);
     stopCapture();
     stopVolumeRamp();
+    toneDecoderRef.current = null;
+    preRollBufferRef.current = null;
+    levelDetectorRef.current = null;
+    detectionRef.current.reset();
+    setLockoutUntil(0);
+    setDetectorFrame(null);
+
+    // Save a clip that was still recording
+    if (recordingRef.current) {
+      stopRecordingAndUpload().then((recordingUrl) => {
+        if (!recordingUrl) return;
+        addLog({
+          type: "volume_change",
+          volume: 0,
+          message: 'Recording saved when monitoring stopped 🎙️',
+          recordingUrl,
+        });
+      });
+    }
+    dtmfDecoderRef.current = null;
+    mdcDecoderRef.current = null;
 
-    // Clear any pending audio detection timeout
-    if (audioDetectionTimeoutRef.current) {
-      clearTimeout(audioDetectionTimeoutRef.current);
-      audioDetectionTimeoutRef.current = null;
+    // Clear any pending suppression timeout
+    if (suppressTimeoutRef.current) {
+      clearTimeout(suppressTimeoutRef.current);
+      suppressTimeoutRef.current = null;
     }
+    suppressedUnitIdRef.current = null;
 
     // Always disable multicast when monitoring stops (cleanup always-on mode)
     if (!controllingSpakersRef.current) {
       controllingSpakersRef.current = true;
       setSpeakersEnabled(false);
       setAudioDetected(false);
-      await setDevicesVolume(0);
-      await controlSpeakers(false);
+      await setDevicesVolume(0, getMonitoredSpeakerIds());
+      // Speakers another channel monitors keep listening
+      await controlSpeakers(false, arbiter.notListenedByOthers(channel.id, getMonitoredSpeakerIds()));
+      activeToneSetRef.current = null;
+      setActiveToneSet(null);
+      activationUnitIdRef.current = null;
+      routeRuleRef.current = null;
       controllingSpakersRef.current = false;
       debugLog('[AudioMonitoring] Multicast disabled - speakers no longer listening');
     }
-  }, [stopCapture, stopVolumeRamp, controlSpeakers, setDevicesVolume, addLog]);
+  }, [arbiter, channel.id, channel.name, stopCapture, stopVolumeRamp, stopRecordingAndUpload, controlSpeakers, setDevicesVolume, getMonitoredSpeakerIds, addLog]);
 
   const setVolume = useCallback((vol: number) => {
     setVolumeState(vol);
@@ -1371,16 +2119,50 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     setSelectedInputDeviceState(deviceId);
   }, []);
 
+  const setInputSource = useCallback((source: AudioInputSource) => {
+    setInputSourceState(source);
+  }, []);
+
   const setSelectedDevices = useCallback((devs: string[]) => {
     setSelectedDevicesState(devs);
   }, []);
 
+  const setSelectedZones = useCallback((zoneIds: string[]) => {
+    setSelectedZonesState(zoneIds);
+  }, []);
+
   const setTargetVolume = useCallback((vol: number) => {
     setTargetVolumeState(vol);
   }, []);
 
-  const setAudioThreshold = useCallback((threshold: number) => {
-    setAudioThresholdState(threshold);
+  const setDetectorSettings = useCallback((settings: DetectorSettings) => {
+    setDetectorSettingsState(settings);
+  }, []);
+
+  const subscribeDetectorFrames = useCallback((listener: DetectorFrameListener) => {
+    frameListenersRef.current.add(listener);
+    return () => {
+      frameListenersRef.current.delete(listener);
+    };
+  }, []);
+
+  const setCalibrating = useCallback((value: boolean) => {
+    setCalibratingState(value);
+    debugLog(`[AudioMonitoring] Calibration ${value ? 'started' : 'finished'}`);
+  }, []);
+
+  // Use a calibration's recommendations and keep it with the settings
+  const applyCalibration = useCallback((result: CalibrationResult) => {
+    setDetectorSettingsState(prev => ({
+      ...prev,
+      attackDbfs: result.attackDbfs,
+      releaseDbfs: result.releaseDbfs,
+      floorMarginDb: result.floorMarginDb,
+    }));
+    setSustainDurationState(result.sustainDuration);
+    setDisableDelayState(result.disableDelay);
+    setCalibration(result);
+    debugLog('[AudioMonitoring] Calibration applied:', result);
   }, []);
 
   const setRampEnabled = useCallback((enabled: boolean) => {
@@ -1423,84 +2205,332 @@ export function AudioMonitoringProvider({ children }: { children: React.ReactNod
     setRecordingEnabledState(enabled);
   }, []);
 
+  const setPreRollSeconds = useCallback((seconds: number) => {
+    setPreRollSecondsState(seconds);
+  }, []);
+
+  const setTraceEnabled = useCallback((enabled: boolean) => {
+    setTraceEnabledState(enabled);
+  }, []);
+
+  const getLevelTrace = useCallback(() => traceRef.current?.toTrace() ?? null, []);
+
+  const setRtpStream = useCallback((settings: RtpStreamSettings) => {
+    setRtpStreamState(settings);
+    setRtpStreamError(null);
+  }, []);
+
   const clearLogs = useCallback(() => {
     setLogs([]);
     debugLog('[AudioLog] Logs cleared');
   }, []);
 
   const exportLogs = useCallback(() => {
-    const header = "Timestamp,Type,Audio Level,Threshold,Speakers,Volume,Message\n";
+    const header = "Timestamp,Type,Level (dBFS),Speakers,Volume,Unit ID,Reason,Message\n";
     const rows = logs.map(log => {
       const timestamp = new Date(log.timestamp).toLocaleString();
-      return `"${timestamp}","${log.type}","${log.audioLevel ?? ''}","${log.audioThreshold ?? ''}","${log.speakersEnabled ?? ''}","${log.volume ?? ''}","${log.message}"`;
+      const unitId = log.unitId ? formatUnitId(log.unitId) : '';
+      return `"${timestamp}","${log.type}","${log.levelDbfs?.toFixed(1) ?? ''}","${log.speakersEnabled ?? ''}","${log.volume ?? ''}","${unitId}","${log.reason ?? ''}","${log.message}"`;
     }).join("\n");
 
     return header + rows;
   }, [logs]);
 
+  const setTriggerMode = useCallback((mode: TriggerMode) => {
+    setTriggerModeState(mode);
+    debugLog(`[AudioMonitoring] Trigger mode changed to: ${mode}`);
+  }, []);
+
+  const setUnitIdRules = useCallback((rules: UnitIdRule[]) => {
+    setUnitIdRulesState(rules);
+  }, []);
+
   const setUseGlobalVolume = useCallback((useGlobal: boolean) => {
     setUseGlobalVolumeState(useGlobal);
     debugLog(`[AudioMonitoring] Volume mode changed to: ${useGlobal ? 'GLOBAL' : 'INDIVIDUAL'}`);
   }, []);
 
+  const value: AudioMonitoringContextType = {
+    channel,
+    isCapturing,
+    audioLevel,
+    captureError,
+    selectedInputDevice,
+    inputSource,
+    volume,
+    targetVolume,
+    detectorSettings,
+    detectorFrame,
+    lockoutUntil,
+    audioDetected,
+    speakersEnabled,
+    useGlobalVolume,
+    setUseGlobalVolume,
+    rampEnabled,
+    rampDuration,
+    dayNightMode,
+    dayStartHour,
+    dayEndHour,
+    nightRampDuration,
+    sustainDuration,
+    disableDelay,
+    setRampEnabled,
+    setRampDuration,
+    setDayNightMode,
+    setDayStartHour,
+    setDayEndHour,
+    setNightRampDuration,
+    setSustainDuration,
+    setDisableDelay,
+    triggerMode,
+    setTriggerMode,
+    toneSets,
+    setToneSets,
+    toneEvents,
+    activeToneSet,
+    unitIdRules,
+    setUnitIdRules,
+    recentUnitIds,
+    selectedDevices,
+    setSelectedDevices,
+    selectedZones,
+    setSelectedZones,
+    startMonitoring,
+    stopMonitoring,
+    setInputDevice,
+    setInputSource,
+    setVolume,
+    setTargetVolume,
+    setDetectorSettings,
+    subscribeDetectorFrames,
+    calibrating,
+    setCalibrating,
+    calibration,
+    applyCalibration,
+    devices,
+    setDevices,
+    zones,
+    setZones,
+    logs,
+    clearLogs,
+    exportLogs,
+    loggingEnabled,
+    setLoggingEnabled,
+    recordingEnabled,
+    setRecordingEnabled,
+    preRollSeconds,
+    setPreRollSeconds,
+    traceEnabled,
+    setTraceEnabled,
+    getLevelTrace,
+    rtpStream,
+    setRtpStream,
+    rtpStreamError,
+    emergencyKillAll,
+    emergencyEnableAll,
+    controlSingleSpeaker,
+    speakerStatuses,
+    checkSpeakerConnectivity,
+  };
+
+  // Published before paint, so the UI never shows a stale channel
+  useLayoutEffect(() => {
+    onValue(channel.id, value);
+  });
+
+  useEffect(() => {
+    return () => onValue(channel.id, null);
+  }, [channel.id, onValue]);
+
+  return null;
+});
+
+export interface MonitorChannelStatus {
+  channel: MonitorChannelConfig;
+  isCapturing: boolean;
+  audioDetected: boolean;
+  speakersEnabled: boolean;
+  captureError: string | null;
+}
+
+interface MonitorChannelsContextType {
+  channels: MonitorChannelConfig[]; // Highest priority first
+  statuses: MonitorChannelStatus[];
+  selectedChannelId: string; // The channel useAudioMonitoring() returns
+  selectChannel: (channelId: string) => void;
+  addChannel: () => void;
+  updateChannel: (channelId: string, changes: Partial<Omit<MonitorChannelConfig, "id">>) => void;
+  removeChannel: (channelId: string) => void;
+}
+
+const MonitorChannelsContext = createContext<MonitorChannelsContextType | null>(null);
+
+const byPriority = (a: MonitorChannelConfig, b: MonitorChannelConfig) => a.priority - b.priority;
+
+function restoreChannels(): MonitorChannelConfig[] {
+  if (typeof window === "undefined") return [DEFAULT_CHANNEL];
+  try {
+    const saved = localStorage.getItem(CHANNEL_KEYS.CHANNELS);
+    const channels: MonitorChannelConfig[] = saved ? JSON.parse(saved) : [];
+    if (channels.some(c => c.id === MAIN_CHANNEL_ID)) return channels.sort(byPriority);
+  } catch (error) {
+    console.error('[AudioMonitoring] Failed to restore channels:', error);
+  }
+  return [DEFAULT_CHANNEL];
+}
+
+export function AudioMonitoringProvider({ children }: { children: React.ReactNode }) {
+  const [channels, setChannels] = useState(restoreChannels);
+  const [selectedChannelId, setSelectedChannelId] = useState(
+    () => (typeof window !== "undefined" && localStorage.getItem(CHANNEL_KEYS.SELECTED_CHANNEL)) || MAIN_CHANNEL_ID
+  );
+  const [values, setValues] = useState<Record<string, AudioMonitoringContextType>>({});
+  const [arbiter] = useState(() => new SpeakerArbiter());
+  const [pageLease] = useState(
+    () => new PageLeaseClient("Live monitor", "dispatch", blocked => arbiter.setExternal(blocked))
+  );
+
+  // Shared by every channel
+  const [devices, setDevices] = useState<AlgoDevice[]>([]);
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [toneSets, setToneSets] = useState<ToneSet[]>([]);
+
+  const devicesRef = useRef<AlgoDevice[]>([]);
+
+  useEffect(() => {
+    arbiter.setChannels(channels);
+    localStorage.setItem(CHANNEL_KEYS.CHANNELS, JSON.stringify(channels));
+  }, [arbiter, channels]);
+
+  useEffect(() => {
+    devicesRef.current = devices;
+  }, [devices]);
+
+  useServerEvents((event) => {
+    if (event.type === "device_status") setDevices(prev => applyDeviceStatus(prev, event));
+  });
+
+  // Hold the speakers the channels drive, and the paging devices they hang
+  // off, with the server's paging arbiter so other pages can't talk over a
+  // dispatch. Speakers a higher priority page has come back when it ends.
+  useEffect(() => {
+    const unsubscribe = arbiter.subscribeClaims((speakerIds, emergency) => {
+      const pagers = devicesRef.current.filter(d => d.type === "8301" && d.linkedSpeakerIds?.some(id => speakerIds.has(id)));
+      pageLease
+        .hold([...speakerIds, ...pagers.map(d => d.id)], emergency ? "emergency" : "dispatch")
+        .catch(error => console.error('[AudioMonitoring] Paging lease failed:', error));
+    });
+    return () => {
+      unsubscribe();
+      pageLease.release().catch(() => {});
+    };
+  }, [arbiter, pageLease]);
+
+  useEffect(() => {
+    localStorage.setItem(CHANNEL_KEYS.SELECTED_CHANNEL, selectedChannelId);
+  }, [selectedChannelId]);
+
+  const handleValue = useCallback((channelId: string, value: AudioMonitoringContextType | null) => {
+    setValues(prev => {
+      if (value) return { ...prev, [channelId]: value };
+      const next = { ...prev };
+      delete next[channelId];
+      return next;
+    });
+  }, []);
+
+  const selectChannel = useCallback((channelId: string) => {
+    setSelectedChannelId(channelId);
+  }, []);
+
+  const addChannel = useCallback(() => {
+    setChannels(prev => [
+      ...prev,
+      {
+        id: generateId(),
+        name: `Channel ${prev.length + 1}`,
+        priority: Math.max(...prev.map(c => c.priority)) + 1,
+        exclusive: false,
+      },
+    ]);
+  }, []);
+
+  const updateChannel = useCallback((channelId: string, changes: Partial<Omit<MonitorChannelConfig, "id">>) => {
+    setChannels(prev => prev.map(c => (c.id === channelId ? { ...c, ...changes } : c)).sort(byPriority));
+  }, []);
+
+  // The first channel stays; a channel has to be stopped before it goes
+  const removeChannel = useCallback((channelId: string) => {
+    if (channelId === MAIN_CHANNEL_ID || values[channelId]?.isCapturing) return;
+    setChannels(prev => prev.filter(c => c.id !== channelId));
+    setSelectedChannelId(prev => (prev === channelId ? MAIN_CHANNEL_ID : prev));
+    Object.values(channelStorageKeys(channelId)).forEach(key => localStorage.removeItem(key));
+  }, [values]);
+
+  const statuses = useMemo(() => channels.flatMap((channel): MonitorChannelStatus[] => {
+    const value = values[channel.id];
+    if (!value) return [];
+    return [{
+      channel,
+      isCapturing: value.isCapturing,
+      audioDetected: value.audioDetected,
+      speakersEnabled: value.speakersEnabled,
+      captureError: value.captureError,
+    }];
+  }), [channels, values]);
+
+  // The emergency kill silences every channel, not just the one on screen
+  const emergencyKillAll = useCallback(async () => {
+    await Promise.all(Object.values(values).map(value => value.emergencyKillAll()));
+  }, [values]);
+
+  const selected = values[selectedChannelId] ?? values[MAIN_CHANNEL_ID];
+  const value = useMemo(() => (selected ? { ...selected, emergencyKillAll } : null), [selected, emergencyKillAll]);
+
   return (
-    <AudioMonitoringContext.Provider
+    <MonitorChannelsContext.Provider
       value={{
-        isCapturing,
-        audioLevel,
-        selectedInputDevice,
-        volume,
-        targetVolume,
-        audioThreshold,
-        audioDetected,
-        speakersEnabled,
-        useGlobalVolume,
-        setUseGlobalVolume,
-        rampEnabled,
-        rampDuration,
-        dayNightMode,
-        dayStartHour,
-        dayEndHour,
-        nightRampDuration,
-        sustainDuration,
-        disableDelay,
-        setRampEnabled,
-        setRampDuration,
-        setDayNightMode,
-        setDayStartHour,
-        setDayEndHour,
-        setNightRampDuration,
-        setSustainDuration,
-        setDisableDelay,
-        selectedDevices,
-        setSelectedDevices,
-        startMonitoring,
-        stopMonitoring,
-        setInputDevice,
-        setVolume,
-        setTargetVolume,
-        setAudioThreshold,
-        devices,
-        setDevices,
-        logs,
-        clearLogs,
-        exportLogs,
-        loggingEnabled,
-        setLoggingEnabled,
-        recordingEnabled,
-        setRecordingEnabled,
-        emergencyKillAll,
-        emergencyEnableAll,
-        controlSingleSpeaker,
-        speakerStatuses,
-        checkSpeakerConnectivity,
+        channels,
+        statuses,
+        selectedChannelId: selected?.channel.id ?? MAIN_CHANNEL_ID,
+        selectChannel,
+        addChannel,
+        updateChannel,
+        removeChannel,
       }}
     >
-      {children}
-    </AudioMonitoringContext.Provider>
+      {channels.map(channel => (
+        <MonitorChannel
+          key={channel.id}
+          channel={channel}
+          arbiter={arbiter}
+          pageLease={pageLease}
+          devices={devices}
+          setDevices={setDevices}
+          zones={zones}
+          setZones={setZones}
+          toneSets={toneSets}
+          setToneSets={setToneSets}
+          onValue={handleValue}
+        />
+      ))}
+      {value && (
+        <AudioMonitoringContext.Provider value={value}>
+          {children}
+        </AudioMonitoringContext.Provider>
+      )}
+    </MonitorChannelsContext.Provider>
   );
 }
 
+export function useMonitorChannels() {
+  const context = useContext(MonitorChannelsContext);
+  if (!context) {
+    throw new Error("useMonitorChannels must be used within AudioMonitoringProvider");
+  }
+  return context;
+}
+
 export function useAudioMonitoring() {
   const context = useContext(AudioMonitoringContext);
   if (!context) {
@@ -8,10 +8,14 @@ import {
   type User,
 } from "firebase/auth";
 import { auth } from "@/lib/firebase/config";
+import { apiFetch } from "@/lib/api/fetch";
+import { DEFAULT_ROLE, hasRole as roleIncludes, type UserRole } from "@/lib/roles";
 
 interface AuthContextType {
   user: User | null;
+  role: UserRole | null; // null while signed out
   loading: boolean;
+  hasRole: (required: UserRole) => boolean;
   signIn: (email: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
 }
@@ -20,11 +24,13 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [role, setRole] = useState<UserRole | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (user) => {
+    const unsubscribe = onAuthStateChanged(auth, async (user) => {
       setUser(user);
+      setRole(user ? await fetchRole() : null);
       setLoading(false);
     });
 
@@ -39,13 +45,28 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     await firebaseSignOut(auth);
   };
 
+  const hasRole = (required: UserRole) => roleIncludes(role, required);
+
   return (
-    <AuthContext.Provider value={{ user, loading, signIn, signOut }}>
+    <AuthContext.Provider value={{ user, role, loading, hasRole, signIn, signOut }}>
       {children}
     </AuthContext.Provider>
   );
 }
 
+// The role the API routes will enforce (custom claim, or bootstrap admin)
+async function fetchRole(): Promise<UserRole> {
+  try {
+    const response = await apiFetch("/api/auth/me");
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const data = await response.json();
+    return data.user.role;
+  } catch (error) {
+    console.error("[Auth] Failed to load role:", error);
+    return DEFAULT_ROLE;
+  }
+}
+
 export function useAuth() {
   const context = useContext(AuthContext);
   if (context === undefined) {
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useRef, useCallback, useEffect } from "react";
+import { openInputSource, type AudioInputSource, type OpenedInput } from "@/lib/audio/input-sources";
 
 interface AudioCaptureState {
   isCapturing: boolean;
@@ -12,7 +13,8 @@ interface AudioCaptureState {
 }
 
 interface UseAudioCaptureOptions {
-  onAudioData?: (data: Float32Array) => void;
+  // Raw samples after the input gain, in blocks of 2048 (see public/pcm-capture-worklet.js)
+  onAudioData?: (data: Float32Array, sampleRate: number) => void;
 }
 
 export function useAudioCapture(options: UseAudioCaptureOptions = {}) {
@@ -27,7 +29,8 @@ export function useAudioCapture(options: UseAudioCaptureOptions = {}) {
 
   const audioContextRef = useRef<AudioContext | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
-  const sourceNodeRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const sourceNodeRef = useRef<AudioNode | null>(null);
+  const networkInputRef = useRef<OpenedInput | null>(null);
   const gainNodeRef = useRef<GainNode | null>(null);
   const analyserNodeRef = useRef<AnalyserNode | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -36,6 +39,13 @@ export function useAudioCapture(options: UseAudioCaptureOptions = {}) {
   const startTimeRef = useRef<number>(0);
   const durationIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const isCapturingRef = useRef<boolean>(false);
+  const pcmNodeRef = useRef<AudioWorkletNode | null>(null);
+
+  // Kept in a ref so callers can pass an inline function
+  const onAudioDataRef = useRef(options.onAudioData);
+  useEffect(() => {
+    onAudioDataRef.current = options.onAudioData;
+  }, [options.onAudioData]);
 
   // Clean up on unmount
   useEffect(() => {
@@ -84,36 +94,47 @@ export function useAudioCapture(options: UseAudioCaptureOptions = {}) {
     animationFrameRef.current = requestAnimationFrame(updateAudioLevel);
   }, []); // No dependencies - use refs instead
 
-  const startCapture = useCallback(async (deviceId?: string) => {
+  // A device ID (or nothing, for the default input) or any other input source
+  const startCapture = useCallback(async (source?: string | AudioInputSource) => {
+    const input: AudioInputSource = typeof source === "object" ? source : { kind: "device", deviceId: source };
+
     try {
       setState((prev) => ({ ...prev, error: null }));
 
-      // Request microphone/line-in access
-      const audioConstraints: MediaTrackConstraints = {
-        echoCancellation: false,
-        noiseSuppression: false,
-        autoGainControl: false,
-      };
-
-      // If a specific device is requested, use it
-      if (deviceId) {
-        audioConstraints.deviceId = { exact: deviceId };
-      }
-
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: audioConstraints,
-        video: false,
-      });
-
-      mediaStreamRef.current = stream;
-
       // Create audio context
       const audioContext = new AudioContext();
       audioContextRef.current = audioContext;
 
       // Create nodes
-      const sourceNode = audioContext.createMediaStreamSource(stream);
-      sourceNodeRef.current = sourceNode;
+      if (input.kind === "device") {
+        // Request microphone/line-in access
+        const audioConstraints: MediaTrackConstraints = {
+          echoCancellation: false,
+          noiseSuppression: false,
+          autoGainControl: false,
+        };
+
+        // If a specific device is requested, use it
+        if (input.deviceId) {
+          audioConstraints.deviceId = { exact: input.deviceId };
+        }
+
+        const stream = await navigator.mediaDevices.getUserMedia({
+          audio: audioConstraints,
+          video: false,
+        });
+
+        mediaStreamRef.current = stream;
+        sourceNodeRef.current = audioContext.createMediaStreamSource(stream);
+      } else {
+        // Network streams and files are decoded into the same graph
+        const opened = await openInputSource(audioContext, input, (error) => {
+          setState((prev) => ({ ...prev, error }));
+        });
+        networkInputRef.current = opened;
+        sourceNodeRef.current = opened.node;
+      }
+      const sourceNode = sourceNodeRef.current;
 
       const gainNode = audioContext.createGain();
       gainNodeRef.current = gainNode;
@@ -126,6 +147,18 @@ export function useAudioCapture(options: UseAudioCaptureOptions = {}) {
       sourceNode.connect(gainNode);
       gainNode.connect(analyserNode);
 
+      // Sample tap for decoders - runs on the audio thread, so it keeps
+      // going when the tab is in the background and rAF is throttled
+      if (onAudioDataRef.current) {
+        await audioContext.audioWorklet.addModule("/pcm-capture-worklet.js");
+        const pcmNode = new AudioWorkletNode(audioContext, "pcm-capture", { numberOfOutputs: 0 });
+        pcmNode.port.onmessage = (event: MessageEvent<Float32Array>) => {
+          onAudioDataRef.current?.(event.data, audioContext.sampleRate);
+        };
+        gainNode.connect(pcmNode);
+        pcmNodeRef.current = pcmNode;
+      }
+
       // Set capturing flag BEFORE starting animation frame
       isCapturingRef.current = true;
       setState((prev) => ({ ...prev, isCapturing: true }));
@@ -137,6 +170,8 @@ export function useAudioCapture(options: UseAudioCaptureOptions = {}) {
         error instanceof Error ? error.message : "Failed to access audio input";
       setState((prev) => ({ ...prev, error: errorMessage }));
       console.error("Audio capture error:", error);
+      audioContextRef.current?.close();
+      audioContextRef.current = null;
     }
   }, [updateAudioLevel]);
 
@@ -162,12 +197,21 @@ export function useAudioCapture(options: UseAudioCaptureOptions = {}) {
     }
     mediaRecorderRef.current = null;
 
+    // Stop a network or file input
+    networkInputRef.current?.stop();
+    networkInputRef.current = null;
+
     // Stop all tracks
     if (mediaStreamRef.current) {
       mediaStreamRef.current.getTracks().forEach((track) => track.stop());
       mediaStreamRef.current = null;
     }
 
+    if (pcmNodeRef.current) {
+      pcmNodeRef.current.port.onmessage = null;
+      pcmNodeRef.current = null;
+    }
+
     // Close audio context
     if (audioContextRef.current) {
       audioContextRef.current.close();
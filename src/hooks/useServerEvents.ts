@@ -0,0 +1,18 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { subscribeServerEvents } from "@/lib/api/events";
+import type { ServerEvent } from "@/lib/algo/events";
+
+/**
+ * Call `listener` with every event pushed by the server (see lib/api/events.ts)
+ */
+export function useServerEvents(listener: (event: ServerEvent) => void) {
+  const listenerRef = useRef(listener);
+
+  useEffect(() => {
+    listenerRef.current = listener;
+  }, [listener]);
+
+  useEffect(() => subscribeServerEvents((event) => listenerRef.current(event)), []);
+}
@@ -0,0 +1,17 @@
+// Runs once when the Next.js server starts (including the Electron in-process server)
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  if (process.env.NEXT_PHASE === "phase-production-build") return;
+
+  const { startStorageSync } = await import("@/lib/storage");
+  startStorageSync();
+
+  const { startHealthMonitor } = await import("@/lib/algo/health-monitor");
+  startHealthMonitor();
+
+  const { startMulticastMonitor } = await import("@/lib/algo/multicast-monitor");
+  startMulticastMonitor();
+
+  const { startScheduler } = await import("@/lib/algo/scheduler");
+  startScheduler();
+}
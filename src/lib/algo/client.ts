@@ -6,6 +6,15 @@ import type {
   AlgoToneListResponse,
   AlgoToneStartRequest,
 } from "./types";
+import {
+  AlgoError,
+  AlgoAuthError,
+  AlgoBusyError,
+  AlgoBadResponseError,
+  AlgoTimeoutError,
+  AlgoUnreachableError,
+  isRetryableAlgoError,
+} from "./errors";
 
 interface AlgoRequestConfig {
   deviceIp: string;
@@ -16,13 +25,28 @@ interface AlgoRequestConfig {
   authMethod: AlgoAuthMethod;
 }
 
-interface AlgoClientOptions {
+export interface AlgoClientOptions {
   ipAddress: string;
   password: string;
   authMethod: AlgoAuthMethod;
   useHttps?: boolean;
+  timeoutMs?: number; // Per-request timeout (default 5s)
+  retries?: number; // Retry attempts for GET requests (default 2)
+  retryDelayMs?: number; // First retry delay, doubled on each attempt (default 250ms)
 }
 
+// Per-call overrides of the client defaults
+export interface AlgoRequestOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  retries?: number; // Only applies to GET requests
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 250;
+const UPLOAD_TIMEOUT_MS = 30000;
+
 /**
  * Generate HMAC-SHA256 authentication headers for Algo Standard auth
  */
@@ -78,6 +102,9 @@ export class AlgoClient {
   private password: string;
   private authMethod: AlgoAuthMethod;
   private baseUrl: string;
+  private timeoutMs: number;
+  private retries: number;
+  private retryDelayMs: number;
 
   constructor(options: AlgoClientOptions) {
     this.ipAddress = options.ipAddress;
@@ -86,15 +113,45 @@ export class AlgoClient {
     // Use HTTP by default to avoid self-signed cert issues
     const protocol = options.useHttps === true ? "https" : "http";
     this.baseUrl = `${protocol}://${this.ipAddress}`;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.retries = options.retries ?? DEFAULT_RETRIES;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
   }
 
   /**
-   * Make an authenticated request to the Algo device
+   * Make an authenticated request to the Algo device.
+   * GET requests are retried with exponential backoff on transient failures;
+   * other methods are sent once since repeating them could replay an action.
    */
   private async request<T>(
     method: "GET" | "POST" | "PUT" | "DELETE",
     uri: string,
-    body?: object
+    body?: object,
+    options: AlgoRequestOptions = {}
+  ): Promise<T> {
+    const retries = method === "GET" ? options.retries ?? this.retries : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(method, uri, body, options);
+      } catch (error) {
+        if (attempt >= retries || !isRetryableAlgoError(error) || options.signal?.aborted) {
+          throw error;
+        }
+        const backoff = this.retryDelayMs * Math.pow(2, attempt);
+        await new Promise((resolve) => setTimeout(resolve, backoff));
+      }
+    }
+  }
+
+  /**
+   * Send a single JSON request and parse the response
+   */
+  private async send<T>(
+    method: "GET" | "POST" | "PUT" | "DELETE",
+    uri: string,
+    body: object | undefined,
+    options: AlgoRequestOptions
   ): Promise<T> {
     let headers: HeadersInit;
 
@@ -111,8 +168,7 @@ export class AlgoClient {
         break;
     }
 
-    const url = `${this.baseUrl}${uri}`;
-    const options: RequestInit = {
+    const init: RequestInit = {
       method,
       headers,
       // Skip SSL verification for self-signed certs (common on Algo devices)
@@ -120,22 +176,73 @@ export class AlgoClient {
     };
 
     if (body) {
-      options.body = JSON.stringify(body);
-    }
-
-    const response = await fetch(url, options);
-
-    if (!response.ok) {
-      throw new Error(`Algo API error: ${response.status} ${response.statusText}`);
+      init.body = JSON.stringify(body);
     }
 
     // Some endpoints return no content
-    const text = await response.text();
+    const text = await this.fetchWithTimeout(uri, init, options);
     if (!text) {
       return {} as T;
     }
 
-    return JSON.parse(text) as T;
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw new AlgoBadResponseError(this.ipAddress, "response body is not valid JSON");
+    }
+  }
+
+  /**
+   * Fetch a device URI, enforcing the timeout and mapping failures to AlgoError types
+   */
+  private async fetchWithTimeout(
+    uri: string,
+    init: RequestInit,
+    options: AlgoRequestOptions
+  ): Promise<string> {
+    options.signal?.throwIfAborted();
+
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onCallerAbort = () => controller.abort(options.signal?.reason);
+    options.signal?.addEventListener("abort", onCallerAbort);
+
+    try {
+      const response = await fetch(`${this.baseUrl}${uri}`, {
+        ...init,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        if (response.status === 401 || response.status === 403) {
+          throw new AlgoAuthError(this.ipAddress, response.status);
+        }
+        if (response.status === 409 || response.status === 423) {
+          throw new AlgoBusyError(this.ipAddress, response.status);
+        }
+        throw new AlgoBadResponseError(
+          this.ipAddress,
+          `${response.status} ${response.statusText}`,
+          response.status
+        );
+      }
+
+      return await response.text();
+    } catch (error) {
+      if (error instanceof AlgoError) throw error;
+      if (timedOut) throw new AlgoTimeoutError(this.ipAddress, timeoutMs);
+      // Cancelled by the caller - surface the abort as-is
+      if (options.signal?.aborted) throw error;
+      throw new AlgoUnreachableError(this.ipAddress, error);
+    } finally {
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener("abort", onCallerAbort);
+    }
   }
 
   // ============ Device Information ============
@@ -143,36 +250,36 @@ export class AlgoClient {
   /**
    * Get device About information
    */
-  async getAbout(): Promise<AlgoAboutResponse> {
-    return this.request<AlgoAboutResponse>("GET", "/api/info/about");
+  async getAbout(requestOptions?: AlgoRequestOptions): Promise<AlgoAboutResponse> {
+    return this.request<AlgoAboutResponse>("GET", "/api/info/about", undefined, requestOptions);
   }
 
   /**
    * Get device Status information
    */
-  async getStatus(): Promise<AlgoStatusResponse> {
-    return this.request<AlgoStatusResponse>("GET", "/api/info/status");
+  async getStatus(requestOptions?: AlgoRequestOptions): Promise<AlgoStatusResponse> {
+    return this.request<AlgoStatusResponse>("GET", "/api/info/status", undefined, requestOptions);
   }
 
   /**
    * Get list of tone files on the device
    */
-  async getToneList(): Promise<AlgoToneListResponse> {
-    return this.request<AlgoToneListResponse>("GET", "/api/info/tonelist");
+  async getToneList(requestOptions?: AlgoRequestOptions): Promise<AlgoToneListResponse> {
+    return this.request<AlgoToneListResponse>("GET", "/api/info/tonelist", undefined, requestOptions);
   }
 
   /**
    * Get a specific setting value
    */
-  async getSetting(parameterName: string): Promise<Record<string, string>> {
-    return this.request<Record<string, string>>("GET", `/api/settings/${parameterName}`);
+  async getSetting(parameterName: string, requestOptions?: AlgoRequestOptions): Promise<Record<string, string>> {
+    return this.request<Record<string, string>>("GET", `/api/settings/${parameterName}`, undefined, requestOptions);
   }
 
   /**
    * Set a specific setting value
    */
-  async setSetting(settings: Record<string, string>): Promise<void> {
-    await this.request<void>("PUT", "/api/settings", settings);
+  async setSetting(settings: Record<string, string>, requestOptions?: AlgoRequestOptions): Promise<void> {
+    await this.request<void>("PUT", "/api/settings", settings, requestOptions);
   }
 
   // ============ Audio Control ============
@@ -180,50 +287,50 @@ export class AlgoClient {
   /**
    * Play a tone file
    */
-  async playTone(options: AlgoToneStartRequest): Promise<void> {
-    await this.request<void>("POST", "/api/controls/tone/start", options);
+  async playTone(options: AlgoToneStartRequest, requestOptions?: AlgoRequestOptions): Promise<void> {
+    await this.request<void>("POST", "/api/controls/tone/start", options, requestOptions);
   }
 
   /**
    * Stop playing tone
    */
-  async stopTone(): Promise<void> {
-    await this.request<void>("POST", "/api/controls/tone/stop");
+  async stopTone(requestOptions?: AlgoRequestOptions): Promise<void> {
+    await this.request<void>("POST", "/api/controls/tone/stop", undefined, requestOptions);
   }
 
   /**
    * Play test tone
    */
-  async playTestTone(): Promise<void> {
-    await this.request<void>("POST", "/api/controls/test/start");
+  async playTestTone(requestOptions?: AlgoRequestOptions): Promise<void> {
+    await this.request<void>("POST", "/api/controls/test/start", undefined, requestOptions);
   }
 
   /**
    * Loop test tone
    */
-  async loopTestTone(): Promise<void> {
-    await this.request<void>("POST", "/api/controls/test/loop");
+  async loopTestTone(requestOptions?: AlgoRequestOptions): Promise<void> {
+    await this.request<void>("POST", "/api/controls/test/loop", undefined, requestOptions);
   }
 
   /**
    * Stop test tone
    */
-  async stopTestTone(): Promise<void> {
-    await this.request<void>("POST", "/api/controls/test/stop");
+  async stopTestTone(requestOptions?: AlgoRequestOptions): Promise<void> {
+    await this.request<void>("POST", "/api/controls/test/stop", undefined, requestOptions);
   }
 
   /**
    * Get ambient noise level
    */
-  async getNoiseLevel(): Promise<{ "audio.noise.level": string }> {
-    return this.request<{ "audio.noise.level": string }>("GET", "/api/info/audio.noise.level");
+  async getNoiseLevel(requestOptions?: AlgoRequestOptions): Promise<{ "audio.noise.level": string }> {
+    return this.request<{ "audio.noise.level": string }>("GET", "/api/info/audio.noise.level", undefined, requestOptions);
   }
 
   /**
    * Set ambient noise level
    */
-  async setNoiseLevel(level: string): Promise<void> {
-    await this.request<void>("POST", "/api/controls/noise/update", { level });
+  async setNoiseLevel(level: string, requestOptions?: AlgoRequestOptions): Promise<void> {
+    await this.request<void>("POST", "/api/controls/noise/update", { level }, requestOptions);
   }
 
   // ============ Device Management ============
@@ -231,29 +338,29 @@ export class AlgoClient {
   /**
    * Reboot the device
    */
-  async reboot(): Promise<void> {
-    await this.request<void>("POST", "/api/controls/reboot");
+  async reboot(requestOptions?: AlgoRequestOptions): Promise<void> {
+    await this.request<void>("POST", "/api/controls/reboot", undefined, requestOptions);
   }
 
   /**
    * Restart main application process
    */
-  async reload(): Promise<void> {
-    await this.request<void>("POST", "/api/controls/reload");
+  async reload(requestOptions?: AlgoRequestOptions): Promise<void> {
+    await this.request<void>("POST", "/api/controls/reload", undefined, requestOptions);
   }
 
   /**
    * Check for firmware updates
    */
-  async checkFirmware(): Promise<{ version: string }> {
-    return this.request<{ version: string }>("POST", "/api/controls/upgrade/check");
+  async checkFirmware(requestOptions?: AlgoRequestOptions): Promise<{ version: string }> {
+    return this.request<{ version: string }>("POST", "/api/controls/upgrade/check", undefined, requestOptions);
   }
 
   /**
    * Restore factory defaults
    */
-  async factoryReset(): Promise<void> {
-    await this.request<void>("POST", "/api/settings/action/restore");
+  async factoryReset(requestOptions?: AlgoRequestOptions): Promise<void> {
+    await this.request<void>("POST", "/api/settings/action/restore", undefined, requestOptions);
   }
 
   // ============ File Management ============
@@ -261,16 +368,15 @@ export class AlgoClient {
   /**
    * Get list of files in a folder
    */
-  async getFileList(folder: string): Promise<{ filelist: string[] }> {
-    return this.request<{ filelist: string[] }>("GET", `/api/files/${folder}`);
+  async getFileList(folder: string, requestOptions?: AlgoRequestOptions): Promise<{ filelist: string[] }> {
+    return this.request<{ filelist: string[] }>("GET", `/api/files/${folder}`, undefined, requestOptions);
   }
 
   /**
    * Upload a file to the device
    */
-  async uploadFile(folder: string, filename: string, data: Buffer): Promise<void> {
+  async uploadFile(folder: string, filename: string, data: Buffer, requestOptions?: AlgoRequestOptions): Promise<void> {
     const uri = `/api/files/${folder}/${filename}`;
-    const url = `${this.baseUrl}${uri}`;
 
     let headers: HeadersInit;
 
@@ -299,22 +405,18 @@ export class AlgoClient {
       };
     }
 
-    const response = await fetch(url, {
-      method: "PUT",
-      headers,
-      body: new Uint8Array(data),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Upload failed: ${response.status} ${response.statusText}`);
-    }
+    await this.fetchWithTimeout(
+      uri,
+      { method: "PUT", headers, body: new Uint8Array(data) },
+      { timeoutMs: UPLOAD_TIMEOUT_MS, ...requestOptions }
+    );
   }
 
   /**
    * Delete a file from the device
    */
-  async deleteFile(filepath: string): Promise<void> {
-    await this.request<void>("DELETE", "/api/files/", { path: filepath });
+  async deleteFile(filepath: string, requestOptions?: AlgoRequestOptions): Promise<void> {
+    await this.request<void>("DELETE", "/api/files/", { path: filepath }, requestOptions);
   }
 
   // ============ Multicast Control ============
@@ -328,8 +430,8 @@ export class AlgoClient {
     port: string;
     type: "rtp" | "poly";
     group?: number;
-  }): Promise<void> {
-    await this.request<void>("POST", "/api/state/mcast/update/", config);
+  }, requestOptions?: AlgoRequestOptions): Promise<void> {
+    await this.request<void>("POST", "/api/state/mcast/update/", config, requestOptions);
   }
 
   // ============ Call Control ============
@@ -342,15 +444,15 @@ export class AlgoClient {
     tone?: string;
     interval?: string;
     maxdur?: string;
-  }): Promise<void> {
-    await this.request<void>("POST", "/api/controls/call/start", options);
+  }, requestOptions?: AlgoRequestOptions): Promise<void> {
+    await this.request<void>("POST", "/api/controls/call/start", options, requestOptions);
   }
 
   /**
    * Stop an active call
    */
-  async stopCall(): Promise<void> {
-    await this.request<void>("POST", "/api/controls/call/stop");
+  async stopCall(requestOptions?: AlgoRequestOptions): Promise<void> {
+    await this.request<void>("POST", "/api/controls/call/stop", undefined, requestOptions);
   }
 
   // ============ Relay Control ============
@@ -358,8 +460,8 @@ export class AlgoClient {
   /**
    * Get relay input status
    */
-  async getRelayStatus(): Promise<{ "input.relay.status": string }> {
-    return this.request<{ "input.relay.status": string }>("GET", "/api/info/input.relay.status");
+  async getRelayStatus(requestOptions?: AlgoRequestOptions): Promise<{ "input.relay.status": string }> {
+    return this.request<{ "input.relay.status": string }>("GET", "/api/info/input.relay.status", undefined, requestOptions);
   }
 
   // ============ Door Control ============
@@ -367,25 +469,25 @@ export class AlgoClient {
   /**
    * Unlock door
    */
-  async unlockDoor(doorId: "local" | "netdc1"): Promise<void> {
-    await this.request<void>("POST", "/api/controls/door/unlock", { doorid: doorId });
+  async unlockDoor(doorId: "local" | "netdc1", requestOptions?: AlgoRequestOptions): Promise<void> {
+    await this.request<void>("POST", "/api/controls/door/unlock", { doorid: doorId }, requestOptions);
   }
 
   /**
    * Lock door
    */
-  async lockDoor(doorId: "local" | "netdc1"): Promise<void> {
-    await this.request<void>("POST", "/api/controls/door/lock", { doorid: doorId });
+  async lockDoor(doorId: "local" | "netdc1", requestOptions?: AlgoRequestOptions): Promise<void> {
+    await this.request<void>("POST", "/api/controls/door/lock", { doorid: doorId }, requestOptions);
   }
 
   /**
    * Momentarily unlock door
    */
-  async momentaryUnlock(doorId: "local" | "netdc1", duration: string): Promise<void> {
+  async momentaryUnlock(doorId: "local" | "netdc1", duration: string, requestOptions?: AlgoRequestOptions): Promise<void> {
     await this.request<void>("POST", "/api/controls/door/munlock", {
       doorid: doorId,
       duration,
-    });
+    }, requestOptions);
   }
 
   // ============ Strobe Control ============
@@ -398,15 +500,15 @@ export class AlgoClient {
     color1: "red" | "blue" | "green" | "amber";
     color2?: "red" | "blue" | "green" | "amber";
     ledlvl: string;
-  }): Promise<void> {
-    await this.request<void>("POST", "/api/controls/strobe/start", options);
+  }, requestOptions?: AlgoRequestOptions): Promise<void> {
+    await this.request<void>("POST", "/api/controls/strobe/start", options, requestOptions);
   }
 
   /**
    * Stop strobe light
    */
-  async stopStrobe(): Promise<void> {
-    await this.request<void>("POST", "/api/controls/strobe/stop");
+  async stopStrobe(requestOptions?: AlgoRequestOptions): Promise<void> {
+    await this.request<void>("POST", "/api/controls/strobe/stop", undefined, requestOptions);
   }
 
   // ============ Audio Streaming ============
@@ -414,15 +516,15 @@ export class AlgoClient {
   /**
    * Start listening to audio stream
    */
-  async startRx(port: string): Promise<void> {
-    await this.request<void>("POST", "/api/controls/rx/start", { port });
+  async startRx(port: string, requestOptions?: AlgoRequestOptions): Promise<void> {
+    await this.request<void>("POST", "/api/controls/rx/start", { port }, requestOptions);
   }
 
   /**
    * Stop listening to audio stream
    */
-  async stopRx(): Promise<void> {
-    await this.request<void>("POST", "/api/controls/rx/stop");
+  async stopRx(requestOptions?: AlgoRequestOptions): Promise<void> {
+    await this.request<void>("POST", "/api/controls/rx/stop", undefined, requestOptions);
   }
 }
 
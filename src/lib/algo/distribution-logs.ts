@@ -0,0 +1,114 @@
+import { getDataStore, type QueryOptions } from "@/lib/storage";
+import type { DistributionAction, DistributionLog, DistributionStatus } from "./types";
+
+// Server-side playback history. API routes record every distribute, play,
+// test-tone and live-broadcast action here; clients only read it.
+
+const DISTRIBUTION_LOGS = "distributionLogs";
+
+export const MAX_LOG_PAGE_SIZE = 100;
+
+export type DistributionResult = DistributionLog["results"][number];
+
+export interface DistributionLogInput {
+  action: DistributionAction;
+  audioFileId?: string;
+  audioFileName: string;
+  targetDevices: string[];
+  targetZones?: string[];
+  results: DistributionResult[];
+  error?: string; // The run failed before reaching any device
+  user: { uid: string; email?: string };
+}
+
+export interface DistributionLogFilters {
+  from?: Date;
+  to?: Date;
+  userEmail?: string;
+  status?: DistributionStatus;
+}
+
+export interface DistributionLogPage {
+  logs: DistributionLog[];
+  nextCursor: string | null; // ID of the last log, to pass back for the next page
+}
+
+/**
+ * Overall status for a set of per-device results
+ */
+export function summarizeStatus(results: DistributionResult[]): DistributionStatus {
+  const succeeded = results.filter((r) => r.success).length;
+  if (results.length > 0 && succeeded === results.length) return "success";
+  return succeeded > 0 ? "partial" : "failed";
+}
+
+/**
+ * Write a history entry. Failures are logged, never thrown - a history
+ * outage must not fail the page that was just sent.
+ */
+export async function recordDistribution(input: DistributionLogInput): Promise<void> {
+  // Firestore rejects undefined values, so optional fields are only set when present
+  const results = input.results.map((result) => ({
+    deviceId: result.deviceId,
+    deviceName: result.deviceName,
+    success: result.success,
+    ...(result.error ? { error: result.error } : {}),
+    ...(result.code ? { code: result.code } : {}),
+  }));
+
+  try {
+    await getDataStore().add(DISTRIBUTION_LOGS, {
+      action: input.action,
+      ...(input.audioFileId ? { audioFileId: input.audioFileId } : {}),
+      audioFileName: input.audioFileName,
+      targetDevices: [...new Set(input.targetDevices)],
+      targetZones: [...new Set(input.targetZones ?? [])],
+      triggeredBy: input.user.uid,
+      ...(input.user.email ? { triggeredByEmail: input.user.email } : {}),
+      status: summarizeStatus(results),
+      ...(input.error ? { error: input.error } : {}),
+      results,
+      createdAt: new Date(),
+    });
+  } catch (error) {
+    console.error("[History] Failed to record distribution:", error);
+  }
+}
+
+/**
+ * One page of history, newest first
+ */
+export async function queryDistributionLogs(
+  filters: DistributionLogFilters,
+  page: { limit: number; cursor?: string }
+): Promise<DistributionLogPage> {
+  const limit = Math.min(Math.max(page.limit, 1), MAX_LOG_PAGE_SIZE);
+  const where: NonNullable<QueryOptions["where"]> = [];
+
+  if (filters.userEmail) {
+    where.push({ field: "triggeredByEmail", op: "==", value: filters.userEmail });
+  }
+  if (filters.status) {
+    where.push({ field: "status", op: "==", value: filters.status });
+  }
+  if (filters.from) {
+    where.push({ field: "createdAt", op: ">=", value: filters.from });
+  }
+  if (filters.to) {
+    where.push({ field: "createdAt", op: "<=", value: filters.to });
+  }
+
+  // One extra to tell whether another page exists
+  const results = await getDataStore().query(DISTRIBUTION_LOGS, {
+    where,
+    orderBy: { field: "createdAt", direction: "desc" },
+    startAfter: page.cursor,
+    limit: limit + 1,
+  });
+  const logs = results.slice(0, limit) as unknown as DistributionLog[];
+
+  return {
+    logs,
+    nextCursor: results.length > limit ? logs[logs.length - 1].id : null,
+  };
+}
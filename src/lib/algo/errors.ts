@@ -0,0 +1,132 @@
+// Algo API Error Types
+export type AlgoErrorCode =
+  | "device_unreachable"
+  | "device_timeout"
+  | "auth_rejected"
+  | "device_busy"
+  | "bad_response";
+
+/**
+ * Base class for every failure talking to an Algo device
+ */
+export class AlgoError extends Error {
+  readonly code: AlgoErrorCode;
+  readonly ipAddress: string;
+  readonly status?: number; // HTTP status returned by the device, if any
+
+  constructor(code: AlgoErrorCode, ipAddress: string, message: string, options?: { status?: number; cause?: unknown }) {
+    super(message, { cause: options?.cause });
+    this.name = "AlgoError";
+    this.code = code;
+    this.ipAddress = ipAddress;
+    this.status = options?.status;
+  }
+}
+
+/**
+ * Device could not be reached (connection refused, host unreachable, DNS failure)
+ */
+export class AlgoUnreachableError extends AlgoError {
+  constructor(ipAddress: string, cause?: unknown) {
+    super(
+      "device_unreachable",
+      ipAddress,
+      `Device unreachable at ${ipAddress} - check if device is online and on the same network`,
+      { cause }
+    );
+    this.name = "AlgoUnreachableError";
+  }
+}
+
+/**
+ * Device did not answer within the request timeout
+ */
+export class AlgoTimeoutError extends AlgoError {
+  readonly timeoutMs: number;
+
+  constructor(ipAddress: string, timeoutMs: number) {
+    super(
+      "device_timeout",
+      ipAddress,
+      `Connection timeout to ${ipAddress} after ${timeoutMs}ms - device may be slow or offline`
+    );
+    this.name = "AlgoTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Device rejected the credentials (wrong password or auth method)
+ */
+export class AlgoAuthError extends AlgoError {
+  constructor(ipAddress: string, status: number) {
+    super(
+      "auth_rejected",
+      ipAddress,
+      `Authentication rejected by ${ipAddress} - check the API password and auth method`,
+      { status }
+    );
+    this.name = "AlgoAuthError";
+  }
+}
+
+/**
+ * Device is busy with another action and refused the request
+ */
+export class AlgoBusyError extends AlgoError {
+  constructor(ipAddress: string, status: number) {
+    super("device_busy", ipAddress, `Device at ${ipAddress} is busy - try again shortly`, { status });
+    this.name = "AlgoBusyError";
+  }
+}
+
+/**
+ * Device answered with an error status or a body that could not be parsed
+ */
+export class AlgoBadResponseError extends AlgoError {
+  constructor(ipAddress: string, detail: string, status?: number) {
+    super("bad_response", ipAddress, `Unexpected response from ${ipAddress}: ${detail}`, { status });
+    this.name = "AlgoBadResponseError";
+  }
+}
+
+/**
+ * A device or zone ID that is not in the registry
+ */
+export class RegistryNotFoundError extends Error {
+  readonly kind: "device" | "zone";
+  readonly id: string;
+
+  constructor(kind: "device" | "zone", id: string) {
+    super(`${kind === "device" ? "Device" : "Zone"} not found: ${id}`);
+    this.name = "RegistryNotFoundError";
+    this.kind = kind;
+    this.id = id;
+  }
+}
+
+/**
+ * The devices for a page are held by an equal or higher priority page
+ * (see paging-arbiter.ts)
+ */
+export class PagingBusyError extends Error {
+  readonly holder: { id: string; label: string; priority: string; user?: string };
+
+  constructor(holder: PagingBusyError["holder"], waited = false) {
+    const owner = `${holder.label} (${holder.priority})`;
+    super(waited ? `Timed out waiting for devices in use by ${owner}` : `Devices are in use by ${owner}`);
+    this.name = "PagingBusyError";
+    this.holder = { id: holder.id, label: holder.label, priority: holder.priority, user: holder.user };
+  }
+}
+
+/**
+ * Whether a failed request is worth repeating
+ */
+export function isRetryableAlgoError(error: unknown): boolean {
+  if (!(error instanceof AlgoError)) return false;
+  if (error instanceof AlgoBadResponseError) {
+    return error.status !== undefined && error.status >= 500;
+  }
+  return !(error instanceof AlgoAuthError);
+}
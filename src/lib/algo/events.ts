@@ -0,0 +1,117 @@
+import type { PagingState } from "./paging-arbiter";
+import type { PlaybackJob } from "./playback-jobs";
+
+// Server-wide event bus behind GET /api/events (Server-Sent Events), so
+// every console sees the same devices, pages and activations as they
+// change. Device health, playback jobs and the paging arbiter publish here;
+// Live monitor activity happens in a browser and is reported through
+// POST /api/events.
+
+export type MonitoringActivity = "started" | "stopped" | "activated" | "released";
+
+export type EmergencyAction = "kill" | "enable";
+
+export interface DeviceStatusEvent {
+  type: "device_status";
+  deviceId: string;
+  isOnline: boolean;
+  authValid?: boolean;
+  at: string;
+}
+
+export interface JobEvent {
+  type: "job";
+  job: PlaybackJob;
+}
+
+export interface PagingEvent {
+  type: "paging";
+  state: PagingState;
+}
+
+export interface MonitoringEvent {
+  type: "monitoring";
+  console: string; // Random per browser tab, so a console can skip its own reports
+  channel: string; // Channel name
+  activity: MonitoringActivity;
+  detail?: string; // e.g. the unit ID or tone set that opened the speakers
+  user?: string;
+  at: string;
+}
+
+export interface EmergencyEvent {
+  type: "emergency";
+  console: string;
+  channel: string;
+  action: EmergencyAction;
+  user?: string;
+  at: string;
+}
+
+export type ServerEvent = DeviceStatusEvent | JobEvent | PagingEvent | MonitoringEvent | EmergencyEvent;
+
+// What a browser reports, along with its console ID; the server adds the
+// user and time
+export type ReportedEvent =
+  | Omit<MonitoringEvent, "console" | "user" | "at">
+  | Omit<EmergencyEvent, "console" | "user" | "at">;
+
+type ServerEventListener = (event: ServerEvent) => void;
+
+interface EventsState {
+  listeners: Set<ServerEventListener>;
+  devices: Map<string, DeviceStatusEvent>; // Last known status, replayed to new subscribers
+}
+
+// Kept on globalThis so route modules and dev-mode reloads share one bus
+const globalForEvents = globalThis as typeof globalThis & { algoEvents?: EventsState };
+
+function getState(): EventsState {
+  globalForEvents.algoEvents ??= { listeners: new Set(), devices: new Map() };
+  return globalForEvents.algoEvents;
+}
+
+export function publishEvent(event: ServerEvent): void {
+  for (const listener of getState().listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error("[Events] Listener failed:", error);
+    }
+  }
+}
+
+export function subscribeEvents(listener: ServerEventListener): () => void {
+  const state = getState();
+  state.listeners.add(listener);
+  return () => {
+    state.listeners.delete(listener);
+  };
+}
+
+/**
+ * Publish the devices whose online or auth status changed since the last check
+ */
+export function publishDeviceHealth(results: { id: string; isOnline: boolean; authValid?: boolean }[]): void {
+  const state = getState();
+  const at = new Date().toISOString();
+  for (const result of results) {
+    const previous = state.devices.get(result.id);
+    if (previous && previous.isOnline === result.isOnline && previous.authValid === result.authValid) continue;
+
+    const event: DeviceStatusEvent = {
+      type: "device_status",
+      deviceId: result.id,
+      isOnline: result.isOnline,
+      authValid: result.authValid,
+      at,
+    };
+    state.devices.set(result.id, event);
+    publishEvent(event);
+  }
+}
+
+// Every device's last known status, for a console that has just connected
+export function getDeviceStatuses(): DeviceStatusEvent[] {
+  return Array.from(getState().devices.values());
+}
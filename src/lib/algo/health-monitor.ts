@@ -0,0 +1,254 @@
+import { getDataStore, increment, StoreNotFoundError, type QueryOptions } from "@/lib/storage";
+import { checkDevicesHealth, type DeviceHealth } from "./health";
+import { getAllRegisteredDevices } from "./registry";
+import type { DeviceUptime, UptimeBucket } from "./types";
+
+// Background fleet health monitor. Started once per server process from
+// src/instrumentation.ts, it checks every registered device on a schedule and:
+//   - records each result in "deviceHealthSamples" (raw time series)
+//   - rolls results up per device and hour in "deviceHealthHourly",
+//     which the uptime and latency queries read
+//   - keeps isOnline, authValid and lastSeen on the device docs current
+
+const DEVICES = "devices";
+const SAMPLES = "deviceHealthSamples";
+const HOURLY = "deviceHealthHourly";
+
+const DEFAULT_INTERVAL_MS = 60000;
+const CHECK_TIMEOUT_MS = 3000;
+const SAMPLE_RETENTION_DAYS = 7;
+const HOURLY_RETENTION_DAYS = 90;
+const PRUNE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+interface MonitorState {
+  timer: ReturnType<typeof setInterval> | null;
+  running: boolean;
+  lastPrunedAt: number;
+}
+
+// Kept on globalThis so dev-mode module reloads don't start a second monitor
+const globalForMonitor = globalThis as typeof globalThis & { algoHealthMonitor?: MonitorState };
+
+function getState(): MonitorState {
+  globalForMonitor.algoHealthMonitor ??= { timer: null, running: false, lastPrunedAt: 0 };
+  return globalForMonitor.algoHealthMonitor;
+}
+
+// ============ Scheduling ============
+
+/**
+ * Start polling. The interval comes from ALGO_HEALTH_MONITOR_INTERVAL_MS
+ * (default 60s); set it to 0 to disable the monitor.
+ */
+export function startHealthMonitor(): void {
+  const state = getState();
+  if (state.timer) return;
+
+  const configured = process.env.ALGO_HEALTH_MONITOR_INTERVAL_MS;
+  const intervalMs = configured === undefined ? DEFAULT_INTERVAL_MS : parseInt(configured, 10);
+  if (!intervalMs || intervalMs <= 0) {
+    console.log("[HealthMonitor] Disabled (ALGO_HEALTH_MONITOR_INTERVAL_MS=0)");
+    return;
+  }
+
+  console.log(`[HealthMonitor] Checking devices every ${Math.round(intervalMs / 1000)}s`);
+  state.timer = setInterval(() => void runScheduledCheck(), intervalMs);
+  // Don't keep a CLI process alive just for the monitor
+  state.timer.unref?.();
+  void runScheduledCheck();
+}
+
+export function stopHealthMonitor(): void {
+  const state = getState();
+  if (state.timer) {
+    clearInterval(state.timer);
+    state.timer = null;
+  }
+}
+
+async function runScheduledCheck(): Promise<void> {
+  const state = getState();
+  // A slow round (many offline devices) must not overlap the next one
+  if (state.running) return;
+  state.running = true;
+
+  try {
+    await runHealthCheck();
+    if (Date.now() - state.lastPrunedAt > PRUNE_INTERVAL_MS) {
+      state.lastPrunedAt = Date.now();
+      await pruneHistory();
+    }
+  } catch (error) {
+    console.error("[HealthMonitor] Health check round failed:", error);
+  } finally {
+    state.running = false;
+  }
+}
+
+/**
+ * Check every registered device once and record the results
+ */
+export async function runHealthCheck(): Promise<DeviceHealth[]> {
+  const devices = await getAllRegisteredDevices();
+  if (devices.length === 0) return [];
+
+  const results = await checkDevicesHealth(devices, CHECK_TIMEOUT_MS);
+  await recordResults(results, new Date());
+
+  const offline = results.filter((r) => !r.isOnline).length;
+  if (offline > 0) {
+    console.log(`[HealthMonitor] ${results.length - offline}/${results.length} devices online`);
+  }
+  return results;
+}
+
+// ============ Recording ============
+
+async function recordResults(results: DeviceHealth[], checkedAt: Date): Promise<void> {
+  const store = getDataStore();
+  const hourStart = startOfHour(checkedAt);
+  const hourKey = hourStart.toISOString().slice(0, 13);
+
+  const writes = results.flatMap((result) => {
+    const authFailed = result.isOnline && result.authValid === false;
+    const hasLatency = result.isOnline && result.responseTime !== undefined;
+
+    return [
+      store.add(SAMPLES, {
+        deviceId: result.id,
+        isOnline: result.isOnline,
+        authValid: result.authValid,
+        responseTime: result.responseTime,
+        error: result.error || undefined,
+        checkedAt,
+      }),
+
+      store.set(
+        HOURLY,
+        `${result.id}_${hourKey}`,
+        {
+          deviceId: result.id,
+          hour: hourStart,
+          checks: increment(1),
+          online: increment(result.isOnline ? 1 : 0),
+          authFailures: increment(authFailed ? 1 : 0),
+          responseTimeTotal: increment(hasLatency ? result.responseTime! : 0),
+          responseTimeCount: increment(hasLatency ? 1 : 0),
+          lastCheckedAt: checkedAt,
+          lastError: result.error || undefined,
+        },
+        { merge: true }
+      ),
+
+      // update() fails for a device deleted mid-round instead of recreating it
+      store.update(DEVICES, result.id, {
+        isOnline: result.isOnline,
+        authValid: result.authValid,
+        lastSeen: result.isOnline ? checkedAt : undefined,
+      }),
+    ];
+  });
+
+  // Individual write failures are logged and skipped, not retried
+  for (const outcome of await Promise.allSettled(writes)) {
+    if (outcome.status === "rejected" && !(outcome.reason instanceof StoreNotFoundError)) {
+      console.error("[HealthMonitor] Failed to record health check:", outcome.reason);
+    }
+  }
+}
+
+async function pruneHistory(): Promise<void> {
+  const day = 24 * 60 * 60 * 1000;
+  const deleted =
+    (await deleteOlderThan(SAMPLES, "checkedAt", new Date(Date.now() - SAMPLE_RETENTION_DAYS * day))) +
+    (await deleteOlderThan(HOURLY, "hour", new Date(Date.now() - HOURLY_RETENTION_DAYS * day)));
+
+  if (deleted > 0) {
+    console.log(`[HealthMonitor] Pruned ${deleted} old health records`);
+  }
+}
+
+async function deleteOlderThan(collection: string, field: string, cutoff: Date): Promise<number> {
+  const store = getDataStore();
+  let deleted = 0;
+  for (;;) {
+    const docs = await store.query(collection, { where: [{ field, op: "<", value: cutoff }], limit: 500 });
+    if (docs.length === 0) return deleted;
+
+    await Promise.all(docs.map((doc) => store.delete(collection, doc.id)));
+    deleted += docs.length;
+  }
+}
+
+// ============ Reads ============
+
+/**
+ * Uptime and latency per device over the last `hours` hours, from the hourly rollups
+ */
+export async function getDeviceUptime(hours: number, deviceId?: string): Promise<DeviceUptime[]> {
+  const since = new Date(startOfHour(new Date()).getTime() - (hours - 1) * 60 * 60 * 1000);
+
+  const where: NonNullable<QueryOptions["where"]> = [{ field: "hour", op: ">=", value: since }];
+  if (deviceId) {
+    where.unshift({ field: "deviceId", op: "==", value: deviceId });
+  }
+  const docs = await getDataStore().query(HOURLY, { where, orderBy: { field: "hour" } });
+
+  const byDevice = new Map<string, DeviceUptime & { online: number; latencyTotal: number; latencyCount: number }>();
+
+  for (const data of docs) {
+    const id = data.deviceId as string;
+    const entry = byDevice.get(id) ?? {
+      deviceId: id,
+      checks: 0,
+      uptimePercent: null,
+      avgResponseTime: null,
+      authFailures: 0,
+      lastCheckedAt: null,
+      series: [],
+      online: 0,
+      latencyTotal: 0,
+      latencyCount: 0,
+    };
+
+    const checks = (data.checks as number | undefined) ?? 0;
+    const online = (data.online as number | undefined) ?? 0;
+    const latencyTotal = (data.responseTimeTotal as number | undefined) ?? 0;
+    const latencyCount = (data.responseTimeCount as number | undefined) ?? 0;
+
+    entry.checks += checks;
+    entry.online += online;
+    entry.latencyTotal += latencyTotal;
+    entry.latencyCount += latencyCount;
+    entry.authFailures += (data.authFailures as number | undefined) ?? 0;
+    if (data.lastError) entry.lastError = data.lastError as string;
+    entry.lastCheckedAt = (data.lastCheckedAt as Date | undefined) ?? entry.lastCheckedAt;
+
+    const bucket: UptimeBucket = {
+      hour: data.hour as Date,
+      checks,
+      uptimePercent: checks > 0 ? round((online / checks) * 100) : 0,
+      avgResponseTime: latencyCount > 0 ? Math.round(latencyTotal / latencyCount) : null,
+    };
+    entry.series.push(bucket);
+    byDevice.set(id, entry);
+  }
+
+  return Array.from(byDevice.values()).map(({ online, latencyTotal, latencyCount, ...uptime }) => ({
+    ...uptime,
+    uptimePercent: uptime.checks > 0 ? round((online / uptime.checks) * 100) : null,
+    avgResponseTime: latencyCount > 0 ? Math.round(latencyTotal / latencyCount) : null,
+  }));
+}
+
+// ============ Helpers ============
+
+function startOfHour(date: Date): Date {
+  const hour = new Date(date);
+  hour.setUTCMinutes(0, 0, 0);
+  return hour;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
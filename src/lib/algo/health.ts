@@ -0,0 +1,142 @@
+import { AlgoAuthError } from "./errors";
+import { createDeviceClient, type RegisteredDevice } from "./registry";
+import { publishDeviceHealth } from "./events";
+import type { SpeakerMulticastCheck } from "./multicast-monitor";
+
+// Device health checks, shared by /api/algo/health and the background monitor
+
+export interface DeviceHealth {
+  id: string;
+  ipAddress: string;
+  isOnline: boolean;
+  authValid?: boolean; // true = auth works, false = wrong password, undefined = couldn't check
+  responseTime?: number; // milliseconds
+  lastChecked: string;
+  error?: string;
+  multicast?: SpeakerMulticastCheck; // Speakers only, when the check asks for it
+}
+
+export interface HealthCheckResult {
+  isOnline: boolean;
+  authValid?: boolean;
+  responseTime?: number;
+  error?: string;
+}
+
+// Check if a single device is reachable and if auth is valid
+export async function checkDeviceHealth(
+  device: RegisteredDevice,
+  timeout: number = 3000
+): Promise<HealthCheckResult> {
+  const startTime = Date.now();
+
+  try {
+    // First, check if device is reachable (basic connectivity)
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    const pingResponse = await fetch(`http://${device.ipAddress}`, {
+      signal: controller.signal,
+      method: "HEAD",
+      headers: {
+        "User-Agent": "AlgoSound-Health/1.0",
+      },
+    });
+
+    clearTimeout(timeoutId);
+    const responseTime = Date.now() - startTime;
+
+    // Device is not reachable
+    if (!pingResponse.ok && pingResponse.status !== 401) {
+      return {
+        isOnline: false,
+        error: `HTTP ${pingResponse.status}`,
+        responseTime,
+      };
+    }
+
+    // Device is reachable, now test authentication
+    try {
+      const client = createDeviceClient(device, {
+        timeoutMs: timeout,
+        retries: 0,
+      });
+
+      // Try to get a simple setting (like device info)
+      // This will fail if auth is wrong
+      await client.getSetting("info.product");
+
+      // Auth is valid!
+      return {
+        isOnline: true,
+        authValid: true,
+        responseTime,
+      };
+    } catch (authError) {
+      if (authError instanceof AlgoAuthError) {
+        // Device is online but auth failed
+        return {
+          isOnline: true,
+          authValid: false,
+          responseTime,
+          error: "Invalid credentials",
+        };
+      }
+
+      // Device answered the ping but the API call failed for another reason
+      return {
+        isOnline: true,
+        responseTime,
+        error: authError instanceof Error ? authError.message : "API check failed",
+      };
+    }
+  } catch (error) {
+    const responseTime = Date.now() - startTime;
+
+    if (error instanceof Error) {
+      if (error.name === "AbortError") {
+        return {
+          isOnline: false,
+          responseTime,
+          error: "Timeout",
+        };
+      }
+      return {
+        isOnline: false,
+        error: error.message,
+        responseTime,
+      };
+    }
+
+    return {
+      isOnline: false,
+      error: "Unknown error",
+      responseTime,
+    };
+  }
+}
+
+/**
+ * Check several devices in parallel
+ */
+export async function checkDevicesHealth(devices: RegisteredDevice[], timeout: number = 3000): Promise<DeviceHealth[]> {
+  const results = await Promise.all(
+    devices.map(async (device): Promise<DeviceHealth> => {
+      const health = await checkDeviceHealth(device, timeout);
+
+      return {
+        id: device.id,
+        ipAddress: device.ipAddress,
+        isOnline: health.isOnline,
+        authValid: health.authValid,
+        responseTime: health.responseTime,
+        lastChecked: new Date().toISOString(),
+        error: health.error,
+      };
+    })
+  );
+
+  // Consoles hear about devices that went on or offline
+  publishDeviceHealth(results);
+  return results;
+}
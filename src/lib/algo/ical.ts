@@ -0,0 +1,272 @@
+import { dateKey, type ScheduleInput } from "./schedules";
+import type { Holiday, ScheduleRule } from "./types";
+
+// iCalendar (.ics) import for schedules. Each timed event becomes a
+// schedule (its RRULE a weekly or cron rule, its EXDATEs exclusions, its
+// start and UNTIL the schedule's dates) and each day of an all-day event a
+// holiday. Times are taken as local time: UTC times are converted, a TZID
+// is not. Events a schedule can't repeat faithfully are skipped with the
+// reason.
+
+// What every imported schedule plays, and where
+export type ScheduleTemplate = Pick<ScheduleInput, "audio" | "deviceIds" | "zoneIds" | "volume" | "loop" | "skipHolidays">;
+
+export interface ICalImport {
+  schedules: ScheduleInput[];
+  holidays: Holiday[];
+  skipped: { summary: string; reason: string }[];
+}
+
+interface ICalProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+// An event's properties, several values per name (e.g. EXDATE)
+type ICalEvent = Map<string, ICalProperty[]>;
+
+interface ICalTime {
+  date: Date;
+  allDay: boolean;
+}
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// Holidays one import may add, so a stray DTEND years out can't flood the list
+const MAX_HOLIDAYS = 1000;
+
+// ============ Parsing ============
+
+function parseProperty(line: string): [string, ICalProperty] | null {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length && colon < 0; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ":" && !inQuotes) colon = i;
+  }
+  if (colon < 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const eq = part.indexOf("=");
+    if (eq > 0) params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return [name.toUpperCase(), { params, value: line.slice(colon + 1) }];
+}
+
+/**
+ * The VEVENTs in a calendar. Nested components (alarms) are left out.
+ */
+function parseEvents(text: string): ICalEvent[] {
+  // Long lines are folded onto continuation lines starting with a space or tab
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: ICalEvent[] = [];
+  let event: ICalEvent | null = null;
+  let nested = 0;
+
+  for (const line of lines) {
+    const property = parseProperty(line);
+    if (!property) continue;
+    const [name, { value }] = property;
+
+    if (name === "BEGIN") {
+      if (event) nested++;
+      else if (value.toUpperCase() === "VEVENT") event = new Map();
+    } else if (name === "END") {
+      if (nested > 0) nested--;
+      else if (event && value.toUpperCase() === "VEVENT") {
+        events.push(event);
+        event = null;
+      }
+    } else if (event && nested === 0) {
+      event.set(name, [...(event.get(name) ?? []), property[1]]);
+    }
+  }
+  return events;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+function parseTime(value: string, params: Record<string, string>): ICalTime | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map((part) => Number(part ?? 0));
+
+  if (params.VALUE === "DATE" || match[4] === undefined) {
+    return { date: new Date(year, month - 1, day), allDay: true };
+  }
+  const date = match[7]
+    ? new Date(Date.UTC(year, month - 1, day, hour, minute, second))
+    : new Date(year, month - 1, day, hour, minute, second);
+  return { date, allDay: false };
+}
+
+function first(event: ICalEvent, name: string): ICalProperty | undefined {
+  return event.get(name)?.[0];
+}
+
+// ============ Rules ============
+
+/**
+ * The schedule rule for an RRULE starting at `start`, or the reason it
+ * can't be one
+ */
+function ruleFromRRule(rrule: string, start: Date): { rule: ScheduleRule } | { reason: string } {
+  const parts = new Map(
+    rrule.split(";").map((part) => {
+      const [key, value = ""] = part.split("=");
+      return [key.toUpperCase(), value.toUpperCase()] as const;
+    })
+  );
+
+  if (parts.has("COUNT")) return { reason: "Repeats a set number of times" };
+
+  const supported = ["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY", "BYMONTH", "UNTIL", "WKST"];
+  const unsupported = [...parts.keys()].filter((key) => !supported.includes(key));
+  if (unsupported.length > 0) return { reason: `Repeats by ${unsupported.join(", ")}` };
+  if ((parts.get("INTERVAL") ?? "1") !== "1") return { reason: `Repeats every ${parts.get("INTERVAL")} periods` };
+
+  const byDay = parts.get("BYDAY")?.split(",");
+  if (byDay?.some((day) => !WEEKDAY_CODES.includes(day))) {
+    return { reason: "Repeats on numbered weekdays (e.g. first Monday)" };
+  }
+  const days = byDay?.map((day) => WEEKDAY_CODES.indexOf(day));
+  const time = `${String(start.getHours()).padStart(2, "0")}:${String(start.getMinutes()).padStart(2, "0")}`;
+  const monthDays = parts.get("BYMONTHDAY") ?? String(start.getDate());
+  if (monthDays.split(",").some((day) => !/^\d+$/.test(day))) {
+    return { reason: "Repeats on days counted from the end of the month" };
+  }
+
+  const freq = parts.get("FREQ");
+  if ((freq === "DAILY" || freq === "WEEKLY") && (parts.has("BYMONTH") || parts.has("BYMONTHDAY"))) {
+    // Limited to some months or days of the month: a cron rule, e.g.
+    // "every Monday in June to August" is "0 7 * 6,7,8 1"
+    const weekdays = days ?? (freq === "WEEKLY" ? [start.getDay()] : null);
+    if (weekdays && parts.has("BYMONTHDAY")) {
+      // Cron runs on either the weekday or the day of the month, not only both
+      return { reason: "Repeats on weekdays that are also set days of the month" };
+    }
+    const expression = [
+      start.getMinutes(),
+      start.getHours(),
+      parts.get("BYMONTHDAY") ?? "*",
+      parts.get("BYMONTH") ?? "*",
+      weekdays?.join(",") ?? "*",
+    ].join(" ");
+    return { rule: { kind: "cron", expression } };
+  }
+
+  switch (freq) {
+    case "DAILY":
+      return { rule: { kind: "weekly", days: days ?? [0, 1, 2, 3, 4, 5, 6], time } };
+    case "WEEKLY":
+      return { rule: { kind: "weekly", days: days ?? [start.getDay()], time } };
+    case "MONTHLY":
+      if (days) return { reason: "Repeats monthly on weekdays" };
+      return { rule: { kind: "cron", expression: `${start.getMinutes()} ${start.getHours()} ${monthDays} * *` } };
+    case "YEARLY": {
+      if (days) return { reason: "Repeats yearly on weekdays" };
+      const months = parts.get("BYMONTH") ?? String(start.getMonth() + 1);
+      return { rule: { kind: "cron", expression: `${start.getMinutes()} ${start.getHours()} ${monthDays} ${months} *` } };
+    }
+    default:
+      return { reason: `Repeats ${freq?.toLowerCase() ?? "without a frequency"}` };
+  }
+}
+
+// ============ Import ============
+
+/**
+ * Turn a calendar into schedules and holidays. One-off events that have
+ * passed by `now` are skipped.
+ */
+export function importICalendar(text: string, template: ScheduleTemplate, now = new Date()): ICalImport {
+  const result: ICalImport = { schedules: [], holidays: [], skipped: [] };
+
+  for (const event of parseEvents(text)) {
+    const summary = unescapeText(first(event, "SUMMARY")?.value ?? "").trim() || "Untitled event";
+    const skip = (reason: string) => result.skipped.push({ summary, reason });
+
+    const dtstart = first(event, "DTSTART");
+    const start = dtstart && parseTime(dtstart.value, dtstart.params);
+    const rrule = first(event, "RRULE")?.value;
+
+    if (first(event, "STATUS")?.value.toUpperCase() === "CANCELLED") {
+      skip("Cancelled");
+      continue;
+    }
+    if (first(event, "RECURRENCE-ID")) {
+      skip("Changes one occurrence of another event");
+      continue;
+    }
+    if (!start) {
+      skip("No start time");
+      continue;
+    }
+
+    if (start.allDay) {
+      if (rrule) {
+        skip("Repeating all-day event; add each holiday date instead");
+        continue;
+      }
+      // One holiday per day, DTEND being the day after the last
+      const dtend = first(event, "DTEND");
+      const end = dtend && parseTime(dtend.value, dtend.params);
+      const day = new Date(start.date);
+      do {
+        // The first event to claim a date names it
+        if (!result.holidays.some((holiday) => holiday.date === dateKey(day))) {
+          result.holidays.push({ date: dateKey(day), name: summary });
+        }
+        day.setDate(day.getDate() + 1);
+      } while (end && day < end.date && result.holidays.length < MAX_HOLIDAYS);
+      continue;
+    }
+
+    let rule: ScheduleRule;
+    let endsOn: string | null = null;
+    if (rrule) {
+      const converted = ruleFromRRule(rrule, start.date);
+      if ("reason" in converted) {
+        skip(converted.reason);
+        continue;
+      }
+      rule = converted.rule;
+      const until = /(?:^|;)UNTIL=([^;]+)/i.exec(rrule)?.[1];
+      const untilTime = until ? parseTime(until, {}) : null;
+      if (until && !untilTime) {
+        skip("Unreadable UNTIL");
+        continue;
+      }
+      endsOn = untilTime ? dateKey(untilTime.date) : null;
+    } else {
+      if (start.date <= now) {
+        skip("Already over");
+        continue;
+      }
+      rule = { kind: "once", at: `${dateKey(start.date)}T${start.date.toTimeString().slice(0, 5)}` };
+    }
+
+    const exclusions = (event.get("EXDATE") ?? []).flatMap((exdate) =>
+      exdate.value.split(",").flatMap((value) => {
+        const time = parseTime(value, exdate.params);
+        return time ? [dateKey(time.date)] : [];
+      })
+    );
+
+    result.schedules.push({
+      ...template,
+      name: summary,
+      rule,
+      exclusions: [...new Set(exclusions)],
+      startsOn: rrule ? dateKey(start.date) : null,
+      endsOn,
+      enabled: true,
+    });
+  }
+  return result;
+}
@@ -0,0 +1,254 @@
+import { openRtpMonitor, type RtpMonitor, type RtpStreamStats } from "@/lib/audio/rtp-monitor";
+import { createDeviceClient, getAllRegisteredDevices, getAllRegisteredZones, type RegisteredDevice } from "./registry";
+
+// Background multicast monitor. Started once per server process from
+// src/instrumentation.ts, it reads each paging device's (8301) multicast
+// sender address and port, joins those groups and measures the audio on
+// them. Together with a speaker's own multicast settings that tells
+// "the 8301 isn't transmitting" apart from "the speaker isn't listening".
+// Zones with their own group (Zone.multicast) are watched the same way.
+
+const DEFAULT_INTERVAL_MS = 60000;
+const SETTINGS_TIMEOUT_MS = 3000;
+
+const MCAST_MODES: Record<string, MulticastMode> = {
+  "0": "none",
+  "1": "sender",
+  "2": "receiver",
+};
+
+export type MulticastMode = "none" | "sender" | "receiver";
+
+export interface MulticastGroupStatus {
+  address: string;
+  port: number;
+  senders: { id: string; name: string }[]; // Paging devices configured to send here
+  zones: { id: string; name: string }[]; // Zones whose group this is
+  transmitting: boolean; // A stream on the group is active
+  streams: RtpStreamStats[];
+  error?: string; // The server could not join the group
+}
+
+export type MulticastDiagnosis =
+  | "receiving" // Listening on a group with audio on it
+  | "no_audio" // Listening, but nothing is transmitting on the group
+  | "not_listening" // Multicast mode isn't Receiver
+  | "other_group" // Listening on a group no paging device sends to
+  | "unknown"; // The speaker's settings couldn't be read
+
+export interface SpeakerMulticastCheck {
+  mode?: MulticastMode;
+  address?: string;
+  port?: number;
+  diagnosis: MulticastDiagnosis;
+  detail: string;
+}
+
+interface MulticastSettings {
+  mode: MulticastMode | null;
+  address: string;
+  port: number;
+}
+
+interface GroupEntry {
+  address: string;
+  port: number;
+  monitor: RtpMonitor | null;
+  zones: { id: string; name: string }[];
+  error?: string;
+}
+
+interface MonitorState {
+  timer: ReturnType<typeof setInterval> | null;
+  running: boolean;
+  groups: Map<string, GroupEntry>;
+  // Last settings read from each paging device; kept while it's unreachable
+  senders: Map<string, { name: string; address: string; port: number }>;
+}
+
+// Kept on globalThis so dev-mode module reloads don't join the groups twice
+const globalForMonitor = globalThis as typeof globalThis & { algoMulticastMonitor?: MonitorState };
+
+function getState(): MonitorState {
+  globalForMonitor.algoMulticastMonitor ??= { timer: null, running: false, groups: new Map(), senders: new Map() };
+  return globalForMonitor.algoMulticastMonitor;
+}
+
+const groupKey = (address: string, port: number) => `${address}:${port}`;
+
+// ============ Scheduling ============
+
+/**
+ * Start watching the paging devices' groups. Their settings are re-read
+ * every ALGO_MULTICAST_MONITOR_INTERVAL_MS (default 60s); set it to 0 to
+ * disable the monitor.
+ */
+export function startMulticastMonitor(): void {
+  const state = getState();
+  if (state.timer) return;
+
+  const configured = process.env.ALGO_MULTICAST_MONITOR_INTERVAL_MS;
+  const intervalMs = configured === undefined ? DEFAULT_INTERVAL_MS : parseInt(configured, 10);
+  if (!intervalMs || intervalMs <= 0) {
+    console.log("[MulticastMonitor] Disabled (ALGO_MULTICAST_MONITOR_INTERVAL_MS=0)");
+    return;
+  }
+
+  state.timer = setInterval(() => void runScheduledRefresh(), intervalMs);
+  state.timer.unref?.();
+  void runScheduledRefresh();
+}
+
+export function stopMulticastMonitor(): void {
+  const state = getState();
+  if (state.timer) {
+    clearInterval(state.timer);
+    state.timer = null;
+  }
+  for (const entry of state.groups.values()) entry.monitor?.close();
+  state.groups.clear();
+}
+
+async function runScheduledRefresh(): Promise<void> {
+  const state = getState();
+  if (state.running) return;
+  state.running = true;
+
+  try {
+    await refreshMulticastGroups();
+  } catch (error) {
+    console.error("[MulticastMonitor] Refresh failed:", error);
+  } finally {
+    state.running = false;
+  }
+}
+
+/**
+ * Re-read every paging device's sender settings and the zone groups, then
+ * join new groups and leave ones nothing sends to any more
+ */
+export async function refreshMulticastGroups(): Promise<void> {
+  const state = getState();
+  const [devices, zones] = await Promise.all([getAllRegisteredDevices(), getAllRegisteredZones()]);
+  const pagers = devices.filter((device) => device.type === "8301");
+
+  await Promise.all(
+    pagers.map(async (device) => {
+      try {
+        const settings = await readMulticastSettings(device);
+        if (settings.mode === "sender" && settings.address && settings.port) {
+          state.senders.set(device.id, { name: device.name, address: settings.address, port: settings.port });
+        } else {
+          state.senders.delete(device.id);
+        }
+      } catch {
+        // Offline - keep what it was last configured with
+      }
+    })
+  );
+  for (const id of state.senders.keys()) {
+    if (!pagers.some((device) => device.id === id)) state.senders.delete(id);
+  }
+
+  const wanted = new Map<string, { address: string; port: number; zones: { id: string; name: string }[] }>();
+  const want = (address: string, port: number) => {
+    const key = groupKey(address, port);
+    if (!wanted.has(key)) wanted.set(key, { address, port, zones: [] });
+    return wanted.get(key)!;
+  };
+  for (const sender of state.senders.values()) {
+    want(sender.address, sender.port);
+  }
+  // Polycom zones share one address and port; the monitor can't tell their
+  // groups apart, so only RTP zones are listed by name
+  for (const zone of zones) {
+    if (zone.multicast?.type !== "rtp") continue;
+    want(zone.multicast.address, parseInt(zone.multicast.port, 10)).zones.push({ id: zone.id, name: zone.name });
+  }
+
+  for (const [key, entry] of state.groups) {
+    if (wanted.has(key)) continue;
+    entry.monitor?.close();
+    state.groups.delete(key);
+    console.log(`[MulticastMonitor] Left ${key}`);
+  }
+
+  await Promise.all(
+    Array.from(wanted, async ([key, group]) => {
+      const existing = state.groups.get(key);
+      if (existing) existing.zones = group.zones;
+      if (existing?.monitor) return;
+
+      const entry: GroupEntry = existing ?? { ...group, monitor: null };
+      state.groups.set(key, entry);
+      try {
+        entry.monitor = await openRtpMonitor(group.address, group.port);
+        entry.error = undefined;
+        console.log(`[MulticastMonitor] Listening on ${key}`);
+      } catch (error) {
+        entry.error = error instanceof Error ? error.message : "Could not join the group";
+        console.error(`[MulticastMonitor] Could not join ${key}:`, error);
+      }
+    })
+  );
+}
+
+// ============ Queries ============
+
+export function getMulticastGroups(): MulticastGroupStatus[] {
+  const state = getState();
+  return Array.from(state.groups.values(), (entry) => {
+    const streams = entry.monitor?.streams() ?? [];
+    return {
+      address: entry.address,
+      port: entry.port,
+      senders: Array.from(state.senders, ([id, sender]) => ({ id, ...sender }))
+        .filter((sender) => sender.address === entry.address && sender.port === entry.port)
+        .map(({ id, name }) => ({ id, name })),
+      zones: entry.zones,
+      transmitting: streams.some((stream) => stream.active),
+      streams,
+      error: entry.error,
+    };
+  });
+}
+
+/**
+ * Read a speaker's multicast settings and compare them with what is on
+ * the paging devices' groups right now
+ */
+export async function checkSpeakerMulticast(device: RegisteredDevice): Promise<SpeakerMulticastCheck> {
+  let settings: MulticastSettings;
+  try {
+    settings = await readMulticastSettings(device);
+  } catch (error) {
+    return {
+      diagnosis: "unknown",
+      detail: `Could not read multicast settings: ${error instanceof Error ? error.message : "unknown error"}`,
+    };
+  }
+
+  const { mode, address, port } = settings;
+  const check = { mode: mode ?? undefined, address, port };
+  if (mode !== "receiver") {
+    return { ...check, diagnosis: "not_listening", detail: `Multicast mode is ${mode ?? "unknown"}, not receiver` };
+  }
+
+  const group = getMulticastGroups().find((g) => g.address === address && g.port === port);
+  if (!group) {
+    return { ...check, diagnosis: "other_group", detail: `Listening on ${address}:${port}, which no paging device or zone sends to` };
+  }
+  if (!group.transmitting) {
+    const senders = [...group.senders, ...group.zones].map((s) => s.name).join(", ") || "the paging device";
+    return { ...check, diagnosis: "no_audio", detail: `Listening, but ${senders} is not transmitting on ${address}:${port}` };
+  }
+  return { ...check, diagnosis: "receiving", detail: `Listening on ${address}:${port}, audio is on the group` };
+}
+
+async function readMulticastSettings(device: RegisteredDevice): Promise<MulticastSettings> {
+  const client = createDeviceClient(device, { timeoutMs: SETTINGS_TIMEOUT_MS, retries: 0 });
+  const [mode, address, port] = await Promise.all(
+    ["mcast.mode", "mcast.address", "mcast.port"].map(async (key) => (await client.getSetting(key))[key])
+  );
+  return { mode: MCAST_MODES[mode] ?? null, address, port: parseInt(port, 10) };
+}
@@ -0,0 +1,18 @@
+// Paging priority levels, shared by the arbiter (paging-arbiter.ts) and the
+// pages that show or pick them
+
+export type PagePriority = "emergency" | "dispatch" | "announcement" | "routine";
+
+// Highest first
+export const PAGE_PRIORITIES: PagePriority[] = ["emergency", "dispatch", "announcement", "routine"];
+
+export const PAGE_PRIORITY_LABELS: Record<PagePriority, string> = {
+  emergency: "Emergency",
+  dispatch: "Dispatch",
+  announcement: "Announcement",
+  routine: "Routine",
+};
+
+export function isPagePriority(value: unknown): value is PagePriority {
+  return PAGE_PRIORITIES.includes(value as PagePriority);
+}
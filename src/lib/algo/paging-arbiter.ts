@@ -0,0 +1,435 @@
+import { randomUUID } from "crypto";
+import { PagingBusyError } from "./errors";
+import { createDeviceClient, type RegisteredDevice } from "./registry";
+import { PAGE_PRIORITIES, PAGE_PRIORITY_LABELS, type PagePriority } from "./page-priority";
+import { publishEvent } from "./events";
+
+// Server-wide paging arbitration. Every playback path (distribute, play,
+// test tone, the Live monitor, emergency controls) takes a lease on the
+// devices it drives before it touches them. A device belongs to the
+// highest-priority lease that wants it; a new page preempts lower
+// priorities, and is rejected or queued when an equal or higher one holds
+// any of its devices.
+
+const DEFAULT_QUEUE_WAIT_MS = 60000;
+const ENDED_KEEP_MS = 5 * 60 * 1000; // How long a preempted lease's fate is remembered
+
+export interface PageLease {
+  id: string;
+  priority: PagePriority;
+  label: string; // What is playing, e.g. "Distribute: chime.wav"
+  user?: string;
+  deviceIds: string[]; // Devices the page wants
+  heldIds: string[]; // Devices it owns right now (fewer than deviceIds only for partial leases)
+  partial: boolean; // Keeps the devices it can get instead of being preempted
+  startedAt: string;
+  expiresAt: string | null; // Leases held from a browser expire unless renewed
+}
+
+export interface QueuedPage {
+  id: string;
+  priority: PagePriority;
+  label: string;
+  user?: string;
+  deviceIds: string[];
+  queuedAt: string;
+}
+
+export interface PagingState {
+  leases: PageLease[];
+  queued: QueuedPage[];
+}
+
+export interface PageRequest {
+  priority: PagePriority;
+  label: string;
+  user?: string;
+  deviceIds: string[];
+  partial?: boolean;
+  ifBusy?: "reject" | "queue";
+  maxWaitMs?: number; // For ifBusy "queue"
+  ttlMs?: number; // Expire unless renewed; omit for pages the server ends itself
+  parentId?: string; // Part of this lease's page (e.g. the Live monitor's pre-tone), so it may share its devices
+  signal?: AbortSignal; // Stop waiting in the queue, e.g. when a playback job is cancelled
+}
+
+// A granted lease. `signal` aborts when a higher priority preempts it (or
+// it expires), with an Error saying which as its reason.
+export interface PageHandle {
+  lease: PageLease;
+  signal: AbortSignal;
+  release(): void;
+}
+
+interface LeaseEntry {
+  lease: PageLease;
+  order: number; // Equal priorities: the earlier lease keeps the device
+  parentId?: string;
+  ttlMs?: number;
+  controller: AbortController;
+}
+
+interface Waiter {
+  page: QueuedPage;
+  request: PageRequest;
+  order: number;
+  resolve: (handle: PageHandle) => void;
+  reject: (error: unknown) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface ArbiterState {
+  leases: Map<string, LeaseEntry>;
+  waiters: Waiter[];
+  ended: Map<string, { reason: "preempted" | "expired"; by?: string; at: number }>;
+  nextOrder: number;
+  expiryTimer: ReturnType<typeof setInterval> | null;
+  announcing: boolean;
+  announced: string; // Last state pushed to consoles, without expiry times
+}
+
+// Kept on globalThis so dev-mode module reloads share one arbiter
+const globalForArbiter = globalThis as typeof globalThis & { algoPagingArbiter?: ArbiterState };
+
+function getState(): ArbiterState {
+  globalForArbiter.algoPagingArbiter ??= {
+    leases: new Map(),
+    waiters: [],
+    ended: new Map(),
+    nextOrder: 0,
+    expiryTimer: null,
+    announcing: false,
+    announced: "",
+  };
+  return globalForArbiter.algoPagingArbiter;
+}
+
+const rank = (priority: PagePriority) => PAGE_PRIORITIES.indexOf(priority);
+
+type Position = { priority: PagePriority; order: number };
+const position = (entry: LeaseEntry): Position => ({ priority: entry.lease.priority, order: entry.order });
+
+// Whether a outranks b: higher priority, or the same and earlier
+const outranks = (a: Position, b: Position) =>
+  rank(a.priority) !== rank(b.priority) ? rank(a.priority) < rank(b.priority) : a.order < b.order;
+
+// ============ Ownership ============
+
+// Device ID -> the lease that owns it
+function computeOwners(state: ArbiterState): Map<string, LeaseEntry> {
+  const owners = new Map<string, LeaseEntry>();
+  for (const entry of state.leases.values()) {
+    for (const id of entry.lease.deviceIds) {
+      const current = owners.get(id);
+      if (!current || outranks(position(entry), position(current))) owners.set(id, entry);
+    }
+  }
+  return owners;
+}
+
+// The lease that stops `request` from taking its devices, if any
+function findBlocker(state: ArbiterState, request: PageRequest, order: number): LeaseEntry | null {
+  const owners = computeOwners(state);
+  for (const id of request.deviceIds) {
+    const owner = owners.get(id);
+    if (owner && owner.lease.id !== request.parentId && !outranks({ priority: request.priority, order }, position(owner))) {
+      return owner;
+    }
+  }
+  return null;
+}
+
+// Push the leases and queue to every console once the current change is
+// done. Renewals that only move an expiry time aren't news.
+function announce(state: ArbiterState): void {
+  if (state.announcing) return;
+  state.announcing = true;
+  queueMicrotask(() => {
+    state.announcing = false;
+    const snapshot = getPagingState();
+    const key = JSON.stringify(snapshot, (field, value) => (field === "expiresAt" ? undefined : value));
+    if (key === state.announced) return;
+    state.announced = key;
+    publishEvent({ type: "paging", state: snapshot });
+  });
+}
+
+// Recompute what each lease holds. Whole leases that lost a device are
+// preempted; partial ones keep the rest.
+function settle(state: ArbiterState, actor?: LeaseEntry): void {
+  const owners = computeOwners(state);
+  for (const entry of Array.from(state.leases.values())) {
+    const held = entry.lease.deviceIds.filter((id) => {
+      const owner = owners.get(id);
+      return owner === entry || (owner !== undefined && owner.lease.id === entry.parentId);
+    });
+    if (!entry.lease.partial && held.length < entry.lease.deviceIds.length) {
+      const by = actor && actor !== entry ? actor.lease : owners.get(entry.lease.deviceIds.find((id) => !held.includes(id))!)?.lease;
+      endLease(state, entry, "preempted", by);
+      continue;
+    }
+    entry.lease.heldIds = held;
+  }
+  announce(state);
+}
+
+function endLease(state: ArbiterState, entry: LeaseEntry, reason: "preempted" | "expired", by?: PageLease): void {
+  state.leases.delete(entry.lease.id);
+  const byLabel = by ? `${by.label} (${PAGE_PRIORITY_LABELS[by.priority]})` : undefined;
+  state.ended.set(entry.lease.id, { reason, by: byLabel, at: Date.now() });
+  console.log(`[Paging] ${entry.lease.label} ${reason}${byLabel ? ` by ${byLabel}` : ""}`);
+  entry.controller.abort(new Error(reason === "preempted" ? `Preempted by ${byLabel ?? "a higher priority page"}` : "Paging lease expired"));
+}
+
+function grant(state: ArbiterState, request: PageRequest, order: number, id: string = randomUUID()): PageHandle {
+  const now = Date.now();
+  const entry: LeaseEntry = {
+    lease: {
+      id,
+      priority: request.priority,
+      label: request.label,
+      user: request.user,
+      deviceIds: [...new Set(request.deviceIds)],
+      heldIds: [],
+      partial: request.partial ?? false,
+      startedAt: new Date(now).toISOString(),
+      expiresAt: request.ttlMs ? new Date(now + request.ttlMs).toISOString() : null,
+    },
+    order,
+    parentId: request.parentId,
+    ttlMs: request.ttlMs,
+    controller: new AbortController(),
+  };
+  state.leases.set(id, entry);
+  settle(state, entry);
+  if (entry.ttlMs) ensureExpiryTimer(state);
+  console.log(`[Paging] ${entry.lease.label} (${PAGE_PRIORITY_LABELS[entry.lease.priority]}) holds ${entry.lease.heldIds.length} devices`);
+
+  return {
+    lease: entry.lease,
+    signal: entry.controller.signal,
+    release: () => releasePage(id),
+  };
+}
+
+// Hand devices to queued pages that can now have them, highest first
+function drainQueue(state: ArbiterState): void {
+  const queuePosition = (waiter: Waiter): Position => ({ priority: waiter.request.priority, order: waiter.order });
+  const waiting = [...state.waiters].sort((a, b) => (outranks(queuePosition(a), queuePosition(b)) ? -1 : 1));
+  for (const waiter of waiting) {
+    // Ranked from now on, so it doesn't jump leases granted while it waited
+    const order = state.nextOrder;
+    if (findBlocker(state, waiter.request, order)) continue;
+    state.nextOrder++;
+    clearTimeout(waiter.timer);
+    state.waiters = state.waiters.filter((w) => w !== waiter);
+    waiter.resolve(grant(state, waiter.request, order, waiter.page.id));
+  }
+}
+
+function ensureExpiryTimer(state: ArbiterState): void {
+  if (state.expiryTimer) return;
+  state.expiryTimer = setInterval(() => {
+    const now = Date.now();
+    let changed = false;
+    for (const entry of Array.from(state.leases.values())) {
+      if (entry.lease.expiresAt && Date.parse(entry.lease.expiresAt) < now) {
+        endLease(state, entry, "expired");
+        changed = true;
+      }
+    }
+    for (const [id, ended] of state.ended) {
+      if (now - ended.at > ENDED_KEEP_MS) state.ended.delete(id);
+    }
+    if (changed) {
+      settle(state);
+      drainQueue(state);
+    }
+  }, 1000);
+  state.expiryTimer.unref?.();
+}
+
+// ============ Leases ============
+
+/**
+ * Take the devices for a page. Lower priorities holding any of them are
+ * preempted. When an equal or higher priority holds one, a partial request
+ * gets the rest, and otherwise it's rejected with PagingBusyError or queued
+ * until the devices free up (ifBusy "queue", up to maxWaitMs).
+ */
+export function acquirePage(request: PageRequest): Promise<PageHandle> {
+  if (request.signal?.aborted) return Promise.reject(request.signal.reason);
+
+  const state = getState();
+  const order = state.nextOrder++;
+
+  const blocker = request.partial ? null : findBlocker(state, request, order);
+  if (!blocker) return Promise.resolve(grant(state, request, order));
+
+  if (request.ifBusy !== "queue") {
+    return Promise.reject(new PagingBusyError(blocker.lease));
+  }
+
+  return new Promise((resolve, reject) => {
+    const page: QueuedPage = {
+      id: randomUUID(),
+      priority: request.priority,
+      label: request.label,
+      user: request.user,
+      deviceIds: [...new Set(request.deviceIds)],
+      queuedAt: new Date().toISOString(),
+    };
+    const timer = setTimeout(() => {
+      state.waiters = state.waiters.filter((w) => w.page !== page);
+      announce(state);
+      const current = findBlocker(state, request, order);
+      reject(new PagingBusyError(current?.lease ?? blocker.lease, true));
+    }, request.maxWaitMs ?? DEFAULT_QUEUE_WAIT_MS);
+    request.signal?.addEventListener("abort", () => {
+      if (!state.waiters.some((w) => w.page === page)) return;
+      clearTimeout(timer);
+      state.waiters = state.waiters.filter((w) => w.page !== page);
+      announce(state);
+      reject(request.signal!.reason);
+    });
+    state.waiters.push({ page, request, order, resolve, reject, timer });
+    announce(state);
+    console.log(`[Paging] ${request.label} queued behind ${blocker.lease.label}`);
+  });
+}
+
+/**
+ * Renew a lease held from a browser, optionally changing the devices it
+ * wants or its priority. Returns null once the lease has ended; see
+ * getEndedLease for why.
+ */
+export function renewPage(id: string, changes: { deviceIds?: string[]; priority?: PagePriority } = {}): PageLease | null {
+  const state = getState();
+  const entry = state.leases.get(id);
+  if (!entry) return null;
+
+  if (entry.ttlMs) entry.lease.expiresAt = new Date(Date.now() + entry.ttlMs).toISOString();
+  if (changes.deviceIds || changes.priority) {
+    if (changes.deviceIds) entry.lease.deviceIds = [...new Set(changes.deviceIds)];
+    if (changes.priority) entry.lease.priority = changes.priority;
+    settle(state, entry);
+    drainQueue(state);
+  }
+  return state.leases.has(id) ? entry.lease : null;
+}
+
+export function releasePage(id: string, reason = "Paging lease released"): void {
+  const state = getState();
+  const entry = state.leases.get(id);
+  if (!entry) return;
+
+  state.leases.delete(id);
+  console.log(`[Paging] ${entry.lease.label} released`);
+  // A page still playing under it (e.g. a stopped job) stops and cleans up
+  entry.controller.abort(new Error(reason));
+  settle(state);
+  drainQueue(state);
+}
+
+/**
+ * Check a stop may end the pages on the given devices: ones `caller.user`
+ * started, or of lower priority than `caller.priority`. Throws
+ * PagingBusyError for the first page it may not.
+ */
+export function assertCanStop(deviceIds: string[], caller: { user: string; priority: PagePriority }): void {
+  const owners = computeOwners(getState());
+  for (const id of deviceIds) {
+    const owner = owners.get(id);
+    if (owner && owner.lease.user !== caller.user && rank(caller.priority) >= rank(owner.lease.priority)) {
+      throw new PagingBusyError(owner.lease);
+    }
+  }
+}
+
+/**
+ * End every lease on the given devices, e.g. when they're told to stop
+ */
+export function releaseDevices(deviceIds: string[]): void {
+  const state = getState();
+  for (const entry of Array.from(state.leases.values())) {
+    if (!entry.lease.partial && entry.lease.deviceIds.some((id) => deviceIds.includes(id))) {
+      releasePage(entry.lease.id, "Stopped");
+    }
+  }
+}
+
+/**
+ * Take the sources and speakers for a playback. If it's preempted, the
+ * sources the new page isn't using are stopped.
+ */
+export async function acquirePlayback(
+  targets: { source: RegisteredDevice; speakers: RegisteredDevice[] }[],
+  request: Omit<PageRequest, "deviceIds" | "partial" | "ttlMs">
+): Promise<PageHandle> {
+  const sources = targets.map((target) => target.source);
+  const page = await acquirePage({
+    ...request,
+    deviceIds: targets.flatMap((target) => [target.source.id, ...target.speakers.map((s) => s.id)]),
+  });
+
+  page.signal.addEventListener("abort", () => {
+    // Released by its own page or a stop, which stop the sources themselves
+    if (!getEndedLease(page.lease.id)) return;
+    const free = new Set(devicesFreeFor(page.lease.id, sources.map((s) => s.id)));
+    for (const source of sources.filter((s) => free.has(s.id))) {
+      createDeviceClient(source).stopTone().catch((error) => {
+        console.error(`Failed to stop preempted page on ${source.ipAddress}:`, error);
+      });
+    }
+  });
+  return page;
+}
+
+// ============ Queries ============
+
+export function getPagingState(): PagingState {
+  const state = getState();
+  const leases = Array.from(state.leases.values()).sort((a, b) => (outranks(position(a), position(b)) ? -1 : 1));
+  return {
+    leases: leases.map((entry) => entry.lease),
+    queued: state.waiters.map((waiter) => waiter.page),
+  };
+}
+
+/**
+ * A live lease, or null once it has ended
+ */
+export function getLease(id: string): PageLease | null {
+  return getState().leases.get(id)?.lease ?? null;
+}
+
+export function getEndedLease(id: string): { reason: "preempted" | "expired"; by?: string } | null {
+  const ended = getState().ended.get(id);
+  return ended ? { reason: ended.reason, by: ended.by } : null;
+}
+
+/**
+ * Devices in `deviceIds` that no lease other than `leaseId` holds, so the
+ * page behind `leaseId` (or with null, anyone) may still reset them
+ */
+export function devicesFreeFor(leaseId: string | null, deviceIds: string[]): string[] {
+  const owners = computeOwners(getState());
+  return deviceIds.filter((id) => {
+    const owner = owners.get(id);
+    return !owner || owner.lease.id === leaseId;
+  });
+}
+
+/**
+ * Devices a lease wants but doesn't hold, each with the label of the page
+ * that has it
+ */
+export function blockedDevices(lease: PageLease): Record<string, string> {
+  const owners = computeOwners(getState());
+  const blocked: Record<string, string> = {};
+  for (const id of lease.deviceIds) {
+    const owner = owners.get(id);
+    if (owner && owner.lease.id !== lease.id) blocked[id] = `${owner.lease.label} (${PAGE_PRIORITY_LABELS[owner.lease.priority]})`;
+  }
+  return blocked;
+}
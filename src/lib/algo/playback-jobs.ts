@@ -0,0 +1,358 @@
+import { randomUUID } from "crypto";
+import type { AlgoClient } from "./client";
+import { createDeviceClient, type RegisteredDevice } from "./registry";
+import { acquirePlayback, devicesFreeFor, type PageRequest } from "./paging-arbiter";
+import { getSpeakerMulticast, planSends, sendState, type PageSend } from "./zone-multicast";
+import type { ZoneTarget } from "./zones";
+import type { DistributionResult } from "./distribution-logs";
+import { publishEvent } from "./events";
+import { describeError, type ApiErrorCode } from "@/lib/api/errors";
+
+// Playback runs as server-side jobs: the play and distribute routes answer
+// with a job ID straight away, every source device plays in parallel, and
+// progress and results stay queryable after the browser has moved on.
+
+const FINISHED_KEEP_MS = 60 * 60 * 1000; // How long finished jobs can be looked up
+
+// Where one source device is in its playback
+export type PlaybackStage = "waiting" | "enabling" | "playing" | "cleanup" | "done" | "failed" | "cancelled";
+
+export type PlaybackJobStatus = "running" | "completed" | "failed" | "cancelled";
+
+export interface PlaybackJobTarget {
+  deviceId: string;
+  deviceName: string;
+  zoneIds: string[];
+  stage: PlaybackStage;
+  error?: string;
+  code?: ApiErrorCode;
+}
+
+export interface PlaybackJob {
+  id: string;
+  kind: "distribute" | "play";
+  label: string; // The page label, e.g. "Distribute: chime.wav"
+  user?: string;
+  loop: boolean;
+  status: PlaybackJobStatus;
+  message?: string;
+  leaseId?: string; // Once the devices are held (see paging-arbiter.ts)
+  targets: PlaybackJobTarget[];
+  createdAt: string;
+  finishedAt?: string;
+}
+
+export interface PlaybackJobRequest {
+  kind: PlaybackJob["kind"];
+  targets: ZoneTarget<RegisteredDevice>[];
+  page: Omit<PageRequest, "deviceIds" | "partial" | "ttlMs" | "signal">;
+  filename: string;
+  loop: boolean;
+  volume?: number; // Defaults to each target's zone volume
+  onFinished?: (job: PlaybackJob) => Promise<void>; // e.g. the history log
+}
+
+interface JobEntry {
+  job: PlaybackJob;
+  controller: AbortController; // Aborted by cancelPlaybackJob
+}
+
+interface JobsState {
+  jobs: Map<string, JobEntry>;
+}
+
+// Kept on globalThis so dev-mode module reloads keep running jobs
+const globalForJobs = globalThis as typeof globalThis & { algoPlaybackJobs?: JobsState };
+
+function getState(): JobsState {
+  globalForJobs.algoPlaybackJobs ??= { jobs: new Map() };
+  return globalForJobs.algoPlaybackJobs;
+}
+
+// Push the job's progress to every console
+function announce(job: PlaybackJob): void {
+  publishEvent({ type: "job", job });
+}
+
+function pruneFinished(state: JobsState): void {
+  const cutoff = Date.now() - FINISHED_KEEP_MS;
+  for (const [id, entry] of state.jobs) {
+    if (entry.job.finishedAt && Date.parse(entry.job.finishedAt) < cutoff) state.jobs.delete(id);
+  }
+}
+
+// ============ Playback ============
+
+// Helper to control speaker multicast mode
+async function setSpeakersMcast(speakers: RegisteredDevice[], enable: boolean): Promise<void> {
+  if (speakers.length === 0) return;
+
+  const mcastMode = enable ? "2" : "0";
+
+  await Promise.all(
+    speakers.map(async (speaker) => {
+      try {
+        const client = createDeviceClient(speaker);
+        await client.setSetting({ "mcast.mode": mcastMode });
+      } catch (error) {
+        console.error(`Failed to set mcast for ${speaker.ipAddress}:`, error);
+      }
+    })
+  );
+}
+
+// Helper to wait for playback to complete (or the job to be cancelled or preempted)
+export async function waitForPlaybackComplete(
+  client: AlgoClient,
+  signal: AbortSignal,
+  maxWaitMs: number = 30000
+): Promise<void> {
+  const startTime = Date.now();
+  const pollInterval = 500;
+
+  while (Date.now() - startTime < maxWaitMs && !signal.aborted) {
+    try {
+      const status = await client.getStatus();
+      const currentAction = status["Current Action"];
+
+      if (!currentAction || currentAction === "None") {
+        return;
+      }
+    } catch (error) {
+      console.error("Status poll error:", error);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, pollInterval));
+  }
+
+  if (!signal.aborted) console.warn("Playback wait timeout reached");
+}
+
+// Play a file on one source device, once per send: to a zone's group, or
+// with its speakers switched on for the duration
+async function playOnDevice(
+  device: RegisteredDevice,
+  sends: PageSend[],
+  page: { leaseId: string; signal: AbortSignal },
+  options: { filename: string; loop: boolean; volume?: number },
+  setStage: (stage: PlaybackStage) => void
+): Promise<void> {
+  const client = createDeviceClient(device);
+
+  if (options.loop && sends.length > 1) {
+    throw new Error(`A looped tone can only reach one multicast group, but ${device.name}'s speakers receive ${sends.length}`);
+  }
+
+  // Set volume if different from default
+  if (options.volume !== undefined) {
+    const volumeDb = Math.round((options.volume / 100) * 42 - 42);
+    try {
+      await client.setSetting({ "audio.page.vol": `${volumeDb}dB` });
+    } catch (e) {
+      console.warn("Failed to set volume:", e);
+    }
+  }
+
+  // Leave speakers a page that preempted this one is using
+  const switchOff = async (speakers: RegisteredDevice[]) => {
+    const free = new Set(devicesFreeFor(page.leaseId, speakers.map((s) => s.id)));
+    await setSpeakersMcast(speakers.filter((s) => free.has(s.id)), false);
+  };
+  let enabled: RegisteredDevice[] = []; // Switched on and not yet back off
+
+  try {
+    for (const send of sends) {
+      page.signal.throwIfAborted();
+
+      // Step 1: Enable speakers (if this is a paging device with linked speakers)
+      if (send.speakers.length > 0) {
+        setStage("enabling");
+        enabled = send.speakers;
+        await setSpeakersMcast(send.speakers, true);
+        await new Promise((resolve) => setTimeout(resolve, 300));
+        page.signal.throwIfAborted();
+      }
+
+      // Step 2: Play tone, to the zone's group if it has one
+      setStage("playing");
+      await client.playTone(
+        {
+          path: options.filename,
+          loop: options.loop,
+          mcast: true,
+          ...(send.multicast ? { state: sendState(send.multicast) } : {}),
+        },
+        { signal: page.signal }
+      );
+
+      // Step 3: If not looping, wait for it to finish before the next send,
+      // disabling speakers or giving up the lease - even a send to a group or
+      // a lone speaker is still playing when playTone returns
+      if (!options.loop) {
+        await waitForPlaybackComplete(client, page.signal);
+        await new Promise((resolve) => setTimeout(resolve, 500));
+      }
+      if (!options.loop && enabled.length > 0) {
+        setStage("cleanup");
+        await switchOff(enabled);
+        enabled = [];
+      }
+    }
+    page.signal.throwIfAborted();
+  } catch (error) {
+    // Cancelled, preempted or failed partway: don't leave this send's speakers on
+    if (enabled.length > 0) await switchOff(enabled);
+    throw error;
+  }
+}
+
+async function runJob(entry: JobEntry, request: PlaybackJobRequest): Promise<void> {
+  const { job, controller } = entry;
+
+  try {
+    const speakerMulticast = await getSpeakerMulticast();
+    const page = await acquirePlayback(request.targets, { ...request.page, signal: controller.signal });
+    job.leaseId = page.lease.id;
+    announce(job);
+    const signal = AbortSignal.any([page.signal, controller.signal]);
+
+    try {
+      await Promise.all(
+        request.targets.map(async (target, index) => {
+          const progress = job.targets[index];
+          try {
+            await playOnDevice(
+              target.source,
+              planSends(target.speakers, speakerMulticast),
+              { leaseId: page.lease.id, signal },
+              { filename: request.filename, loop: request.loop, volume: request.volume ?? target.volume },
+              (stage) => {
+                progress.stage = stage;
+                announce(job);
+              }
+            );
+            progress.stage = "done";
+            announce(job);
+          } catch (error) {
+            if (controller.signal.aborted) {
+              progress.stage = "cancelled";
+              announce(job);
+              await createDeviceClient(target.source).stopTone().catch((stopError) => {
+                console.error(`Failed to stop cancelled playback on ${target.source.ipAddress}:`, stopError);
+              });
+              return;
+            }
+            console.error(`Playback on ${target.source.ipAddress} failed:`, error);
+            Object.assign(progress, { stage: "failed" }, describeError(error, "Failed"));
+            announce(job);
+          }
+        })
+      );
+    } finally {
+      // A looped page keeps its lease until the stop route ends it
+      if (!request.loop || controller.signal.aborted) page.release();
+    }
+  } catch (error) {
+    // The devices were never held: busy, or cancelled while queued for them
+    for (const progress of job.targets) {
+      if (controller.signal.aborted) {
+        progress.stage = "cancelled";
+      } else {
+        Object.assign(progress, { stage: "failed" }, describeError(error, "Failed"));
+      }
+    }
+  }
+
+  const failed = job.targets.filter((t) => t.stage === "failed").length;
+  if (controller.signal.aborted) {
+    job.status = "cancelled";
+    job.message = "Cancelled";
+  } else if (failed > 0) {
+    job.status = "failed";
+    job.message = job.targets.length === 1 ? job.targets[0].error : `${failed} of ${job.targets.length} devices failed`;
+  } else {
+    job.status = "completed";
+    job.message = request.loop ? "Playing (looped) - call stop endpoint to end" : "Playback complete";
+  }
+  job.finishedAt = new Date().toISOString();
+  console.log(`[Playback] ${job.label}: ${job.message}`);
+
+  await request.onFinished?.(job).catch((error) => {
+    console.error(`[Playback] Failed to record ${job.label}:`, error);
+  });
+  // After the history write, so consoles that reload history on this see it
+  announce(job);
+}
+
+// ============ Jobs ============
+
+/**
+ * Start playing to the targets and return the job straight away. Each
+ * source device plays in parallel; see the job's targets for progress.
+ */
+export function startPlaybackJob(request: PlaybackJobRequest): PlaybackJob {
+  const state = getState();
+  pruneFinished(state);
+
+  const entry: JobEntry = {
+    job: {
+      id: randomUUID(),
+      kind: request.kind,
+      label: request.page.label,
+      user: request.page.user,
+      loop: request.loop,
+      status: "running",
+      targets: request.targets.map((target) => ({
+        deviceId: target.source.id,
+        deviceName: target.source.name,
+        zoneIds: target.zoneIds,
+        stage: "waiting",
+      })),
+      createdAt: new Date().toISOString(),
+    },
+    controller: new AbortController(),
+  };
+  state.jobs.set(entry.job.id, entry);
+  announce(entry.job);
+
+  void runJob(entry, request);
+  return entry.job;
+}
+
+// Per-device results of a finished job, for the history log
+export function jobResults(job: PlaybackJob): DistributionResult[] {
+  return job.targets.map((target) => ({
+    deviceId: target.deviceId,
+    deviceName: target.deviceName,
+    success: target.stage === "done",
+    ...(target.stage === "cancelled" ? { error: "Cancelled" } : {}),
+    ...(target.error ? { error: target.error, code: target.code } : {}),
+  }));
+}
+
+export function getPlaybackJob(id: string): PlaybackJob | null {
+  return getState().jobs.get(id)?.job ?? null;
+}
+
+// Newest first
+export function listPlaybackJobs(): PlaybackJob[] {
+  const state = getState();
+  pruneFinished(state);
+  return Array.from(state.jobs.values())
+    .map((entry) => entry.job)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Cancel a running job: devices still playing are stopped and their
+ * speakers switched off. A finished job is left as it is - a looped tone
+ * is ended with the stop route.
+ */
+export function cancelPlaybackJob(id: string): PlaybackJob | null {
+  const entry = getState().jobs.get(id);
+  if (!entry) return null;
+  if (entry.job.status === "running") {
+    entry.controller.abort(new Error("Playback cancelled"));
+  }
+  return entry.job;
+}
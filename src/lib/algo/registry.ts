@@ -0,0 +1,315 @@
+import { deleteField, getDataStore } from "@/lib/storage";
+import { AlgoClient, type AlgoClientOptions } from "./client";
+import { RegistryNotFoundError } from "./errors";
+import { encryptSecret, decryptSecret } from "./secrets";
+import type { AlgoDevice, AlgoDeviceConfig, AlgoDeviceInput, AlgoDeviceType, AlgoAuthMethod, Zone } from "./types";
+import { resolveZoneTargets, type ZoneTarget } from "./zones";
+import { isValidDeviceAddress } from "@/lib/utils";
+
+// Server-side device registry. API routes take device/zone IDs and resolve
+// credentials here, so device passwords never travel through the browser.
+//
+// Passwords live encrypted in the "deviceSecrets" collection (one doc per
+// device, same ID), which Firestore rules and /api/data keep from clients.
+
+const DEVICES = "devices";
+const DEVICE_SECRETS = "deviceSecrets";
+const ZONES = "zones";
+
+// Routes like the monitoring volume ramp hit the same speakers several times
+// a second, so resolved devices are cached briefly
+const CACHE_TTL_MS = 30000;
+
+const DEVICE_TYPES: AlgoDeviceType[] = ["8301", "8180g2", "8198", "8128", "8138", "other"];
+const AUTH_METHODS: AlgoAuthMethod[] = ["standard", "basic", "none"];
+
+// A device with its decrypted API password - never send this to the client
+export interface RegisteredDevice extends AlgoDevice {
+  apiPassword: string;
+}
+
+const deviceCache = new Map<string, { device: RegisteredDevice; expiresAt: number }>();
+
+// ============ Reads ============
+
+/**
+ * Load a device and decrypt its API password
+ */
+export async function getRegisteredDevice(id: string): Promise<RegisteredDevice> {
+  const cached = deviceCache.get(id);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.device;
+  }
+
+  const store = getDataStore();
+  const [deviceDoc, secretDoc] = await Promise.all([store.get(DEVICES, id), store.get(DEVICE_SECRETS, id)]);
+  if (!deviceDoc) {
+    throw new RegistryNotFoundError("device", id);
+  }
+
+  const data: Record<string, unknown> = { ...deviceDoc };
+  let apiPassword = "";
+
+  if (secretDoc) {
+    apiPassword = decryptSecret(secretDoc.apiPassword as string);
+  } else if (typeof data.apiPassword === "string") {
+    // Devices saved before the registry kept the password in plain text
+    apiPassword = data.apiPassword;
+    await migrateLegacyPassword(id, apiPassword);
+  }
+  delete data.apiPassword;
+
+  const device = { ...data, id, apiPassword } as RegisteredDevice;
+  deviceCache.set(id, { device, expiresAt: Date.now() + CACHE_TTL_MS });
+  return device;
+}
+
+/**
+ * Load several devices, failing if any ID is unknown
+ */
+export async function getRegisteredDevices(ids: string[]): Promise<RegisteredDevice[]> {
+  return Promise.all([...new Set(ids)].map((id) => getRegisteredDevice(id)));
+}
+
+/**
+ * Load every registered device
+ */
+export async function getAllRegisteredDevices(): Promise<RegisteredDevice[]> {
+  const docs = await getDataStore().query(DEVICES);
+  return getRegisteredDevices(docs.map((doc) => doc.id));
+}
+
+/**
+ * Load a zone
+ */
+export async function getRegisteredZone(zoneId: string): Promise<Zone> {
+  const doc = await getDataStore().get(ZONES, zoneId);
+  if (!doc) {
+    throw new RegistryNotFoundError("zone", zoneId);
+  }
+  const zone = doc as unknown as Zone;
+  return { ...zone, deviceIds: zone.deviceIds ?? [] };
+}
+
+/**
+ * Load every zone
+ */
+export async function getAllRegisteredZones(): Promise<Zone[]> {
+  const docs = await getDataStore().query(ZONES);
+  return docs.map((doc) => {
+    const zone = doc as unknown as Zone;
+    return { ...zone, deviceIds: zone.deviceIds ?? [] };
+  });
+}
+
+/**
+ * Device IDs assigned to a zone
+ */
+export async function getZoneDeviceIds(zoneId: string): Promise<string[]> {
+  const zone = await getRegisteredZone(zoneId);
+  return zone.deviceIds;
+}
+
+/**
+ * Resolve zones to the devices that play and the speakers to switch on,
+ * using current zone membership and speaker links (see resolveZoneTargets)
+ */
+export async function getZoneTargets(zoneIds: string[]): Promise<ZoneTarget<RegisteredDevice>[]> {
+  const [zones, devices] = await Promise.all([
+    Promise.all([...new Set(zoneIds)].map((id) => getRegisteredZone(id))),
+    getAllRegisteredDevices(),
+  ]);
+  return resolveZoneTargets(zones, devices);
+}
+
+/**
+ * Resolve a request's deviceIds and/or zoneId to the devices they target
+ */
+export async function resolveTargetDevices(target: {
+  deviceIds?: string[];
+  zoneId?: string;
+}): Promise<RegisteredDevice[]> {
+  const ids = [...(target.deviceIds ?? [])];
+  if (target.zoneId) {
+    ids.push(...(await getZoneDeviceIds(target.zoneId)));
+  }
+  return getRegisteredDevices(ids);
+}
+
+/**
+ * Speakers linked to a paging device. Links to deleted speakers are skipped.
+ */
+export async function getLinkedSpeakers(device: AlgoDevice): Promise<RegisteredDevice[]> {
+  if (device.type !== "8301" || !device.linkedSpeakerIds?.length) {
+    return [];
+  }
+
+  const speakers = await Promise.all(
+    device.linkedSpeakerIds.map((id) =>
+      getRegisteredDevice(id).catch((error) => {
+        if (error instanceof RegistryNotFoundError) return null;
+        throw error;
+      })
+    )
+  );
+  return speakers.filter((speaker): speaker is RegisteredDevice => speaker !== null);
+}
+
+/**
+ * Resolve picked devices and zones to the devices that play, once each.
+ * Devices picked directly bring their linked speakers and play alongside
+ * the zone targets.
+ */
+export async function getPlaybackTargets(deviceIds: string[], zoneIds: string[]): Promise<ZoneTarget<RegisteredDevice>[]> {
+  const [devices, zoneTargets] = await Promise.all([
+    getRegisteredDevices(deviceIds),
+    zoneIds.length > 0 ? getZoneTargets(zoneIds) : Promise.resolve([]),
+  ]);
+
+  const targets = new Map<string, ZoneTarget<RegisteredDevice>>();
+  for (const device of devices) {
+    targets.set(device.id, { source: device, speakers: await getLinkedSpeakers(device), zoneIds: [] });
+  }
+  for (const target of zoneTargets) {
+    const existing = targets.get(target.source.id);
+    if (existing) {
+      const speakerIds = new Set(existing.speakers.map((s) => s.id));
+      existing.speakers.push(...target.speakers.filter((s) => !speakerIds.has(s.id)));
+      existing.zoneIds.push(...target.zoneIds);
+    } else {
+      targets.set(target.source.id, target);
+    }
+  }
+  return Array.from(targets.values());
+}
+
+/**
+ * Create an AlgoClient using a registered device's credentials
+ */
+export function createDeviceClient(
+  device: RegisteredDevice,
+  options?: Omit<AlgoClientOptions, "ipAddress" | "password" | "authMethod">
+): AlgoClient {
+  return new AlgoClient({
+    ...options,
+    ipAddress: device.ipAddress,
+    password: device.apiPassword,
+    authMethod: device.authMethod,
+  });
+}
+
+// ============ Writes ============
+
+/**
+ * Validate a device form submission. Returns an error message, or null if valid.
+ * With partial set, only the fields present are checked (for updates).
+ */
+export function validateDeviceInput(input: Partial<AlgoDeviceInput>, partial = false): string | null {
+  if (!partial || input.name !== undefined) {
+    if (!input.name?.trim()) return "Device name is required";
+  }
+  if (!partial || input.ipAddress !== undefined) {
+    if (!input.ipAddress || !isValidDeviceAddress(input.ipAddress)) return "Invalid IP address format";
+  }
+  if (!partial || input.type !== undefined) {
+    if (!input.type || !DEVICE_TYPES.includes(input.type)) return "Invalid device type";
+  }
+  if (!partial || input.authMethod !== undefined) {
+    if (!input.authMethod || !AUTH_METHODS.includes(input.authMethod)) return "Invalid auth method";
+  }
+  if (input.apiPassword !== undefined && typeof input.apiPassword !== "string") {
+    return "Invalid API password";
+  }
+  return null;
+}
+
+/**
+ * Add a device, storing its password encrypted. Returns the new device ID.
+ */
+export async function createRegisteredDevice(input: AlgoDeviceInput): Promise<string> {
+  const now = new Date();
+  const id = await getDataStore().add(DEVICES, {
+    ...pickConfig(input),
+    isOnline: false,
+    lastSeen: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  if (input.apiPassword) {
+    await setDevicePassword(id, input.apiPassword);
+  }
+  return id;
+}
+
+/**
+ * Update a device's configuration. The stored password is only replaced
+ * when a non-empty apiPassword is given.
+ */
+export async function updateRegisteredDevice(id: string, input: Partial<AlgoDeviceInput>): Promise<void> {
+  const store = getDataStore();
+  if (!(await store.get(DEVICES, id))) {
+    throw new RegistryNotFoundError("device", id);
+  }
+
+  await store.update(DEVICES, id, {
+    ...pickConfig(input),
+    updatedAt: new Date(),
+  });
+
+  if (input.apiPassword) {
+    await setDevicePassword(id, input.apiPassword);
+  }
+  deviceCache.delete(id);
+}
+
+/**
+ * Remove a device and its stored password
+ */
+export async function deleteRegisteredDevice(id: string): Promise<void> {
+  const store = getDataStore();
+  await Promise.all([store.delete(DEVICES, id), store.delete(DEVICE_SECRETS, id)]);
+  deviceCache.delete(id);
+}
+
+// ============ Helpers ============
+
+async function setDevicePassword(id: string, apiPassword: string): Promise<void> {
+  const store = getDataStore();
+  await store.set(DEVICE_SECRETS, id, {
+    apiPassword: encryptSecret(apiPassword),
+    updatedAt: new Date(),
+  });
+  // Drop any plain-text copy left on the device doc
+  await store.update(DEVICES, id, { apiPassword: deleteField() });
+}
+
+async function migrateLegacyPassword(id: string, apiPassword: string): Promise<void> {
+  try {
+    await setDevicePassword(id, apiPassword);
+    console.log(`[Registry] Encrypted legacy password for device ${id}`);
+  } catch (error) {
+    console.error(`[Registry] Failed to migrate password for device ${id}:`, error);
+  }
+}
+
+// Copy only the editable config fields, dropping undefined values
+function pickConfig(input: Partial<AlgoDeviceInput>): Partial<AlgoDeviceConfig> {
+  const keys: Array<keyof AlgoDeviceConfig> = [
+    "name",
+    "type",
+    "ipAddress",
+    "authMethod",
+    "zone",
+    "volume",
+    "maxVolume",
+    "linkedSpeakerIds",
+  ];
+  const config: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (input[key] !== undefined) {
+      config[key] = key === "name" ? input.name?.trim() : input[key];
+    }
+  }
+  return config as Partial<AlgoDeviceConfig>;
+}
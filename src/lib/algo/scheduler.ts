@@ -0,0 +1,352 @@
+import { getDataStore, StoreNotFoundError } from "@/lib/storage";
+import { getPlaybackTargets, getRegisteredZone } from "./registry";
+import { jobResults, startPlaybackJob, type PlaybackJob } from "./playback-jobs";
+import { recordDistribution } from "./distribution-logs";
+import { nextRun, type ScheduleInput } from "./schedules";
+import type { Holiday, Schedule } from "./types";
+import { describeError } from "@/lib/api/errors";
+
+// Background scheduler for timed tones and announcements. Started once per
+// server process from src/instrumentation.ts; every tick it plays the
+// enabled schedules that came due since the last one, as playback jobs at
+// routine priority, and each run goes to the history log.
+//
+// Schedules and holidays are changed through /api/algo/schedules, which
+// reloads them here; they are also re-read every few minutes for changes
+// that arrive through storage sync.
+
+const SCHEDULES = "schedules";
+const HOLIDAYS = "holidays";
+const AUDIO_FILES = "audioFiles";
+
+const DEFAULT_INTERVAL_MS = 15000;
+const RELOAD_MS = 5 * 60 * 1000;
+// A run the server missed by more than this (asleep, or just started) is
+// skipped rather than played late
+const MAX_LATE_MS = 2 * 60 * 1000;
+
+const SCHEDULE_FIELDS: (keyof ScheduleInput)[] = [
+  "name",
+  "rule",
+  "audio",
+  "deviceIds",
+  "zoneIds",
+  "volume",
+  "loop",
+  "skipHolidays",
+  "exclusions",
+  "startsOn",
+  "endsOn",
+  "enabled",
+];
+
+// History entries for runs nobody started
+const SCHEDULER_USER = { uid: "scheduler" };
+
+// A schedule as the Schedules page shows it
+export interface ScheduleStatus extends Schedule {
+  nextRunAt: string | null;
+  lastRun?: { at: string; jobId: string };
+}
+
+interface ScheduleData {
+  schedules: Schedule[];
+  holidays: Holiday[];
+  loadedAt: number;
+}
+
+interface SchedulerState {
+  timer: ReturnType<typeof setInterval> | null;
+  running: boolean;
+  checkedUntil: number; // Runs up to this time have been played or skipped
+  data: ScheduleData | null;
+  lastRuns: Map<string, { at: string; jobId: string }>; // Since the server started
+}
+
+// Kept on globalThis so dev-mode module reloads don't start a second scheduler
+const globalForScheduler = globalThis as typeof globalThis & { algoScheduler?: SchedulerState };
+
+function getState(): SchedulerState {
+  globalForScheduler.algoScheduler ??= {
+    timer: null,
+    running: false,
+    checkedUntil: Date.now(),
+    data: null,
+    lastRuns: new Map(),
+  };
+  return globalForScheduler.algoScheduler;
+}
+
+// ============ Scheduling ============
+
+/**
+ * Start the scheduler. The tick comes from ALGO_SCHEDULER_INTERVAL_MS
+ * (default 15s); set it to 0 to disable scheduled playback on this server.
+ */
+export function startScheduler(): void {
+  const state = getState();
+  if (state.timer) return;
+
+  const configured = process.env.ALGO_SCHEDULER_INTERVAL_MS;
+  const intervalMs = configured === undefined ? DEFAULT_INTERVAL_MS : parseInt(configured, 10);
+  if (!intervalMs || intervalMs <= 0) {
+    console.log("[Scheduler] Disabled (ALGO_SCHEDULER_INTERVAL_MS=0)");
+    return;
+  }
+
+  console.log(`[Scheduler] Checking schedules every ${Math.round(intervalMs / 1000)}s`);
+  // Nothing that came due while the server was down is played
+  state.checkedUntil = Date.now();
+  state.timer = setInterval(() => void runScheduledTick(), intervalMs);
+  state.timer.unref?.();
+}
+
+export function stopScheduler(): void {
+  const state = getState();
+  if (state.timer) {
+    clearInterval(state.timer);
+    state.timer = null;
+  }
+}
+
+async function runScheduledTick(): Promise<void> {
+  const state = getState();
+  if (state.running) return;
+  state.running = true;
+
+  try {
+    const { schedules, holidays } = await loadSchedules();
+    const since = new Date(state.checkedUntil);
+    const now = Date.now();
+    state.checkedUntil = now;
+
+    for (const schedule of schedules.filter((s) => s.enabled)) {
+      const due = nextRun(schedule, since, holidays);
+      if (!due || due.getTime() > now) continue;
+
+      if (now - due.getTime() > MAX_LATE_MS) {
+        console.warn(`[Scheduler] Skipped ${schedule.name}: due at ${due.toLocaleString()}`);
+        continue;
+      }
+      runSchedule(schedule).catch((error) => {
+        console.error(`[Scheduler] ${schedule.name} failed:`, error);
+        void recordFailedRun(schedule, error);
+      });
+    }
+  } catch (error) {
+    console.error("[Scheduler] Tick failed:", error);
+  } finally {
+    state.running = false;
+  }
+}
+
+// Still in history: a run that couldn't start (e.g. a deleted zone or file), with why
+async function recordFailedRun(schedule: Schedule, error: unknown): Promise<void> {
+  // A zone that no longer exists is listed by its ID
+  const zoneNames = await Promise.all(
+    schedule.zoneIds.map((id) =>
+      getRegisteredZone(id)
+        .then((zone) => zone.name)
+        .catch(() => id)
+    )
+  );
+  await recordDistribution({
+    action: "schedule",
+    audioFileName: schedule.audio.kind === "tone" ? schedule.audio.filename : schedule.name,
+    targetDevices: schedule.deviceIds,
+    targetZones: zoneNames,
+    results: [],
+    error: describeError(error, "Failed to start").error,
+    user: SCHEDULER_USER,
+  });
+}
+
+/**
+ * Play a schedule now, as a playback job. Used by the scheduler and the
+ * Schedules page's Run now.
+ */
+export async function runSchedule(
+  schedule: Schedule,
+  user: { uid: string; email?: string } = SCHEDULER_USER
+): Promise<PlaybackJob> {
+  const [targets, zones, audio] = await Promise.all([
+    getPlaybackTargets(schedule.deviceIds, schedule.zoneIds),
+    Promise.all(schedule.zoneIds.map((id) => getRegisteredZone(id))),
+    resolveAudio(schedule),
+  ]);
+  if (targets.length === 0) {
+    throw new Error(`${schedule.name} has no devices to play on`);
+  }
+
+  console.log(`[Scheduler] Playing ${schedule.name} (${audio.audioFileName})`);
+  const job = startPlaybackJob({
+    kind: "distribute",
+    targets,
+    page: {
+      priority: "routine",
+      ifBusy: "queue",
+      label: `Schedule: ${schedule.name}`,
+      user: user.email ?? user.uid,
+    },
+    filename: audio.filename,
+    loop: schedule.loop,
+    volume: schedule.volume,
+    onFinished: (finished) =>
+      recordDistribution({
+        action: "schedule",
+        audioFileId: audio.audioFileId,
+        audioFileName: audio.audioFileName,
+        targetDevices: finished.targets.map((t) => t.deviceId),
+        targetZones: zones.map((zone) => zone.name),
+        results: jobResults(finished),
+        user,
+      }),
+  });
+
+  getState().lastRuns.set(schedule.id, { at: job.createdAt, jobId: job.id });
+  return job;
+}
+
+async function resolveAudio(
+  schedule: Schedule
+): Promise<{ filename: string; audioFileName: string; audioFileId?: string }> {
+  if (schedule.audio.kind === "tone") {
+    return { filename: schedule.audio.filename, audioFileName: schedule.audio.filename };
+  }
+
+  const { audioFileId } = schedule.audio;
+  const file = await getDataStore().get(AUDIO_FILES, audioFileId);
+  if (!file) {
+    throw new StoreNotFoundError(AUDIO_FILES, audioFileId);
+  }
+  return { filename: file.filename as string, audioFileName: file.name as string, audioFileId };
+}
+
+// ============ Storage ============
+
+async function loadSchedules(force = false): Promise<ScheduleData> {
+  const state = getState();
+  if (!force && state.data && Date.now() - state.data.loadedAt < RELOAD_MS) {
+    return state.data;
+  }
+
+  const store = getDataStore();
+  const [schedules, holidays] = await Promise.all([store.query(SCHEDULES), store.query(HOLIDAYS)]);
+  state.data = {
+    schedules: schedules as unknown as Schedule[],
+    holidays: holidays.map((doc) => ({ date: doc.date as string, name: doc.name as string })),
+    loadedAt: Date.now(),
+  };
+  return state.data;
+}
+
+/**
+ * Every schedule with its next and last run, and the holidays
+ */
+export async function listSchedules(): Promise<{ schedules: ScheduleStatus[]; holidays: Holiday[] }> {
+  const { schedules, holidays } = await loadSchedules(true);
+  const { lastRuns } = getState();
+  const now = new Date();
+
+  return {
+    schedules: schedules.map((schedule) => ({
+      ...schedule,
+      nextRunAt: schedule.enabled ? (nextRun(schedule, now, holidays)?.toISOString() ?? null) : null,
+      lastRun: lastRuns.get(schedule.id),
+    })),
+    holidays: [...holidays].sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+export async function getSchedule(id: string): Promise<Schedule> {
+  const doc = await getDataStore().get(SCHEDULES, id);
+  if (!doc) {
+    throw new StoreNotFoundError(SCHEDULES, id);
+  }
+  return doc as unknown as Schedule;
+}
+
+// Only schedule fields are stored, whatever else a request carries
+function toScheduleData(input: Partial<ScheduleInput>): Record<string, unknown> {
+  const data = Object.fromEntries(
+    SCHEDULE_FIELDS.filter((field) => input[field] !== undefined).map((field) => [field, input[field]])
+  );
+  if (input.name) data.name = input.name.trim();
+  return data;
+}
+
+/**
+ * Add a schedule. Returns the new schedule ID.
+ */
+export async function createSchedule(input: ScheduleInput): Promise<string> {
+  const id = await getDataStore().add(SCHEDULES, { ...toScheduleData(input), createdAt: new Date() });
+  await loadSchedules(true);
+  return id;
+}
+
+export async function updateSchedule(id: string, input: Partial<ScheduleInput>): Promise<void> {
+  await getDataStore().update(SCHEDULES, id, toScheduleData(input));
+  await loadSchedules(true);
+}
+
+export async function deleteSchedule(id: string): Promise<void> {
+  await getDataStore().delete(SCHEDULES, id);
+  getState().lastRuns.delete(id);
+  await loadSchedules(true);
+}
+
+/**
+ * Add a calendar's schedules and holidays. If a write fails, the schedules
+ * added so far are deleted again, so a retry doesn't duplicate them;
+ * `saved` names any that couldn't be. Holidays are keyed by date, so a
+ * retry just writes them again.
+ */
+export async function importSchedules(
+  schedules: ScheduleInput[],
+  holidays: Holiday[]
+): Promise<{ saved: string[]; error?: string }> {
+  const store = getDataStore();
+  const created: { id: string; name: string }[] = [];
+
+  try {
+    for (const schedule of schedules) {
+      const id = await store.add(SCHEDULES, { ...toScheduleData(schedule), createdAt: new Date() });
+      created.push({ id, name: schedule.name });
+    }
+    if (holidays.length > 0) {
+      await saveHolidays(holidays, true);
+    }
+  } catch (error) {
+    console.error("[Scheduler] Import failed, removing its schedules:", error);
+    const saved: string[] = [];
+    for (const { id, name } of created) {
+      await store.delete(SCHEDULES, id).catch(() => saved.push(name));
+    }
+    await loadSchedules(true).catch(() => undefined);
+    return { saved, error: describeError(error, "Failed to save the calendar").error };
+  }
+
+  await loadSchedules(true);
+  return { saved: created.map((schedule) => schedule.name) };
+}
+
+/**
+ * Replace the holiday list. With merge, the given holidays are added to
+ * the current ones instead.
+ */
+export async function saveHolidays(holidays: Holiday[], merge = false): Promise<void> {
+  const store = getDataStore();
+  const wanted = new Map(holidays.map((holiday) => [holiday.date, holiday]));
+
+  if (!merge) {
+    const current = await store.query(HOLIDAYS);
+    await Promise.all(current.filter((doc) => !wanted.has(doc.id)).map((doc) => store.delete(HOLIDAYS, doc.id)));
+  }
+  // One doc per date, so a date can't be listed twice
+  await Promise.all(
+    Array.from(wanted.values()).map((holiday) =>
+      store.set(HOLIDAYS, holiday.date, { date: holiday.date, name: holiday.name.trim() })
+    )
+  );
+  await loadSchedules(true);
+}
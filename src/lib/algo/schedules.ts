@@ -0,0 +1,300 @@
+import type { Holiday, Schedule, ScheduleRule } from "./types";
+
+// Schedule rules, shared by the server's scheduler (scheduler.ts) and the
+// Schedules page. Everything works in local time: the server's when it
+// decides what to play, the browser's when a page previews a rule.
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const DAY_SET_LABELS: Record<string, string> = {
+  "0,1,2,3,4,5,6": "Every day",
+  "1,2,3,4,5": "Weekdays",
+  "0,6": "Weekends",
+};
+
+// Fields the Schedules form and .ics import set
+export type ScheduleInput = Omit<Schedule, "id" | "createdAt">;
+
+// How far ahead nextRun looks, enough for a yearly rule
+const HORIZON_DAYS = 400;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T([01]\d|2[0-3]):([0-5]\d)$/;
+
+// ============ Cron ============
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean; // Day of month started with "*"
+  anyWeekday: boolean;
+}
+
+// minute, hour, day of month, month, day of week (0 and 7 are Sunday)
+const CRON_RANGES: [number, number][] = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+function parseCronField(field: string, [min, max]: [number, number]): Set<number> | null {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = /^(?:\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) return null;
+
+    const step = match[3] ? parseInt(match[3], 10) : 1;
+    let from = min;
+    let to = max;
+    if (match[1] !== undefined) {
+      from = parseInt(match[1], 10);
+      // "5/15" runs from 5 to the end of the range
+      to = match[2] !== undefined ? parseInt(match[2], 10) : match[3] ? max : from;
+    }
+    if (step < 1 || from < min || to > max || from > to) return null;
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression, or null if it isn't one
+ */
+export function parseCron(expression: string): CronFields | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const parsed = fields.map((field, i) => parseCronField(field, CRON_RANGES[i]));
+  if (parsed.some((values) => values === null)) return null;
+
+  const [minutes, hours, days, months, weekdays] = parsed as Set<number>[];
+  if (weekdays.has(7)) weekdays.add(0);
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2].startsWith("*"),
+    anyWeekday: fields[4].startsWith("*"),
+  };
+}
+
+// As in cron, a rule restricting both day of month and day of week runs on
+// either; when one starts with "*" (e.g. "*/2"), both must match
+function cronDayMatches(cron: CronFields, date: Date): boolean {
+  if (!cron.months.has(date.getMonth() + 1)) return false;
+  const day = cron.days.has(date.getDate());
+  const weekday = cron.weekdays.has(date.getDay());
+  if (cron.anyDay || cron.anyWeekday) return day && weekday;
+  return day || weekday;
+}
+
+// ============ Dates ============
+
+/**
+ * A date's local "YYYY-MM-DD"
+ */
+export function dateKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Local time for a "YYYY-MM-DDTHH:MM" string, or null if it isn't one
+ */
+export function parseLocalDateTime(value: string): Date | null {
+  const match = DATE_TIME_PATTERN.exec(value);
+  if (!match) return null;
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day, hour, minute);
+  return date.getDate() === day ? date : null;
+}
+
+function isValidDate(value: unknown): value is string {
+  if (typeof value !== "string") return false;
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return false;
+  const [year, month, day] = match.slice(1).map(Number);
+  return new Date(year, month - 1, day).getDate() === day && month >= 1 && month <= 12;
+}
+
+// ============ Runs ============
+
+// Minutes after midnight the rule plays at on a date, in order
+function runMinutesOn(rule: ScheduleRule, cron: CronFields | null, date: Date): number[] {
+  switch (rule.kind) {
+    case "once": {
+      const at = parseLocalDateTime(rule.at);
+      return at && dateKey(at) === dateKey(date) ? [at.getHours() * 60 + at.getMinutes()] : [];
+    }
+    case "weekly": {
+      const match = TIME_PATTERN.exec(rule.time);
+      if (!match || !rule.days.includes(date.getDay())) return [];
+      return [parseInt(match[1], 10) * 60 + parseInt(match[2], 10)];
+    }
+    case "cron": {
+      if (!cron || !cronDayMatches(cron, date)) return [];
+      const minutes: number[] = [];
+      for (const hour of [...cron.hours].sort((a, b) => a - b)) {
+        for (const minute of [...cron.minutes].sort((a, b) => a - b)) minutes.push(hour * 60 + minute);
+      }
+      return minutes;
+    }
+  }
+}
+
+/**
+ * Whether a schedule is kept from playing on a date: outside its start and
+ * end dates, one of its exclusions, or a holiday it skips
+ */
+export function isSkippedOn(
+  schedule: Pick<Schedule, "exclusions" | "skipHolidays" | "startsOn" | "endsOn">,
+  date: Date,
+  holidays: Holiday[]
+): boolean {
+  const key = dateKey(date);
+  if (schedule.startsOn && key < schedule.startsOn) return true;
+  if (schedule.endsOn && key > schedule.endsOn) return true;
+  if (schedule.exclusions.includes(key)) return true;
+  return schedule.skipHolidays && holidays.some((holiday) => holiday.date === key);
+}
+
+/**
+ * The first time after `after` the schedule plays, or null if it won't
+ * within a year (including a one-off that has passed)
+ */
+export function nextRun(
+  schedule: Pick<Schedule, "rule" | "exclusions" | "skipHolidays" | "startsOn" | "endsOn">,
+  after: Date,
+  holidays: Holiday[]
+): Date | null {
+  const { rule } = schedule;
+  const cron = rule.kind === "cron" ? parseCron(rule.expression) : null;
+  if (rule.kind === "cron" && !cron) return null;
+
+  let days = HORIZON_DAYS;
+  const day = new Date(after.getFullYear(), after.getMonth(), after.getDate());
+  if (rule.kind === "once") {
+    const at = parseLocalDateTime(rule.at);
+    if (!at || at <= after) return null;
+    day.setTime(new Date(at.getFullYear(), at.getMonth(), at.getDate()).getTime());
+    days = 1;
+  }
+
+  for (let i = 0; i < days; i++, day.setDate(day.getDate() + 1)) {
+    if (schedule.endsOn && dateKey(day) > schedule.endsOn) return null;
+    if (isSkippedOn(schedule, day, holidays)) continue;
+
+    for (const minute of runMinutesOn(rule, cron, day)) {
+      const run = new Date(day.getFullYear(), day.getMonth(), day.getDate(), Math.floor(minute / 60), minute % 60);
+      if (run > after) return run;
+    }
+  }
+  return null;
+}
+
+// ============ Validation ============
+
+/**
+ * Check a rule. Returns an error message, or null if valid.
+ */
+export function validateScheduleRule(rule: ScheduleRule | undefined): string | null {
+  switch (rule?.kind) {
+    case "once":
+      return typeof rule.at === "string" && parseLocalDateTime(rule.at) ? null : "Pick a date and time";
+    case "weekly":
+      if (!Array.isArray(rule.days) || rule.days.length === 0 || !rule.days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)) {
+        return "Pick at least one day";
+      }
+      return typeof rule.time === "string" && TIME_PATTERN.test(rule.time) ? null : "Time must be HH:MM";
+    case "cron":
+      return typeof rule.expression === "string" && parseCron(rule.expression)
+        ? null
+        : "Cron expression must have five fields: minute hour day-of-month month day-of-week";
+    default:
+      return "Rule must be once, weekly or cron";
+  }
+}
+
+/**
+ * Validate a schedule. Returns an error message, or null if valid.
+ * With partial set, only the fields present are checked (for updates).
+ */
+export function validateScheduleInput(input: Partial<ScheduleInput>, partial = false): string | null {
+  const has = (field: keyof ScheduleInput) => !partial || input[field] !== undefined;
+
+  if (has("name") && (typeof input.name !== "string" || !input.name.trim())) {
+    return "Name is required";
+  }
+  if (has("rule")) {
+    const ruleError = validateScheduleRule(input.rule);
+    if (ruleError) return ruleError;
+  }
+  if (has("audio")) {
+    const audio = input.audio;
+    const valid =
+      (audio?.kind === "file" && typeof audio.audioFileId === "string" && audio.audioFileId) ||
+      (audio?.kind === "tone" && typeof audio.filename === "string" && audio.filename.trim());
+    if (!valid) return "Pick an audio file or a device tone";
+  }
+  for (const field of ["deviceIds", "zoneIds", "exclusions"] as const) {
+    if (has(field) && (!Array.isArray(input[field]) || !input[field].every((id) => typeof id === "string"))) {
+      return `${field} must be a list`;
+    }
+  }
+  if (!partial && input.deviceIds!.length === 0 && input.zoneIds!.length === 0) {
+    return "Pick at least one device or zone";
+  }
+  if (has("exclusions") && !input.exclusions!.every(isValidDate)) {
+    return "Excluded dates must be YYYY-MM-DD";
+  }
+  for (const field of ["startsOn", "endsOn"] as const) {
+    if (has(field) && input[field] !== null && !isValidDate(input[field])) {
+      return "Start and end dates must be YYYY-MM-DD";
+    }
+  }
+  if (input.startsOn && input.endsOn && input.startsOn > input.endsOn) {
+    return "End date must be after the start date";
+  }
+  if (has("volume") && !(typeof input.volume === "number" && input.volume >= 0 && input.volume <= 100)) {
+    return "Volume must be between 0 and 100";
+  }
+  for (const field of ["loop", "skipHolidays", "enabled"] as const) {
+    if (has(field) && typeof input[field] !== "boolean") {
+      return `${field} must be true or false`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate a holiday list. Returns an error message, or null if valid.
+ */
+export function validateHolidays(holidays: unknown): string | null {
+  if (!Array.isArray(holidays)) return "Holidays must be a list";
+  for (const holiday of holidays as Partial<Holiday>[]) {
+    if (!isValidDate(holiday?.date)) return "Holiday dates must be YYYY-MM-DD";
+    if (typeof holiday.name !== "string") return "Holidays need a name";
+  }
+  return null;
+}
+
+// ============ Display ============
+
+/**
+ * A rule in words, e.g. "Weekdays at 07:00"
+ */
+export function describeScheduleRule(rule: ScheduleRule): string {
+  switch (rule.kind) {
+    case "once":
+      return `Once on ${rule.at.replace("T", " at ")}`;
+    case "weekly": {
+      const days = [...rule.days].sort((a, b) => a - b);
+      const label = DAY_SET_LABELS[days.join(",")] ?? days.map((d) => WEEKDAY_LABELS[d]).join(", ");
+      return `${label} at ${rule.time}`;
+    }
+    case "cron":
+      return `Cron: ${rule.expression}`;
+  }
+}
@@ -0,0 +1,50 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+// Device API passwords are stored as "v1:<iv>:<tag>:<ciphertext>" (base64 parts)
+// using AES-256-GCM with the key from ALGO_SECRET_KEY (32 bytes, base64).
+const ALGORITHM = "aes-256-gcm";
+const VERSION = "v1";
+const IV_BYTES = 12;
+
+function getSecretKey(): Buffer {
+  const encoded = process.env.ALGO_SECRET_KEY;
+  if (!encoded) {
+    throw new Error("ALGO_SECRET_KEY is not set - generate one with `openssl rand -base64 32`");
+  }
+
+  const key = Buffer.from(encoded, "base64");
+  if (key.length !== 32) {
+    throw new Error("ALGO_SECRET_KEY must be 32 bytes encoded as base64");
+  }
+  return key;
+}
+
+/**
+ * Encrypt a device password for storage
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, getSecretKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [VERSION, iv.toString("base64"), tag.toString("base64"), ciphertext.toString("base64")].join(":");
+}
+
+/**
+ * Decrypt a value produced by encryptSecret
+ */
+export function decryptSecret(payload: string): string {
+  const [version, iv, tag, ciphertext] = payload.split(":");
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error("Unrecognized secret format");
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getSecretKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
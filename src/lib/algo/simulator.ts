@@ -0,0 +1,565 @@
+import http from "http";
+import crypto from "crypto";
+import type { AddressInfo } from "net";
+import type { AlgoAuthMethod } from "./types";
+
+// Simulated hardware profiles
+export type SimulatedDeviceProfile = "8301" | "8180g2";
+
+export interface AlgoSimulatorOptions {
+  profile: SimulatedDeviceProfile;
+  port?: number; // 0 = pick a free port
+  host?: string;
+  password?: string;
+  authMethod?: AlgoAuthMethod;
+  name?: string;
+  latencyMs?: number; // Artificial delay added to every response
+}
+
+export interface SimulatorRequestLog {
+  method: string;
+  uri: string;
+  status: number;
+  timestamp: string;
+}
+
+// Default tones shipped on Algo devices, with their real playback length (ms)
+const DEFAULT_TONE_DURATIONS: Record<string, number> = {
+  "bell-na.wav": 3000,
+  "bell-uk.wav": 3200,
+  "buzzer.wav": 2000,
+  "chime.wav": 2500,
+  "dogs.wav": 4000,
+  "gong.wav": 5000,
+  "page-notif.wav": 1500,
+  "speech-test.wav": 9000,
+  "tone-1kHz-max.wav": 5000,
+  "warble1-low.wav": 4000,
+  "warble2-med.wav": 4000,
+  "warble3-high.wav": 4000,
+  "warble4-trill.wav": 4000,
+};
+
+const PROFILES: Record<SimulatedDeviceProfile, {
+  productName: string;
+  title: string;
+  settings: Record<string, string>;
+}> = {
+  "8301": {
+    productName: "8301 IP Paging Adapter & Scheduler",
+    title: "Algo 8301 IP Paging Adapter",
+    settings: {
+      "mcast.mode": "1", // Sender
+      "mcast.type": "rtp",
+      "mcast.address": "224.0.2.60",
+      "mcast.port": "50000",
+      "audio.page.vol": "-9dB",
+    },
+  },
+  "8180g2": {
+    productName: "8180G2 SIP Audio Alerter",
+    title: "Algo 8180 IP Speaker",
+    settings: {
+      "mcast.mode": "0", // None
+      "mcast.type": "rtp",
+      "mcast.address": "224.0.2.60",
+      "mcast.port": "50000",
+      "audio.page.vol": "-9dB",
+    },
+  },
+};
+
+const MCAST_MODE_LABELS: Record<string, string> = {
+  "0": "None",
+  "1": "Sender",
+  "2": "Receiver",
+};
+
+/**
+ * Parse the playback length of a PCM WAV file from its header
+ */
+function getWavDurationMs(data: Buffer): number | null {
+  if (data.length < 44 || data.toString("ascii", 0, 4) !== "RIFF") {
+    return null;
+  }
+
+  let offset = 12;
+  let byteRate = 0;
+
+  while (offset + 8 <= data.length) {
+    const chunkId = data.toString("ascii", offset, offset + 4);
+    const chunkSize = data.readUInt32LE(offset + 4);
+
+    if (chunkId === "fmt ") {
+      byteRate = data.readUInt32LE(offset + 16);
+    } else if (chunkId === "data" && byteRate > 0) {
+      return Math.round((chunkSize / byteRate) * 1000);
+    }
+
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  return null;
+}
+
+/**
+ * Convert an "audio.page.vol" dB string to the 0-10 level the device reports
+ */
+function dbToLevel(volumeDb: string): number {
+  const db = parseInt(volumeDb, 10);
+  if (isNaN(db)) return 7;
+  return Math.max(0, Math.min(10, Math.round(db / 3) + 10));
+}
+
+/**
+ * Fake Algo IP endpoint - serves the same HTTP API as real 8301/8180G2 hardware
+ * so routes and the AlgoClient can be exercised without the station equipment.
+ */
+export class AlgoSimulator {
+  readonly profile: SimulatedDeviceProfile;
+  readonly password: string;
+  readonly authMethod: AlgoAuthMethod;
+  readonly name: string;
+
+  private host: string;
+  private requestedPort: number;
+  private latencyMs: number;
+  private server: http.Server | null = null;
+  private settings: Record<string, string>;
+  private tones: Map<string, number>;
+  private currentAction = "None";
+  private actionTimer: NodeJS.Timeout | null = null;
+  private usedNonces = new Set<string>();
+
+  requestLog: SimulatorRequestLog[] = [];
+
+  constructor(options: AlgoSimulatorOptions) {
+    this.profile = options.profile;
+    this.password = options.password ?? "algo";
+    this.authMethod = options.authMethod ?? "standard";
+    this.host = options.host ?? "127.0.0.1";
+    this.requestedPort = options.port ?? 0;
+    this.latencyMs = options.latencyMs ?? 0;
+    this.name = options.name ?? PROFILES[this.profile].title;
+    this.settings = { ...PROFILES[this.profile].settings };
+    this.tones = new Map(Object.entries(DEFAULT_TONE_DURATIONS));
+  }
+
+  /**
+   * Address in the "ip:port" form the app stores as a device ipAddress
+   */
+  get address(): string {
+    const info = this.server?.address() as AddressInfo | null;
+    return `${this.host}:${info ? info.port : this.requestedPort}`;
+  }
+
+  get port(): number {
+    const info = this.server?.address() as AddressInfo | null;
+    return info ? info.port : this.requestedPort;
+  }
+
+  /**
+   * Current device state, as it would be read back from the hardware
+   */
+  get state() {
+    return {
+      settings: { ...this.settings },
+      currentAction: this.currentAction,
+      tones: Array.from(this.tones.keys()),
+    };
+  }
+
+  async start(): Promise<void> {
+    if (this.server) return;
+
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        console.error(`[Simulator ${this.address}] Handler error:`, error);
+        this.send(req, res, 500, { error: "Internal error" });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.requestedPort, this.host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+  }
+
+  async stop(): Promise<void> {
+    this.clearAction();
+    const server = this.server;
+    this.server = null;
+    if (!server) return;
+
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  // ============ Request Handling ============
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const method = req.method || "GET";
+    const uri = decodeURI((req.url || "/").split("?")[0]);
+    const body = await this.readBody(req);
+
+    if (this.latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.latencyMs));
+    }
+
+    // Web interface - used by the network scanner and the health check HEAD request
+    if (!uri.startsWith("/api/")) {
+      const html = `<html><head><title>${PROFILES[this.profile].title}</title></head>` +
+        `<body>Algo ${PROFILES[this.profile].productName}</body></html>`;
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(method === "HEAD" ? undefined : html);
+      this.record(method, uri, 200);
+      return;
+    }
+
+    if (!this.isAuthorized(req, method, uri, body)) {
+      this.send(req, res, 401, { error: "Unauthorized" });
+      return;
+    }
+
+    const isBinary = (req.headers["content-type"] || "").includes("application/octet-stream");
+    let json: Record<string, unknown> = {};
+    if (body.length > 0 && !isBinary) {
+      try {
+        json = JSON.parse(body.toString("utf8"));
+      } catch {
+        this.send(req, res, 400, { error: "Invalid JSON" });
+        return;
+      }
+    }
+
+    this.route(req, res, method, uri, json, body);
+  }
+
+  private route(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    method: string,
+    uri: string,
+    json: Record<string, unknown>,
+    raw: Buffer
+  ): void {
+    const profile = PROFILES[this.profile];
+
+    // Device information
+    if (method === "GET" && uri === "/api/info/about") {
+      return this.send(req, res, 200, {
+        "Product Name": profile.productName,
+        "Firmware Version": "5.5.2",
+        "MAC Address": this.macAddress(),
+      });
+    }
+
+    if (method === "GET" && uri === "/api/info/status") {
+      const volumeDb = this.settings["audio.page.vol"];
+      return this.send(req, res, 200, {
+        "Device Name": this.name,
+        "SIP Registration": "Not Registered",
+        "Call Status": "Idle",
+        MAC: this.macAddress(),
+        IPv4: this.host,
+        "Date / Time": new Date().toUTCString(),
+        "Current Action": this.currentAction,
+        "Multicast Mode": MCAST_MODE_LABELS[this.settings["mcast.mode"]] ?? "None",
+        Volume: `Page Volume: ${dbToLevel(volumeDb)} (${volumeDb})`,
+      });
+    }
+
+    if (method === "GET" && uri === "/api/info/tonelist") {
+      return this.send(req, res, 200, { tonelist: Array.from(this.tones.keys()) });
+    }
+
+    if (method === "GET" && uri.startsWith("/api/info/")) {
+      const key = uri.slice("/api/info/".length);
+      if (key === "audio.noise.level") {
+        return this.send(req, res, 200, { [key]: "-60" });
+      }
+      if (key === "input.relay.status") {
+        return this.send(req, res, 200, { [key]: "idle" });
+      }
+      return this.send(req, res, 404, { error: "Not found" });
+    }
+
+    // Settings
+    if (method === "GET" && uri.startsWith("/api/settings/")) {
+      const key = uri.slice("/api/settings/".length);
+      if (key === "info.product") {
+        return this.send(req, res, 200, { [key]: profile.productName });
+      }
+      if (!(key in this.settings)) {
+        return this.send(req, res, 404, { error: `Unknown setting ${key}` });
+      }
+      return this.send(req, res, 200, { [key]: this.settings[key] });
+    }
+
+    if (method === "PUT" && uri === "/api/settings") {
+      for (const [key, value] of Object.entries(json)) {
+        this.settings[key] = String(value);
+      }
+      return this.send(req, res, 200);
+    }
+
+    if (method === "POST" && uri === "/api/settings/action/restore") {
+      this.clearAction();
+      this.settings = { ...profile.settings };
+      this.tones = new Map(Object.entries(DEFAULT_TONE_DURATIONS));
+      return this.send(req, res, 200);
+    }
+
+    // Audio control
+    if (method === "POST" && uri === "/api/controls/tone/start") {
+      const path = String(json.path || "");
+      const duration = this.tones.get(path);
+      if (duration === undefined) {
+        return this.send(req, res, 404, { error: `Tone ${path} not found` });
+      }
+      this.startAction(`Playing Tone: ${path}`, json.loop === true ? null : duration);
+      return this.send(req, res, 200);
+    }
+
+    if (method === "POST" && (uri === "/api/controls/tone/stop" || uri === "/api/controls/test/stop")) {
+      this.clearAction();
+      return this.send(req, res, 200);
+    }
+
+    if (method === "POST" && uri === "/api/controls/test/start") {
+      this.startAction("Playing Test Tone", DEFAULT_TONE_DURATIONS["speech-test.wav"]);
+      return this.send(req, res, 200);
+    }
+
+    if (method === "POST" && uri === "/api/controls/test/loop") {
+      this.startAction("Playing Test Tone", null);
+      return this.send(req, res, 200);
+    }
+
+    if (method === "POST" && uri === "/api/controls/rx/start") {
+      this.startAction(`Receiving Stream: ${json.port ?? ""}`, null);
+      return this.send(req, res, 200);
+    }
+
+    if (method === "POST" && (uri === "/api/controls/rx/stop" || uri === "/api/controls/call/stop")) {
+      this.clearAction();
+      return this.send(req, res, 200);
+    }
+
+    if (method === "POST" && uri === "/api/controls/call/start") {
+      this.startAction(`Call: ${json.extension ?? ""}`, null);
+      return this.send(req, res, 200);
+    }
+
+    if (method === "POST" && (uri === "/api/controls/reboot" || uri === "/api/controls/reload")) {
+      this.clearAction();
+      return this.send(req, res, 200);
+    }
+
+    if (method === "POST" && uri === "/api/controls/upgrade/check") {
+      return this.send(req, res, 200, { version: "5.5.2" });
+    }
+
+    if (method === "POST" && uri.startsWith("/api/controls/")) {
+      // noise/update, strobe, door - accepted without changing simulated state
+      return this.send(req, res, 200);
+    }
+
+    // Multicast
+    if (method === "POST" && uri.replace(/\/$/, "") === "/api/state/mcast/update") {
+      this.settings["mcast.mode"] = json.mode === "sender" ? "1" : "2";
+      if (json.address) this.settings["mcast.address"] = String(json.address);
+      if (json.port) this.settings["mcast.port"] = String(json.port);
+      if (json.type) this.settings["mcast.type"] = String(json.type);
+      if (json.group !== undefined) this.settings["mcast.group"] = String(json.group);
+      return this.send(req, res, 200);
+    }
+
+    // Files
+    if (method === "GET" && uri.startsWith("/api/files/")) {
+      const folder = uri.slice("/api/files/".length).replace(/\/$/, "");
+      if (folder !== "tones") {
+        return this.send(req, res, 200, { filelist: [] });
+      }
+      return this.send(req, res, 200, { filelist: Array.from(this.tones.keys()) });
+    }
+
+    if (method === "PUT" && uri.startsWith("/api/files/tones/")) {
+      const filename = uri.slice("/api/files/tones/".length);
+      this.tones.set(filename, getWavDurationMs(raw) ?? 3000);
+      return this.send(req, res, 200);
+    }
+
+    if (method === "DELETE" && uri.replace(/\/$/, "") === "/api/files") {
+      const filename = String(json.path || "").split("/").pop() || "";
+      if (!this.tones.delete(filename)) {
+        return this.send(req, res, 404, { error: "File not found" });
+      }
+      return this.send(req, res, 200);
+    }
+
+    this.send(req, res, 404, { error: "Not found" });
+  }
+
+  // ============ Authentication ============
+
+  private isAuthorized(
+    req: http.IncomingMessage,
+    method: string,
+    uri: string,
+    body: Buffer
+  ): boolean {
+    if (this.authMethod === "none") return true;
+
+    const authorization = req.headers["authorization"] || "";
+
+    if (this.authMethod === "basic") {
+      const expected = Buffer.from(`admin:${this.password}`).toString("base64");
+      return authorization === `Basic ${expected}`;
+    }
+
+    // Standard (HMAC) auth: "hmac admin:<nonce>:<hmac>" signed over the request
+    const match = authorization.match(/^hmac admin:(\d+):([0-9a-f]{64})$/);
+    const dateHeader = req.headers["date"];
+    if (!match || !dateHeader) return false;
+
+    const [, nonce, signature] = match;
+    if (this.usedNonces.has(nonce)) return false;
+
+    const dateSeconds = Math.floor(Date.parse(dateHeader) / 1000);
+    if (isNaN(dateSeconds) || Math.abs(Date.now() / 1000 - dateSeconds) > 60) {
+      return false;
+    }
+
+    let signedPrefix = `${method}:${uri}`;
+    if (body.length > 0) {
+      const contentType = (req.headers["content-type"] || "").split(";")[0];
+      const contentMd5 = crypto.createHash("md5").update(body).digest("hex");
+      if (req.headers["content-md5"] !== contentMd5) return false;
+      signedPrefix += `:${contentMd5}:${contentType}`;
+    }
+
+    // The client takes its timestamp just before formatting the Date header,
+    // so allow for the second boundary falling between the two.
+    const valid = [dateSeconds, dateSeconds - 1].some((timestamp) => {
+      const expected = crypto
+        .createHmac("sha256", this.password)
+        .update(`${signedPrefix}:${timestamp}:${nonce}`)
+        .digest("hex");
+      return crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+    });
+
+    if (valid) {
+      this.usedNonces.add(nonce);
+      if (this.usedNonces.size > 1000) {
+        this.usedNonces.clear();
+      }
+    }
+
+    return valid;
+  }
+
+  // ============ Helpers ============
+
+  private startAction(action: string, durationMs: number | null): void {
+    this.clearAction();
+    this.currentAction = action;
+    if (durationMs !== null) {
+      this.actionTimer = setTimeout(() => {
+        this.currentAction = "None";
+        this.actionTimer = null;
+      }, durationMs);
+    }
+  }
+
+  private clearAction(): void {
+    if (this.actionTimer) {
+      clearTimeout(this.actionTimer);
+      this.actionTimer = null;
+    }
+    this.currentAction = "None";
+  }
+
+  private macAddress(): string {
+    const port = this.port.toString(16).padStart(4, "0");
+    return `00:22:ee:${this.profile === "8301" ? "83" : "81"}:${port.slice(0, 2)}:${port.slice(2)}`;
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => resolve(Buffer.concat(chunks)));
+      req.on("error", reject);
+    });
+  }
+
+  private send(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    status: number,
+    payload?: object
+  ): void {
+    if (payload) {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(payload));
+    } else {
+      res.writeHead(status);
+      res.end();
+    }
+    this.record(req.method || "GET", (req.url || "/").split("?")[0], status);
+  }
+
+  private record(method: string, uri: string, status: number): void {
+    this.requestLog.push({ method, uri, status, timestamp: new Date().toISOString() });
+    if (this.requestLog.length > 500) {
+      this.requestLog = this.requestLog.slice(-500);
+    }
+  }
+}
+
+/**
+ * Start a fleet of simulators on consecutive loopback ports.
+ * Paging adapters come first, followed by speakers.
+ */
+export async function startSimulatorFleet(options: {
+  pagingAdapters: number;
+  speakers: number;
+  basePort?: number;
+  host?: string;
+  password?: string;
+  authMethod?: AlgoAuthMethod;
+  latencyMs?: number;
+}): Promise<AlgoSimulator[]> {
+  const simulators: AlgoSimulator[] = [];
+  const total = options.pagingAdapters + options.speakers;
+
+  for (let i = 0; i < total; i++) {
+    const isPaging = i < options.pagingAdapters;
+    const index = isPaging ? i + 1 : i - options.pagingAdapters + 1;
+    simulators.push(
+      new AlgoSimulator({
+        profile: isPaging ? "8301" : "8180g2",
+        port: options.basePort ? options.basePort + i : 0,
+        host: options.host,
+        password: options.password,
+        authMethod: options.authMethod,
+        latencyMs: options.latencyMs,
+        name: isPaging ? `Sim Paging ${index}` : `Sim Speaker ${index}`,
+      })
+    );
+  }
+
+  try {
+    await Promise.all(simulators.map((simulator) => simulator.start()));
+  } catch (error) {
+    await Promise.all(simulators.map((simulator) => simulator.stop()));
+    throw error;
+  }
+
+  return simulators;
+}
@@ -8,7 +8,6 @@ export interface AlgoDevice {
   type: AlgoDeviceType;
   ipAddress: string;
   authMethod: AlgoAuthMethod;
-  apiPassword: string;
   zone: string;
   volume: number; // Default/initial volume
   maxVolume?: number; // Maximum volume this speaker can reach (0-100, default 100)
@@ -21,6 +20,17 @@ export interface AlgoDevice {
   linkedSpeakerIds?: string[];
 }
 
+// Device fields the devices form can edit
+export type AlgoDeviceConfig = Pick<
+  AlgoDevice,
+  "name" | "type" | "ipAddress" | "authMethod" | "zone" | "volume" | "maxVolume" | "linkedSpeakerIds"
+>;
+
+// Body of POST /api/algo/devices - apiPassword is write-only and never read back
+export interface AlgoDeviceInput extends AlgoDeviceConfig {
+  apiPassword?: string;
+}
+
 // Algo API Response Types
 export interface AlgoAboutResponse {
   "Product Name": string;
@@ -98,6 +108,25 @@ export interface AlgoMulticastConfig {
   group?: number;
 }
 
+// Device uptime from the background health monitor (see lib/algo/health-monitor.ts)
+export interface UptimeBucket {
+  hour: Date; // Start of the hour
+  checks: number;
+  uptimePercent: number;
+  avgResponseTime: number | null; // milliseconds, online checks only
+}
+
+export interface DeviceUptime {
+  deviceId: string;
+  checks: number;
+  uptimePercent: number | null; // null when there are no checks in the window
+  avgResponseTime: number | null;
+  authFailures: number;
+  lastError?: string;
+  lastCheckedAt: Date | null;
+  series: UptimeBucket[]; // Oldest first, hours without checks omitted
+}
+
 // Zone Type
 export interface Zone {
   id: string;
@@ -105,9 +134,16 @@ export interface Zone {
   slug: string;
   deviceIds: string[];
   defaultVolume: number;
+  multicast?: ZoneMulticast | null; // Its own group; null or missing = speakers are switched on per page
   createdAt: Date;
 }
 
+// A zone's multicast group. Its speakers are set up once to receive it, and
+// paging the zone sends there instead of switching speakers on and off.
+// RTP zones each need their own address/port; Polycom zones share one
+// address/port and differ by group number (1-25).
+export type ZoneMulticast = Omit<AlgoMulticastConfig, "mode">;
+
 // Audio File Type
 export interface AudioFile {
   id: string;
@@ -120,20 +156,84 @@ export interface AudioFile {
   createdAt: Date;
 }
 
+// Tone Set Type
+// A two-tone sequential (Quick Call II) page the Live monitor listens for;
+// see lib/audio/two-tone-decoder.ts
+export interface ToneSet {
+  id: string;
+  name: string;
+  toneA: number; // Hz
+  toneB: number; // Hz
+  toneADuration: number; // ms
+  toneBDuration: number; // ms
+  tolerance: number; // Frequency tolerance in percent
+  deviceIds: string[]; // Paging devices whose linked speakers open
+  zoneIds: string[];
+  preTone: string; // Device tone file played when the speakers open, e.g. "chime.wav"; empty for none
+  volume: number; // 0-100
+  enabled: boolean;
+  createdAt: Date;
+}
+
+// Schedule Type
+// A tone or announcement the server plays on its own; see
+// lib/algo/schedules.ts for the rules and lib/algo/scheduler.ts for the runs.
+// Times are the server's local time.
+export type ScheduleRule =
+  | { kind: "once"; at: string } // "YYYY-MM-DDTHH:MM"
+  | { kind: "weekly"; days: number[]; time: string } // Days 0-6 from Sunday; "HH:MM"
+  | { kind: "cron"; expression: string }; // "minute hour day-of-month month day-of-week"
+
+export type ScheduleAudio =
+  | { kind: "file"; audioFileId: string } // Audio library entry
+  | { kind: "tone"; filename: string }; // Tone file on the devices, e.g. "chime.wav"
+
+export interface Schedule {
+  id: string;
+  name: string;
+  rule: ScheduleRule;
+  audio: ScheduleAudio;
+  deviceIds: string[];
+  zoneIds: string[];
+  volume: number; // 0-100
+  loop: boolean;
+  skipHolidays: boolean;
+  exclusions: string[]; // "YYYY-MM-DD" dates it doesn't play, e.g. an .ics EXDATE
+  startsOn: string | null; // First and last "YYYY-MM-DD" it plays on; null = open-ended
+  endsOn: string | null;
+  enabled: boolean;
+  createdAt: Date;
+}
+
+// A day schedules with skipHolidays don't play
+export interface Holiday {
+  date: string; // "YYYY-MM-DD"
+  name: string;
+}
+
 // Distribution Log Type
+// Written by the API routes for every playback; see lib/algo/distribution-logs.ts
+export type DistributionAction = "distribute" | "play" | "test" | "live" | "alert" | "schedule";
+
+export type DistributionStatus = "success" | "partial" | "failed";
+
 export interface DistributionLog {
   id: string;
-  audioFileId: string;
+  action: DistributionAction;
+  audioFileId?: string;
   audioFileName: string;
   targetDevices: string[];
   targetZones: string[];
-  triggeredBy: string;
-  status: "success" | "partial" | "failed";
+  triggeredBy: string; // User ID ("local" for the Electron session, "scheduler" for scheduled runs)
+  triggeredByEmail?: string;
+  status: DistributionStatus;
+  error?: string; // Why nothing played, when it failed before reaching any device
   results: Array<{
     deviceId: string;
     deviceName: string;
     success: boolean;
     error?: string;
+    code?: string;
   }>;
   createdAt: Date;
 }
@@ -0,0 +1,168 @@
+import type { AlgoToneStartRequest, ZoneMulticast } from "./types";
+import { createDeviceClient, getAllRegisteredDevices, getAllRegisteredZones, type RegisteredDevice } from "./registry";
+import { resolveSpeakerMulticast, zoneMulticastKey } from "./zones";
+import { describeError, type ApiErrorCode } from "@/lib/api/errors";
+
+// Server side of zone multicast groups (see ZoneMulticast). Speakers in a
+// zone with a group stay in receiver mode on it; pages reach them by sending
+// to the group, and nothing switches them on or off.
+
+// What a speaker listens to again when its zone's group is removed
+const DEFAULT_RECEIVE = { address: "224.0.2.60", port: "50000", type: "rtp" } as const;
+
+export type SpeakerMulticastMap = Map<string, { zoneId: string; zoneName: string; multicast: ZoneMulticast }>;
+
+// One playback on a source: to a zone group, or to the source's own group
+// with `speakers` switched on for it
+export interface PageSend {
+  multicast?: ZoneMulticast;
+  speakers: RegisteredDevice[];
+}
+
+export interface SpeakerConfigResult {
+  deviceId: string;
+  deviceName: string;
+  success: boolean;
+  error?: string;
+  code?: ApiErrorCode;
+}
+
+/**
+ * The group each speaker receives, from the current zones
+ */
+export async function getSpeakerMulticast(): Promise<SpeakerMulticastMap> {
+  const [zones, devices] = await Promise.all([getAllRegisteredZones(), getAllRegisteredDevices()]);
+  const map: SpeakerMulticastMap = new Map();
+  for (const [speakerId, { zone, multicast }] of resolveSpeakerMulticast(zones, devices)) {
+    map.set(speakerId, { zoneId: zone.id, zoneName: zone.name, multicast });
+  }
+  return map;
+}
+
+/**
+ * Speakers that are switched on and off per page (not in a grouped zone)
+ */
+export function withoutGroup(speakers: RegisteredDevice[], speakerMulticast: SpeakerMulticastMap): RegisteredDevice[] {
+  return speakers.filter((speaker) => !speakerMulticast.has(speaker.id));
+}
+
+/**
+ * Split a source's speakers into the playbacks that reach them: one per
+ * group they receive, then one for the rest
+ */
+export function planSends(speakers: RegisteredDevice[], speakerMulticast: SpeakerMulticastMap): PageSend[] {
+  const groups = new Map<string, ZoneMulticast>();
+  for (const speaker of speakers) {
+    const entry = speakerMulticast.get(speaker.id);
+    if (entry) groups.set(zoneMulticastKey(entry.multicast), entry.multicast);
+  }
+
+  const sends: PageSend[] = Array.from(groups.values(), (multicast) => ({ multicast, speakers: [] }));
+  const toggled = withoutGroup(speakers, speakerMulticast);
+  if (toggled.length > 0 || sends.length === 0) {
+    sends.push({ speakers: toggled });
+  }
+  return sends;
+}
+
+/**
+ * Tone start state that sends one playback to a zone's group
+ */
+export function sendState(multicast: ZoneMulticast): AlgoToneStartRequest["state"] {
+  return {
+    mode: "sender",
+    address: multicast.address,
+    port: multicast.port,
+    type: multicast.type,
+    ...(multicast.type === "poly" ? { group: multicast.group } : {}),
+  };
+}
+
+/**
+ * Set each speaker up to receive `multicast`, or with null put it back on
+ * the default group with multicast off
+ */
+export async function configureSpeakers(
+  speakers: RegisteredDevice[],
+  multicast: ZoneMulticast | null
+): Promise<SpeakerConfigResult[]> {
+  const settings: Record<string, string> = multicast
+    ? {
+        "mcast.mode": "2",
+        "mcast.type": multicast.type,
+        "mcast.address": multicast.address,
+        "mcast.port": multicast.port,
+        ...(multicast.type === "poly" ? { "mcast.group": String(multicast.group) } : {}),
+      }
+    : {
+        "mcast.mode": "0",
+        "mcast.type": DEFAULT_RECEIVE.type,
+        "mcast.address": DEFAULT_RECEIVE.address,
+        "mcast.port": DEFAULT_RECEIVE.port,
+      };
+
+  return Promise.all(
+    speakers.map(async (speaker): Promise<SpeakerConfigResult> => {
+      const result = { deviceId: speaker.id, deviceName: speaker.name };
+      try {
+        await createDeviceClient(speaker).setSetting(settings);
+        return { ...result, success: true };
+      } catch (error) {
+        console.error(`[ZoneMulticast] Failed to configure ${speaker.ipAddress}:`, error);
+        return { ...result, success: false, ...describeError(error, "Failed") };
+      }
+    })
+  );
+}
+
+/**
+ * For live audio: point each paging device linked to a grouped speaker at
+ * that speaker's group. A paging device sends to one group at a time, so
+ * speakers that would need it on two get an error instead.
+ */
+export async function pointPagersAtGroups(
+  speakers: RegisteredDevice[],
+  speakerMulticast: SpeakerMulticastMap,
+  devices: RegisteredDevice[]
+): Promise<Map<string, { success: boolean; error?: string; code?: ApiErrorCode }>> {
+  type PagerPlan = { pager: RegisteredDevice; groups: Map<string, ZoneMulticast>; speakerIds: string[] };
+  const pagers = new Map<string, PagerPlan>();
+  const results = new Map<string, { success: boolean; error?: string; code?: ApiErrorCode }>();
+
+  for (const speaker of speakers) {
+    const entry = speakerMulticast.get(speaker.id);
+    if (!entry) continue;
+    results.set(speaker.id, { success: true });
+    for (const pager of devices.filter((d) => d.type === "8301" && d.linkedSpeakerIds?.includes(speaker.id))) {
+      const plan: PagerPlan = pagers.get(pager.id) ?? { pager, groups: new Map(), speakerIds: [] };
+      plan.groups.set(zoneMulticastKey(entry.multicast), entry.multicast);
+      plan.speakerIds.push(speaker.id);
+      pagers.set(pager.id, plan);
+    }
+  }
+
+  await Promise.all(
+    Array.from(pagers.values(), async ({ pager, groups, speakerIds }) => {
+      let failure: { error: string; code?: ApiErrorCode } | null = null;
+      if (groups.size > 1) {
+        failure = {
+          error: `${pager.name} can only send to one group, but these speakers receive ${groups.size}`,
+          code: "invalid_request",
+        };
+      } else {
+        const [multicast] = groups.values();
+        try {
+          await createDeviceClient(pager).updateMulticast({ mode: "sender", ...multicast });
+        } catch (error) {
+          console.error(`[ZoneMulticast] Failed to point ${pager.ipAddress} at ${zoneMulticastKey(multicast)}:`, error);
+          failure = describeError(error, "Failed");
+        }
+      }
+      if (failure) {
+        for (const id of speakerIds) results.set(id, { success: false, ...failure });
+      }
+    })
+  );
+
+  return results;
+}
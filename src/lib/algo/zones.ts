@@ -0,0 +1,245 @@
+import type { AlgoDevice, Zone, ZoneMulticast } from "./types";
+
+// Polycom group paging: every group shares one address and port
+export const POLY_DEFAULT_ADDRESS = "224.0.1.116";
+export const POLY_DEFAULT_PORT = "5001";
+export const POLY_GROUP_COUNT = 25;
+
+// Found by findMulticastCollisions. Blocking ones page the wrong speakers;
+// the others are worth knowing about but work.
+export interface MulticastCollision {
+  kind: "group" | "speaker" | "partial" | "mac";
+  zoneIds: string[];
+  blocking: boolean;
+  message: string;
+}
+
+// One playback source for a zone send: the device that plays the audio
+// and the multicast speakers to switch on for it
+export interface ZoneTarget<T extends AlgoDevice = AlgoDevice> {
+  source: T;
+  speakers: T[];
+  volume?: number; // defaultVolume of the first zone that reached this source
+  zoneIds: string[];
+}
+
+/**
+ * Resolve zone membership down to sources and speakers.
+ *
+ * - A paging device (8301) in a zone plays, with all of its linked speakers.
+ * - A speaker in a zone is switched on under the paging device it is linked to,
+ *   so a zone can be a subset of an adapter's speakers.
+ * - A speaker not linked to any paging device plays on its own.
+ *
+ * Called at send time with the current zones and devices, so membership
+ * changes apply to the next page without re-selecting anything.
+ */
+export function resolveZoneTargets<T extends AlgoDevice>(zones: Zone[], devices: T[]): ZoneTarget<T>[] {
+  const devicesById = new Map(devices.map((device) => [device.id, device]));
+  const pagingDevices = devices.filter((device) => device.type === "8301");
+  const targets = new Map<string, ZoneTarget<T>>();
+
+  const addTarget = (source: T, speakers: T[], zone: Zone) => {
+    const target = targets.get(source.id) ?? { source, speakers: [], volume: zone.defaultVolume, zoneIds: [] };
+    for (const speaker of speakers) {
+      if (!target.speakers.some((s) => s.id === speaker.id)) {
+        target.speakers.push(speaker);
+      }
+    }
+    if (!target.zoneIds.includes(zone.id)) {
+      target.zoneIds.push(zone.id);
+    }
+    targets.set(source.id, target);
+  };
+
+  for (const zone of zones) {
+    for (const deviceId of zone.deviceIds) {
+      const device = devicesById.get(deviceId);
+      if (!device) continue; // Deleted device still listed in the zone
+
+      if (device.type === "8301") {
+        const linked = (device.linkedSpeakerIds ?? [])
+          .map((id) => devicesById.get(id))
+          .filter((speaker): speaker is T => !!speaker);
+        addTarget(device, linked, zone);
+        continue;
+      }
+
+      const paging = pagingDevices.find((p) => p.linkedSpeakerIds?.includes(device.id));
+      if (paging) {
+        addTarget(paging, [device], zone);
+      } else {
+        addTarget(device, [], zone);
+      }
+    }
+  }
+
+  return Array.from(targets.values());
+}
+
+// ============ Multicast groups ============
+
+/**
+ * Same key = same group, as a receiver sees it
+ */
+export function zoneMulticastKey(multicast: ZoneMulticast): string {
+  const base = `${multicast.address}:${multicast.port}`;
+  return multicast.type === "poly" ? `${base}#${multicast.group}` : base;
+}
+
+export function describeZoneMulticast(multicast: ZoneMulticast): string {
+  return multicast.type === "poly"
+    ? `Polycom group ${multicast.group} (${multicast.address}:${multicast.port})`
+    : `RTP ${multicast.address}:${multicast.port}`;
+}
+
+/**
+ * Check a zone's group. Returns an error message, or null if valid.
+ */
+export function validateZoneMulticast(multicast: ZoneMulticast): string | null {
+  const octets = multicast.address.split(".").map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  if (octets.length !== 4 || octets.some((octet) => isNaN(octet) || octet > 255)) {
+    return "Multicast address must be an IPv4 address";
+  }
+  if (octets[0] < 224 || octets[0] > 239) {
+    return "Multicast address must be between 224.0.0.0 and 239.255.255.255";
+  }
+  if (octets[0] === 224 && octets[1] === 0 && octets[2] === 0) {
+    return "224.0.0.x is reserved for local network control";
+  }
+  const port = Number(multicast.port);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    return "Port must be between 1 and 65535";
+  }
+  if (multicast.type === "poly") {
+    const group = multicast.group ?? 0;
+    if (!Number.isInteger(group) || group < 1 || group > POLY_GROUP_COUNT) {
+      return `Polycom group must be between 1 and ${POLY_GROUP_COUNT}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Speakers a zone reaches: linked speakers of its paging devices, and
+ * speakers that play on their own
+ */
+export function resolveZoneSpeakerIds<T extends AlgoDevice>(zone: Zone, devices: T[]): string[] {
+  return resolveZoneTargets([zone], devices).flatMap((target) =>
+    target.speakers.length > 0 ? target.speakers.map((s) => s.id) : target.source.type === "8301" ? [] : [target.source.id]
+  );
+}
+
+/**
+ * The group each speaker was set up to receive, from the zones with one.
+ * A speaker in two grouped zones keeps the first (findMulticastCollisions
+ * reports it).
+ */
+export function resolveSpeakerMulticast<T extends AlgoDevice>(
+  zones: Zone[],
+  devices: T[]
+): Map<string, { zone: Zone; multicast: ZoneMulticast }> {
+  const groups = new Map<string, { zone: Zone; multicast: ZoneMulticast }>();
+  for (const zone of zones) {
+    if (!zone.multicast) continue;
+    for (const speakerId of resolveZoneSpeakerIds(zone, devices)) {
+      if (!groups.has(speakerId)) groups.set(speakerId, { zone, multicast: zone.multicast });
+    }
+  }
+  return groups;
+}
+
+// Switches deliver multicast by Ethernet address, which keeps only the low
+// 23 bits of the IP address
+const multicastMac = (address: string) => {
+  const [, b, c, d] = address.split(".").map(Number);
+  return ((b & 0x7f) << 16) | (c << 8) | d;
+};
+
+/**
+ * Check zone groups against each other: shared groups, speakers in two
+ * groups, zones that reach only part of a group, and addresses switches
+ * can't tell apart
+ */
+export function findMulticastCollisions<T extends AlgoDevice>(zones: Zone[], devices: T[]): MulticastCollision[] {
+  const collisions: MulticastCollision[] = [];
+  const devicesById = new Map(devices.map((device) => [device.id, device]));
+  const grouped = zones.filter((zone): zone is Zone & { multicast: ZoneMulticast } => !!zone.multicast);
+
+  for (let i = 0; i < grouped.length; i++) {
+    for (let j = i + 1; j < grouped.length; j++) {
+      const a = grouped[i];
+      const b = grouped[j];
+      const zoneIds = [a.id, b.id];
+      const sameAddress = a.multicast.address === b.multicast.address && a.multicast.port === b.multicast.port;
+
+      if (sameAddress && a.multicast.type !== b.multicast.type) {
+        const label = (zone: Zone & { multicast: ZoneMulticast }) =>
+          `${zone.name} (${zone.multicast.type === "poly" ? "Polycom" : "RTP"})`;
+        collisions.push({
+          kind: "group",
+          zoneIds,
+          blocking: true,
+          message: `${label(a)} and ${label(b)} both use ${a.multicast.address}:${a.multicast.port}`,
+        });
+      } else if (zoneMulticastKey(a.multicast) === zoneMulticastKey(b.multicast)) {
+        collisions.push({
+          kind: "group",
+          zoneIds,
+          blocking: true,
+          message: `${a.name} and ${b.name} both use ${describeZoneMulticast(a.multicast)}`,
+        });
+      } else if (
+        a.multicast.type === "rtp" &&
+        b.multicast.type === "rtp" &&
+        a.multicast.address !== b.multicast.address &&
+        multicastMac(a.multicast.address) === multicastMac(b.multicast.address)
+      ) {
+        collisions.push({
+          kind: "mac",
+          zoneIds,
+          blocking: false,
+          message: `${a.multicast.address} (${a.name}) and ${b.multicast.address} (${b.name}) share an Ethernet multicast address, so switches send both to each zone's speakers`,
+        });
+      }
+    }
+  }
+
+  // Speakers receive one group each
+  const speakerZones = new Map<string, Zone & { multicast: ZoneMulticast }>();
+  for (const zone of grouped) {
+    for (const speakerId of resolveZoneSpeakerIds(zone, devices)) {
+      const other = speakerZones.get(speakerId);
+      if (!other) {
+        speakerZones.set(speakerId, zone);
+      } else if (zoneMulticastKey(other.multicast) !== zoneMulticastKey(zone.multicast)) {
+        collisions.push({
+          kind: "speaker",
+          zoneIds: [other.id, zone.id],
+          blocking: true,
+          message: `${devicesById.get(speakerId)?.name ?? speakerId} is in ${other.name} and ${zone.name}, but can only receive one group`,
+        });
+      }
+    }
+  }
+
+  // Paging a zone without a group sends to its speakers' groups, which
+  // reaches every speaker on them
+  for (const zone of zones.filter((z) => !z.multicast)) {
+    const speakerIds = new Set(resolveZoneSpeakerIds(zone, devices));
+    for (const groupZone of grouped) {
+      const groupSpeakers = resolveZoneSpeakerIds(groupZone, devices);
+      const inZone = groupSpeakers.filter((id) => speakerIds.has(id)).length;
+      if (inZone > 0 && inZone < groupSpeakers.length) {
+        collisions.push({
+          kind: "partial",
+          zoneIds: [zone.id, groupZone.id],
+          blocking: false,
+          message: `Paging ${zone.name} also reaches the rest of ${groupZone.name}, since its speakers there receive ${groupZone.name}'s group`,
+        });
+      }
+    }
+  }
+
+  return collisions;
+}
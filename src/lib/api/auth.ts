@@ -0,0 +1,129 @@
+import { timingSafeEqual } from "crypto";
+import type { NextRequest, NextResponse } from "next/server";
+import { adminAuth } from "@/lib/firebase/admin";
+import { DEFAULT_ROLE, ROLE_LABELS, hasRole, isUserRole, type UserRole } from "@/lib/roles";
+import { apiError, type ApiErrorBody } from "./errors";
+
+// Cookie set by the Electron shell on its window (see electron/main.ts).
+// Its value must match ALGO_LOCAL_SESSION_TOKEN, which Electron generates
+// at startup for the Next.js server running in the same process.
+export const LOCAL_SESSION_COOKIE = "algo_local_session";
+
+// The station's own window runs monitoring but cannot administer devices
+const LOCAL_SESSION_ROLE: UserRole = "operator";
+const LOCAL_USER: ApiUser = { uid: "local", role: LOCAL_SESSION_ROLE, source: "local" };
+
+// The caller behind an authorized API request
+export interface ApiUser {
+  uid: string;
+  email?: string;
+  role: UserRole;
+  source: "firebase" | "local";
+}
+
+export type AuthResult =
+  | { ok: true; user: ApiUser }
+  | { ok: false; response: NextResponse<ApiErrorBody> };
+
+/**
+ * Guard for API routes - call first, before touching any device:
+ *
+ *   const auth = await authorizeRequest(request, "operator");
+ *   if (!auth.ok) return auth.response;
+ *
+ * Accepts a Firebase ID token ("Authorization: Bearer <token>") or the
+ * Electron local session cookie, then checks the caller has requiredRole.
+ * Anonymous Firebase sign-ins are rejected.
+ */
+export async function authorizeRequest(
+  request: NextRequest,
+  requiredRole: UserRole = "viewer"
+): Promise<AuthResult> {
+  const user = await authenticate(request);
+  if (!user.ok) return user;
+
+  if (!hasRole(user.user.role, requiredRole)) {
+    return {
+      ok: false,
+      response: apiError(`${ROLE_LABELS[requiredRole]} role required`, "forbidden", 403),
+    };
+  }
+  return user;
+}
+
+/**
+ * Role for a user's custom claims. Verified emails listed in
+ * ALGO_ADMIN_EMAILS are admins until given a role claim, so a new install
+ * has someone who can assign roles.
+ */
+export function resolveUserRole(
+  claims: Record<string, unknown> | undefined,
+  email?: string,
+  emailVerified?: boolean
+): UserRole {
+  const role = claims?.role;
+  if (isUserRole(role)) {
+    return role;
+  }
+  // Anyone can sign up with an address they don't own; only a verified one counts
+  if (email && emailVerified === true && getBootstrapAdminEmails().includes(email.toLowerCase())) {
+    return "admin";
+  }
+  return DEFAULT_ROLE;
+}
+
+async function authenticate(request: NextRequest): Promise<AuthResult> {
+  const header = request.headers.get("authorization");
+  const token = header?.match(/^Bearer\s+(.+)$/i)?.[1];
+
+  if (!token) {
+    if (hasLocalSession(request)) {
+      return { ok: true, user: LOCAL_USER };
+    }
+    return { ok: false, response: apiError("Authentication required", "unauthenticated", 401) };
+  }
+
+  try {
+    const decoded = await adminAuth.verifyIdToken(token);
+
+    if (decoded.firebase.sign_in_provider === "anonymous") {
+      return { ok: false, response: apiError("Account is not permitted to use this API", "forbidden", 403) };
+    }
+
+    return {
+      ok: true,
+      user: {
+        uid: decoded.uid,
+        email: decoded.email,
+        role: resolveUserRole(decoded, decoded.email, decoded.email_verified),
+        source: "firebase",
+      },
+    };
+  } catch (error) {
+    if (process.env.NODE_ENV === "development") {
+      console.warn("[Auth] Rejected ID token:", error);
+    }
+    // Verification can fail offline; the station's own window still gets in with its local session
+    if (hasLocalSession(request)) {
+      return { ok: true, user: LOCAL_USER };
+    }
+    return { ok: false, response: apiError("Invalid or expired session - sign in again", "unauthenticated", 401) };
+  }
+}
+
+function hasLocalSession(request: NextRequest): boolean {
+  const expected = process.env.ALGO_LOCAL_SESSION_TOKEN;
+  const provided = request.cookies.get(LOCAL_SESSION_COOKIE)?.value;
+  if (!expected || !provided) return false;
+
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+  return expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+function getBootstrapAdminEmails(): string[] {
+  return (process.env.ALGO_ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+}
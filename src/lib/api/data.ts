@@ -0,0 +1,102 @@
+import type { AlgoDevice, Zone, AudioFile, ToneSet, DistributionLog } from "@/lib/algo/types";
+import type { StorageMode } from "@/lib/storage/types";
+import type { SyncStatus } from "@/lib/storage/sync-store";
+import { reviveDates } from "@/lib/storage/collections";
+import { apiFetch } from "./fetch";
+
+// Client helpers for /api/data - the same functions as lib/firebase/firestore.ts,
+// served from the server's store. lib/data.ts picks between the two.
+
+async function request<T>(input: string, init?: RequestInit): Promise<T> {
+  const response = await apiFetch(input, init);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed: HTTP ${response.status}`);
+  }
+  return data;
+}
+
+async function list<T>(collection: string, max?: number): Promise<T[]> {
+  const query = max ? `?limit=${max}` : "";
+  const data = await request<{ docs: Record<string, unknown>[] }>(`/api/data/${collection}${query}`);
+  return data.docs.map((doc) => reviveDates(doc) as T);
+}
+
+async function get<T>(collection: string, id: string): Promise<T | null> {
+  const data = await request<{ doc: Record<string, unknown> | null }>(
+    `/api/data/${collection}/${encodeURIComponent(id)}`
+  );
+  return data.doc ? (reviveDates(data.doc) as T) : null;
+}
+
+async function add(collection: string, doc: object): Promise<string> {
+  const data = await request<{ id: string }>(`/api/data/${collection}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(doc),
+  });
+  return data.id;
+}
+
+async function update(collection: string, id: string, doc: object): Promise<void> {
+  await request(`/api/data/${collection}/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(doc),
+  });
+}
+
+async function remove(collection: string, id: string): Promise<void> {
+  await request(`/api/data/${collection}/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
+
+// ============ Devices ============
+
+export const getDevices = () => list<AlgoDevice>("devices");
+export const getDevice = (id: string) => get<AlgoDevice>("devices", id);
+export const updateDevice = (id: string, data: Partial<AlgoDevice>) =>
+  update("devices", id, { ...data, updatedAt: new Date() });
+
+// ============ Zones ============
+
+export const getZones = () => list<Zone>("zones");
+export const getZone = (id: string) => get<Zone>("zones", id);
+export const addZone = (zone: Omit<Zone, "id" | "createdAt">) => add("zones", zone);
+export const updateZone = (id: string, data: Partial<Zone>) => update("zones", id, data);
+export const deleteZone = (id: string) => remove("zones", id);
+
+// ============ Audio Files ============
+
+export const getAudioFiles = () => list<AudioFile>("audioFiles");
+export const getAudioFile = (id: string) => get<AudioFile>("audioFiles", id);
+export const addAudioFile = (audioFile: Omit<AudioFile, "id" | "createdAt">) => add("audioFiles", audioFile);
+export const deleteAudioFile = (id: string) => remove("audioFiles", id);
+
+// ============ Tone Sets ============
+
+export const getToneSets = () => list<ToneSet>("toneSets");
+export const addToneSet = (toneSet: Omit<ToneSet, "id" | "createdAt">) => add("toneSets", toneSet);
+export const updateToneSet = (id: string, data: Partial<ToneSet>) => update("toneSets", id, data);
+export const deleteToneSet = (id: string) => remove("toneSets", id);
+
+// ============ Distribution Logs ============
+
+export const getDistributionLogs = (max = 50) => list<DistributionLog>("distributionLogs", max);
+
+// ============ Storage ============
+
+export interface StorageStatus {
+  mode: StorageMode;
+  sync?: Omit<SyncStatus, "lastSyncAt"> & { lastSyncAt: string | null };
+}
+
+export async function fetchStorageStatus(): Promise<StorageStatus> {
+  return request<StorageStatus>("/api/storage");
+}
+
+/**
+ * Sync with Firestore now (sync mode only)
+ */
+export async function syncStorage(): Promise<StorageStatus> {
+  return request<StorageStatus>("/api/storage", { method: "POST" });
+}
@@ -0,0 +1,42 @@
+import type { AlgoDeviceInput } from "@/lib/algo/types";
+import { apiFetch } from "./fetch";
+
+// Client helpers for the device registry routes. Device config and
+// passwords are written through the server so the password is encrypted
+// before it is stored; status fields are still updated via firestore.ts.
+
+async function sendDeviceRequest(url: string, method: string, body?: unknown): Promise<Record<string, unknown>> {
+  const response = await apiFetch(url, {
+    method,
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed: HTTP ${response.status}`);
+  }
+  return data;
+}
+
+/**
+ * Add a device. Returns the new device ID.
+ */
+export async function createDevice(input: AlgoDeviceInput): Promise<string> {
+  const data = await sendDeviceRequest("/api/algo/devices", "POST", input);
+  return data.id as string;
+}
+
+/**
+ * Update a device's configuration. Omit apiPassword to keep the stored one.
+ */
+export async function saveDevice(id: string, input: Partial<AlgoDeviceInput>): Promise<void> {
+  await sendDeviceRequest(`/api/algo/devices/${id}`, "PATCH", input);
+}
+
+/**
+ * Delete a device and its stored password
+ */
+export async function removeDevice(id: string): Promise<void> {
+  await sendDeviceRequest(`/api/algo/devices/${id}`, "DELETE");
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { AlgoError, PagingBusyError, RegistryNotFoundError, type AlgoErrorCode } from "@/lib/algo/errors";
+import { StoreNotFoundError } from "@/lib/storage/types";
+
+// Error codes returned by every /api route
+export type ApiErrorCode =
+  | AlgoErrorCode
+  | "invalid_request"
+  | "unauthenticated"
+  | "forbidden"
+  | "not_found"
+  | "paging_busy"
+  | "internal_error";
+
+// JSON body of every /api error response
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+  ip?: string;
+}
+
+// HTTP status for each device failure - 5xx gateway codes for the device side
+const ALGO_ERROR_STATUS: Record<AlgoErrorCode, number> = {
+  device_unreachable: 503,
+  device_timeout: 504,
+  auth_rejected: 502,
+  device_busy: 409,
+  bad_response: 502,
+};
+
+/**
+ * Build a JSON error response
+ */
+export function apiError(
+  message: string,
+  code: ApiErrorCode,
+  status: number,
+  extra?: Record<string, unknown>
+): NextResponse<ApiErrorBody> {
+  return NextResponse.json({ ...extra, error: message, code }, { status });
+}
+
+/**
+ * 400 response for missing or invalid request fields
+ */
+export function badRequest(message: string): NextResponse<ApiErrorBody> {
+  return apiError(message, "invalid_request", 400);
+}
+
+/**
+ * Convert a caught error to its message and code, for per-device results
+ */
+export function describeError(
+  error: unknown,
+  fallbackMessage: string
+): { error: string; code: ApiErrorCode } {
+  if (error instanceof AlgoError) {
+    return { error: error.message, code: error.code };
+  }
+  if (error instanceof RegistryNotFoundError || error instanceof StoreNotFoundError) {
+    return { error: error.message, code: "not_found" };
+  }
+  if (error instanceof PagingBusyError) {
+    return { error: error.message, code: "paging_busy" };
+  }
+  return {
+    error: error instanceof Error ? error.message : fallbackMessage,
+    code: "internal_error",
+  };
+}
+
+/**
+ * Map a caught error to the response for its cause.
+ * AlgoError subclasses get their own status, unknown IDs a 404; anything else is a 500.
+ */
+export function algoErrorResponse(
+  error: unknown,
+  fallbackMessage: string
+): NextResponse<ApiErrorBody> {
+  if (error instanceof AlgoError) {
+    return apiError(error.message, error.code, ALGO_ERROR_STATUS[error.code], {
+      ip: error.ipAddress,
+    });
+  }
+
+  if (error instanceof PagingBusyError) {
+    return apiError(error.message, "paging_busy", 409, { holder: error.holder });
+  }
+
+  const { error: message, code } = describeError(error, fallbackMessage);
+  return apiError(message, code, code === "not_found" ? 404 : 500);
+}
@@ -0,0 +1,135 @@
+import type { DeviceStatusEvent, ReportedEvent, ServerEvent } from "@/lib/algo/events";
+import type { AlgoDevice } from "@/lib/algo/types";
+import { generateId } from "@/lib/utils";
+import { apiFetch } from "./fetch";
+
+// Client side of GET /api/events. Every subscriber in a tab shares one
+// stream, which reconnects after a drop; the server replays current state
+// on each connect, and a later subscriber gets it from here. EventSource
+// can't send the ID token, so the stream is read with fetch.
+
+const RECONNECT_MS = 3000;
+
+// Tells this tab's reports apart from other consoles'
+export const CONSOLE_ID = generateId();
+
+type ServerEventListener = (event: ServerEvent) => void;
+
+const listeners = new Set<ServerEventListener>();
+let connection: AbortController | null = null;
+
+// The latest state events (paging, each device, running jobs)
+const current = new Map<string, ServerEvent>();
+
+function stateKey(event: ServerEvent): string | null {
+  switch (event.type) {
+    case "paging":
+      return "paging";
+    case "device_status":
+      return `device:${event.deviceId}`;
+    case "job":
+      return `job:${event.job.id}`;
+    default:
+      return null;
+  }
+}
+
+export function subscribeServerEvents(listener: ServerEventListener): () => void {
+  listeners.add(listener);
+  if (!connection) {
+    connection = new AbortController();
+    void connect(connection.signal);
+  } else {
+    const replay = Array.from(current.values());
+    queueMicrotask(() => {
+      if (listeners.has(listener)) replay.forEach(listener);
+    });
+  }
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      connection?.abort();
+      connection = null;
+      current.clear();
+    }
+  };
+}
+
+async function connect(signal: AbortSignal): Promise<void> {
+  while (!signal.aborted) {
+    try {
+      const response = await apiFetch("/api/events", { signal, headers: { Accept: "text/event-stream" } });
+      if (!response.ok || !response.body) {
+        throw new Error(`Request failed: HTTP ${response.status}`);
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        let end: number;
+        while ((end = buffer.indexOf("\n\n")) >= 0) {
+          const message = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          const data = message
+            .split("\n")
+            .filter((line) => line.startsWith("data:"))
+            .map((line) => line.slice(5).trimStart())
+            .join("\n");
+          if (data) dispatch(JSON.parse(data));
+        }
+      }
+    } catch (error) {
+      if (signal.aborted) return;
+      console.warn("[Events] Stream dropped:", error);
+    }
+    await new Promise((resolve) => setTimeout(resolve, RECONNECT_MS));
+  }
+}
+
+function dispatch(event: ServerEvent): void {
+  const key = stateKey(event);
+  if (key && event.type === "job" && event.job.status !== "running") {
+    current.delete(key);
+  } else if (key) {
+    current.set(key, event);
+  }
+
+  listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error("[Events] Listener failed:", error);
+    }
+  });
+}
+
+/**
+ * Tell the other consoles about Live monitor activity
+ */
+export function reportEvent(event: ReportedEvent): void {
+  apiFetch("/api/events", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...event, console: CONSOLE_ID }),
+  }).catch((error) => console.error("[Events] Failed to report event:", error));
+}
+
+/**
+ * A device list with a pushed device status applied
+ */
+export function applyDeviceStatus<T extends AlgoDevice>(devices: T[], event: DeviceStatusEvent): T[] {
+  return devices.map((device) =>
+    device.id === event.deviceId
+      ? {
+          ...device,
+          isOnline: event.isOnline,
+          authValid: event.authValid,
+          lastSeen: event.isOnline ? new Date(event.at) : device.lastSeen,
+        }
+      : device
+  );
+}
@@ -0,0 +1,25 @@
+import { auth } from "@/lib/firebase/config";
+
+/**
+ * fetch() for the app's own /api routes - attaches the signed-in user's
+ * Firebase ID token, which every route requires
+ */
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const token = await getIdToken();
+  if (token) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+  return fetch(input, { ...init, headers });
+}
+
+// An expired token can't be refreshed without internet; the request then goes
+// without one, which the Electron station's local session still authorizes
+async function getIdToken(): Promise<string | undefined> {
+  try {
+    return await auth.currentUser?.getIdToken();
+  } catch (error) {
+    console.warn("[Auth] Could not refresh ID token:", error);
+    return undefined;
+  }
+}
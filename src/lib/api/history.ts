@@ -0,0 +1,76 @@
+import type { DistributionAction, DistributionLog, DistributionStatus } from "@/lib/algo/types";
+import { apiFetch } from "./fetch";
+
+// Client helpers for /api/history. Logs are written by the playback routes;
+// the browser only reads them.
+
+export const DISTRIBUTION_ACTION_LABELS: Record<DistributionAction, string> = {
+  distribute: "Distribution",
+  play: "Tone",
+  test: "Test tone",
+  live: "Live broadcast",
+  alert: "Tone alert",
+  schedule: "Scheduled",
+};
+
+export interface HistoryQuery {
+  from?: Date;
+  to?: Date;
+  user?: string; // Email of the user who triggered it
+  status?: DistributionStatus;
+  limit?: number;
+  cursor?: string;
+}
+
+function toSearchParams(query: HistoryQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.from) params.set("from", query.from.toISOString());
+  if (query.to) params.set("to", query.to.toISOString());
+  if (query.user) params.set("user", query.user);
+  if (query.status) params.set("status", query.status);
+  if (query.limit) params.set("limit", String(query.limit));
+  if (query.cursor) params.set("cursor", query.cursor);
+  return params;
+}
+
+/**
+ * One page of history, newest first. Pass nextCursor back as cursor for the next page.
+ */
+export async function fetchHistory(
+  query: HistoryQuery
+): Promise<{ logs: DistributionLog[]; nextCursor: string | null }> {
+  const response = await apiFetch(`/api/history?${toSearchParams(query)}`);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed: HTTP ${response.status}`);
+  }
+
+  return {
+    logs: (data.logs as DistributionLog[]).map((log) => ({ ...log, createdAt: new Date(log.createdAt) })),
+    nextCursor: data.nextCursor ?? null,
+  };
+}
+
+/**
+ * Download every log matching the filters as a CSV file
+ */
+export async function downloadHistoryCsv(query: HistoryQuery): Promise<void> {
+  const params = toSearchParams({ ...query, limit: undefined, cursor: undefined });
+  params.set("format", "csv");
+
+  const response = await apiFetch(`/api/history?${params}`);
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Request failed: HTTP ${response.status}`);
+  }
+
+  const disposition = response.headers.get("Content-Disposition") || "";
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || "distribution-history.csv";
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,112 @@
+import type { PagePriority } from "@/lib/algo/page-priority";
+import { apiFetch } from "./fetch";
+
+// Client side of the paging arbiter (lib/algo/paging-arbiter.ts) for paging
+// driven from the browser. The lease is renewed while held; the server
+// drops it if the page goes away without releasing it.
+
+const RENEW_MS = 5000;
+
+// Device ID -> the page holding it instead of us
+export type BlockedDevices = Record<string, string>;
+
+export class PageLeaseClient {
+  private leaseId: string | null = null;
+  private deviceIds: string[] = [];
+  private priority: PagePriority;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pending: Promise<BlockedDevices> = Promise.resolve({});
+
+  constructor(
+    private readonly label: string,
+    priority: PagePriority,
+    private readonly onBlocked: (blocked: BlockedDevices) => void
+  ) {
+    this.priority = priority;
+  }
+
+  /**
+   * Hold these devices (none releases the lease). Devices a page of equal
+   * or higher priority has are reported to onBlocked and come over when it
+   * ends.
+   */
+  hold(deviceIds: string[], priority: PagePriority = this.priority): Promise<BlockedDevices> {
+    const ids = [...new Set(deviceIds)].sort();
+    const changed = ids.join(",") !== this.deviceIds.join(",") || priority !== this.priority;
+    this.deviceIds = ids;
+    this.priority = priority;
+
+    if (ids.length > 0 && !this.timer) {
+      this.timer = setInterval(() => {
+        this.enqueue().catch((error) => console.error("[Paging] Failed to renew lease:", error));
+      }, RENEW_MS);
+    } else if (ids.length === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    return changed ? this.enqueue() : this.pending;
+  }
+
+  release(): Promise<BlockedDevices> {
+    return this.hold([]);
+  }
+
+  /**
+   * The lease ID once pending changes reach the server, for pages played as
+   * part of this one (see parentId in the arbiter)
+   */
+  async currentId(): Promise<string | null> {
+    await this.pending.catch(() => {});
+    return this.leaseId;
+  }
+
+  // One request at a time, each with the latest devices
+  private enqueue(): Promise<BlockedDevices> {
+    this.pending = this.pending.then(
+      () => this.sync(),
+      () => this.sync()
+    );
+    return this.pending;
+  }
+
+  private async sync(): Promise<BlockedDevices> {
+    if (this.deviceIds.length === 0) {
+      if (this.leaseId) {
+        const id = this.leaseId;
+        this.leaseId = null;
+        await apiFetch(`/api/algo/paging/${id}`, { method: "DELETE" }).catch((error) => {
+          console.error("[Paging] Failed to release lease:", error);
+        });
+      }
+      this.onBlocked({});
+      return {};
+    }
+
+    const body = JSON.stringify({ deviceIds: this.deviceIds, priority: this.priority });
+    let response = this.leaseId
+      ? await apiFetch(`/api/algo/paging/${this.leaseId}`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body,
+        })
+      : null;
+
+    // New, expired or preempted: take a fresh lease
+    if (!response || !response.ok) {
+      this.leaseId = null;
+      response = await apiFetch("/api/algo/paging", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ label: this.label, priority: this.priority, deviceIds: this.deviceIds, partial: true }),
+      });
+    }
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed: HTTP ${response.status}`);
+    }
+    this.leaseId = data.lease.id;
+    this.onBlocked(data.blocked ?? {});
+    return data.blocked ?? {};
+  }
+}
@@ -0,0 +1,80 @@
+import type { PlaybackJob } from "@/lib/algo/playback-jobs";
+import { apiFetch } from "./fetch";
+import { subscribeServerEvents } from "./events";
+
+// Client side of playback jobs (lib/algo/playback-jobs.ts): the play and
+// distribute routes answer with a job, followed here until it finishes.
+
+// Progress arrives as server events; polling only catches a finish missed
+// while the event stream was down
+const POLL_MS = 5000;
+
+async function jobRequest(url: string, init?: RequestInit): Promise<PlaybackJob> {
+  const response = await apiFetch(url, init);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed: HTTP ${response.status}`);
+  }
+  return data.job;
+}
+
+/**
+ * Start a playback job on /api/algo/play or /api/algo/distribute
+ */
+export function submitPlayback(url: "/api/algo/play" | "/api/algo/distribute", body: object): Promise<PlaybackJob> {
+  return jobRequest(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+export function getJob(id: string): Promise<PlaybackJob> {
+  return jobRequest(`/api/algo/jobs/${id}`);
+}
+
+export function cancelJob(id: string): Promise<PlaybackJob> {
+  return jobRequest(`/api/algo/jobs/${id}`, { method: "DELETE" });
+}
+
+/**
+ * Follow a job until it finishes, reporting each update
+ */
+export function waitForJob(job: PlaybackJob, onProgress?: (job: PlaybackJob) => void): Promise<PlaybackJob> {
+  if (job.status !== "running") return Promise.resolve(job);
+
+  return new Promise((resolve, reject) => {
+    let done = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let unsubscribe = () => {};
+    const finish = () => {
+      done = true;
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
+
+    const update = (current: PlaybackJob) => {
+      if (done) return;
+      onProgress?.(current);
+      if (current.status === "running") return;
+      finish();
+      resolve(current);
+    };
+
+    unsubscribe = subscribeServerEvents((event) => {
+      if (event.type === "job" && event.job.id === job.id) update(event.job);
+    });
+
+    const poll = async () => {
+      try {
+        update(await getJob(job.id));
+      } catch (error) {
+        finish();
+        reject(error);
+        return;
+      }
+      if (!done) timer = setTimeout(poll, POLL_MS);
+    };
+    timer = setTimeout(poll, POLL_MS);
+  });
+}
@@ -0,0 +1,67 @@
+import type { ICalImport, ScheduleTemplate } from "@/lib/algo/ical";
+import type { ScheduleStatus } from "@/lib/algo/scheduler";
+import type { ScheduleInput } from "@/lib/algo/schedules";
+import type { PlaybackJob } from "@/lib/algo/playback-jobs";
+import type { Holiday } from "@/lib/algo/types";
+import { apiFetch } from "./fetch";
+
+// Client helpers for the schedule routes. Schedules are written through the
+// server so its scheduler picks up changes straight away.
+
+async function sendScheduleRequest(url: string, method: string, body?: unknown): Promise<Record<string, unknown>> {
+  const response = await apiFetch(url, {
+    method,
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed: HTTP ${response.status}`);
+  }
+  return data;
+}
+
+/**
+ * Every schedule with its next run (in the server's time), and the holidays
+ */
+export async function fetchSchedules(): Promise<{ schedules: ScheduleStatus[]; holidays: Holiday[] }> {
+  const data = await sendScheduleRequest("/api/algo/schedules", "GET");
+  return data as unknown as { schedules: ScheduleStatus[]; holidays: Holiday[] };
+}
+
+/**
+ * Add a schedule. Returns the new schedule ID.
+ */
+export async function createSchedule(input: ScheduleInput): Promise<string> {
+  const data = await sendScheduleRequest("/api/algo/schedules", "POST", input);
+  return data.id as string;
+}
+
+export async function saveSchedule(id: string, input: Partial<ScheduleInput>): Promise<void> {
+  await sendScheduleRequest(`/api/algo/schedules/${id}`, "PATCH", input);
+}
+
+export async function removeSchedule(id: string): Promise<void> {
+  await sendScheduleRequest(`/api/algo/schedules/${id}`, "DELETE");
+}
+
+/**
+ * Play a schedule now. Returns the playback job.
+ */
+export async function runScheduleNow(id: string): Promise<PlaybackJob> {
+  const data = await sendScheduleRequest(`/api/algo/schedules/${id}/run`, "POST");
+  return data.job as PlaybackJob;
+}
+
+export async function saveHolidays(holidays: Holiday[]): Promise<void> {
+  await sendScheduleRequest("/api/algo/schedules/holidays", "PUT", { holidays });
+}
+
+/**
+ * Import an .ics file's events. With dryRun, nothing is saved.
+ */
+export async function importCalendar(ics: string, template: ScheduleTemplate, dryRun: boolean): Promise<ICalImport> {
+  const data = await sendScheduleRequest("/api/algo/schedules/import", "POST", { ics, template, dryRun });
+  return data as unknown as ICalImport;
+}
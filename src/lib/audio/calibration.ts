@@ -0,0 +1,148 @@
+// Detection calibration for the Live monitor: recommends thresholds and
+// timings from voice-band levels (dBFS, one per detector block) recorded
+// while the channel was idle and during a sample transmission.
+
+export interface CalibrationResult {
+  calibratedAt: string;
+  noiseFloorDbfs: number; // Median idle level
+  noisePeakDbfs: number; // 99th percentile idle level
+  speechDbfs: number; // Median level of the transmission's speech
+  separationDb: number; // Speech above the noise peak
+  attackDbfs: number;
+  releaseDbfs: number;
+  floorMarginDb: number; // Keeps the adaptive attack near the recommended one
+  sustainDuration: number; // ms
+  disableDelay: number; // ms
+  histogram: HistogramBin[];
+  warnings: string[];
+}
+
+export interface HistogramBin {
+  dbfs: number; // Lower edge
+  idle: number; // Share of idle blocks in the bin (0-1)
+  transmission: number;
+}
+
+export const HISTOGRAM_MIN_DBFS = -80;
+export const HISTOGRAM_BIN_DB = 2;
+
+// Limits of the Detection Settings controls
+const MIN_ATTACK_DBFS = -80;
+const MAX_ATTACK_DBFS = -10;
+const MIN_FLOOR_MARGIN_DB = 6;
+const MAX_FLOOR_MARGIN_DB = 30;
+const MIN_SUSTAIN_MS = 300;
+const PREFERRED_MIN_SUSTAIN_MS = 500;
+const MAX_SUSTAIN_MS = 3000;
+const MIN_DISABLE_DELAY_MS = 1000;
+const MAX_DISABLE_DELAY_MS = 30000;
+
+export function computeCalibration(idle: number[], transmission: number[], blockMs: number): CalibrationResult {
+  if (idle.length === 0) throw new Error("No idle audio was recorded");
+  if (transmission.length === 0) throw new Error("No transmission audio was recorded");
+
+  const noiseFloor = percentile(idle, 0.5);
+  const noisePeak = percentile(idle, 0.99);
+
+  // Speech is whatever clearly rises above the idle channel
+  const speechLevels = transmission.filter(level => level > noisePeak + 3);
+  if (speechLevels.length === 0) {
+    throw new Error("The transmission was no louder than the idle channel - check the input and try again");
+  }
+  const speech = percentile(speechLevels, 0.5);
+  const warnings: string[] = [];
+  if (speech - noisePeak < 10) {
+    warnings.push("Speech is less than 10 dB above the noise - detection will be unreliable. Raise the input gain or squelch the radio.");
+  }
+
+  // Attack halfway between noise and speech, with room on both sides
+  const attack = clamp(
+    Math.round(Math.min(Math.max((noisePeak + speech) / 2, noisePeak + 6), speech - 3)),
+    MIN_ATTACK_DBFS,
+    MAX_ATTACK_DBFS,
+  );
+  const release = Math.min(attack, Math.round(Math.max(noisePeak + 3, attack - 6)));
+
+  // Sustain: longer than any idle burst over attack, shorter than the
+  // transmission's first stretch of speech
+  const idleBurstMs = longestRun(idle.map(level => level >= attack)) * blockMs;
+  let sustainDuration = clamp(roundUp(idleBurstMs + 200, 100), PREFERRED_MIN_SUSTAIN_MS, MAX_SUSTAIN_MS);
+  const active = hysteresis(transmission, attack, release);
+  const speechRunMs = longestRun(active) * blockMs;
+  if (sustainDuration > speechRunMs - 100) {
+    sustainDuration = clamp(roundUp(speechRunMs - 200, 100), MIN_SUSTAIN_MS, MAX_SUSTAIN_MS);
+    warnings.push("Idle noise bursts are nearly as long as speech - expect some false activations.");
+  }
+
+  // Disable delay: bridge the longest pause inside the transmission
+  const first = active.indexOf(true);
+  const last = active.lastIndexOf(true);
+  const pauseMs = first < 0 ? 0 : longestRun(active.slice(first, last + 1).map(a => !a)) * blockMs;
+  const disableDelay = clamp(roundUp(pauseMs + 500, 1000), MIN_DISABLE_DELAY_MS, MAX_DISABLE_DELAY_MS);
+
+  return {
+    calibratedAt: new Date().toISOString(),
+    noiseFloorDbfs: round1(noiseFloor),
+    noisePeakDbfs: round1(noisePeak),
+    speechDbfs: round1(speech),
+    separationDb: round1(speech - noisePeak),
+    attackDbfs: attack,
+    releaseDbfs: release,
+    floorMarginDb: clamp(Math.round(attack - noiseFloor), MIN_FLOOR_MARGIN_DB, MAX_FLOOR_MARGIN_DB),
+    sustainDuration,
+    disableDelay,
+    histogram: histogram(idle, transmission),
+    warnings,
+  };
+}
+
+function histogram(idle: number[], transmission: number[]): HistogramBin[] {
+  const binCount = -HISTOGRAM_MIN_DBFS / HISTOGRAM_BIN_DB;
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    dbfs: HISTOGRAM_MIN_DBFS + i * HISTOGRAM_BIN_DB,
+    idle: 0,
+    transmission: 0,
+  }));
+  const binOf = (level: number) =>
+    clamp(Math.floor((level - HISTOGRAM_MIN_DBFS) / HISTOGRAM_BIN_DB), 0, binCount - 1);
+
+  idle.forEach(level => { bins[binOf(level)].idle += 1 / idle.length; });
+  transmission.forEach(level => { bins[binOf(level)].transmission += 1 / transmission.length; });
+  return bins;
+}
+
+// Detector state per block, as VoiceLevelDetector would report it
+function hysteresis(levels: number[], attack: number, release: number): boolean[] {
+  let active = false;
+  return levels.map(level => {
+    active = active ? level >= release : level >= attack;
+    return active;
+  });
+}
+
+function longestRun(flags: boolean[]): number {
+  let longest = 0;
+  let run = 0;
+  for (const flag of flags) {
+    run = flag ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+  return longest;
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function roundUp(value: number, step: number): number {
+  return Math.ceil(value / step) * step;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
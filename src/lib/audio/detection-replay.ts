@@ -0,0 +1,176 @@
+// Replays the Live monitor's detection against a level trace or recorded
+// audio, on a deterministic clock (block index x block length), with the
+// same VoiceLevelDetector and DetectionStateMachine the monitor runs.
+// Unit ID rules, tone alerts and calibration pauses are not replayed.
+
+import { VoiceLevelDetector, type DetectorFrame } from "./level-detector";
+import { DetectionStateMachine, type DetectionEvent } from "./detection-state";
+import type { LevelTrace, LevelTraceEvent, TraceSettings } from "./level-trace";
+
+// Same block size as the capture worklet
+export const REPLAY_BLOCK_SAMPLES = 2048;
+
+export interface ReplayResult {
+  durationMs: number;
+  events: DetectionEvent[];
+  activations: number;
+  blocked: number;
+  openMs: number; // Total time the speakers were open
+}
+
+/**
+ * Replay a trace, with its recorded settings changes unless overridden
+ */
+export function replayTrace(trace: LevelTrace, overrides: Partial<TraceSettings> = {}): ReplayResult {
+  const settingsChanges = trace.events.filter(event => event.type === "settings" && event.settings);
+  let settings: TraceSettings = { ...trace.settings, ...overrides };
+  let nextChange = 0;
+
+  const detector = new VoiceLevelDetector(trace.sampleRate, settings);
+  return runMachine(trace.levels.length, trace.blockMs, (i, t) => {
+    while (nextChange < settingsChanges.length && settingsChanges[nextChange].t <= t) {
+      settings = { ...settingsChanges[nextChange].settings!, ...overrides };
+      detector.setSettings(settings);
+      nextChange++;
+    }
+    return { frame: detector.processLevel(trace.levels[i] / 10, trace.blockMs / 1000), settings };
+  });
+}
+
+/**
+ * Replay recorded audio (e.g. a decoded WAV clip)
+ */
+export function replayPcm(samples: Float32Array, sampleRate: number, settings: TraceSettings): ReplayResult {
+  const blockMs = (REPLAY_BLOCK_SAMPLES / sampleRate) * 1000;
+  const detector = new VoiceLevelDetector(sampleRate, settings);
+  return runMachine(Math.floor(samples.length / REPLAY_BLOCK_SAMPLES), blockMs, (i) => ({
+    frame: detector.process(samples.subarray(i * REPLAY_BLOCK_SAMPLES, (i + 1) * REPLAY_BLOCK_SAMPLES)),
+    settings,
+  }));
+}
+
+function runMachine(
+  blocks: number,
+  blockMs: number,
+  next: (index: number, t: number) => { frame: DetectorFrame; settings: TraceSettings },
+): ReplayResult {
+  const machine = new DetectionStateMachine();
+  const events: DetectionEvent[] = [];
+
+  for (let i = 0; i < blocks; i++) {
+    const t = i * blockMs;
+    const { frame, settings } = next(i, t);
+    events.push(...machine.step(frame, t, settings));
+  }
+
+  const durationMs = blocks * blockMs;
+  const opened = events.filter(event => event.type === "opened");
+  let openMs = events.reduce((total, event) => total + (event.type === "muted" ? event.openMs : 0), 0);
+  // Still open at the end of the recording
+  const lastOpen = opened[opened.length - 1];
+  if (machine.isOpen && lastOpen) openMs += durationMs - lastOpen.at;
+
+  return {
+    durationMs,
+    events,
+    activations: opened.length,
+    blocked: events.filter(event => event.type === "blocked").length,
+    openMs,
+  };
+}
+
+/**
+ * One line per transition: "  12.35s  opened       -31.2 dBFS  attack -40.0 ..."
+ */
+export function formatTimeline(events: (DetectionEvent | LevelTraceEvent)[]): string[] {
+  return events
+    .filter(event => event.type !== "settings")
+    .map(event => {
+      const at = "at" in event ? event.at : event.t;
+      const levelDbfs = "levelDbfs" in event ? event.levelDbfs : undefined;
+      const level = levelDbfs === undefined ? "" : `${levelDbfs.toFixed(1)} dBFS`;
+      return `${(at / 1000).toFixed(2).padStart(9)}s  ${event.type.padEnd(16)} ${level.padStart(11)}  ${describeEvent(event)}`.trimEnd();
+    });
+}
+
+function describeEvent(event: DetectionEvent | LevelTraceEvent): string {
+  if (!("at" in event)) return "";
+  switch (event.type) {
+    case "sustain_reset":
+      return `dropped after ${Math.round(event.sustainedMs)}ms`;
+    case "blocked":
+      return `locked out for ${Math.round((event.lockedUntil - event.at) / 1000)}s`;
+    case "opened":
+      return `attack ${event.frame.attackDbfs.toFixed(1)}, floor ${event.frame.noiseFloorDbfs.toFixed(1)}`;
+    case "released":
+      return `release ${event.frame.releaseDbfs.toFixed(1)}, muting in ${event.muteDelay / 1000}s`;
+    case "muted":
+      return `open for ${(event.openMs / 1000).toFixed(1)}s`;
+    default:
+      return "";
+  }
+}
+
+/**
+ * Decode a PCM or float WAV file to mono samples
+ */
+export function decodeWav(bytes: Uint8Array): { samples: Float32Array; sampleRate: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const text = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  if (bytes.length < 12 || text(0) !== "RIFF" || text(8) !== "WAVE") {
+    throw new Error("Not a WAV file");
+  }
+
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bits = 0;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = text(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === "fmt ") {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bits = view.getUint16(body + 14, true);
+      // WAVE_FORMAT_EXTENSIBLE: the real format is the subformat GUID's first field
+      if (format === 0xfffe && size >= 26) format = view.getUint16(body + 24, true);
+    } else if (id === "data") {
+      if (!channels) throw new Error("WAV data before its format chunk");
+      if (!(format === 1 && [8, 16, 24, 32].includes(bits)) && !(format === 3 && bits === 32)) {
+        throw new Error(`Unsupported WAV format ${format} (${bits}-bit)`);
+      }
+
+      const bytesPerSample = bits / 8;
+      const frames = Math.floor(Math.min(size, bytes.length - body) / (bytesPerSample * channels));
+      const samples = new Float32Array(frames);
+      for (let i = 0; i < frames; i++) {
+        let sum = 0;
+        for (let c = 0; c < channels; c++) {
+          sum += readSample(view, body + (i * channels + c) * bytesPerSample, format, bits);
+        }
+        samples[i] = sum / channels;
+      }
+      return { samples, sampleRate };
+    }
+    offset = body + size + (size % 2);
+  }
+  throw new Error("WAV file has no audio data");
+}
+
+function readSample(view: DataView, offset: number, format: number, bits: number): number {
+  if (format === 3) return view.getFloat32(offset, true);
+  switch (bits) {
+    case 8:
+      return (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return view.getInt16(offset, true) / 0x8000;
+    case 24:
+      return ((view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16))) / 0x800000;
+    default:
+      return view.getInt32(offset, true) / 0x80000000;
+  }
+}
@@ -0,0 +1,128 @@
+// Activation state machine for level-triggered audio on the Live monitor.
+// Takes one DetectorFrame per block and decides when the speakers open
+// (audio active for the sustain duration, lockout permitting) and when
+// they mute again (below release for the disable delay). It has no clock
+// of its own: the monitor passes Date.now(), a replay passes audio time.
+
+import { TriggerLockout, type DetectorFrame, type DetectorSettings } from "./level-detector";
+
+export interface DetectionTimings extends Pick<DetectorSettings, "maxTriggersPerMinute" | "lockoutSeconds"> {
+  sustainDuration: number; // ms
+  disableDelay: number; // ms
+}
+
+export interface DetectionStepOptions {
+  canStart?: boolean; // False keeps new activations from starting (tone mode, calibration...)
+  deferOpen?: boolean; // Speakers are busy - open on a later block
+  ignore?: boolean; // The audio that would open now belongs to an ignored unit
+  holdUntil?: number; // Don't mute before this time (tone alerts)
+}
+
+export type DetectionEvent =
+  | { type: "sustain_started"; at: number; levelDbfs: number }
+  | { type: "sustain_reset"; at: number; levelDbfs: number; sustainedMs: number }
+  | { type: "ignored"; at: number; levelDbfs: number }
+  | { type: "blocked"; at: number; levelDbfs: number; lockedUntil: number }
+  | { type: "opened"; at: number; levelDbfs: number; frame: DetectorFrame }
+  | { type: "released"; at: number; levelDbfs: number; frame: DetectorFrame; muteDelay: number }
+  | { type: "resumed"; at: number; levelDbfs: number }
+  | { type: "muted"; at: number; openMs: number };
+
+export type DetectionEventType = DetectionEvent["type"];
+
+export class DetectionStateMachine {
+  readonly lockout = new TriggerLockout();
+  private sustainStartedAt: number | null = null;
+  private openedAt: number | null = null;
+  private muteAt: number | null = null;
+
+  get isOpen(): boolean {
+    return this.openedAt !== null;
+  }
+
+  /**
+   * When the audio now being timed started, if a sustain timer is running
+   */
+  get sustainStart(): number | null {
+    return this.sustainStartedAt;
+  }
+
+  /**
+   * Advance by one detector block at time `now` (ms)
+   */
+  step(frame: DetectorFrame, now: number, timings: DetectionTimings, options: DetectionStepOptions = {}): DetectionEvent[] {
+    const { canStart = true, deferOpen = false, ignore = false, holdUntil = 0 } = options;
+    const levelDbfs = frame.levelDbfs;
+    const events: DetectionEvent[] = [];
+
+    if (frame.active) {
+      if (this.muteAt !== null) {
+        this.muteAt = null;
+        events.push({ type: "resumed", at: now, levelDbfs });
+      }
+
+      if (this.sustainStartedAt === null && !this.isOpen && canStart && !this.lockout.isLocked(now)) {
+        this.sustainStartedAt = now;
+        events.push({ type: "sustain_started", at: now, levelDbfs });
+      }
+
+      if (this.sustainStartedAt !== null && !this.isOpen && !deferOpen && now - this.sustainStartedAt >= timings.sustainDuration) {
+        this.sustainStartedAt = null;
+
+        if (ignore) {
+          events.push({ type: "ignored", at: now, levelDbfs });
+        } else if (!this.lockout.allow(now, timings)) {
+          // Too many activations in the last minute - likely noise, not traffic
+          events.push({ type: "blocked", at: now, levelDbfs, lockedUntil: now + this.lockout.remainingMs(now) });
+        } else {
+          this.openedAt = now;
+          events.push({ type: "opened", at: now, levelDbfs, frame });
+        }
+      }
+      return events;
+    }
+
+    if (this.sustainStartedAt !== null) {
+      events.push({ type: "sustain_reset", at: now, levelDbfs, sustainedMs: now - this.sustainStartedAt });
+      this.sustainStartedAt = null;
+    }
+
+    if (this.isOpen && this.muteAt === null) {
+      // Holds count in whole seconds
+      const holdRemaining = Math.ceil((holdUntil - now) / 1000) * 1000;
+      const muteDelay = Math.max(timings.disableDelay, holdRemaining);
+      this.muteAt = now + muteDelay;
+      events.push({ type: "released", at: now, levelDbfs, frame, muteDelay });
+    }
+
+    if (this.openedAt !== null && this.muteAt !== null && now >= this.muteAt) {
+      events.push({ type: "muted", at: now, openMs: now - this.openedAt });
+      this.openedAt = null;
+      this.muteAt = null;
+    }
+    return events;
+  }
+
+  /**
+   * Open without a sustain (tone alerts); a running mute countdown restarts
+   */
+  forceOpen(now: number): void {
+    this.sustainStartedAt = null;
+    this.openedAt ??= now;
+    this.muteAt = null;
+  }
+
+  /**
+   * Back to idle without a mute event (ignored unit, emergency stop)
+   */
+  close(): void {
+    this.sustainStartedAt = null;
+    this.openedAt = null;
+    this.muteAt = null;
+  }
+
+  reset(): void {
+    this.close();
+    this.lockout.reset();
+  }
+}
@@ -0,0 +1,111 @@
+// DTMF decoder for unit IDs (ANI) sent at the start of radio transmissions.
+// Each 25 ms frame is checked for one row and one column tone with Goertzel
+// filters; a key counts once it holds for two frames, and the digits become
+// one sequence when no key follows for END_GAP_MS.
+
+export interface DtmfSequence {
+  digits: string;
+  detectedAt: Date;
+}
+
+const ROWS = [697, 770, 852, 941];
+const COLUMNS = [1209, 1336, 1477, 1633];
+const KEYS = ["123A", "456B", "789C", "*0#D"];
+
+const FRAME_MS = 25;
+const MIN_RMS = 0.01; // About -40 dBFS
+const MIN_PURITY = 0.6; // Share of the frame's energy in the row and column tones
+const MIN_DOMINANCE = 4; // Strongest row/column against the runner-up (6 dB)
+const MAX_TWIST = 6.3; // Row and column level may differ by up to 8 dB
+const END_GAP_MS = 300;
+
+export class DtmfDecoder {
+  private readonly frameSize: number;
+  private pending = new Float32Array(0);
+  private lastKey: string | null = null; // Key seen in the previous frame
+  private heldKey: string | null = null; // Key already added to digits
+  private digits = "";
+  private silentMs = 0;
+
+  constructor(readonly sampleRate: number) {
+    this.frameSize = Math.round((sampleRate * FRAME_MS) / 1000);
+  }
+
+  /**
+   * Feed the next block of samples; returns the sequences completed in it
+   */
+  process(samples: Float32Array): DtmfSequence[] {
+    const buffer = new Float32Array(this.pending.length + samples.length);
+    buffer.set(this.pending);
+    buffer.set(samples, this.pending.length);
+
+    const sequences: DtmfSequence[] = [];
+    let offset = 0;
+    for (; offset + this.frameSize <= buffer.length; offset += this.frameSize) {
+      const key = detectKey(buffer.subarray(offset, offset + this.frameSize), this.sampleRate);
+
+      if (key && key === this.lastKey && key !== this.heldKey) {
+        this.digits += key;
+        this.heldKey = key;
+      } else if (!key) {
+        this.heldKey = null;
+      }
+      this.lastKey = key;
+
+      this.silentMs = this.heldKey ? 0 : this.silentMs + FRAME_MS;
+      if (this.digits && this.silentMs >= END_GAP_MS) {
+        sequences.push({ digits: this.digits, detectedAt: new Date() });
+        this.digits = "";
+      }
+    }
+
+    this.pending = buffer.slice(offset);
+    return sequences;
+  }
+}
+
+/**
+ * Key pressed in a frame, or null for silence, speech or noise
+ */
+function detectKey(frame: Float32Array, sampleRate: number): string | null {
+  let energy = 0;
+  for (let i = 0; i < frame.length; i++) energy += frame[i] * frame[i];
+  if (Math.sqrt(energy / frame.length) < MIN_RMS) return null;
+
+  // Share of the frame's energy at each frequency (1 for a pure tone)
+  const share = (frequency: number) => (2 * goertzel(frame, frequency, sampleRate)) / (frame.length * energy);
+  const row = strongest(ROWS.map(share));
+  const column = strongest(COLUMNS.map(share));
+
+  if (row.power < row.runnerUp * MIN_DOMINANCE || column.power < column.runnerUp * MIN_DOMINANCE) return null;
+  if (row.power + column.power < MIN_PURITY) return null;
+  if (row.power > column.power * MAX_TWIST || column.power > row.power * MAX_TWIST) return null;
+
+  return KEYS[row.index][column.index];
+}
+
+function strongest(powers: number[]): { index: number; power: number; runnerUp: number } {
+  let index = 0;
+  let runnerUp = 0;
+  for (let i = 1; i < powers.length; i++) {
+    if (powers[i] > powers[index]) {
+      runnerUp = powers[index];
+      index = i;
+    } else {
+      runnerUp = Math.max(runnerUp, powers[i]);
+    }
+  }
+  return { index, power: powers[index], runnerUp };
+}
+
+function goertzel(frame: Float32Array, frequency: number, sampleRate: number): number {
+  const coeff = 2 * Math.cos((2 * Math.PI * frequency) / sampleRate);
+  let s1 = 0;
+  let s2 = 0;
+  for (let i = 0; i < frame.length; i++) {
+    const s0 = frame[i] + coeff * s1 - s2;
+    s2 = s1;
+    s1 = s0;
+  }
+  return s1 * s1 + s2 * s2 - coeff * s1 * s2;
+}
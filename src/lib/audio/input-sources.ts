@@ -0,0 +1,262 @@
+import { apiFetch } from "@/lib/api/fetch";
+import type { RtpCodec } from "./rtp";
+
+// Inputs the Live monitor can listen to. A device is opened with
+// getUserMedia by useAudioCapture; the others are opened here as a node
+// in the capture graph, so they feed the same gain, detectors and
+// recording as a line-in.
+
+export type AudioInputSource =
+  | { kind: "device"; deviceId?: string }
+  | { kind: "rtp"; group: string; port: number; codec?: RtpCodec; sampleRate?: number }
+  | { kind: "http"; url: string }
+  | { kind: "file"; file: File };
+
+export type NetworkInputSource = Exclude<AudioInputSource, { kind: "device" }>;
+
+export interface OpenedInput {
+  node: AudioNode;
+  stop(): void;
+}
+
+// Called with an error while a network source is reconnecting, null once it plays again
+export type InputStatusListener = (error: string | null) => void;
+
+const JITTER_SECONDS = 0.15; // Received PCM is scheduled this far ahead
+const MAX_LAG_SECONDS = 1; // Further behind than this and playback skips ahead
+const RECONNECT_DELAY_MS = 5000;
+const MAX_BUFFERED_SECONDS = 60; // Compressed stream kept in the media element
+
+export function describeInputSource(source: AudioInputSource): string {
+  switch (source.kind) {
+    case "device":
+      return source.deviceId ? `input device ${source.deviceId.slice(0, 8)}` : "default input";
+    case "rtp":
+      return `RTP ${source.group}:${source.port}${source.codec ? ` (${source.codec.toUpperCase()})` : ""}`;
+    case "http":
+      return `stream ${source.url}`;
+    case "file":
+      return `file ${source.file.name}`;
+  }
+}
+
+/**
+ * Open a non-device source in `context`. Network sources reconnect on their
+ * own until stopped; `onStatus` reports the outages.
+ */
+export async function openInputSource(
+  context: AudioContext,
+  source: NetworkInputSource,
+  onStatus: InputStatusListener
+): Promise<OpenedInput> {
+  if (source.kind === "file") {
+    return openFile(context, source.file);
+  }
+
+  const output = context.createGain();
+  let stopped = false;
+  const abort = new AbortController();
+  const connect = source.kind === "rtp"
+    ? () => receiveRtp(context, source, output, abort.signal)
+    : () => receiveStream(context, source.url, output, abort.signal);
+
+  // The first connection must work; later outages are retried
+  const first = connect();
+  try {
+    await first.started;
+  } catch (error) {
+    first.finished.catch(() => undefined);
+    throw error;
+  }
+
+  (async () => {
+    let attempt = first;
+    while (!stopped) {
+      try {
+        await attempt.finished;
+        if (!stopped) onStatus("Stream ended - reconnecting");
+      } catch (error) {
+        if (stopped) break;
+        onStatus(`${error instanceof Error ? error.message : "Stream failed"} - reconnecting`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS));
+      if (stopped) break;
+
+      attempt = connect();
+      try {
+        await attempt.started;
+        console.log(`[Input] Reconnected to ${describeInputSource(source)}`);
+        onStatus(null);
+      } catch {
+        // Reported when `finished` rejects
+      }
+    }
+  })();
+
+  return {
+    node: output,
+    stop: () => {
+      stopped = true;
+      abort.abort();
+      output.disconnect();
+    },
+  };
+}
+
+interface Connection {
+  started: Promise<void>; // Resolves once audio is flowing
+  finished: Promise<void>; // Settles when the connection ends
+}
+
+// PCM from /api/audio/rtp, played into `output` a little ahead of time
+function receiveRtp(
+  context: AudioContext,
+  source: Extract<AudioInputSource, { kind: "rtp" }>,
+  output: AudioNode,
+  signal: AbortSignal
+): Connection {
+  const params = new URLSearchParams({ group: source.group, port: String(source.port) });
+  if (source.codec) params.set("codec", source.codec);
+  if (source.sampleRate) params.set("rate", String(source.sampleRate));
+
+  const response = openResponse(`/api/audio/rtp?${params}`, signal);
+  const finished = response.then(async (res) => {
+    const sampleRate = parseInt(res.headers.get("X-Sample-Rate") ?? "8000", 10);
+    const reader = res.body!.getReader();
+    let carry: number | null = null; // Odd byte left from the previous chunk
+    let nextTime = 0;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done || signal.aborted) return;
+
+      let bytes = value;
+      if (carry !== null) {
+        bytes = new Uint8Array(value.length + 1);
+        bytes[0] = carry;
+        bytes.set(value, 1);
+        carry = null;
+      }
+      if (bytes.length % 2) {
+        carry = bytes[bytes.length - 1];
+        bytes = bytes.subarray(0, bytes.length - 1);
+      }
+      if (bytes.length === 0) continue;
+
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+      const samples = new Float32Array(bytes.length / 2);
+      for (let i = 0; i < samples.length; i++) samples[i] = view.getInt16(i * 2, true) / 0x8000;
+
+      const buffer = context.createBuffer(1, samples.length, sampleRate);
+      buffer.copyToChannel(samples, 0);
+      const node = context.createBufferSource();
+      node.buffer = buffer;
+      node.connect(output);
+
+      // Rebuffer after an underrun; skip ahead if packets piled up
+      const now = context.currentTime;
+      if (nextTime < now || nextTime > now + MAX_LAG_SECONDS) nextTime = now + JITTER_SECONDS;
+      node.start(nextTime);
+      nextTime += buffer.duration;
+    }
+  });
+
+  return { started: response.then(() => undefined), finished };
+}
+
+// A compressed stream (MP3, AAC...) through /api/audio/stream into a media element
+function receiveStream(context: AudioContext, url: string, output: AudioNode, signal: AbortSignal): Connection {
+  const response = openResponse(`/api/audio/stream?${new URLSearchParams({ url })}`, signal);
+  let resolveStarted: () => void;
+  let rejectStarted: (error: unknown) => void;
+  const started = new Promise<void>((resolve, reject) => {
+    resolveStarted = resolve;
+    rejectStarted = reject;
+  });
+
+  const finished = response.then(async (res) => {
+    const mimeType = streamMimeType(res.headers.get("Content-Type"));
+    if (!("MediaSource" in window) || !MediaSource.isTypeSupported(mimeType)) {
+      throw new Error(`Unsupported stream format ${mimeType}`);
+    }
+
+    const mediaSource = new MediaSource();
+    const audio = new Audio();
+    audio.src = URL.createObjectURL(mediaSource);
+    await new Promise((resolve) => mediaSource.addEventListener("sourceopen", resolve, { once: true }));
+    const sourceBuffer = mediaSource.addSourceBuffer(mimeType);
+    const elementNode = context.createMediaElementSource(audio);
+    elementNode.connect(output);
+
+    try {
+      const reader = res.body!.getReader();
+      let playing = false;
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done || signal.aborted) return;
+
+        await appendBuffer(sourceBuffer, value);
+        if (!playing) {
+          await audio.play();
+          playing = true;
+          resolveStarted();
+        }
+
+        // Don't let an all-day stream fill the memory
+        const buffered = sourceBuffer.buffered;
+        if (buffered.length && audio.currentTime - buffered.start(0) > MAX_BUFFERED_SECONDS) {
+          sourceBuffer.remove(buffered.start(0), audio.currentTime - 10);
+          await new Promise((resolve) => sourceBuffer.addEventListener("updateend", resolve, { once: true }));
+        }
+      }
+    } finally {
+      audio.pause();
+      elementNode.disconnect();
+      URL.revokeObjectURL(audio.src);
+    }
+  });
+  finished.then(() => rejectStarted(new Error("Stream ended before any audio")), (error) => rejectStarted(error));
+
+  return { started, finished };
+}
+
+async function openResponse(url: string, signal: AbortSignal): Promise<Response> {
+  const response = await apiFetch(url, { signal });
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Request failed: HTTP ${response.status}`);
+  }
+  return response;
+}
+
+function appendBuffer(sourceBuffer: SourceBuffer, data: Uint8Array): Promise<void> {
+  return new Promise((resolve, reject) => {
+    sourceBuffer.addEventListener("updateend", () => resolve(), { once: true });
+    sourceBuffer.addEventListener("error", () => reject(new Error("Could not decode the stream")), { once: true });
+    sourceBuffer.appendBuffer(data as BufferSource);
+  });
+}
+
+// Icecast servers send a few names for the same formats
+function streamMimeType(contentType: string | null): string {
+  const type = (contentType ?? "").split(";")[0].trim().toLowerCase();
+  if (type === "audio/mp3" || type === "audio/mpeg3" || type === "application/octet-stream" || !type) return "audio/mpeg";
+  if (type === "audio/aacp" || type === "audio/x-aac") return "audio/aac";
+  return type;
+}
+
+// A local file, looped, for testing detection without a radio
+async function openFile(context: AudioContext, file: File): Promise<OpenedInput> {
+  const buffer = await context.decodeAudioData(await file.arrayBuffer());
+  const node = context.createBufferSource();
+  node.buffer = buffer;
+  node.loop = true;
+  node.start();
+  return {
+    node,
+    stop: () => {
+      node.stop();
+      node.disconnect();
+    },
+  };
+}
@@ -0,0 +1,208 @@
+// Voice activity detector for the Live monitor.
+// Each block of input samples is band-limited to the voice band (so HVAC
+// hum and hiss don't count), measured in dBFS and compared with separate
+// attack and release thresholds. With the adaptive floor on, both
+// thresholds are kept a margin above a learned noise floor (the quietest
+// level over the last few seconds - speech has pauses, steady noise
+// doesn't), so a noisy apparatus bay doesn't hold the channel open.
+// TriggerLockout limits how often activations may happen.
+
+export interface DetectorSettings {
+  attackDbfs: number; // Audio becomes active at or above this level...
+  releaseDbfs: number; // ...and stays active until it falls below this one
+  adaptive: boolean; // Keep the thresholds above the learned noise floor
+  floorMarginDb: number; // Attack sits this far above the floor, release half as far
+  maxTriggersPerMinute: number; // 0 turns the lockout off
+  lockoutSeconds: number;
+}
+
+export const DEFAULT_DETECTOR_SETTINGS: DetectorSettings = {
+  attackDbfs: -40,
+  releaseDbfs: -46,
+  adaptive: true,
+  floorMarginDb: 12,
+  maxTriggersPerMinute: 6,
+  lockoutSeconds: 60,
+};
+
+// Detector output for one block
+export interface DetectorFrame {
+  levelDbfs: number; // Voice-band level
+  noiseFloorDbfs: number;
+  attackDbfs: number; // Effective thresholds, after the noise floor
+  releaseDbfs: number;
+  active: boolean;
+}
+
+export const SILENCE_DBFS = -100;
+
+const VOICE_LOW_HZ = 300;
+const VOICE_HIGH_HZ = 3400;
+const FLOOR_SEGMENT_SECONDS = 1;
+const FLOOR_SEGMENTS = 10; // Floor = quietest block of the last 10 s
+
+export class VoiceLevelDetector {
+  private readonly filters: Biquad[];
+  private settings: DetectorSettings;
+  private segmentMinima: number[] = []; // Quietest level of each past segment
+  private segmentMin = Infinity;
+  private segmentSeconds = 0;
+  private active = false;
+
+  constructor(readonly sampleRate: number, settings: DetectorSettings) {
+    // Two high-pass stages (24 dB/octave) for mains hum, one low-pass
+    this.filters = [
+      new Biquad("highpass", VOICE_LOW_HZ, sampleRate),
+      new Biquad("highpass", VOICE_LOW_HZ, sampleRate),
+      new Biquad("lowpass", Math.min(VOICE_HIGH_HZ, sampleRate * 0.45), sampleRate),
+    ];
+    this.settings = settings;
+  }
+
+  setSettings(settings: DetectorSettings): void {
+    this.settings = settings;
+  }
+
+  reset(): void {
+    this.filters.forEach(filter => filter.reset());
+    this.segmentMinima = [];
+    this.segmentMin = Infinity;
+    this.segmentSeconds = 0;
+    this.active = false;
+  }
+
+  /**
+   * Measure the next block of samples and update the active state
+   */
+  process(samples: Float32Array): DetectorFrame {
+    let energy = 0;
+    for (let i = 0; i < samples.length; i++) {
+      let filtered = samples[i];
+      for (const filter of this.filters) filtered = filter.step(filtered);
+      energy += filtered * filtered;
+    }
+    const rms = Math.sqrt(energy / Math.max(1, samples.length));
+    // +3 dB so a full-scale sine reads 0 dBFS
+    const levelDbfs = Math.max(SILENCE_DBFS, 20 * Math.log10(rms) + 3.01);
+    return this.processLevel(levelDbfs, samples.length / this.sampleRate);
+  }
+
+  /**
+   * Update the floor and active state from an already measured block level,
+   * e.g. one read back from a level trace
+   */
+  processLevel(levelDbfs: number, seconds: number): DetectorFrame {
+    this.trackFloor(levelDbfs, seconds);
+    const noiseFloorDbfs = Math.min(this.segmentMin, ...this.segmentMinima);
+
+    const { attackDbfs, releaseDbfs } = this.thresholds(noiseFloorDbfs);
+    if (this.active ? levelDbfs < releaseDbfs : levelDbfs >= attackDbfs) {
+      this.active = !this.active;
+    }
+
+    return { levelDbfs, noiseFloorDbfs, attackDbfs, releaseDbfs, active: this.active };
+  }
+
+  private trackFloor(levelDbfs: number, seconds: number): void {
+    this.segmentMin = Math.min(this.segmentMin, levelDbfs);
+    this.segmentSeconds += seconds;
+    if (this.segmentSeconds < FLOOR_SEGMENT_SECONDS) return;
+
+    this.segmentMinima.push(this.segmentMin);
+    if (this.segmentMinima.length >= FLOOR_SEGMENTS) this.segmentMinima.shift();
+    this.segmentMin = Infinity;
+    this.segmentSeconds = 0;
+  }
+
+  private thresholds(noiseFloorDbfs: number): { attackDbfs: number; releaseDbfs: number } {
+    const { attackDbfs, releaseDbfs, adaptive, floorMarginDb } = this.settings;
+    if (!adaptive) {
+      return { attackDbfs, releaseDbfs: Math.min(releaseDbfs, attackDbfs) };
+    }
+
+    const attack = Math.max(attackDbfs, noiseFloorDbfs + floorMarginDb);
+    const release = Math.max(releaseDbfs, noiseFloorDbfs + floorMarginDb / 2);
+    return { attackDbfs: attack, releaseDbfs: Math.min(release, attack) };
+  }
+}
+
+/**
+ * Allows at most maxTriggersPerMinute activations in any 60 s; the next one
+ * starts a lockout of lockoutSeconds. Times are passed in so the same logic
+ * can run against recorded audio.
+ */
+export class TriggerLockout {
+  private triggers: number[] = [];
+  private lockedUntil = 0;
+
+  /**
+   * Whether an activation at `now` (ms) may go ahead; records it if so
+   */
+  allow(now: number, settings: Pick<DetectorSettings, "maxTriggersPerMinute" | "lockoutSeconds">): boolean {
+    if (settings.maxTriggersPerMinute <= 0) return true;
+    if (now < this.lockedUntil) return false;
+
+    this.triggers = this.triggers.filter(t => now - t < 60000);
+    if (this.triggers.length >= settings.maxTriggersPerMinute) {
+      this.lockedUntil = now + settings.lockoutSeconds * 1000;
+      this.triggers = [];
+      return false;
+    }
+
+    this.triggers.push(now);
+    return true;
+  }
+
+  isLocked(now: number): boolean {
+    return now < this.lockedUntil;
+  }
+
+  remainingMs(now: number): number {
+    return Math.max(0, this.lockedUntil - now);
+  }
+
+  reset(): void {
+    this.triggers = [];
+    this.lockedUntil = 0;
+  }
+}
+
+// Second-order filter (RBJ audio EQ cookbook, Q = 1/sqrt(2))
+class Biquad {
+  private readonly b0: number;
+  private readonly b1: number;
+  private readonly b2: number;
+  private readonly a1: number;
+  private readonly a2: number;
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  constructor(type: "highpass" | "lowpass", frequency: number, sampleRate: number) {
+    const w0 = (2 * Math.PI * frequency) / sampleRate;
+    const alpha = Math.sin(w0) / Math.SQRT2;
+    const cos = Math.cos(w0);
+    const a0 = 1 + alpha;
+
+    const b1 = type === "lowpass" ? 1 - cos : -(1 + cos);
+    this.b0 = Math.abs(b1) / 2 / a0;
+    this.b1 = b1 / a0;
+    this.b2 = this.b0;
+    this.a1 = (-2 * cos) / a0;
+    this.a2 = (1 - alpha) / a0;
+  }
+
+  step(x: number): number {
+    const y = this.b0 * x + this.b1 * this.x1 + this.b2 * this.x2 - this.a1 * this.y1 - this.a2 * this.y2;
+    this.x2 = this.x1;
+    this.x1 = x;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+
+  reset(): void {
+    this.x1 = this.x2 = this.y1 = this.y2 = 0;
+  }
+}
@@ -0,0 +1,107 @@
+// Compact record of what the Live monitor's detector saw: one voice-band
+// level per block (tenths of a dB) plus the detection transitions and
+// settings changes, timed on the audio clock (block count x block length).
+// Enough to replay the detection decisions with the same or new settings.
+
+import type { DetectorSettings } from "./level-detector";
+import type { DetectionEventType, DetectionTimings } from "./detection-state";
+
+export type TraceSettings = DetectorSettings & DetectionTimings;
+
+export interface LevelTraceEvent {
+  t: number; // ms from the start of the trace
+  type: DetectionEventType | "settings";
+  levelDbfs?: number;
+  settings?: TraceSettings; // For "settings" events
+}
+
+export interface LevelTrace {
+  version: 1;
+  startedAt: string; // Wall clock time of the first block
+  sampleRate: number;
+  blockMs: number;
+  settings: TraceSettings; // In effect at the first block
+  levels: number[]; // Voice-band level per block, in tenths of a dBFS
+  events: LevelTraceEvent[];
+}
+
+export const TRACE_VERSION = 1;
+const MAX_TRACE_HOURS = 4;
+
+/**
+ * Collects a level trace while monitoring. Keeps the last MAX_TRACE_HOURS;
+ * older blocks and events are dropped.
+ */
+export class LevelTraceRecorder {
+  private levels: number[] = [];
+  private events: LevelTraceEvent[] = [];
+  private startedAt: number; // Wall clock ms of levels[0]
+  private startMs = 0; // Audio time of levels[0]
+  private blockMs = 0;
+  private settings: TraceSettings;
+
+  constructor(readonly sampleRate: number, settings: TraceSettings, now = Date.now()) {
+    this.startedAt = now;
+    this.settings = settings;
+  }
+
+  /**
+   * Audio time (ms since the recorder started) of the latest block
+   */
+  get now(): number {
+    return this.startMs + Math.max(0, this.levels.length - 1) * this.blockMs;
+  }
+
+  addBlock(levelDbfs: number, blockMs: number): void {
+    this.blockMs = blockMs;
+    this.levels.push(Math.round(levelDbfs * 10));
+
+    const maxBlocks = Math.round((MAX_TRACE_HOURS * 3600000) / blockMs);
+    if (this.levels.length > maxBlocks) {
+      // Drop the oldest tenth at once rather than one block at a time
+      const dropped = Math.ceil(maxBlocks / 10);
+      this.levels.splice(0, dropped);
+      this.startMs += dropped * blockMs;
+      this.startedAt += dropped * blockMs;
+      const kept = this.events.filter(event => event.t >= this.startMs);
+      const lastSettings = this.events.filter(event => event.t < this.startMs && event.settings).pop();
+      if (lastSettings?.settings) this.settings = lastSettings.settings;
+      this.events = kept;
+    }
+  }
+
+  addEvent(type: DetectionEventType, levelDbfs?: number): void {
+    this.events.push({
+      t: this.now,
+      type,
+      levelDbfs: levelDbfs === undefined ? undefined : Math.round(levelDbfs * 10) / 10,
+    });
+  }
+
+  setSettings(settings: TraceSettings): void {
+    this.events.push({ t: this.now, type: "settings", settings });
+  }
+
+  toTrace(): LevelTrace {
+    return {
+      version: TRACE_VERSION,
+      startedAt: new Date(this.startedAt).toISOString(),
+      sampleRate: this.sampleRate,
+      blockMs: this.blockMs,
+      settings: this.settings,
+      levels: [...this.levels],
+      events: this.events.map(event => ({ ...event, t: Math.round(event.t - this.startMs) })),
+    };
+  }
+}
+
+/**
+ * Read a trace saved from the Live page
+ */
+export function parseLevelTrace(json: string): LevelTrace {
+  const trace = JSON.parse(json) as LevelTrace;
+  if (trace.version !== TRACE_VERSION || !Array.isArray(trace.levels) || !(trace.blockMs > 0)) {
+    throw new Error("Not a level trace (expected a version 1 trace exported from the Live page)");
+  }
+  return trace;
+}
@@ -0,0 +1,196 @@
+// MDC1200 decoder for the unit IDs Motorola radios send when keyed up.
+// MDC1200 is 1200 baud MSK: a 1200 Hz bit repeats the previous bit and an
+// 1800 Hz bit flips it. A packet is a 40-bit sync word followed by 112
+// interleaved bits holding opcode, argument, unit ID and a CRC (plus
+// convolutional parity, which isn't used - packets with bit errors are
+// dropped rather than corrected). Several bit clocks run at different
+// phases so one of them lines up with the sender's.
+
+export interface Mdc1200Packet {
+  op: number;
+  arg: number;
+  unitId: string; // 4 hex digits, as programmed in the radio
+  detectedAt: Date;
+}
+
+const BAUD = 1200;
+const FLIP_TONE = 1800; // Hz; 1200 Hz keeps the bit
+const SYNC_HIGH = 0x07; // Sync word 0x07092A446F, in two parts
+const SYNC_LOW = 0x092a446f;
+const MAX_SYNC_ERRORS = 3; // Of the sync word's 40 bits
+const PACKET_BITS = 112;
+const PHASES = 8;
+const MIN_RMS = 0.01; // About -40 dBFS
+const DUPLICATE_MS = 1000; // Several phases decode the same packet
+
+interface BitClock {
+  nextEnd: number; // Sample index where the current bit ends
+  bit: number;
+  syncHigh: number;
+  syncLow: number;
+  packet: number[] | null; // Bits after a sync word
+}
+
+export class Mdc1200Decoder {
+  private readonly samplesPerBit: number;
+  private readonly windowSize: number;
+  // Reference tones over one bit window, for non-coherent detection
+  private readonly tones: { frequency: number; cos: Float32Array; sin: Float32Array }[];
+  private readonly clocks: BitClock[];
+  private pending = new Float32Array(0);
+  private position = 0; // Sample index of pending[0]
+  private lastPacket: { key: string; at: number } | null = null;
+
+  constructor(readonly sampleRate: number) {
+    this.samplesPerBit = sampleRate / BAUD;
+    this.windowSize = Math.round(this.samplesPerBit);
+    this.tones = [BAUD, FLIP_TONE].map((frequency) => {
+      const cos = new Float32Array(this.windowSize);
+      const sin = new Float32Array(this.windowSize);
+      for (let i = 0; i < this.windowSize; i++) {
+        cos[i] = Math.cos((2 * Math.PI * frequency * i) / sampleRate);
+        sin[i] = Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+      }
+      return { frequency, cos, sin };
+    });
+    this.clocks = Array.from({ length: PHASES }, (_, phase) => ({
+      nextEnd: this.windowSize + (phase * this.samplesPerBit) / PHASES,
+      bit: 0,
+      syncHigh: 0,
+      syncLow: 0,
+      packet: null,
+    }));
+  }
+
+  /**
+   * Feed the next block of samples; returns the packets completed in it
+   */
+  process(samples: Float32Array): Mdc1200Packet[] {
+    const buffer = new Float32Array(this.pending.length + samples.length);
+    buffer.set(this.pending);
+    buffer.set(samples, this.pending.length);
+    const bufferEnd = this.position + buffer.length;
+
+    const packets: Mdc1200Packet[] = [];
+    for (const clock of this.clocks) {
+      while (clock.nextEnd <= bufferEnd) {
+        const end = Math.round(clock.nextEnd) - this.position;
+        clock.nextEnd += this.samplesPerBit;
+
+        const flip = this.detectFlip(buffer.subarray(end - this.windowSize, end));
+        if (flip === null) {
+          clock.packet = null;
+          continue;
+        }
+        clock.bit ^= flip ? 1 : 0;
+
+        const packet = this.shiftIn(clock);
+        if (packet && !this.isDuplicate(packet, end + this.position)) {
+          packets.push(packet);
+        }
+      }
+    }
+
+    // Keep one window of history for the next block
+    const keep = Math.min(buffer.length, this.windowSize + 1);
+    this.pending = buffer.slice(buffer.length - keep);
+    this.position = bufferEnd - keep;
+    return packets;
+  }
+
+  // Whether a bit window holds the flip tone, or null when it is too quiet
+  private detectFlip(window: Float32Array): boolean | null {
+    let energy = 0;
+    for (let i = 0; i < window.length; i++) energy += window[i] * window[i];
+    if (Math.sqrt(energy / window.length) < MIN_RMS) return null;
+
+    const [keep, flip] = this.tones.map(({ cos, sin }) => {
+      let re = 0;
+      let im = 0;
+      for (let i = 0; i < window.length; i++) {
+        re += window[i] * cos[i];
+        im += window[i] * sin[i];
+      }
+      return re * re + im * im;
+    });
+    return flip > keep;
+  }
+
+  private shiftIn(clock: BitClock): Mdc1200Packet | null {
+    if (clock.packet) {
+      clock.packet.push(clock.bit);
+      if (clock.packet.length < PACKET_BITS) return null;
+
+      const packet = decodePacket(clock.packet);
+      clock.packet = null;
+      return packet;
+    }
+
+    clock.syncHigh = ((clock.syncHigh << 1) | (clock.syncLow >>> 31)) & 0xff;
+    clock.syncLow = ((clock.syncLow << 1) | clock.bit) >>> 0;
+
+    const errors = countBits(clock.syncHigh ^ SYNC_HIGH) + countBits(clock.syncLow ^ SYNC_LOW);
+    if (errors <= MAX_SYNC_ERRORS || errors >= 40 - MAX_SYNC_ERRORS) {
+      // An inverted sync word means we started on the wrong bit polarity
+      if (errors > MAX_SYNC_ERRORS) clock.bit ^= 1;
+      clock.syncHigh = 0;
+      clock.syncLow = 0;
+      clock.packet = [];
+    }
+    return null;
+  }
+
+  private isDuplicate(packet: Mdc1200Packet, sampleIndex: number): boolean {
+    const key = `${packet.op}:${packet.arg}:${packet.unitId}`;
+    const at = (sampleIndex / this.sampleRate) * 1000;
+    const duplicate = this.lastPacket?.key === key && at - this.lastPacket.at < DUPLICATE_MS;
+    this.lastPacket = { key, at };
+    return duplicate;
+  }
+}
+
+/**
+ * Opcode and argument in words, for logs
+ */
+export function describeMdc1200(packet: Pick<Mdc1200Packet, "op" | "arg">): string {
+  if (packet.op === 0x01) return packet.arg & 0x80 ? "PTT ID (pre)" : "PTT ID (post)";
+  if (packet.op === 0x00) return "Emergency";
+  return `Op 0x${packet.op.toString(16).padStart(2, "0")}`;
+}
+
+// Undo the 16 x 7 interleave, then check the CRC over the first four bytes
+function decodePacket(bits: number[]): Mdc1200Packet | null {
+  const data = new Uint8Array(14);
+  for (let n = 0; n < PACKET_BITS; n++) {
+    if (bits[(n % 7) * 16 + Math.floor(n / 7)]) {
+      data[n >> 3] |= 1 << (n & 7);
+    }
+  }
+
+  if (crc16(data.subarray(0, 4)) !== (data[4] | (data[5] << 8))) return null;
+
+  return {
+    op: data[0],
+    arg: data[1],
+    unitId: ((data[2] << 8) | data[3]).toString(16).toUpperCase().padStart(4, "0"),
+    detectedAt: new Date(),
+  };
+}
+
+// CRC-16/CCITT, reflected, inverted at the end
+function crc16(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0x8408 : crc >>> 1;
+    }
+  }
+  return crc ^ 0xffff;
+}
+
+function countBits(value: number): number {
+  let count = 0;
+  for (let v = value >>> 0; v; v &= v - 1) count++;
+  return count;
+}
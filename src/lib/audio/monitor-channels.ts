@@ -0,0 +1,234 @@
+// Independent Live monitor channels (e.g. fire dispatch and EMS), each with
+// its own input, detection, speakers and log, and the arbiter that decides
+// which channel drives a speaker when more than one is open.
+
+export interface MonitorChannelConfig {
+  id: string;
+  name: string;
+  priority: number; // 1 is the highest
+  exclusive: boolean; // While open, lower-priority channels are muted everywhere, not only on shared speakers
+}
+
+// The first channel keeps the storage keys from before there were channels
+export const MAIN_CHANNEL_ID = "main";
+
+export const DEFAULT_CHANNEL: MonitorChannelConfig = {
+  id: MAIN_CHANNEL_ID,
+  name: "Channel 1",
+  priority: 1,
+  exclusive: false,
+};
+
+/**
+ * A channel's localStorage key for a setting
+ */
+export function channelStorageKey(key: string, channelId: string): string {
+  return channelId === MAIN_CHANNEL_ID ? key : `${key}_${channelId}`;
+}
+
+export interface SpeakerHandover {
+  gained: string[]; // Speakers the channel drives again
+  lost: string[]; // Speakers taken by a channel that outranks it
+}
+
+export type SpeakerHandoverListener = (channelId: string, handover: SpeakerHandover) => void;
+
+// What this browser's channels want, for its lease with the server's paging
+// arbiter (see lib/api/paging.ts)
+export type SpeakerClaimsListener = (speakerIds: Set<string>, emergency: boolean) => void;
+
+interface Claim {
+  speakerIds: Set<string>;
+  order: number; // Equal priorities: the channel that opened first keeps the speaker
+}
+
+/**
+ * Decides which open channel drives each speaker. A channel claims its target
+ * speakers when its audio opens and releases them when it mutes; a speaker
+ * claimed by several goes to the highest priority. Channels whose speakers
+ * change hands are told, so they can take over where another left off.
+ * Speakers a page elsewhere holds (setExternal) go to no channel.
+ */
+export class SpeakerArbiter {
+  private channels = new Map<string, MonitorChannelConfig>();
+  private claims = new Map<string, Claim>();
+  private listening = new Map<string, Set<string>>();
+  private listeners = new Set<SpeakerHandoverListener>();
+  private nextOrder = 0;
+  private owners = new Map<string, string>(); // Speaker ID -> channel ID
+  private external = new Map<string, string>(); // Speaker ID -> page holding it on the server
+  private emergencies = new Set<string>(); // Channels in emergency enable
+  private claimListeners = new Set<SpeakerClaimsListener>();
+
+  setChannels(channels: MonitorChannelConfig[]): void {
+    this.update(() => {
+      this.channels = new Map(channels.map(channel => [channel.id, channel]));
+    });
+  }
+
+  channelName(channelId: string): string {
+    return this.channels.get(channelId)?.name ?? channelId;
+  }
+
+  /**
+   * Claim (or update the claim on) a channel's target speakers. Returns the
+   * speakers held by channels that outrank it.
+   */
+  open(channelId: string, speakerIds: Set<string>): Set<string> {
+    this.update(() => {
+      const order = this.claims.get(channelId)?.order ?? this.nextOrder++;
+      this.claims.set(channelId, { speakerIds: new Set(speakerIds), order });
+    }, channelId);
+
+    this.notifyClaims();
+
+    return new Set(Array.from(speakerIds).filter(id => this.owners.get(id) !== channelId));
+  }
+
+  close(channelId: string): void {
+    this.emergencies.delete(channelId);
+    if (!this.claims.has(channelId)) {
+      this.notifyClaims();
+      return;
+    }
+    this.update(() => {
+      this.claims.delete(channelId);
+    }, channelId);
+    this.notifyClaims();
+  }
+
+  // Claim with emergency priority until the channel closes
+  openEmergency(channelId: string, speakerIds: Set<string>): Set<string> {
+    this.emergencies.add(channelId);
+    return this.open(channelId, speakerIds);
+  }
+
+  /**
+   * Speakers held by pages outside this browser, from the server's arbiter
+   */
+  setExternal(held: Record<string, string>): void {
+    const next = new Map(Object.entries(held));
+    if (next.size === this.external.size && Array.from(next).every(([id, page]) => this.external.get(id) === page)) return;
+    this.update(() => {
+      this.external = next;
+    });
+  }
+
+  heldElsewhere(speakerId: string): string | null {
+    return this.external.get(speakerId) ?? null;
+  }
+
+  subscribeClaims(listener: SpeakerClaimsListener): () => void {
+    this.claimListeners.add(listener);
+    return () => {
+      this.claimListeners.delete(listener);
+    };
+  }
+
+  /**
+   * The speakers a channel may set the volume of: the ones it owns while
+   * open, otherwise the ones no open channel owns. Any channel may mute a
+   * speaker nobody owns.
+   */
+  allowed(channelId: string, speakerIds: Set<string>, muting = false): Set<string> {
+    const open = this.claims.has(channelId);
+    return new Set(Array.from(speakerIds).filter(id => {
+      if (this.external.has(id)) return false;
+      const owner = this.owners.get(id);
+      if (owner === undefined) return !open || muting;
+      return owner === channelId;
+    }));
+  }
+
+  ownerOf(speakerId: string): string | null {
+    return this.owners.get(speakerId) ?? null;
+  }
+
+  // Speakers a channel keeps listening (multicast on) while it monitors
+  setListening(channelId: string, speakerIds: Set<string> | null): void {
+    if (speakerIds) {
+      this.listening.set(channelId, new Set(speakerIds));
+    } else {
+      this.listening.delete(channelId);
+    }
+  }
+
+  /**
+   * The given speakers that no other monitoring channel listens on, so
+   * multicast can be switched off
+   */
+  notListenedByOthers(channelId: string, speakerIds: Set<string>): Set<string> {
+    return new Set(Array.from(speakerIds).filter(id =>
+      !Array.from(this.listening).some(([other, ids]) => other !== channelId && ids.has(id))
+    ));
+  }
+
+  subscribe(listener: SpeakerHandoverListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Whether channel a outranks channel b
+  private outranks(a: string, b: string): boolean {
+    const pa = this.channels.get(a)?.priority ?? Infinity;
+    const pb = this.channels.get(b)?.priority ?? Infinity;
+    if (pa !== pb) return pa < pb;
+    return this.claims.get(a)!.order < this.claims.get(b)!.order;
+  }
+
+  private computeOwners(): Map<string, string> {
+    const ranked = Array.from(this.claims.keys()).sort((a, b) => (this.outranks(a, b) ? -1 : 1));
+    const owners = new Map<string, string>();
+
+    // An open exclusive channel silences every channel of lower priority
+    let exclusivePriority: number | null = null;
+    for (const channelId of ranked) {
+      const channel = this.channels.get(channelId);
+      const priority = channel?.priority ?? Infinity;
+      if (exclusivePriority !== null && priority > exclusivePriority) continue;
+
+      this.claims.get(channelId)!.speakerIds.forEach(id => {
+        if (!owners.has(id) && !this.external.has(id)) owners.set(id, channelId);
+      });
+      if (channel?.exclusive) exclusivePriority ??= priority;
+    }
+    return owners;
+  }
+
+  private notifyClaims(): void {
+    const speakerIds = new Set<string>();
+    this.claims.forEach(claim => claim.speakerIds.forEach(id => speakerIds.add(id)));
+    this.claimListeners.forEach(listener => listener(speakerIds, this.emergencies.size > 0));
+  }
+
+  // Apply a change and tell the other channels what they gained or lost
+  private update(change: () => void, actor?: string): void {
+    const before = this.owners;
+    change();
+    this.owners = this.computeOwners();
+
+    const handovers = new Map<string, SpeakerHandover>();
+    const entry = (channelId: string) => {
+      let handover = handovers.get(channelId);
+      if (!handover) {
+        handover = { gained: [], lost: [] };
+        handovers.set(channelId, handover);
+      }
+      return handover;
+    };
+
+    for (const speakerId of new Set([...before.keys(), ...this.owners.keys()])) {
+      const previous = before.get(speakerId);
+      const next = this.owners.get(speakerId);
+      if (previous === next) continue;
+      if (previous && previous !== actor && this.claims.has(previous)) entry(previous).lost.push(speakerId);
+      if (next && next !== actor) entry(next).gained.push(speakerId);
+    }
+
+    handovers.forEach((handover, channelId) => {
+      this.listeners.forEach(listener => listener(channelId, handover));
+    });
+  }
+}
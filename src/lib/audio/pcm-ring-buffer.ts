@@ -0,0 +1,43 @@
+// Fixed-length history of the most recent input samples, so a recording
+// started after detection can begin with the audio that triggered it.
+
+export class PcmRingBuffer {
+  private readonly samples: Float32Array;
+  private writeIndex = 0;
+  private length = 0; // Samples held, up to capacity
+
+  constructor(readonly sampleRate: number, readonly seconds: number) {
+    this.samples = new Float32Array(Math.round(sampleRate * seconds));
+  }
+
+  write(block: Float32Array): void {
+    const capacity = this.samples.length;
+    if (capacity === 0) return;
+
+    // Only the newest `capacity` samples of a large block survive
+    const data = block.length > capacity ? block.subarray(block.length - capacity) : block;
+    const first = Math.min(data.length, capacity - this.writeIndex);
+    this.samples.set(data.subarray(0, first), this.writeIndex);
+    this.samples.set(data.subarray(first), 0);
+
+    this.writeIndex = (this.writeIndex + data.length) % capacity;
+    this.length = Math.min(capacity, this.length + data.length);
+  }
+
+  /**
+   * Copy of the held samples, oldest first
+   */
+  read(): Float32Array {
+    const out = new Float32Array(this.length);
+    const start = (this.writeIndex - this.length + this.samples.length) % Math.max(1, this.samples.length);
+    const first = Math.min(this.length, this.samples.length - start);
+    out.set(this.samples.subarray(start, start + first));
+    out.set(this.samples.subarray(0, this.length - first), first);
+    return out;
+  }
+
+  clear(): void {
+    this.writeIndex = 0;
+    this.length = 0;
+  }
+}
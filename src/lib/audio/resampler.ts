@@ -0,0 +1,79 @@
+// Streaming sample-rate conversion for audio sent as RTP (the browser
+// captures at 44.1 or 48 kHz, G.711 is 8 kHz). Going down, a windowed-sinc
+// low-pass removes what the new rate can't carry; samples in between are
+// linearly interpolated.
+
+const FILTER_TAPS = 63;
+
+export class StreamResampler {
+  private readonly step: number; // Input samples per output sample
+  private readonly taps: Float32Array | null;
+  private history: Float32Array; // Input the filter still needs from the last block
+  private previous = 0; // Last filtered sample of the last block
+  private position = 0; // Read position, 0 being `previous`
+
+  constructor(readonly fromRate: number, readonly toRate: number) {
+    this.step = fromRate / toRate;
+    this.taps = toRate < fromRate ? lowPassTaps((0.45 * toRate) / fromRate) : null;
+    this.history = new Float32Array(this.taps ? FILTER_TAPS - 1 : 0);
+  }
+
+  /**
+   * Convert the next block; blocks may be any length
+   */
+  process(input: Float32Array): Float32Array {
+    if (this.fromRate === this.toRate) return input;
+
+    const filtered = this.taps ? this.filter(input) : input;
+
+    // Interpolate over [previous, ...filtered]
+    const count = Math.max(0, Math.ceil((filtered.length - this.position) / this.step));
+    const out = new Float32Array(count);
+    let position = this.position;
+    for (let i = 0; i < count; i++) {
+      const index = Math.floor(position);
+      const fraction = position - index;
+      const a = index === 0 ? this.previous : filtered[index - 1];
+      const b = filtered[index];
+      out[i] = a + (b - a) * fraction;
+      position += this.step;
+    }
+
+    this.position = position - filtered.length;
+    if (filtered.length > 0) this.previous = filtered[filtered.length - 1];
+    return out;
+  }
+
+  private filter(input: Float32Array): Float32Array {
+    const taps = this.taps!;
+    const buffer = new Float32Array(this.history.length + input.length);
+    buffer.set(this.history);
+    buffer.set(input, this.history.length);
+
+    const out = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      let sum = 0;
+      for (let k = 0; k < taps.length; k++) sum += taps[k] * buffer[i + k];
+      out[i] = sum;
+    }
+
+    this.history = buffer.slice(buffer.length - this.history.length);
+    return out;
+  }
+}
+
+// Blackman-windowed sinc; cutoff in cycles per input sample
+function lowPassTaps(cutoff: number): Float32Array {
+  const taps = new Float32Array(FILTER_TAPS);
+  const middle = (FILTER_TAPS - 1) / 2;
+  let sum = 0;
+  for (let n = 0; n < FILTER_TAPS; n++) {
+    const x = n - middle;
+    const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+    const window = 0.42 - 0.5 * Math.cos((2 * Math.PI * n) / (FILTER_TAPS - 1)) + 0.08 * Math.cos((4 * Math.PI * n) / (FILTER_TAPS - 1));
+    taps[n] = sinc * window;
+    sum += taps[n];
+  }
+  for (let n = 0; n < FILTER_TAPS; n++) taps[n] /= sum;
+  return taps;
+}
@@ -0,0 +1,214 @@
+import dgram from "dgram";
+import { STATIC_PAYLOAD_FORMATS, decodeRtpPayload, parseRtpPacket, type RtpPacket } from "./rtp";
+
+// Server side: listens to an RTP multicast group without playing it, and
+// measures each stream on it (one per sender SSRC) the way RFC 3550
+// receiver reports do: packet rate, loss, interarrival jitter and level.
+
+export interface RtpStreamStats {
+  ssrc: number;
+  source: string; // Sender IP
+  payloadType: number;
+  packetsPerSecond: number; // Over the last second
+  lossPercent: number; // Over the last second
+  packetsLost: number; // Since the stream was first heard
+  jitterMs: number;
+  levelDbfs: number | null; // RMS over the last second; null for a payload we can't decode
+  firstPacketAt: string;
+  lastPacketAt: string;
+  active: boolean; // A packet in the last ACTIVE_MS
+}
+
+export interface RtpMonitor {
+  group: string;
+  port: number;
+  streams(): RtpStreamStats[];
+  close(): void;
+}
+
+const WINDOW_MS = 1000;
+const ACTIVE_MS = 2000;
+const FORGET_MS = 60000; // A stream silent this long is dropped
+const MIN_LEVEL_DBFS = -96;
+
+interface StreamState {
+  ssrc: number;
+  source: string;
+  payloadType: number;
+  clockRate: number;
+  // Sequence tracking (RFC 3550 A.1)
+  baseSequence: number;
+  maxSequence: number;
+  cycles: number;
+  received: number;
+  // Interarrival jitter (RFC 3550 A.8), in timestamp units
+  transit: number | null;
+  jitter: number;
+  // The current and last one-second windows
+  windowStartExpected: number;
+  windowReceived: number;
+  windowSumSquares: number;
+  windowSamples: number;
+  packetsPerSecond: number;
+  lossPercent: number;
+  levelDbfs: number | null;
+  firstPacketAt: number;
+  lastPacketAt: number;
+}
+
+const extendedMax = (state: StreamState) => state.cycles + state.maxSequence;
+const expectedPackets = (state: StreamState) => extendedMax(state) - state.baseSequence + 1;
+
+/**
+ * Join `group` on `port` and start measuring. Joining works without any
+ * traffic; streams appear as their first packets arrive.
+ */
+export function openRtpMonitor(group: string, port: number, interfaceAddress?: string): Promise<RtpMonitor> {
+  return new Promise((resolve, reject) => {
+    // Bound to the group where the OS allows it, so groups sharing a port
+    // don't see each other's packets (Windows only binds to local addresses)
+    const socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
+    const streams = new Map<number, StreamState>();
+    let ready = false;
+    let closed = false;
+
+    const onPacket = (packet: RtpPacket, source: string) => {
+      const now = Date.now();
+      let state = streams.get(packet.ssrc);
+      if (!state || state.source !== source) {
+        state = {
+          ssrc: packet.ssrc,
+          source,
+          payloadType: packet.payloadType,
+          clockRate: STATIC_PAYLOAD_FORMATS[packet.payloadType]?.sampleRate ?? 8000,
+          baseSequence: packet.sequence,
+          maxSequence: packet.sequence,
+          cycles: 0,
+          received: 0,
+          transit: null,
+          jitter: 0,
+          windowStartExpected: 0,
+          windowReceived: 0,
+          windowSumSquares: 0,
+          windowSamples: 0,
+          packetsPerSecond: 0,
+          lossPercent: 0,
+          levelDbfs: null,
+          firstPacketAt: now,
+          lastPacketAt: now,
+        };
+        state.windowStartExpected = expectedPackets(state) - 1;
+        streams.set(packet.ssrc, state);
+      }
+
+      const delta = (packet.sequence - state.maxSequence) & 0xffff;
+      if (delta > 0 && delta < 0x8000) {
+        if (packet.sequence < state.maxSequence) state.cycles += 0x10000;
+        state.maxSequence = packet.sequence;
+      }
+      state.received++;
+      state.windowReceived++;
+      state.lastPacketAt = now;
+
+      const transit = (now * state.clockRate) / 1000 - packet.timestamp;
+      if (state.transit !== null) {
+        const d = Math.abs(transit - state.transit);
+        state.jitter += (d - state.jitter) / 16;
+      }
+      state.transit = transit;
+
+      const format = STATIC_PAYLOAD_FORMATS[packet.payloadType];
+      if (format) {
+        const samples = decodeRtpPayload(packet.payload, format);
+        for (const sample of samples) state.windowSumSquares += sample * sample;
+        state.windowSamples += samples.length;
+      }
+    };
+
+    const rollWindow = () => {
+      const now = Date.now();
+      for (const state of streams.values()) {
+        if (now - state.lastPacketAt > FORGET_MS) {
+          streams.delete(state.ssrc);
+          continue;
+        }
+        const expected = expectedPackets(state) - state.windowStartExpected;
+        state.packetsPerSecond = state.windowReceived;
+        state.lossPercent = expected > 0 ? Math.max(0, ((expected - state.windowReceived) / expected) * 100) : 0;
+        if (state.windowSamples > 0) {
+          const rms = Math.sqrt(state.windowSumSquares / state.windowSamples);
+          state.levelDbfs = rms > 0 ? Math.max(MIN_LEVEL_DBFS, 20 * Math.log10(rms / 0x8000)) : MIN_LEVEL_DBFS;
+        } else {
+          state.levelDbfs = STATIC_PAYLOAD_FORMATS[state.payloadType] ? MIN_LEVEL_DBFS : null;
+        }
+        state.windowStartExpected = expectedPackets(state);
+        state.windowReceived = 0;
+        state.windowSumSquares = 0;
+        state.windowSamples = 0;
+      }
+    };
+    const timer = setInterval(rollWindow, WINDOW_MS);
+    timer.unref?.();
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(timer);
+      try {
+        socket.close();
+      } catch {
+        // Already closed
+      }
+    };
+
+    socket.on("error", (error) => {
+      if (!ready) {
+        close();
+        reject(error);
+        return;
+      }
+      console.error(`[RTP] Monitor on ${group}:${port} failed:`, error);
+    });
+
+    socket.on("message", (message, rinfo) => {
+      const packet = parseRtpPacket(message);
+      if (packet) onPacket(packet, rinfo.address);
+    });
+
+    socket.bind({ port, address: process.platform === "win32" ? undefined : group }, () => {
+      try {
+        socket.addMembership(group, interfaceAddress);
+      } catch (error) {
+        close();
+        reject(error);
+        return;
+      }
+      ready = true;
+      resolve({
+        group,
+        port,
+        streams: () => {
+          const now = Date.now();
+          return Array.from(streams.values()).map((state) => {
+            const active = now - state.lastPacketAt < ACTIVE_MS;
+            return {
+              ssrc: state.ssrc,
+              source: state.source,
+              payloadType: state.payloadType,
+              // A stream that stopped mid-window still shows its last rate
+              packetsPerSecond: active ? state.packetsPerSecond : 0,
+              lossPercent: Math.round(state.lossPercent * 10) / 10,
+              packetsLost: Math.max(0, expectedPackets(state) - state.received),
+              jitterMs: Math.round((state.jitter / state.clockRate) * 10000) / 10,
+              levelDbfs: active && state.levelDbfs !== null ? Math.round(state.levelDbfs * 10) / 10 : null,
+              firstPacketAt: new Date(state.firstPacketAt).toISOString(),
+              lastPacketAt: new Date(state.lastPacketAt).toISOString(),
+              active,
+            };
+          });
+        },
+        close,
+      });
+    });
+  });
+}
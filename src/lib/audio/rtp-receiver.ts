@@ -0,0 +1,104 @@
+import dgram from "dgram";
+import {
+  STATIC_PAYLOAD_FORMATS,
+  decodeRtpPayload,
+  isNewerSequence,
+  parseRtpPacket,
+  type RtpCodec,
+  type RtpFormat,
+} from "./rtp";
+
+// Server side: joins an RTP multicast group and decodes its audio.
+
+export interface RtpReceiverOptions {
+  group: string; // Multicast address, e.g. 224.0.2.60
+  port: number;
+  codec?: RtpCodec; // Omit to take the format from the payload type
+  sampleRate?: number; // For L16 on a dynamic payload type
+  interfaceAddress?: string; // Local interface to join on
+}
+
+export interface RtpReceiver {
+  format: RtpFormat; // From the first packet
+  close(): void;
+}
+
+const FIRST_PACKET_TIMEOUT_MS = 5000;
+
+/**
+ * Join the group and wait for its first packet. `onAudio` then gets each
+ * packet's samples (mono, 16-bit) in sequence order; late packets are dropped.
+ */
+export function openRtpReceiver(
+  options: RtpReceiverOptions,
+  onAudio: (samples: Int16Array) => void
+): Promise<RtpReceiver> {
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
+    let format: RtpFormat | null = null;
+    let lastSequence: number | null = null;
+    let closed = false;
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearTimeout(timeout);
+      try {
+        socket.close();
+      } catch {
+        // Already closed
+      }
+    };
+
+    const timeout = setTimeout(() => {
+      close();
+      reject(new Error(`No RTP audio received on ${options.group}:${options.port}`));
+    }, FIRST_PACKET_TIMEOUT_MS);
+
+    socket.on("error", (error) => {
+      close();
+      if (!format) reject(error);
+      else console.error(`[RTP] Receiver on ${options.group}:${options.port} failed:`, error);
+    });
+
+    socket.on("message", (message) => {
+      const packet = parseRtpPacket(message);
+      if (!packet) return;
+
+      if (!format) {
+        format = resolveFormat(options, packet.payloadType);
+        if (!format) {
+          close();
+          reject(new Error(`Unknown RTP payload type ${packet.payloadType} - choose the codec explicitly`));
+          return;
+        }
+        clearTimeout(timeout);
+        resolve({ format, close });
+      }
+
+      if (lastSequence !== null && !isNewerSequence(packet.sequence, lastSequence)) return;
+      lastSequence = packet.sequence;
+      onAudio(decodeRtpPayload(packet.payload, format));
+    });
+
+    socket.bind(options.port, () => {
+      try {
+        socket.addMembership(options.group, options.interfaceAddress);
+      } catch (error) {
+        close();
+        reject(error);
+      }
+    });
+  });
+}
+
+function resolveFormat(options: RtpReceiverOptions, payloadType: number): RtpFormat | null {
+  const known = STATIC_PAYLOAD_FORMATS[payloadType];
+  if (!options.codec) return known ?? null;
+  if (known?.codec === options.codec) return known;
+  return {
+    codec: options.codec,
+    sampleRate: options.codec === "l16" ? options.sampleRate ?? 16000 : 8000,
+    channels: 1,
+  };
+}
@@ -0,0 +1,108 @@
+import { randomUUID } from "crypto";
+import type { PageHandle } from "@/lib/algo/paging-arbiter";
+import { openRtpSender, type RtpSender, type RtpSenderOptions } from "./rtp-sender";
+import { StreamResampler } from "./resampler";
+
+// Server side: streams the browser uploads to an RTP group. The browser
+// opens a session, then posts its PCM in short chunks; the session
+// resamples it to the codec's rate and the sender paces it out. Each holds
+// a paging lease on the group's speakers, and closes if it's preempted.
+
+export interface RtpSendSession {
+  id: string;
+  uid: string; // The user who opened it; only they can write to it
+  options: RtpSenderOptions;
+  inputRate: number;
+  sender: RtpSender;
+  resampler: StreamResampler;
+  lastWriteAt: number;
+  page: PageHandle;
+}
+
+const IDLE_TIMEOUT_MS = 15000; // A browser that went away without stopping
+
+// Kept on globalThis so dev-mode module reloads don't lose open sessions
+const globalForSessions = globalThis as typeof globalThis & {
+  rtpSendSessions?: Map<string, RtpSendSession>;
+  rtpSendSweep?: ReturnType<typeof setInterval>;
+};
+
+function getSessions(): Map<string, RtpSendSession> {
+  globalForSessions.rtpSendSessions ??= new Map();
+  if (!globalForSessions.rtpSendSweep) {
+    globalForSessions.rtpSendSweep = setInterval(sweepIdleSessions, IDLE_TIMEOUT_MS / 3);
+    globalForSessions.rtpSendSweep.unref?.();
+  }
+  return globalForSessions.rtpSendSessions;
+}
+
+export async function openSendSession(
+  uid: string,
+  options: RtpSenderOptions,
+  inputRate: number,
+  page: PageHandle
+): Promise<RtpSendSession> {
+  const sender = await openRtpSender(options);
+  const session: RtpSendSession = {
+    id: randomUUID(),
+    uid,
+    options,
+    inputRate,
+    sender,
+    resampler: new StreamResampler(inputRate, sender.format.sampleRate),
+    lastWriteAt: Date.now(),
+    page,
+  };
+  getSessions().set(session.id, session);
+  page.signal.addEventListener("abort", () => {
+    console.warn(`[RTP] Stream to ${options.address}:${options.port} ended: ${page.signal.reason?.message}`);
+    closeSendSession(session.id);
+  });
+  console.log(`[RTP] ${uid} streaming to ${options.address}:${options.port} (${options.codec}, ${inputRate} -> ${sender.format.sampleRate} Hz)`);
+  return session;
+}
+
+export function getSendSession(id: string): RtpSendSession | null {
+  return getSessions().get(id) ?? null;
+}
+
+/**
+ * Queue 16-bit little-endian PCM at the session's input rate. Returns the
+ * audio waiting to be sent, in ms.
+ */
+export function writeSendSession(session: RtpSendSession, pcm: Uint8Array): number {
+  session.lastWriteAt = Date.now();
+  const view = new DataView(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+  const input = new Float32Array(Math.floor(pcm.byteLength / 2));
+  for (let i = 0; i < input.length; i++) input[i] = view.getInt16(i * 2, true) / 0x8000;
+
+  const resampled = session.resampler.process(input);
+  const samples = new Int16Array(resampled.length);
+  for (let i = 0; i < resampled.length; i++) {
+    const s = Math.max(-1, Math.min(1, resampled[i]));
+    samples[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return session.sender.write(samples);
+}
+
+export function closeSendSession(id: string): void {
+  const session = getSessions().get(id);
+  if (!session) return;
+  getSessions().delete(id);
+  session.sender.close();
+  session.page.release();
+  console.log(`[RTP] Stream to ${session.options.address}:${session.options.port} closed after ${session.sender.packetsSent()} packets`);
+}
+
+function sweepIdleSessions(): void {
+  const sessions = globalForSessions.rtpSendSessions;
+  if (!sessions) return;
+  for (const session of sessions.values()) {
+    // Wait for queued audio to play out before calling it idle
+    const idleFor = Date.now() - session.lastWriteAt - session.sender.queuedMs();
+    if (idleFor > IDLE_TIMEOUT_MS) {
+      console.warn(`[RTP] Closing idle stream to ${session.options.address}:${session.options.port}`);
+      closeSendSession(session.id);
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import dgram from "dgram";
+import { randomInt } from "crypto";
+import {
+  SEND_PAYLOAD_TYPES,
+  STATIC_PAYLOAD_FORMATS,
+  buildRtpPacket,
+  encodeRtpPayload,
+  type RtpCodec,
+  type RtpFormat,
+} from "./rtp";
+
+// Server side: sends audio to an RTP multicast group the way an Algo
+// multicast sender does, 20 ms per packet, so receivers can play it
+// without an 8301 line input.
+
+export interface RtpSenderOptions {
+  address: string; // Multicast group, e.g. 224.0.2.60
+  port: number;
+  codec: RtpCodec;
+  ttl?: number; // Router hops; default 4
+  loopback?: boolean; // Also deliver to receivers on this machine (default true)
+  interfaceAddress?: string; // Local interface to send from
+}
+
+export interface RtpSender {
+  format: RtpFormat;
+  // Queue mono samples at format.sampleRate; returns the audio queued, in ms
+  write(samples: Int16Array): number;
+  queuedMs(): number;
+  packetsSent(): number;
+  close(): void;
+}
+
+const PACKET_MS = 20;
+const PREBUFFER_MS = 200; // Held back after an underrun, so chunked uploads play smoothly
+const MAX_QUEUE_MS = 10000; // Older audio is dropped past this
+const TICK_MS = 5;
+const DEFAULT_TTL = 4;
+
+/**
+ * Open a socket for the group. Audio written is paced out in real time;
+ * while the queue is empty nothing is sent.
+ */
+export function openRtpSender(options: RtpSenderOptions): Promise<RtpSender> {
+  const payloadType = SEND_PAYLOAD_TYPES[options.codec];
+  const format = STATIC_PAYLOAD_FORMATS[payloadType];
+  const samplesPerPacket = (format.sampleRate * PACKET_MS) / 1000;
+  const target = `${options.address}:${options.port}`;
+
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
+    const ssrc = randomInt(0, 0xffffffff);
+    let sequence = randomInt(0, 0xffff);
+    let timestamp = randomInt(0, 0xffffffff);
+
+    const queue: Int16Array[] = [];
+    let queued = 0; // Samples
+    let sending = false;
+    let nextSendAt = 0;
+    let lastSentAt = 0;
+    let sent = 0;
+    let closed = false;
+    let timer: ReturnType<typeof setInterval> | null = null;
+
+    const takePacket = () => {
+      const samples = new Int16Array(samplesPerPacket);
+      let filled = 0;
+      while (filled < samplesPerPacket) {
+        const chunk = queue[0];
+        const count = Math.min(chunk.length, samplesPerPacket - filled);
+        samples.set(chunk.subarray(0, count), filled);
+        filled += count;
+        if (count === chunk.length) queue.shift();
+        else queue[0] = chunk.subarray(count);
+      }
+      queued -= samplesPerPacket;
+      return samples;
+    };
+
+    const tick = () => {
+      const now = performance.now();
+      if (!sending) {
+        if (queued < (format.sampleRate * PREBUFFER_MS) / 1000) return;
+        // A new talkspurt: the timestamp moves on by the silence
+        sending = true;
+        nextSendAt = now;
+        if (lastSentAt) timestamp += Math.round(((now - lastSentAt) * format.sampleRate) / 1000);
+      }
+
+      let marker = sent === 0 || now - lastSentAt > PACKET_MS * 2;
+      while (now >= nextSendAt) {
+        if (queued < samplesPerPacket) {
+          sending = false;
+          return;
+        }
+        const packet = buildRtpPacket({
+          payloadType,
+          sequence,
+          timestamp,
+          ssrc,
+          marker,
+          payload: encodeRtpPayload(takePacket(), options.codec),
+        });
+        socket.send(packet, options.port, options.address);
+        sequence = (sequence + 1) & 0xffff;
+        timestamp = (timestamp + samplesPerPacket) >>> 0;
+        nextSendAt += PACKET_MS;
+        lastSentAt = now;
+        marker = false;
+        sent++;
+      }
+    };
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      if (timer) clearInterval(timer);
+      try {
+        socket.close();
+      } catch {
+        // Already closed
+      }
+    };
+
+    socket.on("error", (error) => {
+      if (!timer) {
+        close();
+        reject(error);
+        return;
+      }
+      console.error(`[RTP] Sender to ${target} failed:`, error);
+    });
+
+    socket.bind(() => {
+      try {
+        socket.setMulticastTTL(options.ttl ?? DEFAULT_TTL);
+        socket.setMulticastLoopback(options.loopback ?? true);
+        if (options.interfaceAddress) socket.setMulticastInterface(options.interfaceAddress);
+      } catch (error) {
+        close();
+        reject(error);
+        return;
+      }
+
+      timer = setInterval(tick, TICK_MS);
+      resolve({
+        format,
+        write: (samples) => {
+          if (closed) return 0;
+          queue.push(samples);
+          queued += samples.length;
+          // Behind by more than the limit - drop the oldest audio
+          const limit = (format.sampleRate * MAX_QUEUE_MS) / 1000;
+          while (queued - queue[0].length >= limit) {
+            queued -= queue.shift()!.length;
+          }
+          return (queued / format.sampleRate) * 1000;
+        },
+        queuedMs: () => (queued / format.sampleRate) * 1000,
+        packetsSent: () => sent,
+        close,
+      });
+    });
+  });
+}
@@ -0,0 +1,175 @@
+import { apiFetch } from "@/lib/api/fetch";
+import type { RtpCodec } from "./rtp";
+
+// Browser side of /api/audio/rtp/send: captured audio or a file goes to the
+// server in short chunks, and the server sends it to the speakers'
+// multicast group as RTP.
+
+export interface RtpStreamTarget {
+  address: string; // The group the speakers receive on (AlgoMulticastConfig address/port)
+  port: number;
+  codec: RtpCodec;
+}
+
+export const DEFAULT_STREAM_TARGET: RtpStreamTarget = {
+  address: "224.0.2.60",
+  port: 50000,
+  codec: "pcmu",
+};
+
+// The Live page relays its input to the target while monitoring
+export interface RtpStreamSettings {
+  enabled: boolean;
+  target: RtpStreamTarget;
+}
+
+export const DEFAULT_RTP_STREAM: RtpStreamSettings = {
+  enabled: false,
+  target: DEFAULT_STREAM_TARGET,
+};
+
+const CHUNK_MS = 100;
+const FILE_CHUNK_MS = 1000;
+const FILE_AHEAD_MS = 2000; // A file is sent this far ahead of playback
+
+export class RtpStream {
+  private pending: Float32Array[] = [];
+  private pendingLength = 0;
+  private inFlight: Promise<void> | null = null;
+  private closed = false;
+  queuedMs = 0; // Waiting on the server, as of the last chunk
+
+  private constructor(
+    readonly id: string,
+    readonly sampleRate: number,
+    readonly target: RtpStreamTarget,
+    private readonly onError: (message: string) => void
+  ) {}
+
+  static async open(target: RtpStreamTarget, sampleRate: number, onError: (message: string) => void): Promise<RtpStream> {
+    const response = await apiFetch("/api/audio/rtp/send", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...target, sampleRate }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed: HTTP ${response.status}`);
+    }
+    return new RtpStream(data.id, sampleRate, target, onError);
+  }
+
+  /**
+   * Queue samples; they go out every CHUNK_MS, one request at a time
+   */
+  push(samples: Float32Array): void {
+    if (this.closed) return;
+    this.pending.push(samples);
+    this.pendingLength += samples.length;
+    if (!this.inFlight && this.pendingLength >= (this.sampleRate * CHUNK_MS) / 1000) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Send what's queued now, or wait for the chunk already on its way
+   */
+  flush(): Promise<void> {
+    if (this.inFlight) return this.inFlight;
+    if (this.closed || this.pendingLength === 0) return Promise.resolve();
+    this.inFlight = this.send().finally(() => {
+      this.inFlight = null;
+    });
+    return this.inFlight;
+  }
+
+  private async send(): Promise<void> {
+    const pcm = new DataView(new ArrayBuffer(this.pendingLength * 2));
+    let offset = 0;
+    for (const chunk of this.pending) {
+      for (let i = 0; i < chunk.length; i++) {
+        const s = Math.max(-1, Math.min(1, chunk[i]));
+        pcm.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+        offset += 2;
+      }
+    }
+    this.pending = [];
+    this.pendingLength = 0;
+
+    try {
+      const response = await apiFetch(`/api/audio/rtp/send/${this.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: pcm.buffer,
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `Request failed: HTTP ${response.status}`);
+      }
+      this.queuedMs = data.queuedMs ?? 0;
+    } catch (error) {
+      this.closed = true;
+      this.onError(error instanceof Error ? error.message : "Stream failed");
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    await apiFetch(`/api/audio/rtp/send/${this.id}`, { method: "DELETE" }).catch(() => undefined);
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+}
+
+/**
+ * Decode an audio file and stream it to `target` at playback speed.
+ * Resolves once it has all been sent; abort `signal` to stop early.
+ */
+export async function streamAudioFile(
+  file: Blob,
+  target: RtpStreamTarget,
+  options: { signal?: AbortSignal; onProgress?: (fraction: number) => void } = {}
+): Promise<void> {
+  const context = new AudioContext();
+  let buffer: AudioBuffer;
+  try {
+    buffer = await context.decodeAudioData(await file.arrayBuffer());
+  } finally {
+    context.close();
+  }
+
+  // Mixed down to mono
+  const samples = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < samples.length; i++) samples[i] += channel[i] / buffer.numberOfChannels;
+  }
+
+  let failure: string | null = null;
+  const stream = await RtpStream.open(target, buffer.sampleRate, (message) => {
+    failure = message;
+  });
+  const chunk = Math.round((buffer.sampleRate * FILE_CHUNK_MS) / 1000);
+  const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  try {
+    for (let offset = 0; offset < samples.length; offset += chunk) {
+      if (options.signal?.aborted) return;
+      stream.push(samples.subarray(offset, offset + chunk));
+      await stream.flush();
+      await stream.flush(); // A chunk that was already on its way, then this one
+      if (failure) throw new Error(failure);
+      options.onProgress?.(Math.min(1, (offset + chunk) / samples.length));
+
+      // Stay a little ahead of playback
+      if (stream.queuedMs > FILE_AHEAD_MS) await wait(stream.queuedMs - FILE_AHEAD_MS);
+    }
+    // Let the tail play out before the session closes
+    if (!options.signal?.aborted) await wait(stream.queuedMs + 200);
+  } finally {
+    await stream.close();
+  }
+}
@@ -0,0 +1,185 @@
+// RTP packets (RFC 3550) and the payload formats Algo endpoints use for
+// multicast audio: G.711 mu-law / A-law and L16 (RFC 3551).
+
+export type RtpCodec = "pcmu" | "pcma" | "l16";
+
+export interface RtpFormat {
+  codec: RtpCodec;
+  sampleRate: number;
+  channels: number;
+}
+
+export interface RtpPacket {
+  payloadType: number;
+  sequence: number;
+  timestamp: number;
+  ssrc: number;
+  marker: boolean;
+  payload: Uint8Array;
+}
+
+// Static payload types; dynamic ones (96-127) need the format given explicitly
+export const STATIC_PAYLOAD_FORMATS: Record<number, RtpFormat> = {
+  0: { codec: "pcmu", sampleRate: 8000, channels: 1 },
+  8: { codec: "pcma", sampleRate: 8000, channels: 1 },
+  10: { codec: "l16", sampleRate: 44100, channels: 2 },
+  11: { codec: "l16", sampleRate: 44100, channels: 1 },
+};
+
+// Payload types sent for each codec - static ones, which Algo receivers
+// recognise without any signalling
+export const SEND_PAYLOAD_TYPES: Record<RtpCodec, number> = {
+  pcmu: 0,
+  pcma: 8,
+  l16: 11,
+};
+
+const RTP_VERSION = 2;
+const RTP_HEADER_BYTES = 12;
+
+/**
+ * Parse an RTP packet; null for anything that isn't RTP version 2
+ */
+export function parseRtpPacket(data: Uint8Array): RtpPacket | null {
+  if (data.length < RTP_HEADER_BYTES || data[0] >> 6 !== RTP_VERSION) return null;
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const padding = (data[0] & 0x20) !== 0;
+  const extension = (data[0] & 0x10) !== 0;
+  const csrcCount = data[0] & 0x0f;
+
+  let offset = RTP_HEADER_BYTES + csrcCount * 4;
+  if (extension) {
+    if (offset + 4 > data.length) return null;
+    offset += 4 + view.getUint16(offset + 2) * 4;
+  }
+  let end = data.length;
+  if (padding) end -= data[data.length - 1];
+  if (offset > end) return null;
+
+  return {
+    payloadType: data[1] & 0x7f,
+    marker: (data[1] & 0x80) !== 0,
+    sequence: view.getUint16(2),
+    timestamp: view.getUint32(4),
+    ssrc: view.getUint32(8),
+    payload: data.subarray(offset, end),
+  };
+}
+
+/**
+ * Build an RTP version 2 packet (no CSRCs, extension or padding)
+ */
+export function buildRtpPacket(packet: RtpPacket): Uint8Array {
+  const data = new Uint8Array(RTP_HEADER_BYTES + packet.payload.length);
+  const view = new DataView(data.buffer);
+  data[0] = RTP_VERSION << 6;
+  data[1] = (packet.marker ? 0x80 : 0) | (packet.payloadType & 0x7f);
+  view.setUint16(2, packet.sequence & 0xffff);
+  view.setUint32(4, packet.timestamp >>> 0);
+  view.setUint32(8, packet.ssrc >>> 0);
+  data.set(packet.payload, RTP_HEADER_BYTES);
+  return data;
+}
+
+/**
+ * Decode a packet's payload to mono 16-bit samples
+ */
+export function decodeRtpPayload(payload: Uint8Array, format: RtpFormat): Int16Array {
+  if (format.codec === "l16") {
+    // Network byte order, channels interleaved - mixed down to mono
+    const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+    const frames = Math.floor(payload.length / (2 * format.channels));
+    const out = new Int16Array(frames);
+    for (let i = 0; i < frames; i++) {
+      let sum = 0;
+      for (let c = 0; c < format.channels; c++) sum += view.getInt16((i * format.channels + c) * 2);
+      out[i] = Math.round(sum / format.channels);
+    }
+    return out;
+  }
+
+  const decode = format.codec === "pcmu" ? muLawToLinear : aLawToLinear;
+  const out = new Int16Array(payload.length);
+  for (let i = 0; i < payload.length; i++) out[i] = decode(payload[i]);
+  return out;
+}
+
+/**
+ * Encode mono 16-bit samples as a payload in `codec`
+ */
+export function encodeRtpPayload(samples: Int16Array, codec: RtpCodec): Uint8Array {
+  if (codec === "l16") {
+    const out = new Uint8Array(samples.length * 2);
+    const view = new DataView(out.buffer);
+    for (let i = 0; i < samples.length; i++) view.setInt16(i * 2, samples[i]);
+    return out;
+  }
+
+  const encode = codec === "pcmu" ? linearToMuLaw : linearToALaw;
+  const out = new Uint8Array(samples.length);
+  for (let i = 0; i < samples.length; i++) out[i] = encode(samples[i]);
+  return out;
+}
+
+/**
+ * Whether `address` is an IPv4 multicast group (224.0.0.0/4)
+ */
+export function isMulticastAddress(address: string): boolean {
+  const octets = address.split(".").map(Number);
+  return octets.length === 4
+    && octets.every(octet => Number.isInteger(octet) && octet >= 0 && octet <= 255)
+    && octets[0] >= 224 && octets[0] <= 239;
+}
+
+/**
+ * Whether `sequence` comes after `previous`, allowing for wrap-around
+ */
+export function isNewerSequence(sequence: number, previous: number): boolean {
+  const delta = (sequence - previous + 0x10000) % 0x10000;
+  return delta !== 0 && delta < 0x8000;
+}
+
+function muLawToLinear(value: number): number {
+  const u = ~value & 0xff;
+  const exponent = (u >> 4) & 0x07;
+  const magnitude = ((((u & 0x0f) << 3) + 0x84) << exponent) - 0x84;
+  return u & 0x80 ? -magnitude : magnitude;
+}
+
+function aLawToLinear(value: number): number {
+  const a = value ^ 0x55;
+  const exponent = (a >> 4) & 0x07;
+  let magnitude = (a & 0x0f) << 4;
+  magnitude = exponent === 0 ? magnitude + 8 : (magnitude + 0x108) << (exponent - 1);
+  return a & 0x80 ? magnitude : -magnitude;
+}
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+const ALAW_SEGMENT_ENDS = [0x1f, 0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff];
+
+function linearToMuLaw(sample: number): number {
+  const sign = sample < 0 ? 0x80 : 0;
+  const biased = Math.min(Math.abs(sample), MULAW_CLIP) + MULAW_BIAS;
+  let exponent = 7;
+  for (let mask = 0x4000; (biased & mask) === 0 && exponent > 0; mask >>= 1) exponent--;
+  const mantissa = (biased >> (exponent + 3)) & 0x0f;
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+}
+
+function linearToALaw(sample: number): number {
+  let pcm = sample >> 3; // A-law works on 13 bits
+  let mask = 0xd5;
+  if (pcm < 0) {
+    mask = 0x55;
+    pcm = -pcm - 1;
+  }
+
+  let segment = 0;
+  while (segment < 8 && pcm > ALAW_SEGMENT_ENDS[segment]) segment++;
+  if (segment === 8) return 0x7f ^ mask;
+
+  const mantissa = segment < 2 ? (pcm >> 1) & 0x0f : (pcm >> segment) & 0x0f;
+  return ((segment << 4) | mantissa) ^ mask;
+}
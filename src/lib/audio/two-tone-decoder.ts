@@ -0,0 +1,208 @@
+import type { ToneSet } from "@/lib/algo/types";
+
+// Two-tone sequential (Quick Call II) decoder for the Live monitor.
+// Dispatch tones a station with tone A followed straight away by tone B.
+// Samples are cut into overlapping frames; a frame holding one clean tone
+// gives a frequency (zero crossings, confirmed with a Goertzel filter),
+// consecutive frames at the same frequency make up a tone, and a tone B
+// that follows a long-enough tone A matches a configured set.
+
+export type ToneSetPattern = Pick<ToneSet, "id" | "toneA" | "toneB" | "toneADuration" | "toneBDuration" | "tolerance">;
+
+export interface ToneMatch {
+  toneSetId: string;
+  toneA: number; // Measured Hz
+  toneB: number;
+  detectedAt: Date;
+}
+
+const FRAME_MS = 50;
+const HOP_MS = 25;
+const MIN_RMS = 0.01; // About -40 dBFS
+const MIN_PURITY = 0.6; // Share of the frame's energy at the measured frequency
+const SAME_TONE = 0.015; // Frames within 1.5% continue the current tone
+const MAX_DROPOUT_MS = 75; // Noisy frames tolerated inside a tone
+const MAX_GAP_MS = 250; // Silence allowed between tone A and tone B
+const MIN_TONE_MS = 100; // Shorter blips are ignored
+const MIN_DURATION_RATIO = 0.7; // Radios and frame edges clip tones a little
+
+interface Tone {
+  frequency: number; // Mean of its frames
+  frames: number;
+  start: number; // ms since the decoder started
+  end: number;
+  matched: Set<string>; // Sets already reported for this tone
+}
+
+export class TwoToneDecoder {
+  private readonly frameSize: number;
+  private readonly hopSize: number;
+  private toneSets: ToneSetPattern[];
+  private pending = new Float32Array(0);
+  private position = 0; // Sample index of pending[0]
+  private current: Tone | null = null;
+  private previous: Tone | null = null;
+
+  constructor(readonly sampleRate: number, toneSets: ToneSetPattern[] = []) {
+    this.frameSize = Math.round((sampleRate * FRAME_MS) / 1000);
+    this.hopSize = Math.round((sampleRate * HOP_MS) / 1000);
+    this.toneSets = toneSets;
+  }
+
+  setToneSets(toneSets: ToneSetPattern[]): void {
+    this.toneSets = toneSets;
+  }
+
+  reset(): void {
+    this.pending = new Float32Array(0);
+    this.position = 0;
+    this.current = null;
+    this.previous = null;
+  }
+
+  /**
+   * Feed the next block of samples; returns the sets toned in it
+   */
+  process(samples: Float32Array): ToneMatch[] {
+    const buffer = new Float32Array(this.pending.length + samples.length);
+    buffer.set(this.pending);
+    buffer.set(samples, this.pending.length);
+
+    const matches: ToneMatch[] = [];
+    let offset = 0;
+    for (; offset + this.frameSize <= buffer.length; offset += this.hopSize) {
+      const time = ((this.position + offset) / this.sampleRate) * 1000;
+      const frequency = measureTone(buffer.subarray(offset, offset + this.frameSize), this.sampleRate);
+      this.track(frequency, time);
+      matches.push(...this.match());
+    }
+
+    this.pending = buffer.slice(offset);
+    this.position += offset;
+    return matches;
+  }
+
+  // Extend the current tone, or close it and start the next one
+  private track(frequency: number | null, time: number): void {
+    const current = this.current;
+
+    if (frequency === null) {
+      if (current && time - current.end > MAX_DROPOUT_MS) {
+        this.close();
+      }
+      return;
+    }
+
+    if (current && Math.abs(frequency - current.frequency) <= current.frequency * SAME_TONE) {
+      current.frequency = (current.frequency * current.frames + frequency) / (current.frames + 1);
+      current.frames++;
+      current.end = time + HOP_MS;
+      return;
+    }
+
+    this.close();
+    this.current = { frequency, frames: 1, start: time, end: time + HOP_MS, matched: new Set() };
+  }
+
+  private close(): void {
+    if (this.current && this.current.end - this.current.start >= MIN_TONE_MS) {
+      this.previous = this.current;
+    }
+    this.current = null;
+  }
+
+  // Report each set once per tone B, as soon as tone B has lasted long enough
+  private match(): ToneMatch[] {
+    const toneA = this.previous;
+    const toneB = this.current;
+    if (!toneA || !toneB || toneB.start - toneA.end > MAX_GAP_MS) return [];
+
+    const matches: ToneMatch[] = [];
+    for (const set of this.toneSets) {
+      if (toneB.matched.has(set.id)) continue;
+      if (!withinTolerance(toneA.frequency, set.toneA, set.tolerance)) continue;
+      if (!withinTolerance(toneB.frequency, set.toneB, set.tolerance)) continue;
+      if (toneA.end - toneA.start < set.toneADuration * MIN_DURATION_RATIO) continue;
+      if (toneB.end - toneB.start < set.toneBDuration * MIN_DURATION_RATIO) continue;
+
+      toneB.matched.add(set.id);
+      matches.push({
+        toneSetId: set.id,
+        toneA: Math.round(toneA.frequency * 10) / 10,
+        toneB: Math.round(toneB.frequency * 10) / 10,
+        detectedAt: new Date(),
+      });
+    }
+    return matches;
+  }
+}
+
+function withinTolerance(measured: number, expected: number, tolerancePercent: number): boolean {
+  return Math.abs(measured - expected) <= (expected * tolerancePercent) / 100;
+}
+
+/**
+ * Frequency of the single tone in a frame, or null for silence, noise or
+ * several tones at once
+ */
+export function measureTone(frame: Float32Array, sampleRate: number): number | null {
+  let mean = 0;
+  for (let i = 0; i < frame.length; i++) mean += frame[i];
+  mean /= frame.length;
+
+  let energy = 0;
+  for (let i = 0; i < frame.length; i++) energy += (frame[i] - mean) ** 2;
+  if (Math.sqrt(energy / frame.length) < MIN_RMS) return null;
+
+  // Crossings are counted on a smoothed copy (moving average, first null at
+  // 8 kHz) so broadband hiss doesn't add extra ones
+  const width = Math.max(1, Math.round(sampleRate / 8000));
+  const smoothed = new Float32Array(frame.length);
+  let sum = 0;
+  let smoothedEnergy = 0;
+  for (let i = 0; i < frame.length; i++) {
+    sum += frame[i] - mean;
+    if (i >= width) sum -= frame[i - width] - mean;
+    smoothed[i] = sum / Math.min(i + 1, width);
+    smoothedEnergy += smoothed[i] ** 2;
+  }
+
+  // Rising zero crossings, interpolated between samples. The signal has to
+  // dip below -rms/2 first so noise around a crossing only counts once.
+  const hysteresis = Math.sqrt(smoothedEnergy / frame.length) / 2;
+  let armed = false;
+  let first = -1;
+  let last = -1;
+  let crossings = 0;
+  for (let i = width; i < frame.length; i++) {
+    const a = smoothed[i - 1];
+    const b = smoothed[i];
+    if (b < -hysteresis) {
+      armed = true;
+    } else if (armed && a < 0 && b >= 0) {
+      const at = i - 1 + a / (a - b);
+      if (first < 0) first = at;
+      last = at;
+      crossings++;
+      armed = false;
+    }
+  }
+  if (crossings < 3) return null;
+
+  const frequency = ((crossings - 1) * sampleRate) / (last - first);
+
+  // Noise crosses zero too - only accept the frame if its energy sits at
+  // that frequency (a pure tone gives a purity of 1)
+  const coeff = 2 * Math.cos((2 * Math.PI * frequency) / sampleRate);
+  let s1 = 0;
+  let s2 = 0;
+  for (let i = 0; i < frame.length; i++) {
+    const s0 = frame[i] - mean + coeff * s1 - s2;
+    s2 = s1;
+    s1 = s0;
+  }
+  const power = s1 * s1 + s2 * s2 - coeff * s1 * s2;
+  const purity = (2 * power) / (frame.length * energy);
+
+  return purity >= MIN_PURITY ? frequency : null;
+}
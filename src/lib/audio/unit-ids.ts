@@ -0,0 +1,52 @@
+// Unit IDs decoded from the monitored radio audio (DTMF ANI or MDC1200 PTT
+// IDs) and the rules that decide what a transmission from a unit does.
+
+export type UnitIdKind = "dtmf" | "mdc1200";
+
+export interface UnitId {
+  kind: UnitIdKind;
+  id: string; // DTMF digits, or the MDC1200 unit ID in hex
+  detail?: string; // e.g. "PTT ID (pre)"
+  detectedAt: string;
+}
+
+// "ignore" keeps the speakers muted for the transmission; "route" sends it
+// to the rule's zones instead of the selected devices and zones
+export type UnitIdAction = "ignore" | "route";
+
+export interface UnitIdRule {
+  id: string;
+  kind: UnitIdKind | "any";
+  pattern: string; // Exact ID, or a prefix ending in "*" (e.g. "12*")
+  action: UnitIdAction;
+  zoneIds: string[]; // Route only
+}
+
+/**
+ * First rule matching a unit ID, or null. IDs compare case-insensitively so
+ * MDC1200 hex and DTMF A-D match however they were typed.
+ */
+export function matchUnitIdRule(rules: UnitIdRule[], unitId: Pick<UnitId, "kind" | "id">): UnitIdRule | null {
+  const id = unitId.id.toUpperCase();
+
+  for (const rule of rules) {
+    if (rule.kind !== "any" && rule.kind !== unitId.kind) continue;
+
+    const pattern = rule.pattern.trim().toUpperCase();
+    if (!pattern) continue;
+
+    const matches = pattern.endsWith("*")
+      ? id.startsWith(pattern.slice(0, -1))
+      : id === pattern;
+    if (matches) return rule;
+  }
+
+  return null;
+}
+
+/**
+ * Unit ID for display, e.g. "MDC 1234" or "DTMF 5551"
+ */
+export function formatUnitId(unitId: Pick<UnitId, "kind" | "id">): string {
+  return `${unitId.kind === "mdc1200" ? "MDC" : "DTMF"} ${unitId.id}`;
+}
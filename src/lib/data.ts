@@ -0,0 +1,104 @@
+import * as firestore from "@/lib/firebase/firestore";
+import * as serverStore from "@/lib/api/data";
+import type { AlgoDevice, Zone, AudioFile, ToneSet, DistributionLog } from "@/lib/algo/types";
+
+// App data for pages and components. With the default Firestore storage the
+// browser talks to Firestore directly; when the server keeps data in local
+// files (ALGO_STORAGE=local or sync, e.g. an offline station) the same calls
+// go through /api/data instead. The server says which on the first call.
+
+type Backend = Omit<typeof serverStore, "fetchStorageStatus" | "syncStorage">;
+
+let backend: Promise<Backend> | null = null;
+
+function getBackend(): Promise<Backend> {
+  backend ??= serverStore
+    .fetchStorageStatus()
+    .then((status): Backend => (status.mode === "firestore" ? firestore : serverStore))
+    .catch((error) => {
+      // Try again on the next call (e.g. before sign-in completes)
+      backend = null;
+      throw error;
+    });
+  return backend;
+}
+
+// ============ Devices ============
+
+export async function getDevices(): Promise<AlgoDevice[]> {
+  return (await getBackend()).getDevices();
+}
+
+export async function getDevice(id: string): Promise<AlgoDevice | null> {
+  return (await getBackend()).getDevice(id);
+}
+
+// Status fields only - config changes go through lib/api/devices.ts
+export async function updateDevice(id: string, data: Partial<AlgoDevice>): Promise<void> {
+  return (await getBackend()).updateDevice(id, data);
+}
+
+// ============ Zones ============
+
+export async function getZones(): Promise<Zone[]> {
+  return (await getBackend()).getZones();
+}
+
+export async function getZone(id: string): Promise<Zone | null> {
+  return (await getBackend()).getZone(id);
+}
+
+export async function addZone(zone: Omit<Zone, "id" | "createdAt">): Promise<string> {
+  return (await getBackend()).addZone(zone);
+}
+
+export async function updateZone(id: string, data: Partial<Zone>): Promise<void> {
+  return (await getBackend()).updateZone(id, data);
+}
+
+export async function deleteZone(id: string): Promise<void> {
+  return (await getBackend()).deleteZone(id);
+}
+
+// ============ Audio Files ============
+
+export async function getAudioFiles(): Promise<AudioFile[]> {
+  return (await getBackend()).getAudioFiles();
+}
+
+export async function getAudioFile(id: string): Promise<AudioFile | null> {
+  return (await getBackend()).getAudioFile(id);
+}
+
+export async function addAudioFile(audioFile: Omit<AudioFile, "id" | "createdAt">): Promise<string> {
+  return (await getBackend()).addAudioFile(audioFile);
+}
+
+export async function deleteAudioFile(id: string): Promise<void> {
+  return (await getBackend()).deleteAudioFile(id);
+}
+
+// ============ Tone Sets ============
+
+export async function getToneSets(): Promise<ToneSet[]> {
+  return (await getBackend()).getToneSets();
+}
+
+export async function addToneSet(toneSet: Omit<ToneSet, "id" | "createdAt">): Promise<string> {
+  return (await getBackend()).addToneSet(toneSet);
+}
+
+export async function updateToneSet(id: string, data: Partial<ToneSet>): Promise<void> {
+  return (await getBackend()).updateToneSet(id, data);
+}
+
+export async function deleteToneSet(id: string): Promise<void> {
+  return (await getBackend()).deleteToneSet(id);
+}
+
+// ============ Distribution Logs ============
+
+// Filtered and paginated history goes through /api/history (see lib/api/history.ts)
+export async function getDistributionLogs(max = 50): Promise<DistributionLog[]> {
+  return (await getBackend()).getDistributionLogs(max);
+}
@@ -0,0 +1,23 @@
+import { initializeApp, getApps, cert, applicationDefault, type App } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+
+// Server-only Firebase Admin SDK - never import this from client components.
+// Credentials come from FIREBASE_SERVICE_ACCOUNT_KEY (service account JSON),
+// falling back to GOOGLE_APPLICATION_CREDENTIALS / application default credentials.
+function createAdminApp(): App {
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT_KEY;
+
+  return initializeApp({
+    credential: serviceAccount ? cert(JSON.parse(serviceAccount)) : applicationDefault(),
+    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+  });
+}
+
+// Initialize Firebase Admin (prevent multiple initializations)
+const adminApp = getApps().length === 0 ? createAdminApp() : getApps()[0];
+
+export const adminAuth = getAuth(adminApp);
+export const adminDb = getFirestore(adminApp);
+
+export default adminApp;
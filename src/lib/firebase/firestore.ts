@@ -8,11 +8,12 @@ import {
   deleteDoc,
   query,
   orderBy,
+  limit,
   Timestamp,
   type DocumentData,
 } from "firebase/firestore";
 import { db } from "./config";
-import type { AlgoDevice, Zone, AudioFile, DistributionLog } from "@/lib/algo/types";
+import type { AlgoDevice, Zone, AudioFile, ToneSet, DistributionLog } from "@/lib/algo/types";
 
 // ============ Devices ============
 
@@ -34,16 +35,8 @@ export async function getDevice(id: string): Promise<AlgoDevice | null> {
   return { id: snapshot.id, ...convertTimestamps(snapshot.data()) } as AlgoDevice;
 }
 
-export async function addDevice(device: Omit<AlgoDevice, "id" | "createdAt" | "updatedAt">): Promise<string> {
-  const now = Timestamp.now();
-  const docRef = await addDoc(devicesCollection, {
-    ...device,
-    createdAt: now,
-    updatedAt: now,
-  });
-  return docRef.id;
-}
-
+// Config changes and passwords go through /api/algo/devices (see lib/api/devices.ts);
+// this is for status fields written by the health check and live volume controls
 export async function updateDevice(id: string, data: Partial<AlgoDevice>): Promise<void> {
   const docRef = doc(db, "devices", id);
   // Firebase doesn't allow undefined values - filter them out
@@ -56,11 +49,6 @@ export async function updateDevice(id: string, data: Partial<AlgoDevice>): Promi
   await updateDoc(docRef, cleanData);
 }
 
-export async function deleteDevice(id: string): Promise<void> {
-  const docRef = doc(db, "devices", id);
-  await deleteDoc(docRef);
-}
-
 // ============ Zones ============
 
 const zonesCollection = collection(db, "zones");
@@ -132,27 +120,52 @@ export async function deleteAudioFile(id: string): Promise<void> {
   await deleteDoc(docRef);
 }
 
-// ============ Distribution Logs ============
+// ============ Tone Sets ============
 
-const distributionLogsCollection = collection(db, "distributionLogs");
+const toneSetsCollection = collection(db, "toneSets");
 
-export async function getDistributionLogs(limit = 50): Promise<DistributionLog[]> {
-  const q = query(distributionLogsCollection, orderBy("createdAt", "desc"));
+export async function getToneSets(): Promise<ToneSet[]> {
+  const q = query(toneSetsCollection, orderBy("createdAt", "desc"));
   const snapshot = await getDocs(q);
-  return snapshot.docs.slice(0, limit).map((doc) => ({
+  return snapshot.docs.map((doc) => ({
     id: doc.id,
     ...convertTimestamps(doc.data()),
-  })) as DistributionLog[];
+  })) as ToneSet[];
 }
 
-export async function addDistributionLog(log: Omit<DistributionLog, "id" | "createdAt">): Promise<string> {
-  const docRef = await addDoc(distributionLogsCollection, {
-    ...log,
+export async function addToneSet(toneSet: Omit<ToneSet, "id" | "createdAt">): Promise<string> {
+  const docRef = await addDoc(toneSetsCollection, {
+    ...toneSet,
     createdAt: Timestamp.now(),
   });
   return docRef.id;
 }
 
+export async function updateToneSet(id: string, data: Partial<ToneSet>): Promise<void> {
+  const docRef = doc(db, "toneSets", id);
+  await updateDoc(docRef, data);
+}
+
+export async function deleteToneSet(id: string): Promise<void> {
+  const docRef = doc(db, "toneSets", id);
+  await deleteDoc(docRef);
+}
+
+// ============ Distribution Logs ============
+
+// Logs are written by the playback API routes (see lib/algo/distribution-logs.ts);
+// filtered and paginated reads go through /api/history (see lib/api/history.ts)
+const distributionLogsCollection = collection(db, "distributionLogs");
+
+export async function getDistributionLogs(max = 50): Promise<DistributionLog[]> {
+  const q = query(distributionLogsCollection, orderBy("createdAt", "desc"), limit(max));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...convertTimestamps(doc.data()),
+  })) as DistributionLog[];
+}
+
 // ============ Helpers ============
 
 function convertTimestamps(data: DocumentData): DocumentData {
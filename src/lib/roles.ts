@@ -0,0 +1,39 @@
+// User roles, stored as the "role" Firebase custom claim.
+// Each role includes everything the roles before it can do:
+//   viewer   - device status, dashboard and logs
+//   operator - live monitoring, distribution, emergency controls
+//   admin    - add/delete devices, device settings and passwords, user roles
+export type UserRole = "viewer" | "operator" | "admin";
+
+export const USER_ROLES: UserRole[] = ["viewer", "operator", "admin"];
+
+// Role given to signed-in users without a role claim
+export const DEFAULT_ROLE: UserRole = "viewer";
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: "Viewer",
+  operator: "Operator",
+  admin: "Admin",
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === "string" && USER_ROLES.includes(value as UserRole);
+}
+
+/**
+ * Whether a role grants at least the required role's access
+ */
+export function hasRole(role: UserRole | null | undefined, required: UserRole): boolean {
+  if (!role) return false;
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
+
+// A Firebase user as listed on the Settings page
+export interface UserAccount {
+  uid: string;
+  email?: string;
+  displayName?: string;
+  role: UserRole;
+  disabled: boolean;
+  lastSignInTime?: string;
+}
@@ -0,0 +1,62 @@
+import type { UserRole } from "@/lib/roles";
+
+// Collections the browser reaches through /api/data when the server stores
+// data locally, with the same access firestore.rules gives the client SDK.
+// Shared by the API routes and the browser, so keep it free of server imports.
+
+export interface ClientCollectionAccess {
+  read: UserRole;
+  // Role for add/update/delete; null when the collection is written elsewhere
+  write: UserRole | null;
+  // Role and fields for updates when writes are otherwise closed
+  statusUpdate?: { role: UserRole; fields: string[] };
+}
+
+export const CLIENT_COLLECTIONS: Record<string, ClientCollectionAccess> = {
+  // Created and configured through /api/algo/devices (including maxVolume);
+  // operators' status checks write status
+  devices: {
+    read: "viewer",
+    write: null,
+    statusUpdate: { role: "operator", fields: ["isOnline", "lastSeen", "authValid", "updatedAt"] },
+  },
+  zones: { read: "viewer", write: "admin" },
+  audioFiles: { read: "viewer", write: "operator" },
+  toneSets: { read: "viewer", write: "admin" },
+  // Written by the playback API routes only
+  distributionLogs: { read: "viewer", write: null },
+};
+
+/**
+ * Access rules for a collection name from a URL, or undefined if the browser
+ * can't reach it. Own keys only, so "constructor" or "__proto__" aren't found.
+ */
+export function getClientCollectionAccess(collection: string): ClientCollectionAccess | undefined {
+  return Object.hasOwn(CLIENT_COLLECTIONS, collection) ? CLIENT_COLLECTIONS[collection] : undefined;
+}
+
+// Fields sent over JSON as ISO strings and turned back into Dates
+export const DATE_FIELDS = ["createdAt", "updatedAt", "lastSeen"];
+
+/**
+ * Turn a JSON doc's date fields back into Dates
+ */
+export function reviveDates<T extends Record<string, unknown>>(data: T): T {
+  const result: Record<string, unknown> = { ...data };
+  for (const field of DATE_FIELDS) {
+    if (typeof result[field] === "string") {
+      result[field] = new Date(result[field] as string);
+    }
+  }
+  return result as T;
+}
+
+/**
+ * Copy of a doc for the browser. Devices saved before the registry may still
+ * hold a plain-text password.
+ */
+export function toClientDoc<T extends Record<string, unknown>>(doc: T): T {
+  const result: Record<string, unknown> = { ...doc };
+  delete result.apiPassword;
+  return result as T;
+}
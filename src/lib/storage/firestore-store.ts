@@ -0,0 +1,101 @@
+import { FieldValue, Timestamp, type DocumentSnapshot, type Query } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase/admin";
+import { isDeleteField, isIncrement } from "./values";
+import { StoreNotFoundError, type DataStore, type QueryOptions, type StoredData, type StoredDoc } from "./types";
+
+// gRPC status Firestore returns for update() on a missing doc
+const NOT_FOUND = 5;
+
+/**
+ * DataStore backed by Cloud Firestore (Admin SDK)
+ */
+export class FirestoreStore implements DataStore {
+  readonly mode = "firestore" as const;
+
+  async get(collection: string, id: string): Promise<StoredDoc | null> {
+    const snapshot = await adminDb.collection(collection).doc(id).get();
+    return snapshot.exists ? toDoc(snapshot) : null;
+  }
+
+  async query(collection: string, options: QueryOptions = {}): Promise<StoredDoc[]> {
+    let query: Query = adminDb.collection(collection);
+
+    for (const filter of options.where ?? []) {
+      query = query.where(filter.field, filter.op, toFirestore(filter.value));
+    }
+    if (options.orderBy) {
+      query = query.orderBy(options.orderBy.field, options.orderBy.direction ?? "asc");
+    }
+    if (options.startAfter) {
+      const cursor = await adminDb.collection(collection).doc(options.startAfter).get();
+      if (cursor.exists) {
+        query = query.startAfter(cursor);
+      }
+    }
+    if (options.limit !== undefined) {
+      query = query.limit(options.limit);
+    }
+
+    const snapshot = await query.get();
+    return snapshot.docs.map(toDoc);
+  }
+
+  async add(collection: string, data: StoredData): Promise<string> {
+    const docRef = await adminDb.collection(collection).add(toFirestoreData(data));
+    return docRef.id;
+  }
+
+  async set(collection: string, id: string, data: StoredData, options?: { merge?: boolean }): Promise<void> {
+    await adminDb
+      .collection(collection)
+      .doc(id)
+      .set(toFirestoreData(data), { merge: options?.merge ?? false });
+  }
+
+  async update(collection: string, id: string, data: StoredData): Promise<void> {
+    try {
+      await adminDb.collection(collection).doc(id).update(toFirestoreData(data));
+    } catch (error) {
+      if ((error as { code?: number }).code === NOT_FOUND) {
+        throw new StoreNotFoundError(collection, id);
+      }
+      throw error;
+    }
+  }
+
+  async delete(collection: string, id: string): Promise<void> {
+    await adminDb.collection(collection).doc(id).delete();
+  }
+}
+
+// ============ Conversion ============
+
+function toDoc(snapshot: DocumentSnapshot): StoredDoc {
+  return { id: snapshot.id, ...(fromFirestore(snapshot.data() ?? {}) as StoredData) };
+}
+
+function fromFirestore(value: unknown): unknown {
+  if (value instanceof Timestamp) return value.toDate();
+  if (Array.isArray(value)) return value.map(fromFirestore);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, fromFirestore(v)]));
+  }
+  return value;
+}
+
+// Firestore rejects undefined values, so they are dropped
+function toFirestoreData(data: StoredData): StoredData {
+  const result: StoredData = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (value !== undefined) {
+      result[key] = toFirestore(value);
+    }
+  }
+  return result;
+}
+
+function toFirestore(value: unknown): unknown {
+  if (isIncrement(value)) return FieldValue.increment(value.by);
+  if (isDeleteField(value)) return FieldValue.delete();
+  return value;
+}
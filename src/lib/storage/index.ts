@@ -0,0 +1,98 @@
+import path from "path";
+import { FirestoreStore } from "./firestore-store";
+import { LocalStore } from "./local-store";
+import { SyncStore, type SyncStatus } from "./sync-store";
+import { STORAGE_MODES, type DataStore, type StorageMode } from "./types";
+
+export { increment, deleteField } from "./values";
+export { StoreNotFoundError, type DataStore, type StorageMode, type StoredDoc, type QueryOptions } from "./types";
+export type { SyncStatus } from "./sync-store";
+
+// Storage is chosen per server process with ALGO_STORAGE (firestore, local
+// or sync - see types.ts). Local files go to ALGO_DATA_DIR, which Electron
+// points at the app's user data folder.
+
+const DEFAULT_SYNC_INTERVAL_MS = 30000;
+
+interface StorageState {
+  store: DataStore | null;
+  syncTimer: ReturnType<typeof setInterval> | null;
+}
+
+// Kept on globalThis so dev-mode module reloads share one store (and one
+// in-memory copy of the local files)
+const globalForStorage = globalThis as typeof globalThis & { algoStorage?: StorageState };
+
+function getState(): StorageState {
+  globalForStorage.algoStorage ??= { store: null, syncTimer: null };
+  return globalForStorage.algoStorage;
+}
+
+export function getStorageMode(): StorageMode {
+  const mode = process.env.ALGO_STORAGE as StorageMode | undefined;
+  if (!mode) return "firestore";
+  if (!STORAGE_MODES.includes(mode)) {
+    throw new Error(`Invalid ALGO_STORAGE "${mode}" - use ${STORAGE_MODES.join(", ")}`);
+  }
+  return mode;
+}
+
+/**
+ * The server's DataStore for the configured storage mode
+ */
+export function getDataStore(): DataStore {
+  const state = getState();
+  if (!state.store) {
+    const mode = getStorageMode();
+    const dataDir = process.env.ALGO_DATA_DIR || path.join(process.cwd(), ".algo-data");
+
+    if (mode === "firestore") {
+      state.store = new FirestoreStore();
+    } else if (mode === "local") {
+      state.store = new LocalStore(dataDir);
+    } else {
+      state.store = new SyncStore(new LocalStore(dataDir), new FirestoreStore());
+    }
+    console.log(`[Storage] Using ${mode} storage${mode === "firestore" ? "" : ` in ${dataDir}`}`);
+  }
+  return state.store;
+}
+
+// ============ Sync ============
+
+/**
+ * In sync mode, reconcile with Firestore now and then every
+ * ALGO_SYNC_INTERVAL_MS (default 30s). Does nothing in other modes.
+ */
+export function startStorageSync(): void {
+  const state = getState();
+  const store = getDataStore();
+  if (!(store instanceof SyncStore) || state.syncTimer) return;
+
+  const configured = parseInt(process.env.ALGO_SYNC_INTERVAL_MS ?? "", 10);
+  const intervalMs = configured > 0 ? configured : DEFAULT_SYNC_INTERVAL_MS;
+
+  console.log(`[Storage] Syncing with Firestore every ${Math.round(intervalMs / 1000)}s`);
+  state.syncTimer = setInterval(() => void store.sync(), intervalMs);
+  state.syncTimer.unref?.();
+  void store.sync();
+}
+
+/**
+ * Storage mode, plus the sync state in sync mode
+ */
+export async function getStorageStatus(): Promise<{ mode: StorageMode; sync?: SyncStatus }> {
+  const store = getDataStore();
+  if (store instanceof SyncStore) {
+    return { mode: store.mode, sync: await store.getStatus() };
+  }
+  return { mode: store.mode };
+}
+
+/**
+ * Run a sync now (sync mode only). Returns null in other modes.
+ */
+export async function syncStorageNow(): Promise<SyncStatus | null> {
+  const store = getDataStore();
+  return store instanceof SyncStore ? store.sync() : null;
+}
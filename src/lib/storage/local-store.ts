@@ -0,0 +1,158 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { applyWrite, cloneData, decodeJson, encodeJson, generateId, runQuery } from "./values";
+import { StoreNotFoundError, type DataStore, type QueryOptions, type StoredData, type StoredDoc } from "./types";
+
+// File-backed DataStore for stations that must keep working offline.
+//
+// Each collection is one append-only log, <dir>/<collection>.jsonl: every
+// write appends the doc's new contents ({"put": id, "data": ...}) or a
+// deletion ({"del": id}), and loading replays the log. Appends are cheap,
+// and a crash can at worst cut off the last line. Once the log holds more
+// than twice as many lines as live docs it is rewritten (compacted) through
+// a temp file and rename.
+
+// Below this many lines a log is never compacted
+const COMPACT_MIN_LINES = 500;
+
+const COLLECTION_NAME = /^[A-Za-z0-9_-]+$/;
+
+type LogEntry = { put: string; data: StoredData } | { del: string };
+
+interface LocalCollection {
+  docs: Map<string, StoredData>;
+  lines: number;
+  // Appends for this collection run one at a time, in write order
+  writes: Promise<void>;
+}
+
+export class LocalStore implements DataStore {
+  readonly mode = "local" as const;
+  private readonly collections = new Map<string, Promise<LocalCollection>>();
+
+  constructor(private readonly dir: string) {}
+
+  async get(collection: string, id: string): Promise<StoredDoc | null> {
+    const data = (await this.open(collection)).docs.get(id);
+    return data ? { id, ...cloneData(data) } : null;
+  }
+
+  async query(collection: string, options?: QueryOptions): Promise<StoredDoc[]> {
+    const { docs } = await this.open(collection);
+    const all = Array.from(docs, ([id, data]) => ({ id, ...data }));
+    return runQuery(all, options).map(cloneData);
+  }
+
+  async add(collection: string, data: StoredData): Promise<string> {
+    const id = generateId();
+    await this.set(collection, id, data);
+    return id;
+  }
+
+  async set(collection: string, id: string, data: StoredData, options?: { merge?: boolean }): Promise<void> {
+    const col = await this.open(collection);
+    const next = cloneData(applyWrite(col.docs.get(id), data, options?.merge ?? false));
+    col.docs.set(id, next);
+    await this.append(collection, col, { put: id, data: next });
+  }
+
+  async update(collection: string, id: string, data: StoredData): Promise<void> {
+    const col = await this.open(collection);
+    const existing = col.docs.get(id);
+    if (!existing) {
+      throw new StoreNotFoundError(collection, id);
+    }
+    const next = cloneData(applyWrite(existing, data, true));
+    col.docs.set(id, next);
+    await this.append(collection, col, { put: id, data: next });
+  }
+
+  async delete(collection: string, id: string): Promise<void> {
+    const col = await this.open(collection);
+    if (!col.docs.delete(id)) return;
+    await this.append(collection, col, { del: id });
+  }
+
+  // ============ Files ============
+
+  private open(collection: string): Promise<LocalCollection> {
+    if (!COLLECTION_NAME.test(collection)) {
+      return Promise.reject(new Error(`Invalid collection name "${collection}"`));
+    }
+
+    let col = this.collections.get(collection);
+    if (!col) {
+      col = this.load(collection);
+      this.collections.set(collection, col);
+      // Let a failed load (e.g. unreadable file) be retried
+      col.catch(() => this.collections.delete(collection));
+    }
+    return col;
+  }
+
+  private async load(collection: string): Promise<LocalCollection> {
+    const docs = new Map<string, StoredData>();
+    let lines = 0;
+
+    let text = "";
+    try {
+      text = await fs.readFile(this.filePath(collection), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      let entry: LogEntry;
+      try {
+        entry = decodeJson<LogEntry>(line);
+      } catch {
+        console.warn(`[LocalStore] Skipping unreadable line in ${collection}.jsonl`);
+        continue;
+      }
+      if ("put" in entry) {
+        docs.set(entry.put, entry.data);
+      } else {
+        docs.delete(entry.del);
+      }
+      lines++;
+    }
+
+    return { docs, lines, writes: Promise.resolve() };
+  }
+
+  private append(collection: string, col: LocalCollection, entry: LogEntry): Promise<void> {
+    const write = col.writes.then(async () => {
+      await fs.mkdir(this.dir, { recursive: true });
+
+      if (col.lines >= COMPACT_MIN_LINES && col.lines >= col.docs.size * 2) {
+        // The snapshot already includes this entry's change
+        await this.compact(collection, col);
+        return;
+      }
+
+      await fs.appendFile(this.filePath(collection), encodeJson(entry) + "\n", "utf8");
+      col.lines++;
+    });
+
+    // A failed write must not block the ones queued after it
+    col.writes = write.catch((error) => {
+      console.error(`[LocalStore] Failed to write ${collection}:`, error);
+    });
+    return write;
+  }
+
+  private async compact(collection: string, col: LocalCollection): Promise<void> {
+    const target = this.filePath(collection);
+    const temp = `${target}.tmp`;
+    const lines = Array.from(col.docs, ([id, data]) => encodeJson({ put: id, data }) + "\n");
+
+    await fs.writeFile(temp, lines.join(""), "utf8");
+    await fs.rename(temp, target);
+    col.lines = lines.length;
+  }
+
+  private filePath(collection: string): string {
+    return path.join(this.dir, `${collection}.jsonl`);
+  }
+}
@@ -0,0 +1,204 @@
+import type { FirestoreStore } from "./firestore-store";
+import type { LocalStore } from "./local-store";
+import { generateId, sameData } from "./values";
+import { StoreNotFoundError, type DataStore, type QueryOptions, type StoredData, type StoredDoc } from "./types";
+
+// Local-first store that mirrors Firestore. Reads and writes only touch the
+// local files, so the station keeps working without internet; every write is
+// also queued in an outbox, and sync() reconciles the two when Firestore is
+// reachable:
+//   1. push - replay queued writes to Firestore, oldest first
+//   2. pull - copy configuration (devices, zones, audio library, schedules)
+//      changed by other clients into the local files
+// A doc with local writes still queued keeps its local version, so changes
+// made offline win over ones made in the cloud meanwhile. History and health
+// data are only pushed.
+
+const OUTBOX = "_syncOutbox";
+// IDs each pulled collection had in Firestore at the last sync
+const KNOWN = "_syncKnown";
+
+// Collections copied down from Firestore on every sync
+const PULLED_COLLECTIONS = ["devices", "deviceSecrets", "zones", "audioFiles", "toneSets", "schedules", "holidays"];
+
+interface OutboxEntry {
+  seq: number;
+  collection: string;
+  docId: string;
+  op: "set" | "update" | "delete";
+  data?: StoredData;
+  merge?: boolean;
+}
+
+export interface SyncStatus {
+  pending: number; // Writes not yet pushed to Firestore
+  online: boolean | null; // Whether the last sync reached Firestore; null before the first
+  lastSyncAt: Date | null;
+  lastError?: string;
+}
+
+export class SyncStore implements DataStore {
+  readonly mode = "sync" as const;
+  private lastSeq = 0;
+  private syncing: Promise<SyncStatus> | null = null;
+  private status: Omit<SyncStatus, "pending"> = { online: null, lastSyncAt: null };
+
+  constructor(
+    private readonly local: LocalStore,
+    private readonly remote: FirestoreStore
+  ) {}
+
+  get(collection: string, id: string): Promise<StoredDoc | null> {
+    return this.local.get(collection, id);
+  }
+
+  query(collection: string, options?: QueryOptions): Promise<StoredDoc[]> {
+    return this.local.query(collection, options);
+  }
+
+  // The ID is generated locally, so the doc keeps it in Firestore
+  async add(collection: string, data: StoredData): Promise<string> {
+    const id = generateId();
+    await this.set(collection, id, data);
+    return id;
+  }
+
+  // Queued before the local write: after a crash in between, the write is
+  // still pushed (and pulled back) rather than silently lost
+  async set(collection: string, id: string, data: StoredData, options?: { merge?: boolean }): Promise<void> {
+    await this.enqueue({ collection, docId: id, op: "set", data, merge: options?.merge ?? false });
+    await this.local.set(collection, id, data, options);
+  }
+
+  async update(collection: string, id: string, data: StoredData): Promise<void> {
+    if (!(await this.local.get(collection, id))) {
+      throw new StoreNotFoundError(collection, id);
+    }
+    await this.enqueue({ collection, docId: id, op: "update", data });
+    await this.local.update(collection, id, data);
+  }
+
+  async delete(collection: string, id: string): Promise<void> {
+    await this.enqueue({ collection, docId: id, op: "delete" });
+    await this.local.delete(collection, id);
+  }
+
+  // ============ Sync ============
+
+  /**
+   * Push queued writes, then pull configuration changes. Concurrent calls
+   * share one run.
+   */
+  sync(): Promise<SyncStatus> {
+    this.syncing ??= this.runSync().finally(() => {
+      this.syncing = null;
+    });
+    return this.syncing;
+  }
+
+  async getStatus(): Promise<SyncStatus> {
+    const pending = await this.local.query(OUTBOX);
+    return { ...this.status, pending: pending.length };
+  }
+
+  private async runSync(): Promise<SyncStatus> {
+    try {
+      const pushed = await this.push();
+      const pulled = await this.pull();
+      if (pushed > 0 || pulled > 0) {
+        console.log(`[Sync] Pushed ${pushed} writes, pulled ${pulled} changes`);
+      }
+      if (this.status.online === false) {
+        console.log("[Sync] Firestore reachable again");
+      }
+      this.status = { online: true, lastSyncAt: new Date() };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (this.status.online !== false) {
+        console.warn("[Sync] Firestore unreachable, working from local data:", message);
+      }
+      this.status = { ...this.status, online: false, lastError: message };
+    }
+    return this.getStatus();
+  }
+
+  private async push(): Promise<number> {
+    const entries = (await this.local.query(OUTBOX, { orderBy: { field: "seq" } })) as unknown as (OutboxEntry & {
+      id: string;
+    })[];
+
+    for (const entry of entries) {
+      try {
+        await this.applyRemote(entry);
+      } catch (error) {
+        if (!(error instanceof StoreNotFoundError)) throw error;
+        // Updated here, deleted in the cloud - the deletion wins
+        console.warn(`[Sync] Dropped update to ${entry.collection}/${entry.docId}, deleted remotely`);
+      }
+      await this.local.delete(OUTBOX, entry.id);
+    }
+    return entries.length;
+  }
+
+  private async applyRemote(entry: OutboxEntry): Promise<void> {
+    switch (entry.op) {
+      case "set":
+        return this.remote.set(entry.collection, entry.docId, entry.data ?? {}, { merge: entry.merge });
+      case "update":
+        return this.remote.update(entry.collection, entry.docId, entry.data ?? {});
+      case "delete":
+        return this.remote.delete(entry.collection, entry.docId);
+    }
+  }
+
+  private async pull(): Promise<number> {
+    let changed = 0;
+
+    for (const collection of PULLED_COLLECTIONS) {
+      const remoteDocs = await this.remote.query(collection);
+      // Checked after the fetch, so writes made meanwhile are respected
+      const pending = new Set(
+        (await this.local.query(OUTBOX, { where: [{ field: "collection", op: "==", value: collection }] })).map(
+          (entry) => entry.docId as string
+        )
+      );
+      const localDocs = new Map((await this.local.query(collection)).map(({ id, ...data }) => [id, data]));
+      const known = new Set(((await this.local.get(KNOWN, collection))?.ids as string[] | undefined) ?? []);
+
+      for (const { id, ...data } of remoteDocs) {
+        if (pending.has(id)) continue;
+        const current = localDocs.get(id);
+        if (!current || !sameData(current, data)) {
+          await this.local.set(collection, id, data);
+          changed++;
+        }
+      }
+
+      const remoteIds = new Set(remoteDocs.map((doc) => doc.id));
+      for (const [id, data] of localDocs) {
+        if (remoteIds.has(id) || pending.has(id)) continue;
+        if (known.has(id)) {
+          // Was in Firestore at the last sync, so it was deleted there
+          await this.local.delete(collection, id);
+        } else {
+          // Never made it to Firestore (e.g. created before switching from
+          // local to sync mode) - upload it instead of dropping it
+          await this.remote.set(collection, id, data);
+          remoteIds.add(id);
+        }
+        changed++;
+      }
+
+      if (remoteIds.size !== known.size || [...remoteIds].some((id) => !known.has(id))) {
+        await this.local.set(KNOWN, collection, { ids: Array.from(remoteIds) });
+      }
+    }
+    return changed;
+  }
+
+  private async enqueue(entry: Omit<OutboxEntry, "seq">): Promise<void> {
+    // Strictly increasing, so the outbox replays in write order
+    this.lastSeq = Math.max(Date.now(), this.lastSeq + 1);
+    await this.local.add(OUTBOX, { ...entry, seq: this.lastSeq });
+  }
+}
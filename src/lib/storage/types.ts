@@ -0,0 +1,63 @@
+// Server-side document storage. Everything the server persists (devices,
+// zones, audio library, history, health data) goes through a DataStore, so
+// a station can run from local files as well as from Firestore.
+
+// "firestore": Firestore only (default)
+// "local":     files in ALGO_DATA_DIR only, no cloud
+// "sync":      local files first, mirrored to Firestore whenever it is reachable
+export type StorageMode = "firestore" | "local" | "sync";
+
+export const STORAGE_MODES: StorageMode[] = ["firestore", "local", "sync"];
+
+// Field values are plain JSON values or Dates (Firestore Timestamps are
+// converted to Dates on read)
+export type StoredData = Record<string, unknown>;
+
+export interface StoredDoc extends StoredData {
+  id: string;
+}
+
+export type FilterOp = "==" | "<" | "<=" | ">" | ">=";
+
+export interface QueryFilter {
+  field: string;
+  op: FilterOp;
+  value: unknown;
+}
+
+export interface QueryOptions {
+  where?: QueryFilter[];
+  orderBy?: { field: string; direction?: "asc" | "desc" };
+  limit?: number;
+  startAfter?: string; // ID of the last doc of the previous page
+}
+
+export interface DataStore {
+  readonly mode: StorageMode;
+
+  get(collection: string, id: string): Promise<StoredDoc | null>;
+  query(collection: string, options?: QueryOptions): Promise<StoredDoc[]>;
+
+  /** Create a doc with a generated ID and return the ID */
+  add(collection: string, data: StoredData): Promise<string>;
+  /** Create or replace a doc; with merge, only the given fields are written */
+  set(collection: string, id: string, data: StoredData, options?: { merge?: boolean }): Promise<void>;
+  /** Change fields of an existing doc. Throws StoreNotFoundError if it doesn't exist. */
+  update(collection: string, id: string, data: StoredData): Promise<void>;
+  delete(collection: string, id: string): Promise<void>;
+}
+
+/**
+ * update() on a doc that doesn't exist
+ */
+export class StoreNotFoundError extends Error {
+  readonly collection: string;
+  readonly id: string;
+
+  constructor(collection: string, id: string) {
+    super(`No document ${collection}/${id}`);
+    this.name = "StoreNotFoundError";
+    this.collection = collection;
+    this.id = id;
+  }
+}
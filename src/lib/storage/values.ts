@@ -0,0 +1,174 @@
+import { randomBytes } from "crypto";
+import type { FilterOp, QueryOptions, StoredData, StoredDoc } from "./types";
+
+// Field value helpers shared by the stores: write sentinels, JSON encoding
+// for the local files, and in-memory query evaluation.
+
+// ============ Sentinels ============
+
+class IncrementValue {
+  constructor(readonly by: number) {}
+}
+
+class DeleteFieldValue {
+  readonly deleteField = true;
+}
+
+/**
+ * Write value that adds to a numeric field (missing counts as 0)
+ */
+export function increment(by: number): unknown {
+  return new IncrementValue(by);
+}
+
+/**
+ * Write value that removes a field (update and merge writes only)
+ */
+export function deleteField(): unknown {
+  return new DeleteFieldValue();
+}
+
+export function isIncrement(value: unknown): value is IncrementValue {
+  return value instanceof IncrementValue;
+}
+
+export function isDeleteField(value: unknown): value is DeleteFieldValue {
+  return value instanceof DeleteFieldValue;
+}
+
+/**
+ * Apply a write to an existing doc's fields, resolving sentinels
+ */
+export function applyWrite(existing: StoredData | undefined, data: StoredData, merge: boolean): StoredData {
+  const result: StoredData = merge && existing ? { ...existing } : {};
+  for (const [key, value] of Object.entries(data)) {
+    // Undefined fields are skipped, as the Firestore store drops them
+    if (value === undefined) continue;
+    if (isDeleteField(value)) {
+      delete result[key];
+    } else if (isIncrement(value)) {
+      const current = typeof result[key] === "number" ? (result[key] as number) : 0;
+      result[key] = current + value.by;
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+// ============ Encoding ============
+
+// Dates and sentinels survive a round trip through JSON as tagged objects
+export function encodeJson(value: unknown): string {
+  return JSON.stringify(value, function (this: Record<string, unknown>, key, encoded) {
+    const raw = this[key];
+    if (raw instanceof Date) return { __date: raw.toISOString() };
+    if (isIncrement(raw)) return { __increment: raw.by };
+    if (isDeleteField(raw)) return { __deleteField: true };
+    return encoded;
+  });
+}
+
+export function decodeJson<T>(text: string): T {
+  return JSON.parse(text, (_key, value) => {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      if (typeof value.__date === "string") return new Date(value.__date);
+      if (typeof value.__increment === "number") return increment(value.__increment);
+      if (value.__deleteField === true) return deleteField();
+    }
+    return value;
+  });
+}
+
+/**
+ * Deep copy that keeps Dates and sentinels
+ */
+export function cloneData<T>(value: T): T {
+  return decodeJson<T>(encodeJson(value));
+}
+
+/**
+ * Whether two docs hold the same fields and values, regardless of key order
+ */
+export function sameData(a: StoredData, b: StoredData): boolean {
+  return encodeJson(sortKeys(a)) === encodeJson(sortKeys(b));
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === "object" && value.constructor === Object) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * 20-character ID in the style of Firestore auto IDs, so docs created
+ * offline keep their ID when synced
+ */
+export function generateId(): string {
+  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  return Array.from(randomBytes(20), (byte) => chars[byte % chars.length]).join("");
+}
+
+// ============ Queries ============
+
+/**
+ * Run a query against docs held in memory, with Firestore's semantics for
+ * the subset of queries the app uses
+ */
+export function runQuery(docs: StoredDoc[], options: QueryOptions = {}): StoredDoc[] {
+  let results = docs.filter((doc) =>
+    (options.where ?? []).every((filter) => matches(doc[filter.field], filter.op, filter.value))
+  );
+
+  if (options.orderBy) {
+    const { field, direction = "asc" } = options.orderBy;
+    // Like Firestore, ordering by a field leaves out docs without it
+    results = results.filter((doc) => doc[field] !== undefined && doc[field] !== null);
+    results.sort((a, b) => {
+      const order = compareValues(a[field], b[field]) || a.id.localeCompare(b.id);
+      return direction === "desc" ? -order : order;
+    });
+  }
+
+  if (options.startAfter) {
+    const index = results.findIndex((doc) => doc.id === options.startAfter);
+    if (index >= 0) {
+      results = results.slice(index + 1);
+    }
+  }
+
+  return options.limit !== undefined ? results.slice(0, options.limit) : results;
+}
+
+function matches(value: unknown, op: FilterOp, expected: unknown): boolean {
+  if (value === undefined) return false;
+  const order = compareValues(value, expected);
+  switch (op) {
+    case "==":
+      return order === 0;
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+    case ">":
+      return order > 0;
+    case ">=":
+      return order >= 0;
+  }
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+  if (typeof left === "number" && typeof right === "number") return left - right;
+  if (typeof left === "string" && typeof right === "string") return left < right ? -1 : left > right ? 1 : 0;
+  if (typeof left === "boolean" && typeof right === "boolean") return Number(left) - Number(right);
+  // Different types never match each other
+  return left === right ? 0 : NaN;
+}
@@ -55,6 +55,19 @@ export function isValidIpAddress(ip: string): boolean {
   });
 }
 
+/**
+ * Validate a device address - an IP address with an optional port
+ * e.g., "192.168.1.100" or "127.0.0.1:9101" (local simulator)
+ */
+export function isValidDeviceAddress(address: string): boolean {
+  const [ip, port, ...rest] = address.split(":");
+  if (rest.length > 0 || !isValidIpAddress(ip)) return false;
+  if (port === undefined) return true;
+
+  const portNumber = parseInt(port, 10);
+  return /^\d+$/.test(port) && portNumber > 0 && portNumber <= 65535;
+}
+
 /**
  * Generate a random string ID
  */
@@ -62,6 +75,18 @@ export function generateId(): string {
   return Math.random().toString(36).substring(2, 15);
 }
 
+/**
+ * Convert a display name to a URL-safe slug
+ * e.g., "Apparatus Bay 1" -> "apparatus-bay-1"
+ */
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
 /**
  * Delay execution
  */